@@ -0,0 +1,111 @@
+// Local mock of the backend admin socket
+//
+// Usage: npm run mock:socket [-- --port 3002 --interval 5000]
+// then start the app with NEXT_PUBLIC_WEBSOCKET_URL=ws://localhost:3002
+//
+// Accepts any non-empty token on /ws/admin and emits a random sample event
+// every interval. Send "reject" as the token to exercise the auth close path.
+
+import { WebSocketServer } from "ws";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const port = option("port", 3002);
+const interval = option("interval", 5000);
+
+const usernames = ["tafara", "rudo", "nyasha", "tendai", "chipo"];
+const providers = ["ECOCASH", "ONEMONEY", "TELECASH"];
+const statuses = ["OPEN", "ACTIVE", "COMPLETED", "CANCELLED"];
+
+const pick = (items) => items[Math.floor(Math.random() * items.length)];
+const id = () => Math.random().toString(36).slice(2, 10);
+const amount = () => Math.round(Math.random() * 5000) / 100 + 1;
+
+let online = 120;
+
+const generators = {
+  "payment.created": () => ({
+    paymentId: id(),
+    userId: id(),
+    username: pick(usernames),
+    amount: amount(),
+    currency: "USD",
+    type: "ENTRY_FEE",
+    status: "COMPLETED",
+  }),
+  "withdrawal.requested": () => ({
+    withdrawalId: id(),
+    userId: id(),
+    username: pick(usernames),
+    amount: amount(),
+    currency: "USD",
+    mobileMoneyProviderCode: pick(providers),
+  }),
+  "chat.flagged": () => ({
+    messageId: id(),
+    tournamentId: id(),
+    userId: id(),
+    username: pick(usernames),
+    message: "Sample flagged message",
+    reason: pick(["inappropriate_language", "spam", "harassment"]),
+    severity: pick(["low", "medium", "high"]),
+  }),
+  "tournament.status_changed": () => {
+    const status = pick(statuses);
+    return {
+      tournamentId: id(),
+      title: "Friday Night Chess",
+      previousStatus: statuses[Math.max(0, statuses.indexOf(status) - 1)],
+      status,
+    };
+  },
+  "players.online": () => {
+    online = Math.max(0, online + Math.round((Math.random() - 0.5) * 20));
+    return {
+      online,
+      activeSessions: Math.round(online * 0.4),
+      byGame: { chess: Math.round(online * 0.6), checkers: Math.round(online * 0.4) },
+    };
+  },
+};
+
+const wss = new WebSocketServer({ port, path: "/ws/admin" });
+
+wss.on("connection", (socket, request) => {
+  const token = new URL(request.url, "http://localhost").searchParams.get(
+    "token"
+  );
+
+  if (!token || token === "reject") {
+    console.log("Rejected connection without a valid token");
+    socket.close(4001, "Unauthorized");
+    return;
+  }
+
+  console.log(`Admin connected (${wss.clients.size} open)`);
+  socket.on("close", () =>
+    console.log(`Admin disconnected (${wss.clients.size} open)`)
+  );
+});
+
+setInterval(() => {
+  // Online counts change often; everything else is occasional
+  const type =
+    Math.random() < 0.5 ? "players.online" : pick(Object.keys(generators));
+  const message = JSON.stringify({
+    type,
+    payload: generators[type](),
+    timestamp: new Date().toISOString(),
+  });
+
+  wss.clients.forEach((client) => {
+    if (client.readyState === client.OPEN) client.send(message);
+  });
+  if (wss.clients.size > 0) console.log(`-> ${type}`);
+}, interval);
+
+console.log(`Mock admin socket listening on ws://localhost:${port}/ws/admin`);
@@ -0,0 +1,343 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ClipboardDocumentListIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  auditService,
+  AuditEntry,
+  AuditFilters,
+} from "@/services/AuditService";
+import AuditEntryDetail from "@/components/admin/audit/AuditEntryDetail";
+import {
+  auditEntriesToCsv,
+  AuditEntityType,
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_LABELS,
+} from "@/lib/audit";
+import { downloadFile } from "@/lib/csv";
+
+const PAGE_SIZE = 50;
+
+const inputClass =
+  "border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Date inputs give local calendar days; the API expects instants
+const toRange = (from: string, to: string) => ({
+  from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+  to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+});
+
+export default function AuditLogPage() {
+  const [actorId, setActorId] = useState("");
+  const [entityType, setEntityType] = useState<AuditEntityType | "">("");
+  const [action, setAction] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filters: AuditFilters = {
+    actorId: actorId || undefined,
+    entityType: entityType || undefined,
+    action: action || undefined,
+    ...toRange(from, to),
+  };
+
+  const entriesQuery = useQuery({
+    queryKey: ["audit", filters, page],
+    queryFn: () => auditService.getEntries(filters, page, PAGE_SIZE),
+  });
+
+  const actorsQuery = useQuery({
+    queryKey: ["audit", "actors"],
+    queryFn: () => auditService.getActors(),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const actions = entityType
+    ? AUDIT_ACTIONS.filter((a) => a.startsWith(`${entityType}.`))
+    : AUDIT_ACTIONS;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const entries = await auditService.getAllEntries(filters);
+      downloadFile(
+        auditEntriesToCsv(entries),
+        `audit-log-${format(new Date(), "yyyy-MM-dd-HHmm")}.csv`
+      );
+      toast.success(`Exported ${entries.length} entries`);
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      toast.error("Failed to export audit log");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const entries = entriesQuery.data?.entries || [];
+  const pagination = entriesQuery.data?.pagination;
+
+  const renderEntry = (entry: AuditEntry) => {
+    const expanded = expandedId === entry.id;
+    return (
+      <React.Fragment key={entry.id}>
+        <tr
+          onClick={() => setExpandedId(expanded ? null : entry.id)}
+          className="cursor-pointer hover:bg-gray-50"
+        >
+          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+            <div className="flex items-center">
+              {expanded ? (
+                <ChevronDownIcon className="h-4 w-4 mr-2 text-gray-400" />
+              ) : (
+                <ChevronRightIcon className="h-4 w-4 mr-2 text-gray-400" />
+              )}
+              {format(new Date(entry.createdAt), "d MMM yyyy, HH:mm:ss")}
+            </div>
+          </td>
+          <td className="px-4 py-3 whitespace-nowrap">
+            <div className="text-sm font-medium text-gray-900">
+              {entry.actor.name}
+            </div>
+            <div className="text-xs text-gray-500">{entry.actor.role}</div>
+          </td>
+          <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-gray-700">
+            {entry.action}
+          </td>
+          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+            {AUDIT_ENTITY_LABELS[entry.entityType] ?? entry.entityType}
+            {entry.entityId && (
+              <span className="ml-1 font-mono text-xs text-gray-500">
+                {entry.entityId}
+              </span>
+            )}
+          </td>
+          <td className="px-4 py-3 whitespace-nowrap">
+            <span
+              className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                entry.outcome === "succeeded"
+                  ? "bg-green-100 text-green-800"
+                  : "bg-red-100 text-red-800"
+              }`}
+            >
+              {entry.outcome}
+            </span>
+          </td>
+        </tr>
+        {expanded && (
+          <tr>
+            <td colSpan={5} className="px-4 py-4 bg-gray-50">
+              <AuditEntryDetail entry={entry} />
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Audit Log</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Every change made through the admin panel: who made it, when and
+            to what
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => entriesQuery.refetch()}
+            disabled={entriesQuery.isFetching}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowPathIcon
+              className={`h-4 w-4 mr-2 ${entriesQuery.isFetching ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="inline-flex items-center px-3 py-2 border border-transparent shadow-sm text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export CSV"}
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow rounded-lg p-4 flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Actor</label>
+          <select
+            value={actorId}
+            onChange={(e) => {
+              setActorId(e.target.value);
+              setPage(1);
+            }}
+            className={inputClass}
+          >
+            <option value="">All admins</option>
+            {actorsQuery.data?.map((actor) => (
+              <option key={actor.id} value={actor.id}>
+                {actor.name} ({actor.role})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Entity</label>
+          <select
+            value={entityType}
+            onChange={(e) => {
+              setEntityType(e.target.value as AuditEntityType | "");
+              setAction("");
+              setPage(1);
+            }}
+            className={inputClass}
+          >
+            <option value="">All entities</option>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Action</label>
+          <select
+            value={action}
+            onChange={(e) => {
+              setAction(e.target.value);
+              setPage(1);
+            }}
+            className={inputClass}
+          >
+            <option value="">All actions</option>
+            {actions.map((a) => (
+              <option key={a} value={a}>
+                {a}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">From</label>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => {
+              setFrom(e.target.value);
+              setPage(1);
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">To</label>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => {
+              setTo(e.target.value);
+              setPage(1);
+            }}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {entriesQuery.isLoading ? (
+          <div className="p-6 space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+            ))}
+          </div>
+        ) : entriesQuery.error ? (
+          <div className="m-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+            {entriesQuery.error instanceof Error
+              ? entriesQuery.error.message
+              : "Failed to load the audit log"}
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <ClipboardDocumentListIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No entries
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Nothing matches these filters.
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actor
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Entity
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Outcome
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(renderEntry)}
+            </tbody>
+          </table>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-between text-sm text-gray-700">
+            <span>
+              Page {pagination.currentPage} of {pagination.totalPages} (
+              {pagination.totalItems} entries)
+            </span>
+            <div className="space-x-2">
+              <button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={!pagination.hasPreviousPage}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={!pagination.hasNextPage}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,55 +1,40 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
 import {
   UsersIcon,
   TrophyIcon,
   CreditCardIcon,
   ChartBarIcon,
+  SignalIcon,
+  PuzzlePieceIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  WrenchScrewdriverIcon,
 } from "@heroicons/react/24/outline";
+import { adminStatsService } from "@/services/AdminStatsService";
+import { paymentService } from "@/services/PaymentService";
+import {
+  buildDashboardMetrics,
+  computeDelta,
+  formatDelta,
+  getPreviousMonthToDate,
+  getPreviousPeriodSnapshot,
+  recordMetricsSnapshot,
+  MetricDelta,
+  MetricsSnapshot,
+} from "@/lib/dashboard-metrics";
+import {
+  getMaintenancePhase,
+  getOpenWindows,
+  MAINTENANCE_PHASE_COLORS,
+} from "@/lib/maintenance";
+import { useMaintenanceWindows } from "@/hooks/useMaintenance";
+import { DashboardMetrics } from "@/types/admin";
 
-// Mock data - replace with real API calls
-const mockStats = {
-  totalUsers: 1247,
-  activeUsers: 892,
-  activeTournaments: 5,
-  totalRevenue: 15420,
-};
-
-const stats = [
-  {
-    name: "Total Users",
-    value: mockStats.totalUsers.toLocaleString(),
-    change: "+12%",
-    changeType: "increase" as const,
-    icon: UsersIcon,
-    color: "blue" as const,
-  },
-  {
-    name: "Active Users",
-    value: mockStats.activeUsers.toLocaleString(),
-    change: "+8%",
-    changeType: "increase" as const,
-    icon: UsersIcon,
-    color: "green" as const,
-  },
-  {
-    name: "Active Tournaments",
-    value: mockStats.activeTournaments.toString(),
-    change: "+2",
-    changeType: "increase" as const,
-    icon: TrophyIcon,
-    color: "purple" as const,
-  },
-  {
-    name: "Total Revenue",
-    value: `$${mockStats.totalRevenue.toLocaleString()}`,
-    change: "+23%",
-    changeType: "increase" as const,
-    icon: CreditCardIcon,
-    color: "green" as const,
-  },
-];
+const REFRESH_INTERVAL = 30000; // 30 seconds
 
 const colorClasses = {
   blue: "bg-blue-500",
@@ -59,54 +44,304 @@ const colorClasses = {
   purple: "bg-purple-500",
 };
 
+interface StatCardProps {
+  name: string;
+  value?: string;
+  delta?: MetricDelta | null;
+  deltaLabel?: string;
+  deltaAsPercentage?: boolean;
+  icon: React.ComponentType<{ className?: string }>;
+  color: keyof typeof colorClasses;
+  isLoading: boolean;
+  error: unknown;
+}
+
+function StatCard({
+  name,
+  value,
+  delta,
+  deltaLabel,
+  deltaAsPercentage = true,
+  icon: Icon,
+  color,
+  isLoading,
+  error,
+}: StatCardProps) {
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-white px-4 py-5 shadow sm:px-6 sm:py-6">
+      <dt>
+        <div className={`absolute rounded-md p-3 ${colorClasses[color]}`}>
+          <Icon className="h-6 w-6 text-white" aria-hidden="true" />
+        </div>
+        <p className="ml-16 truncate text-sm font-medium text-gray-700">
+          {name}
+        </p>
+      </dt>
+      <dd className="ml-16">
+        {isLoading ? (
+          <div className="mt-1 h-7 w-24 animate-pulse rounded bg-gray-200" />
+        ) : error || value === undefined ? (
+          <p className="flex items-center text-sm text-red-600">
+            <ExclamationTriangleIcon className="mr-1 h-4 w-4" />
+            Unavailable
+          </p>
+        ) : (
+          <>
+            <div className="flex items-baseline">
+              <p className="text-2xl font-semibold text-gray-900">{value}</p>
+              {delta && (
+                <p
+                  className={`ml-2 flex items-baseline text-sm font-semibold ${
+                    delta.direction === "increase"
+                      ? "text-green-600"
+                      : delta.direction === "decrease"
+                      ? "text-red-600"
+                      : "text-gray-500"
+                  }`}
+                >
+                  {formatDelta(delta, deltaAsPercentage)}
+                </p>
+              )}
+            </div>
+            {delta && deltaLabel && (
+              <p className="text-xs text-gray-500">{deltaLabel}</p>
+            )}
+          </>
+        )}
+      </dd>
+    </div>
+  );
+}
+
+function MaintenanceSchedule() {
+  const windowsQuery = useMaintenanceWindows();
+  const windows = getOpenWindows(windowsQuery.data || []);
+
+  if (windowsQuery.isLoading || windowsQuery.error || windows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="flex items-center text-lg font-medium leading-6 text-gray-900">
+          <WrenchScrewdriverIcon className="mr-2 h-5 w-5 text-gray-500" />
+          Maintenance
+        </h3>
+        <ul className="mt-4 divide-y divide-gray-200">
+          {windows.map((maintenance) => {
+            const phase = getMaintenancePhase(maintenance);
+            return (
+              <li
+                key={maintenance.id}
+                className="flex items-center justify-between py-3"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {maintenance.title}
+                  </p>
+                  <p className="text-sm text-gray-700">
+                    {format(new Date(maintenance.startsAt), "d MMM, HH:mm")} –{" "}
+                    {format(new Date(maintenance.endsAt), "d MMM, HH:mm")}
+                    {phase === "active"
+                      ? ` · ends ${formatDistanceToNow(
+                          new Date(maintenance.endsAt),
+                          { addSuffix: true }
+                        )}`
+                      : ` · starts ${formatDistanceToNow(
+                          new Date(maintenance.startsAt),
+                          { addSuffix: true }
+                        )}`}
+                  </p>
+                </div>
+                <span
+                  className={`rounded-full px-2 py-1 text-xs font-semibold capitalize ${MAINTENANCE_PHASE_COLORS[phase]}`}
+                >
+                  {phase}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
 export default function DashboardPage() {
+  const statsQuery = useQuery({
+    queryKey: ["dashboard", "stats"],
+    queryFn: () => adminStatsService.getDashboardData(),
+    refetchInterval: REFRESH_INTERVAL,
+    staleTime: 0,
+  });
+
+  const revenueQuery = useQuery({
+    queryKey: ["dashboard", "revenue"],
+    queryFn: () => paymentService.getAnalytics(),
+    refetchInterval: REFRESH_INTERVAL,
+    staleTime: 0,
+  });
+
+  // Revenue for the same stretch of last month, as revenueThisMonth is
+  // month-to-date
+  const previousRevenueQuery = useQuery({
+    queryKey: ["dashboard", "revenue", "previous-month-to-date"],
+    queryFn: () => paymentService.getAnalytics(getPreviousMonthToDate()),
+    refetchInterval: REFRESH_INTERVAL,
+    staleTime: 0,
+  });
+
+  const metrics = useMemo(
+    () =>
+      statsQuery.data
+        ? buildDashboardMetrics(statsQuery.data, revenueQuery.data)
+        : null,
+    [statsQuery.data, revenueQuery.data]
+  );
+
+  const [previousSnapshot, setPreviousSnapshot] =
+    useState<MetricsSnapshot | null>(null);
+  const previous: Partial<DashboardMetrics> = previousSnapshot?.metrics ?? {};
+  // The snapshot can be anything from one to two days old, so say which
+  const previousLabel = previousSnapshot
+    ? `vs ${formatDistanceToNow(previousSnapshot.takenAt)} ago`
+    : undefined;
+
+  // Read the comparison point before the fresh metrics are stored
+  useEffect(() => {
+    if (!metrics) return;
+    setPreviousSnapshot(getPreviousPeriodSnapshot());
+    recordMetricsSnapshot(metrics);
+  }, [metrics]);
+
+  const lastUpdated = Math.max(
+    statsQuery.dataUpdatedAt,
+    revenueQuery.dataUpdatedAt
+  );
+  const isRefreshing = statsQuery.isFetching || revenueQuery.isFetching;
+
+  const handleRefresh = () => {
+    statsQuery.refetch();
+    revenueQuery.refetch();
+    previousRevenueQuery.refetch();
+  };
+
+  const stats = statsQuery.data;
+  const revenue = revenueQuery.data;
+  const previousRevenue = previousRevenueQuery.data;
+
   return (
     <div className="space-y-6">
       {/* Page header */}
-      <div>
-        <h1 className="text-2xl font-semibold text-gray-900">Dashboard</h1>
-        <p className="mt-1 text-sm text-gray-700">
-          Overview of your Nhandare gaming platform
-        </p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Dashboard</h1>
+          <p className="mt-1 text-sm text-gray-700">
+            Overview of your Nhandare gaming platform
+          </p>
+        </div>
+        <div className="flex items-center gap-x-3">
+          <span className="text-xs text-gray-500">
+            {lastUpdated > 0
+              ? `Updated ${formatDistanceToNow(lastUpdated, {
+                  addSuffix: true,
+                })}`
+              : "Not updated yet"}
+          </span>
+          <button
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowPathIcon
+              className={`mr-2 h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </button>
+        </div>
       </div>
 
       {/* Stats grid */}
-      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
-        {stats.map((stat) => (
-          <div
-            key={stat.name}
-            className="relative overflow-hidden rounded-lg bg-white px-4 py-5 shadow sm:px-6 sm:py-6"
-          >
-            <dt>
-              <div
-                className={`absolute rounded-md p-3 ${
-                  colorClasses[stat.color]
-                }`}
-              >
-                <stat.icon className="h-6 w-6 text-white" aria-hidden="true" />
-              </div>
-              <p className="ml-16 truncate text-sm font-medium text-gray-700">
-                {stat.name}
-              </p>
-            </dt>
-            <dd className="ml-16 flex items-baseline">
-              <p className="text-2xl font-semibold text-gray-900">
-                {stat.value}
-              </p>
-              <p
-                className={`ml-2 flex items-baseline text-sm font-semibold ${
-                  stat.changeType === "increase"
-                    ? "text-green-600"
-                    : "text-red-600"
-                }`}
-              >
-                {stat.change}
-              </p>
-            </dd>
-          </div>
-        ))}
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
+        <StatCard
+          name="Total Users"
+          value={stats?.adminStats.totalUsers.toLocaleString()}
+          delta={computeDelta(metrics?.totalUsers, previous.totalUsers)}
+          deltaLabel={previousLabel}
+          icon={UsersIcon}
+          color="blue"
+          isLoading={statsQuery.isLoading}
+          error={statsQuery.error}
+        />
+        <StatCard
+          name="Active Users"
+          value={stats?.adminStats.activeUsers.toLocaleString()}
+          delta={computeDelta(metrics?.activeUsers, previous.activeUsers)}
+          deltaLabel={previousLabel}
+          icon={UsersIcon}
+          color="green"
+          isLoading={statsQuery.isLoading}
+          error={statsQuery.error}
+        />
+        <StatCard
+          name="Active Tournaments"
+          value={stats?.adminStats.activeTournaments.toString()}
+          delta={computeDelta(
+            metrics?.activeTournaments,
+            previous.activeTournaments
+          )}
+          deltaLabel={previousLabel}
+          deltaAsPercentage={false}
+          icon={TrophyIcon}
+          color="purple"
+          isLoading={statsQuery.isLoading}
+          error={statsQuery.error}
+        />
+        <StatCard
+          name="Revenue This Month"
+          value={
+            revenue
+              ? `$${revenue.revenueThisMonth.toLocaleString()}`
+              : undefined
+          }
+          delta={
+            revenue && previousRevenue
+              ? computeDelta(
+                  revenue.revenueThisMonth,
+                  previousRevenue.totalRevenue
+                )
+              : null
+          }
+          deltaLabel="vs same period last month"
+          icon={CreditCardIcon}
+          color="green"
+          isLoading={revenueQuery.isLoading}
+          error={revenueQuery.error}
+        />
+        <StatCard
+          name="Online Players"
+          value={stats?.onlineData.online.toLocaleString()}
+          icon={SignalIcon}
+          color="yellow"
+          isLoading={statsQuery.isLoading}
+          error={statsQuery.error}
+        />
+        <StatCard
+          name="Active Games"
+          value={stats?.activeGames.sessions.toLocaleString()}
+          delta={computeDelta(metrics?.activeGames, previous.activeGames)}
+          deltaLabel={previousLabel}
+          deltaAsPercentage={false}
+          icon={PuzzlePieceIcon}
+          color="red"
+          isLoading={statsQuery.isLoading}
+          error={statsQuery.error}
+        />
       </div>
 
+      <MaintenanceSchedule />
+
       {/* Recent activity */}
       <div className="bg-white shadow rounded-lg">
         <div className="px-4 py-5 sm:p-6">
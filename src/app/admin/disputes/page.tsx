@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ScaleIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+  ArrowPathIcon,
+} from "@heroicons/react/24/outline";
+import { paymentService, PaymentDispute } from "@/services/PaymentService";
+import DisputeDetailPanel from "@/components/admin/disputes/DisputeDetailPanel";
+import {
+  DisputeStatus,
+  getSlaState,
+  formatDuration,
+  isActiveDispute,
+  sortDisputeQueue,
+  DISPUTE_PRIORITY_COLORS,
+  DISPUTE_STATUS_COLORS,
+} from "@/lib/disputes";
+
+type QueueFilter = "active" | "all" | DisputeStatus;
+
+const QUEUE_FILTERS: { value: QueueFilter; label: string }[] = [
+  { value: "active", label: "Active" },
+  { value: "open", label: "Open" },
+  { value: "investigating", label: "Investigating" },
+  { value: "resolved", label: "Resolved" },
+  { value: "closed", label: "Closed" },
+  { value: "all", label: "All" },
+];
+
+const slaColors = {
+  ok: "text-gray-500",
+  warning: "text-yellow-700",
+  breached: "text-red-700 font-medium",
+  stopped: "text-gray-400",
+};
+
+// Active queues are loaded in full so the oldest disputes, the ones
+// nearest their SLA, are never cut off. Finished ones show the newest.
+const ACTIVE_STATUSES: DisputeStatus[] = ["open", "investigating"];
+const HISTORY_LIMIT = 100;
+
+async function loadQueue(
+  filter: QueueFilter
+): Promise<{ disputes: PaymentDispute[]; totalItems: number }> {
+  if (filter === "active" || filter === "open" || filter === "investigating") {
+    const statuses = filter === "active" ? ACTIVE_STATUSES : [filter];
+    const disputes = (
+      await Promise.all(
+        statuses.map((status) => paymentService.getAllDisputes(status))
+      )
+    ).flat();
+    return { disputes, totalItems: disputes.length };
+  }
+
+  const { disputes, pagination } = await paymentService.getDisputes(
+    filter === "all" ? undefined : filter,
+    1,
+    HISTORY_LIMIT
+  );
+  return { disputes, totalItems: pagination.totalItems };
+}
+
+export default function DisputesPage() {
+  const [filter, setFilter] = useState<QueueFilter>("active");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep SLA timers current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const disputesQuery = useQuery({
+    queryKey: ["disputes", filter],
+    queryFn: () => loadQueue(filter),
+  });
+
+  const queue = useMemo(
+    () => sortDisputeQueue(disputesQuery.data?.disputes || [], now),
+    [disputesQuery.data, now]
+  );
+  const hiddenCount = (disputesQuery.data?.totalItems || 0) - queue.length;
+
+  const breachedCount = queue.filter(
+    (dispute) => getSlaState(dispute, now).state === "breached"
+  ).length;
+  const warningCount = queue.filter(
+    (dispute) => getSlaState(dispute, now).state === "warning"
+  ).length;
+  const urgentCount = queue.filter(
+    (dispute) => isActiveDispute(dispute) && dispute.priority === "urgent"
+  ).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Disputes</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Investigate and resolve payment disputes raised by players
+          </p>
+        </div>
+        <button
+          onClick={() => disputesQuery.refetch()}
+          disabled={disputesQuery.isFetching}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <ArrowPathIcon
+            className={`h-4 w-4 mr-2 ${disputesQuery.isFetching ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">
+            Urgent Active
+          </dt>
+          <dd className="text-lg font-medium text-gray-900">{urgentCount}</dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">
+            Nearing SLA
+          </dt>
+          <dd className="text-lg font-medium text-yellow-700">
+            {warningCount}
+          </dd>
+        </div>
+        <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+          <dt className="text-sm font-medium text-gray-500 truncate">
+            SLA Breached
+          </dt>
+          <dd className="text-lg font-medium text-red-700">{breachedCount}</dd>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* Queue */}
+        <div className="lg:col-span-2 bg-white shadow rounded-lg">
+          <div className="px-4 py-4 border-b border-gray-200 flex flex-wrap gap-2">
+            {QUEUE_FILTERS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFilter(option.value)}
+                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                  filter === option.value
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {disputesQuery.isLoading ? (
+            <div className="p-6 space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+              ))}
+            </div>
+          ) : disputesQuery.error ? (
+            <div className="m-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+              {disputesQuery.error instanceof Error
+                ? disputesQuery.error.message
+                : "Failed to load disputes"}
+            </div>
+          ) : queue.length === 0 ? (
+            <div className="text-center py-12">
+              <ScaleIcon className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                No disputes
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Nothing in this queue right now.
+              </p>
+            </div>
+          ) : (
+            <>
+              {hiddenCount > 0 && (
+                <p className="px-4 py-2 text-xs text-gray-500 border-b border-gray-200">
+                  Showing the newest {queue.length} of{" "}
+                  {disputesQuery.data?.totalItems} disputes
+                </p>
+              )}
+              <ul className="divide-y divide-gray-200 max-h-[70vh] overflow-y-auto">
+                {queue.map((dispute) => {
+                  const sla = getSlaState(dispute, now);
+                  return (
+                    <li key={dispute.id}>
+                      <button
+                        onClick={() => setSelectedId(dispute.id)}
+                        className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                          selectedId === dispute.id ? "bg-blue-50" : ""
+                        } ${sla.state === "breached" ? "border-l-4 border-red-500" : sla.state === "warning" ? "border-l-4 border-yellow-400" : ""}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-900 truncate">
+                            {dispute.reason}
+                          </span>
+                          <span
+                            className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${DISPUTE_PRIORITY_COLORS[dispute.priority]}`}
+                          >
+                            {dispute.priority}
+                          </span>
+                        </div>
+                        <div className="mt-1 flex items-center justify-between text-xs">
+                          <span className="text-gray-500 truncate">
+                            {dispute.user?.username || dispute.userId}
+                            {" · "}
+                            {dispute.assignedTo?.name || "Unassigned"}
+                          </span>
+                          {sla.state === "stopped" ? (
+                            <span
+                              className={`inline-flex px-2 py-0.5 font-semibold rounded-full ${DISPUTE_STATUS_COLORS[dispute.status]}`}
+                            >
+                              {dispute.status}
+                            </span>
+                          ) : (
+                            <span
+                              className={`inline-flex items-center ${slaColors[sla.state]}`}
+                            >
+                              {sla.state === "breached" ? (
+                                <ExclamationTriangleIcon className="h-3.5 w-3.5 mr-1" />
+                              ) : (
+                                <ClockIcon className="h-3.5 w-3.5 mr-1" />
+                              )}
+                              {sla.state === "breached"
+                                ? `${formatDuration(sla.remainingMs)} overdue`
+                                : `${formatDuration(sla.remainingMs)} left`}
+                            </span>
+                          )}
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+
+        {/* Detail */}
+        <div className="lg:col-span-3">
+          {selectedId ? (
+            <DisputeDetailPanel
+              key={selectedId}
+              disputeId={selectedId}
+              now={now}
+            />
+          ) : (
+            <div className="bg-white shadow rounded-lg text-center py-16">
+              <ScaleIcon className="mx-auto h-12 w-12 text-gray-300" />
+              <p className="mt-2 text-sm text-gray-500">
+                Select a dispute to see its timeline and resolve it
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
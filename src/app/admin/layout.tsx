@@ -1,5 +1,6 @@
 import ProtectedRoute from "@/components/admin/ProtectedRoute";
 import AdminLayout from "@/components/admin/AdminLayout";
+import { RealtimeProvider } from "@/contexts/RealtimeContext";
 
 export default function AdminLayoutWrapper({
   children,
@@ -8,7 +9,9 @@ export default function AdminLayoutWrapper({
 }) {
   return (
     <ProtectedRoute>
-      <AdminLayout>{children}</AdminLayout>
+      <RealtimeProvider>
+        <AdminLayout>{children}</AdminLayout>
+      </RealtimeProvider>
     </ProtectedRoute>
   );
 }
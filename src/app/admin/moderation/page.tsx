@@ -1,6 +1,7 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   ChatBubbleLeftIcon,
   UserIcon,
@@ -9,234 +10,257 @@ import {
   CheckIcon,
   XMarkIcon,
   EyeIcon,
-  EyeSlashIcon,
   ClockIcon,
   FlagIcon,
+  TrashIcon,
+  ArrowPathIcon,
+  HandRaisedIcon,
+  CalendarDaysIcon,
 } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import RequirePermission from "@/components/admin/RequirePermission";
+import FlaggedContentModal, {
+  ContentAction,
+  SanctionInput,
+  formatReason,
+  severityColors,
+} from "@/components/admin/moderation/FlaggedContentModal";
+import ModerationRulesEditor from "@/components/admin/moderation/ModerationRulesEditor";
+import PenaltyLadderEditor from "@/components/admin/moderation/PenaltyLadderEditor";
+import AppealsQueue from "@/components/admin/moderation/AppealsQueue";
+import BanExpirySchedule from "@/components/admin/moderation/BanExpirySchedule";
+import SanctionModal from "@/components/admin/moderation/SanctionModal";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import {
+  moderationService,
+  FlaggedContent,
+  FlaggedContentStatus,
+  ModerationStats,
+  SanctionedUser,
+} from "@/services/ModerationService";
+import { PaginationInfo } from "@/types/admin";
+
+type StatusFilter = FlaggedContentStatus | "all";
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "all", label: "All" },
+];
 
-// Types
-interface FlaggedMessage {
-  id: number;
-  userId: string;
-  username: string;
-  message: string;
-  timestamp: string;
-  reason: string;
-  status: string;
-  severity: string;
-}
-
-interface BannedUser {
-  id: string;
-  username: string;
-  email: string;
-  banReason: string;
-  banDate: string;
-  banExpiry: string;
-  status: string;
-}
-
-interface ModerationStats {
-  totalFlagged: number;
-  pendingReview: number;
-  reviewedToday: number;
-  bannedUsers: number;
-  suspendedUsers: number;
-  autoFiltered: number;
-}
+const statusColors = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-blue-100 text-blue-800",
+  rejected: "bg-red-100 text-red-800",
+};
 
-// Mock data - replace with real API calls
-const flaggedMessages: FlaggedMessage[] = [
+const statCards: {
+  key: keyof ModerationStats;
+  label: string;
+  icon: typeof FlagIcon;
+  color: string;
+}[] = [
   {
-    id: 1,
-    userId: "user123",
-    username: "john_doe",
-    message: "This is an inappropriate message that needs moderation",
-    timestamp: "2024-01-15T10:30:00Z",
-    reason: "inappropriate_content",
-    status: "pending",
-    severity: "medium",
+    key: "totalFlagged",
+    label: "Total Flagged",
+    icon: FlagIcon,
+    color: "text-red-400",
   },
   {
-    id: 2,
-    userId: "user456",
-    username: "jane_smith",
-    message: "Another flagged message for review",
-    timestamp: "2024-01-15T09:15:00Z",
-    reason: "spam",
-    status: "pending",
-    severity: "low",
+    key: "pendingReview",
+    label: "Pending Review",
+    icon: ClockIcon,
+    color: "text-yellow-400",
   },
   {
-    id: 3,
-    userId: "user789",
-    username: "bob_wilson",
-    message: "This message contains offensive language",
-    timestamp: "2024-01-15T08:45:00Z",
-    reason: "offensive_language",
-    status: "reviewed",
-    severity: "high",
+    key: "reviewedToday",
+    label: "Reviewed Today",
+    icon: CheckIcon,
+    color: "text-green-400",
+  },
+  {
+    key: "bannedUsers",
+    label: "Banned Users",
+    icon: XMarkIcon,
+    color: "text-red-400",
   },
-];
-
-const bannedUsers = [
   {
-    id: "user123",
-    username: "john_doe",
-    email: "john@example.com",
-    banReason: "Repeated violations",
-    banDate: "2024-01-10T14:30:00Z",
-    banExpiry: "2024-02-10T14:30:00Z",
-    status: "banned",
+    key: "suspendedUsers",
+    label: "Suspended",
+    icon: ExclamationTriangleIcon,
+    color: "text-orange-400",
   },
   {
-    id: "user456",
-    username: "jane_smith",
-    email: "jane@example.com",
-    banReason: "Inappropriate content",
-    banDate: "2024-01-12T16:20:00Z",
-    banExpiry: "2024-01-19T16:20:00Z",
-    status: "suspended",
+    key: "autoFiltered",
+    label: "Auto Filtered",
+    icon: ShieldCheckIcon,
+    color: "text-blue-400",
   },
 ];
 
-const moderationStats = {
-  totalFlagged: 45,
-  pendingReview: 12,
-  reviewedToday: 8,
-  bannedUsers: 3,
-  suspendedUsers: 5,
-  autoFiltered: 156,
-};
+const PAGE_SIZE = 20;
 
-const severityColors = {
-  low: "bg-yellow-100 text-yellow-800",
-  medium: "bg-orange-100 text-orange-800",
-  high: "bg-red-100 text-red-800",
+const actionLabels: Record<ContentAction, string> = {
+  approve: "approved",
+  reject: "rejected",
+  delete: "deleted",
 };
 
-const statusColors = {
-  pending: "bg-yellow-100 text-yellow-800",
-  reviewed: "bg-green-100 text-green-800",
-  approved: "bg-blue-100 text-blue-800",
-  rejected: "bg-red-100 text-red-800",
-};
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+function Pagination({
+  pagination,
+  onPageChange,
+}: {
+  pagination: PaginationInfo;
+  onPageChange: (page: number) => void;
+}) {
+  if (pagination.totalPages <= 1) return null;
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-600">
+      <span>
+        Page {pagination.currentPage} of {pagination.totalPages} (
+        {pagination.totalItems} total)
+      </span>
+      <div className="space-x-2">
+        <button
+          onClick={() => onPageChange(pagination.currentPage - 1)}
+          disabled={!pagination.hasPreviousPage}
+          className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <button
+          onClick={() => onPageChange(pagination.currentPage + 1)}
+          disabled={!pagination.hasNextPage}
+          className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  );
+}
 
 export default function ModerationPage() {
+  const queryClient = useQueryClient();
   const [selectedTab, setSelectedTab] = useState("flagged");
-  const [selectedMessage, setSelectedMessage] = useState<FlaggedMessage | null>(
-    null
-  );
-  const [showMessageModal, setShowMessageModal] = useState(false);
-  const [autoFilterEnabled, setAutoFilterEnabled] = useState(true);
-
-  // Real data state
-  const [flaggedMessages, setFlaggedMessages] = useState<FlaggedMessage[]>([]);
-  const [bannedUsers, setBannedUsers] = useState<BannedUser[]>([]);
-  const [moderationStats, setModerationStats] = useState<ModerationStats>({
-    totalFlagged: 0,
-    pendingReview: 0,
-    reviewedToday: 0,
-    bannedUsers: 0,
-    suspendedUsers: 0,
-    autoFiltered: 0,
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+  const [flaggedPage, setFlaggedPage] = useState(1);
+  const [usersPage, setUsersPage] = useState(1);
+  const [selectedMessage, setSelectedMessage] =
+    useState<FlaggedContent | null>(null);
+  const [selectedSanction, setSelectedSanction] =
+    useState<SanctionedUser | null>(null);
+  const canManageModeration = usePermission(PERMISSIONS.MODERATION_MANAGE);
+
+  const statsQuery = useQuery({
+    queryKey: ["moderation", "stats"],
+    queryFn: () => moderationService.getStats(),
+  });
+
+  const flaggedQuery = useQuery({
+    queryKey: ["moderation", "flagged", statusFilter, flaggedPage],
+    queryFn: () =>
+      moderationService.getFlaggedContent({
+        page: flaggedPage,
+        limit: PAGE_SIZE,
+        status: statusFilter === "all" ? undefined : statusFilter,
+      }),
+  });
+
+  const usersQuery = useQuery({
+    queryKey: ["moderation", "sanctions", usersPage],
+    queryFn: () => moderationService.getSanctionedUsers(usersPage, PAGE_SIZE),
+    enabled: selectedTab === "users",
   });
-  const [isLoading, setIsLoading] = useState(false);
-
-  // Fetch real data on component mount
-  useEffect(() => {
-    const fetchModerationData = async () => {
-      setIsLoading(true);
-      try {
-        // Fetch flagged content
-        const flaggedResponse = await fetch("/api/moderation/flagged");
-        if (flaggedResponse.ok) {
-          const flaggedData = await flaggedResponse.json();
-          setFlaggedMessages(flaggedData.data.flaggedContent);
-        }
-
-        // Fetch banned users
-        const bannedResponse = await fetch("/api/moderation/banned");
-        if (bannedResponse.ok) {
-          const bannedData = await bannedResponse.json();
-          setBannedUsers(bannedData.data.bannedUsers);
-        }
-
-        // Fetch moderation stats
-        const statsResponse = await fetch("/api/moderation/stats");
-        if (statsResponse.ok) {
-          const statsData = await statsResponse.json();
-          setModerationStats(statsData.data);
-        }
-      } catch (error) {
-        console.error("Failed to fetch moderation data:", error);
-        // Fallback to mock data
-        setFlaggedMessages([
-          {
-            id: 1,
-            userId: "user123",
-            username: "john_doe",
-            message: "This is an inappropriate message that needs moderation",
-            timestamp: "2024-01-15T10:30:00Z",
-            reason: "inappropriate_content",
-            status: "pending",
-            severity: "medium",
-          },
-        ]);
-        setBannedUsers([
-          {
-            id: "user123",
-            username: "john_doe",
-            email: "john@example.com",
-            banReason: "Repeated violations",
-            banDate: "2024-01-10T14:30:00Z",
-            banExpiry: "2024-02-10T14:30:00Z",
-            status: "banned",
-          },
-        ]);
-        setModerationStats({
-          totalFlagged: 45,
-          pendingReview: 12,
-          reviewedToday: 8,
-          bannedUsers: 3,
-          suspendedUsers: 5,
-          autoFiltered: 156,
-        });
-      } finally {
-        setIsLoading(false);
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: ["moderation"] });
+
+  const contentMutation = useMutation({
+    mutationFn: async ({
+      content,
+      action,
+    }: {
+      content: FlaggedContent;
+      action: ContentAction;
+    }) => {
+      if (action === "approve") {
+        await moderationService.approveContent(content.id);
+      } else if (action === "reject") {
+        await moderationService.rejectContent(content.id);
+      } else {
+        await moderationService.deleteContent(content.id);
       }
-    };
+    },
+    onSuccess: (_, { content, action }) => {
+      toast.success(`Message from ${content.username} ${actionLabels[action]}`);
+      setSelectedMessage(null);
+      refresh();
+    },
+    onError: (error, { action }) => {
+      toast.error(errorMessage(error, `Failed to ${action} message`));
+    },
+  });
 
-    fetchModerationData();
-  }, []);
+  const fileMutation = useMutation({
+    mutationFn: (content: FlaggedContent) =>
+      moderationService.fileFlaggedContent(content),
+    onSuccess: (moderationCase) => {
+      toast.success(
+        `Added to ${moderationCase.username}'s case file ` +
+          `(${moderationCase.entries.length} entries)`
+      );
+      queryClient.invalidateQueries({
+        queryKey: ["moderation", "cases", moderationCase.userId],
+      });
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, "Failed to add to case file"));
+    },
+  });
 
   const tabs = [
     { id: "flagged", name: "Flagged Messages", icon: FlagIcon },
     { id: "users", name: "User Management", icon: UserIcon },
+    { id: "expiries", name: "Ban Expiry", icon: CalendarDaysIcon },
+    { id: "appeals", name: "Appeals", icon: HandRaisedIcon },
     { id: "settings", name: "Moderation Settings", icon: ShieldCheckIcon },
   ];
 
-  const handleMessageAction = (messageId: number, action: string) => {
-    // In real implementation, this would call the API
-    console.log(`Action ${action} on message ${messageId}`);
-
-    // Update local state
-    const updatedMessages = flaggedMessages.map((msg) =>
-      msg.id === messageId
-        ? { ...msg, status: action === "approve" ? "approved" : "rejected" }
-        : msg
-    );
-
-    setShowMessageModal(false);
+  const handleMessageAction = (
+    content: FlaggedContent,
+    action: ContentAction
+  ) => {
+    if (
+      action === "delete" &&
+      !confirm(
+        `Delete this message from ${content.username}? This is permanent.`
+      )
+    ) {
+      return;
+    }
+    contentMutation.mutate({ content, action });
   };
 
-  const handleUserAction = (
-    userId: string,
-    action: string,
-    duration?: number
+  const handleSanction = async (
+    content: FlaggedContent,
+    { action, reason, duration }: SanctionInput
   ) => {
-    // In real implementation, this would call the API
-    console.log(`Action ${action} on user ${userId} for ${duration} days`);
+    if (action === "ban") {
+      await moderationService.banUser(content.userId, reason, duration);
+    } else {
+      await moderationService.suspendUser(content.userId, reason, duration!);
+    }
+    toast.success(
+      `${content.username} ${action === "ban" ? "banned" : "suspended"}`
+    );
+    setSelectedMessage(null);
+    refresh();
   };
 
   const formatDate = (dateString: string) => {
@@ -255,139 +279,70 @@ export default function ModerationPage() {
     return `${Math.floor(diffInHours / 24)} days ago`;
   };
 
+  const flaggedContent = flaggedQuery.data?.flaggedContent || [];
+  const sanctionedUsers = usersQuery.data?.users || [];
+
   return (
     <div className="space-y-6">
       {/* Page header */}
-      <div>
-        <h1 className="text-2xl font-semibold text-gray-900">
-          Content Moderation
-        </h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Manage flagged content and user behavior
-        </p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">
+            Content Moderation
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Manage flagged content and user behavior
+          </p>
+        </div>
+        <button
+          onClick={refresh}
+          disabled={flaggedQuery.isFetching}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <ArrowPathIcon
+            className={`h-4 w-4 mr-2 ${flaggedQuery.isFetching ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </button>
       </div>
 
       {/* Stats overview */}
-      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-6">
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <FlagIcon className="h-6 w-6 text-red-400" />
-              </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">
-                    Total Flagged
-                  </dt>
-                  <dd className="text-lg font-medium text-gray-900">
-                    {moderationStats.totalFlagged}
-                  </dd>
-                </dl>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <ClockIcon className="h-6 w-6 text-yellow-400" />
-              </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">
-                    Pending Review
-                  </dt>
-                  <dd className="text-lg font-medium text-gray-900">
-                    {moderationStats.pendingReview}
-                  </dd>
-                </dl>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <CheckIcon className="h-6 w-6 text-green-400" />
-              </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">
-                    Reviewed Today
-                  </dt>
-                  <dd className="text-lg font-medium text-gray-900">
-                    {moderationStats.reviewedToday}
-                  </dd>
-                </dl>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <XMarkIcon className="h-6 w-6 text-red-400" />
-              </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">
-                    Banned Users
-                  </dt>
-                  <dd className="text-lg font-medium text-gray-900">
-                    {moderationStats.bannedUsers}
-                  </dd>
-                </dl>
-              </div>
-            </div>
-          </div>
-        </div>
-
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <ExclamationTriangleIcon className="h-6 w-6 text-orange-400" />
-              </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">
-                    Suspended
-                  </dt>
-                  <dd className="text-lg font-medium text-gray-900">
-                    {moderationStats.suspendedUsers}
-                  </dd>
-                </dl>
-              </div>
-            </div>
-          </div>
+      {statsQuery.error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+          {errorMessage(statsQuery.error, "Failed to load moderation stats")}
         </div>
-
-        <div className="bg-white overflow-hidden shadow rounded-lg">
-          <div className="p-5">
-            <div className="flex items-center">
-              <div className="flex-shrink-0">
-                <ShieldCheckIcon className="h-6 w-6 text-blue-400" />
-              </div>
-              <div className="ml-5 w-0 flex-1">
-                <dl>
-                  <dt className="text-sm font-medium text-gray-500 truncate">
-                    Auto Filtered
-                  </dt>
-                  <dd className="text-lg font-medium text-gray-900">
-                    {moderationStats.autoFiltered}
-                  </dd>
-                </dl>
+      )}
+      <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-6">
+        {statCards.map((card) => (
+          <div
+            key={card.key}
+            className="bg-white overflow-hidden shadow rounded-lg"
+          >
+            <div className="p-5">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <card.icon className={`h-6 w-6 ${card.color}`} />
+                </div>
+                <div className="ml-5 w-0 flex-1">
+                  <dl>
+                    <dt className="text-sm font-medium text-gray-500 truncate">
+                      {card.label}
+                    </dt>
+                    <dd className="text-lg font-medium text-gray-900">
+                      {statsQuery.isLoading ? (
+                        <span className="inline-block animate-pulse h-5 w-10 bg-gray-200 rounded" />
+                      ) : statsQuery.data ? (
+                        statsQuery.data[card.key].toLocaleString()
+                      ) : (
+                        "—"
+                      )}
+                    </dd>
+                  </dl>
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        ))}
       </div>
 
       {/* Tabs */}
@@ -419,141 +374,189 @@ export default function ModerationPage() {
                 <h3 className="text-lg font-medium text-gray-900">
                   Flagged Messages
                 </h3>
-                <div className="flex items-center space-x-4">
-                  <label className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={autoFilterEnabled}
-                      onChange={(e) => setAutoFilterEnabled(e.target.checked)}
-                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                    />
-                    <span className="ml-2 text-sm text-gray-600">
-                      Auto-filter enabled
-                    </span>
-                  </label>
+                <div className="flex items-center space-x-2">
+                  {STATUS_FILTERS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => {
+                        setStatusFilter(option.value);
+                        setFlaggedPage(1);
+                      }}
+                      className={`px-3 py-1 rounded-full text-xs font-medium ${
+                        statusFilter === option.value
+                          ? "bg-blue-600 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
                 </div>
               </div>
 
-              <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-                <table className="min-w-full divide-y divide-gray-300">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        User
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Message
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Reason
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Severity
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Status
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Time
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Actions
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {flaggedMessages.map((message) => (
-                      <tr key={message.id}>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            <div className="flex-shrink-0 h-10 w-10">
-                              <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center">
-                                <UserIcon className="h-6 w-6 text-gray-600" />
-                              </div>
-                            </div>
-                            <div className="ml-4">
-                              <div className="text-sm font-medium text-gray-900">
-                                {message.username}
+              {flaggedQuery.isLoading ? (
+                <div className="space-y-3">
+                  {[...Array(5)].map((_, i) => (
+                    <div
+                      key={i}
+                      className="animate-pulse h-14 bg-gray-100 rounded"
+                    />
+                  ))}
+                </div>
+              ) : flaggedQuery.error ? (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                  {errorMessage(
+                    flaggedQuery.error,
+                    "Failed to load flagged messages"
+                  )}
+                </div>
+              ) : flaggedContent.length === 0 ? (
+                <div className="text-center py-12">
+                  <ChatBubbleLeftIcon className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">
+                    No flagged messages
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Nothing matches this filter right now.
+                  </p>
+                </div>
+              ) : (
+                <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-300">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          User
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Message
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Reason
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Severity
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Time
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {flaggedContent.map((message) => (
+                        <tr key={message.id}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              <div className="flex-shrink-0 h-10 w-10">
+                                <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center">
+                                  <UserIcon className="h-6 w-6 text-gray-600" />
+                                </div>
                               </div>
-                              <div className="text-sm text-gray-500">
-                                {message.userId}
+                              <div className="ml-4">
+                                <div className="text-sm font-medium text-gray-900">
+                                  {message.username}
+                                </div>
+                                <div className="text-sm text-gray-500">
+                                  {message.userId}
+                                </div>
                               </div>
                             </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="text-sm text-gray-900 max-w-xs truncate">
-                            {message.message}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className="text-sm text-gray-900">
-                            {message.reason.replace("_", " ")}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span
-                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                              severityColors[
-                                message.severity as keyof typeof severityColors
-                              ]
-                            }`}
-                          >
-                            {message.severity}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span
-                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                              statusColors[
-                                message.status as keyof typeof statusColors
-                              ]
-                            }`}
-                          >
-                            {message.status}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {getTimeAgo(message.timestamp)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <div className="flex space-x-2">
-                            <button
-                              onClick={() => {
-                                setSelectedMessage(message);
-                                setShowMessageModal(true);
-                              }}
-                              className="text-blue-600 hover:text-blue-900"
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm text-gray-900 max-w-xs truncate">
+                              {message.message}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className="text-sm text-gray-900">
+                              {formatReason(message.reason)}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${severityColors[message.severity]}`}
                             >
-                              <EyeIcon className="h-4 w-4" />
-                            </button>
-                            {message.status === "pending" && (
-                              <>
-                                <button
-                                  onClick={() =>
-                                    handleMessageAction(message.id, "approve")
-                                  }
-                                  className="text-green-600 hover:text-green-900"
-                                >
-                                  <CheckIcon className="h-4 w-4" />
-                                </button>
+                              {message.severity}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[message.status]}`}
+                            >
+                              {message.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {getTimeAgo(message.createdAt)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <div className="flex space-x-2">
+                              <button
+                                onClick={() => setSelectedMessage(message)}
+                                className="text-blue-600 hover:text-blue-900"
+                                title="View"
+                              >
+                                <EyeIcon className="h-4 w-4" />
+                              </button>
+                              <RequirePermission
+                                permission={PERMISSIONS.MODERATION_MANAGE}
+                              >
+                                {message.status === "pending" && (
+                                  <>
+                                    <button
+                                      onClick={() =>
+                                        handleMessageAction(message, "approve")
+                                      }
+                                      disabled={contentMutation.isPending}
+                                      className="text-green-600 hover:text-green-900"
+                                      title="Approve"
+                                    >
+                                      <CheckIcon className="h-4 w-4" />
+                                    </button>
+                                    <button
+                                      onClick={() =>
+                                        handleMessageAction(message, "reject")
+                                      }
+                                      disabled={contentMutation.isPending}
+                                      className="text-red-600 hover:text-red-900"
+                                      title="Reject"
+                                    >
+                                      <XMarkIcon className="h-4 w-4" />
+                                    </button>
+                                  </>
+                                )}
                                 <button
                                   onClick={() =>
-                                    handleMessageAction(message.id, "reject")
+                                    handleMessageAction(message, "delete")
                                   }
-                                  className="text-red-600 hover:text-red-900"
+                                  disabled={contentMutation.isPending}
+                                  className="text-gray-400 hover:text-red-600"
+                                  title="Delete"
                                 >
-                                  <XMarkIcon className="h-4 w-4" />
+                                  <TrashIcon className="h-4 w-4" />
                                 </button>
-                              </>
-                            )}
-                          </div>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                              </RequirePermission>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {flaggedQuery.data && (
+                <Pagination
+                  pagination={flaggedQuery.data.pagination}
+                  onPageChange={setFlaggedPage}
+                />
+              )}
             </div>
           )}
 
@@ -564,98 +567,129 @@ export default function ModerationPage() {
                 User Management
               </h3>
 
-              <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
-                <table className="min-w-full divide-y divide-gray-300">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        User
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Status
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Ban Reason
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Ban Date
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Expiry
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Actions
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {bannedUsers.map((user) => (
-                      <tr key={user.id}>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            <div className="flex-shrink-0 h-10 w-10">
-                              <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center">
-                                <UserIcon className="h-6 w-6 text-gray-600" />
-                              </div>
-                            </div>
-                            <div className="ml-4">
-                              <div className="text-sm font-medium text-gray-900">
-                                {user.username}
+              {usersQuery.isLoading ? (
+                <div className="space-y-3">
+                  {[...Array(3)].map((_, i) => (
+                    <div
+                      key={i}
+                      className="animate-pulse h-14 bg-gray-100 rounded"
+                    />
+                  ))}
+                </div>
+              ) : usersQuery.error ? (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                  {errorMessage(
+                    usersQuery.error,
+                    "Failed to load banned and suspended users"
+                  )}
+                </div>
+              ) : sanctionedUsers.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No users are currently banned or suspended.
+                </p>
+              ) : (
+                <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-300">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          User
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Reason
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Since
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Expiry
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {sanctionedUsers.map((user) => (
+                        <tr key={user.id}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              <div className="flex-shrink-0 h-10 w-10">
+                                <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center">
+                                  <UserIcon className="h-6 w-6 text-gray-600" />
+                                </div>
                               </div>
-                              <div className="text-sm text-gray-500">
-                                {user.email}
+                              <div className="ml-4">
+                                <div className="text-sm font-medium text-gray-900">
+                                  {user.username}
+                                </div>
+                                <div className="text-sm text-gray-500">
+                                  {user.email}
+                                </div>
                               </div>
                             </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span
-                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                              user.status === "banned"
-                                ? "bg-red-100 text-red-800"
-                                : "bg-orange-100 text-orange-800"
-                            }`}
-                          >
-                            {user.status}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="text-sm text-gray-900">
-                            {user.banReason}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {formatDate(user.banDate)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {formatDate(user.banExpiry)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <div className="flex space-x-2">
-                            <button
-                              onClick={() => handleUserAction(user.id, "unban")}
-                              className="text-green-600 hover:text-green-900"
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                                user.status === "banned"
+                                  ? "bg-red-100 text-red-800"
+                                  : "bg-orange-100 text-orange-800"
+                              }`}
                             >
-                              Unban
-                            </button>
-                            <button
-                              onClick={() =>
-                                handleUserAction(user.id, "extend", 7)
-                              }
-                              className="text-orange-600 hover:text-orange-900"
+                              {user.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="text-sm text-gray-900">
+                              {user.reason}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatDate(user.sanctionedAt)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {user.expiresAt
+                              ? formatDate(user.expiresAt)
+                              : "Permanent"}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <RequirePermission
+                              permission={PERMISSIONS.USERS_BAN}
                             >
-                              Extend
-                            </button>
-                          </div>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                              <button
+                                onClick={() => setSelectedSanction(user)}
+                                className="text-blue-600 hover:text-blue-900"
+                              >
+                                Manage
+                              </button>
+                            </RequirePermission>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {usersQuery.data && (
+                <Pagination
+                  pagination={usersQuery.data.pagination}
+                  onPageChange={setUsersPage}
+                />
+              )}
             </div>
           )}
 
+          {/* Ban Expiry Tab */}
+          {selectedTab === "expiries" && <BanExpirySchedule />}
+
+          {/* Appeals Tab */}
+          {selectedTab === "appeals" && <AppealsQueue />}
+
           {/* Moderation Settings Tab */}
           {selectedTab === "settings" && (
             <div className="space-y-6">
@@ -663,152 +697,31 @@ export default function ModerationPage() {
                 Moderation Settings
               </h3>
 
-              <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-                <div className="bg-gray-50 p-6 rounded-lg">
-                  <h4 className="text-md font-medium text-gray-900 mb-4">
-                    Automated Filtering
-                  </h4>
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-gray-600">
-                        Enable auto-filtering
-                      </span>
-                      <input
-                        type="checkbox"
-                        checked={autoFilterEnabled}
-                        onChange={(e) => setAutoFilterEnabled(e.target.checked)}
-                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                      />
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-gray-600">
-                        Filter offensive language
-                      </span>
-                      <input
-                        type="checkbox"
-                        defaultChecked
-                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                      />
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-gray-600">Filter spam</span>
-                      <input
-                        type="checkbox"
-                        defaultChecked
-                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                      />
-                    </div>
-                  </div>
-                </div>
+              <ModerationRulesEditor canManage={canManageModeration} />
 
-                <div className="bg-gray-50 p-6 rounded-lg">
-                  <h4 className="text-md font-medium text-gray-900 mb-4">
-                    Ban Settings
-                  </h4>
-                  <div className="space-y-4">
-                    <div>
-                      <label className="block text-sm text-gray-600 mb-2">
-                        Default ban duration (days)
-                      </label>
-                      <input
-                        type="number"
-                        defaultValue={7}
-                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm text-gray-600 mb-2">
-                        Warning threshold
-                      </label>
-                      <input
-                        type="number"
-                        defaultValue={3}
-                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      />
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <PenaltyLadderEditor canManage={canManageModeration} />
             </div>
           )}
         </div>
       </div>
 
+      {selectedSanction && (
+        <SanctionModal
+          sanction={selectedSanction}
+          onClose={() => setSelectedSanction(null)}
+        />
+      )}
+
       {/* Message Detail Modal */}
-      {showMessageModal && selectedMessage && (
-        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
-          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-            <div className="mt-3">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">
-                Message Details
-              </h3>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">
-                    User
-                  </label>
-                  <p className="text-sm text-gray-900">
-                    {selectedMessage.username}
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">
-                    Message
-                  </label>
-                  <p className="text-sm text-gray-900 bg-gray-50 p-3 rounded">
-                    {selectedMessage.message}
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">
-                    Reason
-                  </label>
-                  <p className="text-sm text-gray-900">
-                    {selectedMessage.reason.replace("_", " ")}
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">
-                    Severity
-                  </label>
-                  <span
-                    className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                      severityColors[
-                        selectedMessage.severity as keyof typeof severityColors
-                      ]
-                    }`}
-                  >
-                    {selectedMessage.severity}
-                  </span>
-                </div>
-                <div className="flex space-x-3 pt-4">
-                  <button
-                    onClick={() =>
-                      handleMessageAction(selectedMessage.id, "approve")
-                    }
-                    className="flex-1 bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700"
-                  >
-                    Approve
-                  </button>
-                  <button
-                    onClick={() =>
-                      handleMessageAction(selectedMessage.id, "reject")
-                    }
-                    className="flex-1 bg-red-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-red-700"
-                  >
-                    Reject
-                  </button>
-                  <button
-                    onClick={() => setShowMessageModal(false)}
-                    className="flex-1 bg-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-400"
-                  >
-                    Cancel
-                  </button>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
+      {selectedMessage && (
+        <FlaggedContentModal
+          content={selectedMessage}
+          isProcessing={contentMutation.isPending || fileMutation.isPending}
+          onAction={(action) => handleMessageAction(selectedMessage, action)}
+          onSanction={(sanction) => handleSanction(selectedMessage, sanction)}
+          onFile={() => fileMutation.mutate(selectedMessage)}
+          onClose={() => setSelectedMessage(null)}
+        />
       )}
     </div>
   );
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState, useMemo, useEffect } from "react";
+import Link from "next/link";
 import {
   PlusIcon,
   FunnelIcon,
@@ -16,10 +17,14 @@ import {
   BanknotesIcon,
   DocumentArrowDownIcon,
   CalendarIcon,
+  ScaleIcon,
 } from "@heroicons/react/24/outline";
 import { paymentService, PaymentFilters } from "@/services/PaymentService";
 import { AdminPayment } from "@/types/admin";
 import PaymentDetailsModal from "@/components/admin/payments/PaymentDetailsModal";
+import RequirePermission from "@/components/admin/RequirePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import { useRealtimeEvent } from "@/contexts/RealtimeContext";
 
 // Payment type options
 const paymentTypes = [
@@ -85,6 +90,11 @@ export default function PaymentsPage() {
     loadPayments();
   }, [pagination.currentPage, filters, searchTerm, sortField, sortDirection]);
 
+  // Pick up new payments pushed over the admin socket
+  useRealtimeEvent("payment.created", () => {
+    loadPayments();
+  });
+
   const loadPayments = async () => {
     setLoading(true);
     setError(null);
@@ -258,6 +268,15 @@ export default function PaymentsPage() {
             <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
             Export
           </button>
+          <RequirePermission permission={PERMISSIONS.PAYMENTS_MANAGE}>
+            <Link
+              href="/admin/payments/reconciliation"
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <ScaleIcon className="h-4 w-4 mr-2" />
+              Reconcile
+            </Link>
+          </RequirePermission>
         </div>
       </div>
 
@@ -488,18 +507,20 @@ export default function PaymentsPage() {
                 <span className="text-sm text-gray-500">
                   {selectedPayments.length} selected
                 </span>
-                <button
-                  onClick={() => handleBulkStatusUpdate("processing")}
-                  className="text-sm text-blue-600 hover:text-blue-500"
-                >
-                  Mark as Processing
-                </button>
-                <button
-                  onClick={() => handleBulkStatusUpdate("failed")}
-                  className="text-sm text-red-600 hover:text-red-500"
-                >
-                  Mark as Failed
-                </button>
+                <RequirePermission permission={PERMISSIONS.PAYMENTS_MANAGE}>
+                  <button
+                    onClick={() => handleBulkStatusUpdate("processing")}
+                    className="text-sm text-blue-600 hover:text-blue-500"
+                  >
+                    Mark as Processing
+                  </button>
+                  <button
+                    onClick={() => handleBulkStatusUpdate("failed")}
+                    className="text-sm text-red-600 hover:text-red-500"
+                  >
+                    Mark as Failed
+                  </button>
+                </RequirePermission>
               </div>
             )}
           </div>
@@ -685,13 +706,19 @@ export default function PaymentsPage() {
 
                           {payment.status === "completed" &&
                             payment.type === "ENTRY_FEE" && (
-                              <button
-                                onClick={() => handleProcessRefund(payment.id)}
-                                className="text-orange-600 hover:text-orange-900"
-                                title="Process Refund"
+                              <RequirePermission
+                                permission={PERMISSIONS.PAYMENTS_REFUND}
                               >
-                                <ArrowPathIcon className="h-4 w-4" />
-                              </button>
+                                <button
+                                  onClick={() =>
+                                    handleProcessRefund(payment.id)
+                                  }
+                                  className="text-orange-600 hover:text-orange-900"
+                                  title="Process Refund"
+                                >
+                                  <ArrowPathIcon className="h-4 w-4" />
+                                </button>
+                              </RequirePermission>
                             )}
 
                           <div className="relative">
@@ -0,0 +1,598 @@
+"use client";
+
+import React, { useState, useMemo } from "react";
+import Link from "next/link";
+import {
+  ArrowLeftIcon,
+  ArrowUpTrayIcon,
+  DocumentArrowDownIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  ScaleIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { paymentService, PaymentDispute } from "@/services/PaymentService";
+import { AdminPayment } from "@/types/admin";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import { downloadFile } from "@/lib/csv";
+import {
+  Discrepancy,
+  DiscrepancyType,
+  ReconciliationReport,
+  DISCREPANCY_LABELS,
+  parseSettlementFile,
+  getSettlementDateRange,
+  reconcile,
+  reportToCsv,
+} from "@/lib/reconciliation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+
+const discrepancyColors: Record<DiscrepancyType, string> = {
+  missing_in_records: "red",
+  missing_in_settlement: "orange",
+  duplicate: "purple",
+  amount_mismatch: "yellow",
+  status_mismatch: "blue",
+  invalid_amount: "gray",
+};
+
+// Default dispute priority per discrepancy
+const disputePriority: Record<DiscrepancyType, PaymentDispute["priority"]> = {
+  missing_in_records: "high",
+  missing_in_settlement: "high",
+  duplicate: "medium",
+  amount_mismatch: "high",
+  status_mismatch: "medium",
+  invalid_amount: "medium",
+};
+
+export default function PaymentReconciliationPage() {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [stage, setStage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<DiscrepancyType | "">("");
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [disputeTarget, setDisputeTarget] = useState<Discrepancy | null>(null);
+  const canManage = usePermission(PERMISSIONS.PAYMENTS_MANAGE);
+
+  // Fetch every payment in the settlement period, then look up any
+  // references that still didn't match (e.g. older payments settled late).
+  // Nothing is capped: a reference we skipped would show up as missing from
+  // our records.
+  const loadPayments = async (
+    references: string[],
+    range: { start: string; end: string } | null
+  ): Promise<AdminPayment[]> => {
+    const payments = new Map<string, AdminPayment>();
+
+    if (range) {
+      for (let page = 1; ; page++) {
+        setStage(`Loading payments (page ${page})...`);
+        const response = await paymentService.getPayments(
+          { dateRange: range },
+          { key: "createdAt", direction: "asc" },
+          page,
+          PAGE_SIZE
+        );
+        response.payments.forEach((payment) =>
+          payments.set(payment.id, payment)
+        );
+        if (!response.pagination?.hasNextPage) break;
+      }
+    }
+
+    const known = new Set(
+      Array.from(payments.values()).flatMap((payment) => [
+        payment.pesePayReference,
+        payment.pesePayTransactionId,
+      ])
+    );
+    const unmatched = Array.from(new Set(references)).filter(
+      (reference) => !known.has(reference)
+    );
+
+    for (const [index, reference] of unmatched.entries()) {
+      setStage(`Looking up references (${index + 1}/${unmatched.length})...`);
+      const found = await paymentService.searchByReference(reference);
+      found.forEach((payment) => payments.set(payment.id, payment));
+    }
+
+    return Array.from(payments.values());
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setReport(null);
+    setResolutions({});
+    setStage("Reading settlement file...");
+
+    try {
+      const records = parseSettlementFile(await file.text(), file.name);
+      if (records.length === 0) {
+        throw new Error("No transactions with a reference were found");
+      }
+
+      const payments = await loadPayments(
+        records.map((record) => record.reference || record.transactionId!),
+        getSettlementDateRange(records, DAY_MS)
+      );
+
+      setReport(
+        reconcile(records, payments, file.name, getSettlementDateRange(records))
+      );
+    } catch (err) {
+      console.error("Error reconciling settlement:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to reconcile settlement"
+      );
+    } finally {
+      setStage(null);
+    }
+  };
+
+  const resolve = (id: string, resolution: string) =>
+    setResolutions((prev) => ({ ...prev, [id]: resolution }));
+
+  const handleStatusFix = async (discrepancy: Discrepancy) => {
+    if (!discrepancy.payment || !discrepancy.expectedStatus || !report) return;
+
+    setBusyId(discrepancy.id);
+    try {
+      await paymentService.updatePaymentStatus({
+        paymentId: discrepancy.payment.id,
+        status: discrepancy.expectedStatus,
+        reason: `Reconciled against Pesepay settlement ${report.fileName}`,
+      });
+      resolve(discrepancy.id, `Status set to ${discrepancy.expectedStatus}`);
+      toast.success("Payment status updated");
+    } catch (err) {
+      console.error("Failed to update payment status:", err);
+      toast.error("Failed to update payment status");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpenDispute = async (
+    discrepancy: Discrepancy,
+    reason: string,
+    priority: PaymentDispute["priority"]
+  ) => {
+    if (!discrepancy.payment || !report) return;
+
+    setBusyId(discrepancy.id);
+    try {
+      const dispute = await paymentService.createDispute({
+        paymentId: discrepancy.payment.id,
+        reason,
+        priority,
+        description: discrepancy.detail,
+        metadata: {
+          source: "reconciliation",
+          settlementFile: report.fileName,
+          settlementRow: discrepancy.settlement?.row,
+          discrepancyType: discrepancy.type,
+        },
+      });
+      resolve(discrepancy.id, `Dispute ${dispute.id} opened`);
+      setDisputeTarget(null);
+      toast.success("Dispute opened");
+    } catch (err) {
+      console.error("Failed to open dispute:", err);
+      toast.error("Failed to open dispute");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadFile(
+      reportToCsv(report, resolutions),
+      `reconciliation-${report.generatedAt.slice(0, 10)}.csv`
+    );
+  };
+
+  const counts = useMemo(() => {
+    const result = {} as Record<DiscrepancyType, number>;
+    report?.discrepancies.forEach((d) => {
+      result[d.type] = (result[d.type] || 0) + 1;
+    });
+    return result;
+  }, [report]);
+
+  const visibleDiscrepancies = (report?.discrepancies || []).filter(
+    (d) => !typeFilter || d.type === typeFilter
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link
+            href="/admin/payments"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Payments
+          </Link>
+          <h1 className="mt-1 text-2xl font-semibold text-gray-900">
+            Settlement Reconciliation
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Match a Pesepay settlement export against recorded payments
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleExport}
+            disabled={!report}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
+            Export Report
+          </button>
+        </div>
+      </div>
+
+      {/* Upload */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <label
+          className={`flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 ${
+            stage ? "opacity-50" : "cursor-pointer hover:border-blue-400"
+          }`}
+        >
+          <ArrowUpTrayIcon className="h-8 w-8 text-gray-400" />
+          <span className="mt-2 text-sm font-medium text-gray-700">
+            {stage || report?.fileName || "Upload settlement CSV or JSON"}
+          </span>
+          <span className="text-xs text-gray-500">
+            Matched by reference number, falling back to transaction ID
+          </span>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            disabled={!!stage}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {report && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500 truncate">
+                Settlement Rows
+              </dt>
+              <dd className="text-lg font-medium text-gray-900">
+                {report.settlementCount}
+              </dd>
+              <dd className="text-sm text-gray-500">
+                ${report.settlementTotal.toFixed(2)}
+              </dd>
+            </div>
+            <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500 truncate">
+                Matched
+              </dt>
+              <dd className="text-lg font-medium text-green-700">
+                {report.matchedCount}
+              </dd>
+              <dd className="text-sm text-gray-500">
+                ${report.matchedTotal.toFixed(2)}
+              </dd>
+            </div>
+            <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500 truncate">
+                Discrepancies
+              </dt>
+              <dd className="text-lg font-medium text-red-700">
+                {report.discrepancies.length}
+              </dd>
+              <dd className="text-sm text-gray-500">
+                {Object.keys(resolutions).length} resolved
+              </dd>
+            </div>
+            <div className="bg-white overflow-hidden shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500 truncate">
+                Payments Checked
+              </dt>
+              <dd className="text-lg font-medium text-gray-900">
+                {report.paymentCount}
+              </dd>
+            </div>
+          </div>
+
+          {/* Discrepancies */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-4 py-4 border-b border-gray-200 flex flex-wrap gap-2">
+              <button
+                onClick={() => setTypeFilter("")}
+                className={`px-3 py-1 rounded-full text-sm font-medium ${
+                  typeFilter === ""
+                    ? "bg-gray-900 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                All ({report.discrepancies.length})
+              </button>
+              {(Object.keys(DISCREPANCY_LABELS) as DiscrepancyType[]).map(
+                (type) => (
+                  <button
+                    key={type}
+                    onClick={() =>
+                      setTypeFilter(typeFilter === type ? "" : type)
+                    }
+                    className={`px-3 py-1 rounded-full text-sm font-medium ${
+                      typeFilter === type
+                        ? `bg-${discrepancyColors[type]}-600 text-white`
+                        : `bg-${discrepancyColors[type]}-100 text-${discrepancyColors[type]}-800 hover:bg-${discrepancyColors[type]}-200`
+                    }`}
+                  >
+                    {DISCREPANCY_LABELS[type]} ({counts[type] || 0})
+                  </button>
+                )
+              )}
+            </div>
+
+            {visibleDiscrepancies.length === 0 ? (
+              <div className="text-center py-12">
+                <CheckCircleIcon className="mx-auto h-12 w-12 text-green-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">
+                  {report.discrepancies.length === 0
+                    ? "Settlement fully reconciled"
+                    : "No discrepancies of this type"}
+                </h3>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Issue
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Reference
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Payment
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Detail
+                      </th>
+                      <th className="relative px-6 py-3">
+                        <span className="sr-only">Actions</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {visibleDiscrepancies.map((discrepancy) => {
+                      const color = discrepancyColors[discrepancy.type];
+                      const resolution = resolutions[discrepancy.id];
+                      const busy = busyId === discrepancy.id;
+
+                      return (
+                        <tr
+                          key={discrepancy.id}
+                          className={resolution ? "bg-gray-50" : ""}
+                        >
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span
+                              className={`inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-${color}-100 text-${color}-800`}
+                            >
+                              {DISCREPANCY_LABELS[discrepancy.type]}
+                            </span>
+                            {discrepancy.settlement && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                Row {discrepancy.settlement.row}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                            {discrepancy.reference}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">
+                            {discrepancy.payment ? (
+                              <>
+                                <div className="text-gray-900">
+                                  ${discrepancy.payment.amount.toFixed(2)}{" "}
+                                  {discrepancy.payment.currency} ·{" "}
+                                  {discrepancy.payment.status.toLowerCase()}
+                                </div>
+                                <div className="text-gray-500">
+                                  @{discrepancy.payment.user?.username}
+                                </div>
+                              </>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {discrepancy.detail}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            {resolution ? (
+                              <span className="inline-flex items-center text-green-700">
+                                <CheckCircleIcon className="h-4 w-4 mr-1" />
+                                {resolution}
+                              </span>
+                            ) : (
+                              <div className="flex items-center justify-end space-x-3">
+                                {discrepancy.expectedStatus &&
+                                  discrepancy.payment && (
+                                    <button
+                                      onClick={() =>
+                                        handleStatusFix(discrepancy)
+                                      }
+                                      disabled={!canManage || busy}
+                                      className="text-blue-600 hover:text-blue-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      Mark {discrepancy.expectedStatus}
+                                    </button>
+                                  )}
+                                {discrepancy.payment && (
+                                  <button
+                                    onClick={() =>
+                                      setDisputeTarget(discrepancy)
+                                    }
+                                    disabled={!canManage || busy}
+                                    className="text-red-600 hover:text-red-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                                  >
+                                    Open Dispute
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() =>
+                                    resolve(discrepancy.id, "Reviewed")
+                                  }
+                                  className="text-gray-500 hover:text-gray-700"
+                                >
+                                  Mark Reviewed
+                                </button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {disputeTarget && (
+        <OpenDisputeModal
+          discrepancy={disputeTarget}
+          submitting={busyId === disputeTarget.id}
+          onClose={() => setDisputeTarget(null)}
+          onSubmit={(reason, priority) =>
+            handleOpenDispute(disputeTarget, reason, priority)
+          }
+        />
+      )}
+    </div>
+  );
+}
+
+// Open Dispute Modal Component
+interface OpenDisputeModalProps {
+  discrepancy: Discrepancy;
+  submitting: boolean;
+  onClose: () => void;
+  onSubmit: (reason: string, priority: PaymentDispute["priority"]) => void;
+}
+
+function OpenDisputeModal({
+  discrepancy,
+  submitting,
+  onClose,
+  onSubmit,
+}: OpenDisputeModalProps) {
+  const [reason, setReason] = useState(
+    `${DISCREPANCY_LABELS[discrepancy.type]}: ${discrepancy.detail}`
+  );
+  const [priority, setPriority] = useState<PaymentDispute["priority"]>(
+    disputePriority[discrepancy.type]
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <ScaleIcon className="h-5 w-5 text-red-500 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Open Dispute
+            </h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 flex">
+          <ExclamationTriangleIcon className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+          <p className="ml-2 text-sm text-yellow-700">
+            Payment {discrepancy.payment?.id} · reference{" "}
+            {discrepancy.reference}
+          </p>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit(reason.trim(), priority);
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Reason
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Priority
+            </label>
+            <select
+              value={priority}
+              onChange={(e) =>
+                setPriority(e.target.value as PaymentDispute["priority"])
+              }
+              className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+              <option value="urgent">Urgent</option>
+            </select>
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !reason.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting ? "Opening..." : "Open Dispute"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,477 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ArrowLeftIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  MagnifyingGlassIcon,
+  UserGroupIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  riskService,
+  CollusionCase,
+  RiskReviewStatus,
+} from "@/services/RiskService";
+import { tournamentService } from "@/services/TournamentService";
+import { userService } from "@/services/UserService";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import {
+  detectCollusion,
+  AnalysedPlayer,
+  COLLUSION_FINDING_LABELS,
+} from "@/lib/collusion";
+
+const PAGE_SIZE = 20;
+
+// How many of the most recent completed tournaments a scan covers
+const SCANNED_TOURNAMENTS = 20;
+
+const STATUS_TABS: { id: RiskReviewStatus; name: string }[] = [
+  { id: "open", name: "Open" },
+  { id: "cleared", name: "Cleared" },
+  { id: "actioned", name: "Actioned" },
+];
+
+const formatTime = (value: string) =>
+  format(new Date(value), "d MMM yyyy, HH:mm");
+
+const tournamentHref = (id: string) => `/admin/tournaments?tournament=${id}`;
+
+export default function CollusionReviewPage() {
+  const queryClient = useQueryClient();
+  const canManage = usePermission(PERMISSIONS.RISK_MANAGE);
+  const [status, setStatus] = useState<RiskReviewStatus>("open");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [scan, setScan] = useState<string | null>(null);
+
+  const casesQuery = useQuery({
+    queryKey: ["risk", "collusion", status, page],
+    queryFn: () => riskService.getCollusionCases(status, page, PAGE_SIZE),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({
+      collusionCase,
+      outcome,
+    }: {
+      collusionCase: CollusionCase;
+      outcome: Exclude<RiskReviewStatus, "open">;
+    }) =>
+      riskService.resolveCollusionCase(
+        collusionCase.id,
+        outcome,
+        (notes[collusionCase.id] || "").trim()
+      ),
+    onSuccess: (collusionCase) => {
+      toast.success(
+        collusionCase.status === "cleared" ? "Case cleared" : "Case closed"
+      );
+      setExpandedId(null);
+      queryClient.invalidateQueries({ queryKey: ["risk", "collusion"] });
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update case"
+      );
+    },
+  });
+
+  // Pull the game history of everyone who played in recent tournaments and
+  // open cases for whatever the detector finds
+  const handleScan = async () => {
+    try {
+      setScan("Loading tournaments...");
+      const { tournaments } = await tournamentService.getTournaments({
+        page: 1,
+        limit: SCANNED_TOURNAMENTS,
+        filters: { status: ["COMPLETED"] },
+        sort: { key: "startDate", direction: "desc" },
+      });
+      const prizeTournamentIds = new Set(
+        tournaments.filter((t) => t.prizePool > 0).map((t) => t.id)
+      );
+
+      const players = new Map<string, Omit<AnalysedPlayer, "games">>();
+      for (const [index, tournament] of Array.from(tournaments.entries())) {
+        setScan(`Loading players ${index + 1}/${tournaments.length}...`);
+        const participants = await tournamentService.getTournamentParticipants(
+          tournament.id
+        );
+        participants
+          .filter((participant) => participant.status !== "withdrawn")
+          .forEach((participant) => {
+            players.set(participant.userId, {
+              userId: participant.userId,
+              username: participant.username,
+              rating: participant.rating,
+            });
+          });
+      }
+
+      const analysed: AnalysedPlayer[] = [];
+      for (const [index, player] of Array.from(players.values()).entries()) {
+        setScan(`Loading games ${index + 1}/${players.size}...`);
+        const { games } = await userService.getUserGameHistory(
+          player.userId,
+          1,
+          200
+        );
+        analysed.push({ ...player, games });
+      }
+
+      const findings = detectCollusion(analysed, prizeTournamentIds);
+      if (findings.length === 0) {
+        toast.success(`No collusion found among ${players.size} players`);
+        return;
+      }
+      const { opened, updated } = await riskService.reportCollusion(findings);
+      toast.success(`${opened} cases opened, ${updated} updated`);
+      queryClient.invalidateQueries({ queryKey: ["risk", "collusion"] });
+    } catch (error) {
+      console.error("Error scanning for collusion:", error);
+      toast.error("Collusion scan failed");
+    } finally {
+      setScan(null);
+    }
+  };
+
+  const handleResolve = (
+    collusionCase: CollusionCase,
+    outcome: Exclude<RiskReviewStatus, "open">
+  ) => {
+    if (outcome === "actioned" && !(notes[collusionCase.id] || "").trim()) {
+      toast.error("Record what action was taken");
+      return;
+    }
+    resolveMutation.mutate({ collusionCase, outcome });
+  };
+
+  const cases = casesQuery.data?.cases || [];
+  const pagination = casesQuery.data?.pagination;
+
+  const renderCase = (collusionCase: CollusionCase) => {
+    const expanded = expandedId === collusionCase.id;
+    const [first, second] = collusionCase.usernames;
+    return (
+      <React.Fragment key={collusionCase.id}>
+        <tr
+          onClick={() => setExpandedId(expanded ? null : collusionCase.id)}
+          className="cursor-pointer hover:bg-gray-50"
+        >
+          <td className="px-4 py-3 whitespace-nowrap">
+            <div className="flex items-center text-sm font-medium text-gray-900">
+              {expanded ? (
+                <ChevronDownIcon className="h-4 w-4 mr-2 text-gray-400" />
+              ) : (
+                <ChevronRightIcon className="h-4 w-4 mr-2 text-gray-400" />
+              )}
+              {COLLUSION_FINDING_LABELS[collusionCase.type]}
+            </div>
+          </td>
+          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+            @{first} &amp; @{second}
+          </td>
+          <td className="px-4 py-3 text-sm text-gray-700">
+            {collusionCase.summary}
+          </td>
+          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+            {formatTime(collusionCase.detectedAt)}
+          </td>
+        </tr>
+        {expanded && (
+          <tr>
+            <td colSpan={4} className="px-4 py-4 bg-gray-50">
+              <div className="space-y-4">
+                {collusionCase.details.length > 0 && (
+                  <ul className="text-sm text-gray-700 list-disc list-inside">
+                    {collusionCase.details.map((detail, i) => (
+                      <li key={i}>{detail}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {collusionCase.tournaments.length > 0 && (
+                  <div>
+                    <h4 className="text-xs font-medium text-gray-500 uppercase mb-1">
+                      Tournaments Affected
+                    </h4>
+                    <div className="flex flex-wrap gap-2">
+                      {collusionCase.tournaments.map((tournament) => (
+                        <Link
+                          key={tournament.id}
+                          href={tournamentHref(tournament.id)}
+                          className="px-2 py-1 text-sm text-blue-600 bg-white border border-gray-200 rounded hover:text-blue-800"
+                        >
+                          {tournament.name}
+                        </Link>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <h4 className="text-xs font-medium text-gray-500 uppercase mb-1">
+                    Games
+                  </h4>
+                  <table className="min-w-full text-sm border border-gray-200 rounded bg-white">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                          Game
+                        </th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                          Played
+                        </th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                          Winner
+                        </th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                          Length
+                        </th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                          Rating
+                        </th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                          Tournament
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {collusionCase.games.map((game) => (
+                        <tr key={game.id}>
+                          <td className="px-3 py-2">
+                            <span className="text-gray-900">
+                              {game.gameType}
+                            </span>
+                            <span className="ml-2 font-mono text-xs text-gray-500">
+                              {game.id}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                            {formatTime(game.createdAt)}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {game.result === "draw"
+                              ? "Draw"
+                              : `@${game.result === "win" ? first : second}`}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-700">
+                            {game.duration}s
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-700">
+                            {game.eloChange > 0 ? "+" : ""}
+                            {game.eloChange}
+                          </td>
+                          <td className="px-3 py-2">
+                            {game.tournamentId ? (
+                              <Link
+                                href={tournamentHref(game.tournamentId)}
+                                className="text-blue-600 hover:text-blue-800"
+                              >
+                                {game.tournamentName || game.tournamentId}
+                              </Link>
+                            ) : (
+                              <span className="text-gray-400">Casual</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Rating changes are shown for @{first}.
+                  </p>
+                </div>
+
+                {collusionCase.reviewedBy ? (
+                  <p className="text-sm text-gray-700">
+                    {collusionCase.status === "cleared"
+                      ? "Cleared"
+                      : "Actioned"}
+                    {` by ${collusionCase.reviewedBy.name}`}
+                    {collusionCase.reviewedAt &&
+                      ` on ${formatTime(collusionCase.reviewedAt)}`}
+                    {collusionCase.reviewNote &&
+                      `: ${collusionCase.reviewNote}`}
+                  </p>
+                ) : (
+                  canManage && (
+                    <div className="flex items-start space-x-2">
+                      <textarea
+                        value={notes[collusionCase.id] || ""}
+                        onChange={(e) =>
+                          setNotes((current) => ({
+                            ...current,
+                            [collusionCase.id]: e.target.value,
+                          }))
+                        }
+                        rows={2}
+                        placeholder="What was checked, and any action taken"
+                        className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => handleResolve(collusionCase, "cleared")}
+                        disabled={resolveMutation.isPending}
+                        className="px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        Clear
+                      </button>
+                      <button
+                        onClick={() =>
+                          handleResolve(collusionCase, "actioned")
+                        }
+                        disabled={resolveMutation.isPending}
+                        className="px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Mark Actioned
+                      </button>
+                    </div>
+                  )
+                )}
+              </div>
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link
+            href="/admin/risk"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Risk Review
+          </Link>
+          <h1 className="mt-1 text-2xl font-semibold text-gray-900">
+            Collusion &amp; Match-Fixing
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Player pairs with lopsided head-to-heads, implausibly short prize
+            games or rating farmed from a weaker account
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={handleScan}
+            disabled={scan !== null}
+            className="inline-flex items-center px-3 py-2 border border-transparent shadow-sm text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <MagnifyingGlassIcon className="h-4 w-4 mr-2" />
+            {scan ?? "Scan Recent Tournaments"}
+          </button>
+        )}
+      </div>
+
+      {/* Status tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-8">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => {
+                setStatus(tab.id);
+                setPage(1);
+                setExpandedId(null);
+              }}
+              className={`py-3 px-1 border-b-2 font-medium text-sm ${
+                status === tab.id
+                  ? "border-admin-accent text-admin-accent"
+                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              }`}
+            >
+              {tab.name}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Cases */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {casesQuery.isLoading ? (
+          <div className="p-6 space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+            ))}
+          </div>
+        ) : casesQuery.error ? (
+          <div className="m-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+            {casesQuery.error instanceof Error
+              ? casesQuery.error.message
+              : "Failed to load collusion cases"}
+          </div>
+        ) : cases.length === 0 ? (
+          <div className="text-center py-12">
+            <UserGroupIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No {status} cases
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Scan recent tournaments to check their players&apos; games.
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Finding
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Players
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Summary
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Detected
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {cases.map(renderCase)}
+            </tbody>
+          </table>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-between text-sm text-gray-700">
+            <span>
+              Page {pagination.currentPage} of {pagination.totalPages} (
+              {pagination.totalItems} cases)
+            </span>
+            <div className="space-x-2">
+              <button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={!pagination.hasPreviousPage}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={!pagination.hasNextPage}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,390 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  MagnifyingGlassIcon,
+  ShieldExclamationIcon,
+  UserGroupIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  riskService,
+  RiskReview,
+  RiskReviewStatus,
+  RiskSubject,
+} from "@/services/RiskService";
+import {
+  paymentService,
+  WithdrawalRequest,
+} from "@/services/PaymentService";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { RISK_LEVEL_COLORS } from "@/lib/risk-scoring";
+import RiskSignalList from "@/components/admin/risk/RiskSignalList";
+
+const PAGE_SIZE = 20;
+const SCAN_CONCURRENCY = 3; // accounts assessed at once
+
+// Accounts with money on its way out are the ones worth scanning
+const SCANNED_WITHDRAWAL_STATUSES: WithdrawalRequest["status"][] = [
+  "pending",
+  "processing",
+];
+
+const STATUS_TABS: { id: RiskReviewStatus; name: string }[] = [
+  { id: "open", name: "Open" },
+  { id: "cleared", name: "Cleared" },
+  { id: "actioned", name: "Actioned" },
+];
+
+const formatTime = (value: string) =>
+  format(new Date(value), "d MMM yyyy, HH:mm");
+
+export default function RiskReviewPage() {
+  const queryClient = useQueryClient();
+  const canManage = usePermission(PERMISSIONS.RISK_MANAGE);
+  const [status, setStatus] = useState<RiskReviewStatus>("open");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [scan, setScan] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const [loadingScan, setLoadingScan] = useState(false);
+
+  const reviewsQuery = useQuery({
+    queryKey: ["risk", "reviews", status, page],
+    queryFn: () => riskService.getReviews(status, page, PAGE_SIZE),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({
+      review,
+      outcome,
+    }: {
+      review: RiskReview;
+      outcome: Exclude<RiskReviewStatus, "open">;
+    }) =>
+      riskService.resolveReview(
+        review.id,
+        outcome,
+        (notes[review.id] || "").trim()
+      ),
+    onSuccess: (review) => {
+      toast.success(
+        review.status === "cleared" ? "Account cleared" : "Review closed"
+      );
+      setExpandedId(null);
+      queryClient.invalidateQueries({ queryKey: ["risk", "reviews"] });
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update review"
+      );
+    },
+  });
+
+  // Score everyone with a withdrawal in flight, across every page, and
+  // queue the high-risk ones
+  const handleScan = async () => {
+    const subjects = new Map<string, RiskSubject>();
+    setLoadingScan(true);
+    try {
+      for (const withdrawalStatus of SCANNED_WITHDRAWAL_STATUSES) {
+        const withdrawals =
+          await paymentService.getAllWithdrawalRequests(withdrawalStatus);
+        withdrawals.forEach((withdrawal) => {
+          subjects.set(withdrawal.userId, {
+            id: withdrawal.userId,
+            username: withdrawal.user?.username ?? withdrawal.userId,
+            phoneNumber: withdrawal.user?.phoneNumber,
+          });
+        });
+      }
+    } catch (error) {
+      console.error("Error loading withdrawals to scan:", error);
+      toast.error("Failed to load withdrawals to scan");
+      return;
+    } finally {
+      setLoadingScan(false);
+    }
+
+    let flagged = 0;
+    let failed = 0;
+    setScan({ done: 0, total: subjects.size });
+    await mapWithConcurrency(
+      Array.from(subjects.values()),
+      SCAN_CONCURRENCY,
+      async (subject) => {
+        try {
+          const assessment = await riskService.assessUser(subject);
+          if (assessment.level === "high") {
+            await riskService.flagForReview(assessment);
+            flagged++;
+          }
+        } catch (error) {
+          console.error(`Error assessing ${subject.username}:`, error);
+          failed++;
+        }
+        setScan(
+          (current) => current && { ...current, done: current.done + 1 }
+        );
+      }
+    );
+    setScan(null);
+
+    queryClient.invalidateQueries({ queryKey: ["risk", "reviews"] });
+    const summary = `Scanned ${subjects.size} accounts, ${flagged} flagged`;
+    if (failed > 0) {
+      toast.error(`${summary}; ${failed} could not be assessed`);
+    } else {
+      toast.success(summary);
+    }
+  };
+
+  const handleResolve = (
+    review: RiskReview,
+    outcome: Exclude<RiskReviewStatus, "open">
+  ) => {
+    if (outcome === "actioned" && !(notes[review.id] || "").trim()) {
+      toast.error("Record what action was taken");
+      return;
+    }
+    resolveMutation.mutate({ review, outcome });
+  };
+
+  const reviews = reviewsQuery.data?.reviews || [];
+  const pagination = reviewsQuery.data?.pagination;
+
+  const renderReview = (review: RiskReview) => {
+    const expanded = expandedId === review.id;
+    return (
+      <React.Fragment key={review.id}>
+        <tr
+          onClick={() => setExpandedId(expanded ? null : review.id)}
+          className="cursor-pointer hover:bg-gray-50"
+        >
+          <td className="px-4 py-3 whitespace-nowrap">
+            <div className="flex items-center text-sm font-medium text-gray-900">
+              {expanded ? (
+                <ChevronDownIcon className="h-4 w-4 mr-2 text-gray-400" />
+              ) : (
+                <ChevronRightIcon className="h-4 w-4 mr-2 text-gray-400" />
+              )}
+              @{review.username}
+            </div>
+          </td>
+          <td className="px-4 py-3 whitespace-nowrap">
+            <span className="text-sm font-semibold text-gray-900">
+              {review.score}
+            </span>
+            <span
+              className={`ml-2 px-2 py-0.5 text-xs font-semibold rounded-full ${
+                RISK_LEVEL_COLORS[review.level]
+              }`}
+            >
+              {review.level}
+            </span>
+          </td>
+          <td className="px-4 py-3 text-sm text-gray-700">
+            {review.signals.map((signal) => signal.summary).join("; ")}
+          </td>
+          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+            {formatTime(review.assessedAt)}
+          </td>
+        </tr>
+        {expanded && (
+          <tr>
+            <td colSpan={4} className="px-4 py-4 bg-gray-50">
+              <div className="space-y-3">
+                <RiskSignalList signals={review.signals} />
+                {review.reviewedBy ? (
+                  <p className="text-sm text-gray-700">
+                    {review.status === "cleared" ? "Cleared" : "Actioned"}
+                    {` by ${review.reviewedBy.name}`}
+                    {review.reviewedAt &&
+                      ` on ${formatTime(review.reviewedAt)}`}
+                    {review.reviewNote && `: ${review.reviewNote}`}
+                  </p>
+                ) : (
+                  canManage && (
+                    <div className="flex items-start space-x-2">
+                      <textarea
+                        value={notes[review.id] || ""}
+                        onChange={(e) =>
+                          setNotes((current) => ({
+                            ...current,
+                            [review.id]: e.target.value,
+                          }))
+                        }
+                        rows={2}
+                        placeholder="What was checked, and any action taken"
+                        className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => handleResolve(review, "cleared")}
+                        disabled={resolveMutation.isPending}
+                        className="px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        Clear
+                      </button>
+                      <button
+                        onClick={() => handleResolve(review, "actioned")}
+                        disabled={resolveMutation.isPending}
+                        className="px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Mark Actioned
+                      </button>
+                    </div>
+                  )
+                )}
+              </div>
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Risk Review</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Accounts flagged for shared devices, phone or withdrawal numbers,
+            deposit-then-withdraw patterns and collusion
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <Link
+            href="/admin/risk/collusion"
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <UserGroupIcon className="h-4 w-4 mr-2" />
+            Collusion
+          </Link>
+          {canManage && (
+            <button
+              onClick={handleScan}
+              disabled={scan !== null || loadingScan}
+              className="inline-flex items-center px-3 py-2 border border-transparent shadow-sm text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <MagnifyingGlassIcon className="h-4 w-4 mr-2" />
+              {loadingScan
+                ? "Loading withdrawals..."
+                : scan
+                ? `Scanning ${scan.done}/${scan.total}...`
+                : "Scan Pending Withdrawals"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Status tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-8">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => {
+                setStatus(tab.id);
+                setPage(1);
+                setExpandedId(null);
+              }}
+              className={`py-3 px-1 border-b-2 font-medium text-sm ${
+                status === tab.id
+                  ? "border-admin-accent text-admin-accent"
+                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              }`}
+            >
+              {tab.name}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Reviews */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {reviewsQuery.isLoading ? (
+          <div className="p-6 space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+            ))}
+          </div>
+        ) : reviewsQuery.error ? (
+          <div className="m-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+            {reviewsQuery.error instanceof Error
+              ? reviewsQuery.error.message
+              : "Failed to load the review queue"}
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-12">
+            <ShieldExclamationIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No {status} reviews
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Flag accounts from the Risk tab on a user, or scan pending
+              withdrawals.
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Score
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Signals
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Assessed
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reviews.map(renderReview)}
+            </tbody>
+          </table>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-between text-sm text-gray-700">
+            <span>
+              Page {pagination.currentPage} of {pagination.totalPages} (
+              {pagination.totalItems} accounts)
+            </span>
+            <div className="space-x-2">
+              <button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={!pagination.hasPreviousPage}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={!pagination.hasNextPage}
+                className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
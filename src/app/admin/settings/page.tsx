@@ -11,51 +11,64 @@ import {
   CurrencyDollarIcon,
   UserGroupIcon,
   ChartBarIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
 } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import { paymentService, WithdrawalPolicy } from "@/services/PaymentService";
+import {
+  settingsService,
+  PlatformConfig,
+  SettingsChange,
+  SettingsVersion,
+} from "@/services/SettingsService";
+import { DEFAULT_WITHDRAWAL_POLICY } from "@/lib/withdrawal-policy";
+import {
+  DEFAULT_SETTINGS,
+  applySettingsChanges,
+  diffSettings,
+  formatSettingKey,
+  formatSettingValue,
+  getSettingsErrors,
+  SETTINGS_SECTION_LABELS,
+} from "@/lib/settings";
+import SettingsHistory from "@/components/admin/settings/SettingsHistory";
+import FeatureFlagManager from "@/components/admin/settings/FeatureFlagManager";
+import MaintenanceWindowManager from "@/components/admin/maintenance/MaintenanceWindowManager";
 
-// Mock data - replace with real API calls
-const initialSettings = {
-  platform: {
-    name: "Nhandare Gaming Platform",
-    description: "Zimbabwe's premier gaming platform",
-    version: "1.0.0",
-    maintenanceMode: false,
-    registrationEnabled: true,
-    maxUsersPerTournament: 64,
-    defaultTournamentDuration: 7,
+const withdrawalPolicyFields: Array<{
+  key: keyof WithdrawalPolicy;
+  label: string;
+  help: string;
+}> = [
+  {
+    key: "approvalThreshold",
+    label: "Second Approval Threshold ($)",
+    help: "Withdrawals above this amount need two admins",
   },
-  security: {
-    sessionTimeout: 24,
-    maxLoginAttempts: 5,
-    requireEmailVerification: true,
-    requirePhoneVerification: false,
-    twoFactorEnabled: false,
-    passwordMinLength: 8,
+  {
+    key: "dailyLimitPerUser",
+    label: "Daily Limit per User ($)",
+    help: "Total withdrawn by one user in 24 hours",
   },
-  payments: {
-    currency: "USD",
-    paymentMethods: ["pesepay", "ecocash", "onemoney"],
-    transactionFee: 2.5,
-    minimumWithdrawal: 10,
-    maximumWithdrawal: 1000,
-    autoApproveWithdrawals: false,
+  {
+    key: "maxWithdrawalsPerDay",
+    label: "Max Withdrawals per Day",
+    help: "Requests per user in 24 hours",
   },
-  features: {
-    tournaments: true,
-    leaderboards: true,
-    chat: true,
-    notifications: true,
-    analytics: true,
-    moderation: true,
+  {
+    key: "velocityWindowMinutes",
+    label: "Velocity Window (minutes)",
+    help: "Window used for burst detection",
   },
-  integrations: {
-    pesepayEnabled: true,
-    ecocashEnabled: true,
-    onemoneyEnabled: true,
-    emailService: "sendgrid",
-    smsService: "twilio",
+  {
+    key: "maxWithdrawalsPerWindow",
+    label: "Max Withdrawals per Window",
+    help: "Requests per user inside the velocity window",
   },
-};
+];
 
 const tabs = [
   { id: "platform", name: "Platform", icon: CogIcon },
@@ -64,18 +77,82 @@ const tabs = [
   { id: "features", name: "Features", icon: ChartBarIcon },
   { id: "integrations", name: "Integrations", icon: KeyIcon },
   { id: "system", name: "System", icon: ServerIcon },
+  { id: "history", name: "History", icon: ClockIcon },
 ];
 
 export default function SettingsPage() {
   const [selectedTab, setSelectedTab] = useState("platform");
-  const [settings, setSettings] = useState(initialSettings);
+  const [settings, setSettings] = useState<PlatformConfig>(DEFAULT_SETTINGS);
+  const [savedSettings, setSavedSettings] =
+    useState<PlatformConfig>(DEFAULT_SETTINGS);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [saveComment, setSaveComment] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  // Saving stays off until the stored settings have loaded, so the defaults
+  // shown after a failed load can never be written over them
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [withdrawalPolicy, setWithdrawalPolicy] = useState<WithdrawalPolicy>(
+    DEFAULT_WITHDRAWAL_POLICY
+  );
+  const [savedWithdrawalPolicy, setSavedWithdrawalPolicy] =
+    useState<WithdrawalPolicy>(DEFAULT_WITHDRAWAL_POLICY);
+  const [isPolicyLoaded, setIsPolicyLoaded] = useState(false);
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  // Changes another admin saved while this page had unsaved edits
+  const [conflict, setConflict] = useState<SettingsChange[] | null>(null);
+  const canManageSettings = usePermission(PERMISSIONS.SETTINGS_MANAGE);
+
+  const loadSettings = async () => {
+    setLoadError(null);
+    try {
+      const { settings, version } = await settingsService.getSettings();
+      setSettings(settings);
+      setSavedSettings(settings);
+      setCurrentVersion(version);
+      setIsLoaded(true);
+    } catch (error) {
+      console.error("Error loading settings:", error);
+      setLoadError(
+        error instanceof Error ? error.message : "Failed to load settings"
+      );
+    }
+  };
+
+  // Withdrawal approval policy is stored by the payments API, so it loads
+  // on its own and only its panel is affected if that fails
+  const loadWithdrawalPolicy = async () => {
+    setPolicyError(null);
+    try {
+      const policy = await paymentService.getWithdrawalPolicy();
+      setWithdrawalPolicy(policy);
+      setSavedWithdrawalPolicy(policy);
+      setIsPolicyLoaded(true);
+    } catch (error) {
+      console.error("Error loading withdrawal policy:", error);
+      setPolicyError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load withdrawal policy"
+      );
+    }
+  };
+
+  useEffect(() => {
+    loadSettings();
+    loadWithdrawalPolicy();
+  }, []);
 
   useEffect(() => {
     // Check for changes
-    setHasChanges(JSON.stringify(settings) !== JSON.stringify(initialSettings));
-  }, [settings]);
+    setHasChanges(
+      JSON.stringify(settings) !== JSON.stringify(savedSettings) ||
+        JSON.stringify(withdrawalPolicy) !==
+          JSON.stringify(savedWithdrawalPolicy)
+    );
+  }, [settings, savedSettings, withdrawalPolicy, savedWithdrawalPolicy]);
 
   const handleSettingChange = (
     section: string,
@@ -91,22 +168,83 @@ export default function SettingsPage() {
     }));
   };
 
+  // Another admin saved first: carry our edits over to their version and
+  // show what they changed before anything is saved again
+  const handleConflict = async (ours: SettingsChange[]) => {
+    const latest = await settingsService.getSettings();
+    setConflict(diffSettings(savedSettings, latest.settings));
+    setSettings(applySettingsChanges(latest.settings, ours));
+    setSavedSettings(latest.settings);
+    setCurrentVersion(latest.version);
+    toast.error(
+      "Someone else saved the settings first. Review their changes, then save again."
+    );
+  };
+
   const handleSave = async () => {
+    if (!isLoaded || currentVersion === null) return;
+    const validationErrors = getSettingsErrors(settings);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      toast.error("Fix the highlighted settings before saving");
+      return;
+    }
+
     setIsLoading(true);
     try {
-      // In real implementation, this would call the API
-      console.log("Saving settings:", settings);
-      await new Promise((resolve) => setTimeout(resolve, 1000)); // Simulate API call
+      if (
+        isPolicyLoaded &&
+        JSON.stringify(withdrawalPolicy) !==
+          JSON.stringify(savedWithdrawalPolicy)
+      ) {
+        const policy = await paymentService.updateWithdrawalPolicy(
+          withdrawalPolicy
+        );
+        setWithdrawalPolicy(policy);
+        setSavedWithdrawalPolicy(policy);
+      }
+
+      const changes = diffSettings(savedSettings, settings);
+      if (changes.length > 0) {
+        const saved = await settingsService.updateSettings(
+          settings,
+          changes,
+          currentVersion,
+          saveComment.trim() || undefined
+        );
+        if (!saved) {
+          await handleConflict(changes);
+          return;
+        }
+        applyVersion(saved);
+        toast.success(`Settings saved as version ${saved.version}`);
+      } else {
+        toast.success("Settings saved");
+      }
       setHasChanges(false);
     } catch (error) {
       console.error("Error saving settings:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save settings"
+      );
     } finally {
       setIsLoading(false);
     }
   };
 
+  const applyVersion = (version: SettingsVersion) => {
+    setSettings(version.settings);
+    setSavedSettings(version.settings);
+    setCurrentVersion(version.version);
+    setSaveComment("");
+    setErrors({});
+    setConflict(null);
+  };
+
   const handleReset = () => {
-    setSettings(initialSettings);
+    setSettings(savedSettings);
+    setWithdrawalPolicy(savedWithdrawalPolicy);
+    setErrors({});
   };
 
   const renderPlatformSettings = () => (
@@ -198,7 +336,8 @@ export default function SettingsPage() {
               Maintenance Mode
             </h4>
             <p className="text-sm text-gray-500">
-              Temporarily disable the platform for maintenance
+              Take the platform down immediately; use a maintenance window
+              below for planned downtime
             </p>
           </div>
           <input
@@ -236,6 +375,10 @@ export default function SettingsPage() {
           />
         </div>
       </div>
+
+      <div className="border-t border-gray-200 pt-6">
+        <MaintenanceWindowManager canManage={canManageSettings} />
+      </div>
     </div>
   );
 
@@ -472,6 +615,53 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      <div>
+        <h4 className="text-sm font-medium text-gray-900">
+          Withdrawal Approval
+        </h4>
+        <p className="text-sm text-gray-500">
+          Withdrawals above the threshold or outside these limits must be
+          approved by one admin and completed by another
+        </p>
+        {policyError && (
+          <div className="mt-4 flex items-center justify-between bg-red-50 border border-red-200 rounded-md p-3">
+            <span className="flex items-center text-sm text-red-800">
+              <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+              Failed to load the withdrawal policy ({policyError})
+            </span>
+            <button
+              onClick={loadWithdrawalPolicy}
+              className="text-sm font-medium text-red-700 hover:text-red-900"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+        <div className="mt-4 grid grid-cols-1 gap-6 sm:grid-cols-2">
+          {withdrawalPolicyFields.map((field) => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={withdrawalPolicy[field.key]}
+                disabled={!isPolicyLoaded}
+                onChange={(e) =>
+                  setWithdrawalPolicy((prev) => ({
+                    ...prev,
+                    [field.key]: parseFloat(e.target.value) || 0,
+                  }))
+                }
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">{field.help}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Payment Methods
@@ -526,6 +716,10 @@ export default function SettingsPage() {
           </div>
         ))}
       </div>
+
+      <div className="border-t border-gray-200 pt-6">
+        <FeatureFlagManager canManage={canManageSettings} />
+      </div>
     </div>
   );
 
@@ -737,6 +931,14 @@ export default function SettingsPage() {
         return renderIntegrationSettings();
       case "system":
         return renderSystemSettings();
+      case "history":
+        return (
+          <SettingsHistory
+            currentVersion={currentVersion}
+            canManage={canManageSettings}
+            onRestored={applyVersion}
+          />
+        );
       default:
         return null;
     }
@@ -761,9 +963,11 @@ export default function SettingsPage() {
           </button>
           <button
             onClick={handleSave}
-            disabled={!hasChanges || isLoading}
+            disabled={
+              !canManageSettings || !isLoaded || !hasChanges || isLoading
+            }
             className={`px-4 py-2 rounded-md text-sm font-medium ${
-              hasChanges && !isLoading
+              canManageSettings && isLoaded && hasChanges && !isLoading
                 ? "bg-blue-600 text-white hover:bg-blue-700"
                 : "bg-gray-300 text-gray-500 cursor-not-allowed"
             }`}
@@ -773,6 +977,61 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center text-sm text-red-800">
+              <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+              Failed to load the saved settings ({loadError}). The values
+              below are defaults and can&apos;t be saved.
+            </div>
+            <button
+              onClick={loadSettings}
+              className="text-sm font-medium text-red-700 hover:text-red-900"
+            >
+              Retry
+            </button>
+          </div>
+        </div>
+      )}
+
+      {conflict && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center text-sm font-medium text-yellow-800">
+              <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+              Another admin saved version {currentVersion} while you were
+              editing. Your changes have been kept on top of theirs.
+            </div>
+            <button
+              onClick={() => setConflict(null)}
+              className="text-sm font-medium text-yellow-700 hover:text-yellow-900"
+            >
+              Dismiss
+            </button>
+          </div>
+          {conflict.length > 0 && (
+            <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+              {conflict.map((change) => {
+                const mine = (
+                  settings[change.section] as Record<string, unknown>
+                )[change.key];
+                return (
+                  <li key={`${change.section}.${change.key}`}>
+                    {SETTINGS_SECTION_LABELS[change.section]} ›{" "}
+                    {formatSettingKey(change.key)}:{" "}
+                    {formatSettingValue(change.before)} →{" "}
+                    {formatSettingValue(change.after)}
+                    {JSON.stringify(mine) !== JSON.stringify(change.after) &&
+                      " (you changed this too; your value will be saved)"}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Settings tabs */}
       <div className="bg-white shadow rounded-lg">
         <div className="border-b border-gray-200">
@@ -794,7 +1053,46 @@ export default function SettingsPage() {
           </nav>
         </div>
 
-        <div className="p-6">{renderTabContent()}</div>
+        <div className="p-6 space-y-6">
+          {Object.keys(errors).length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex items-center text-sm font-medium text-red-800">
+                <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+                Some settings are invalid
+              </div>
+              <ul className="mt-2 space-y-1 text-sm text-red-700">
+                {Object.entries(errors).map(([path, message]) => {
+                  const [section, key] = path.split(".");
+                  return (
+                    <li key={path}>
+                      {SETTINGS_SECTION_LABELS[
+                        section as keyof typeof SETTINGS_SECTION_LABELS
+                      ] || section}
+                      {key && ` › ${formatSettingKey(key)}`}: {message}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {hasChanges && selectedTab !== "history" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Change Note
+              </label>
+              <input
+                type="text"
+                value={saveComment}
+                onChange={(e) => setSaveComment(e.target.value)}
+                placeholder="Why are these settings changing? (optional)"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          {renderTabContent()}
+        </div>
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   PlusIcon,
@@ -17,9 +17,20 @@ import {
   TrophyIcon,
   XMarkIcon,
   ExclamationTriangleIcon,
+  Squares2X2Icon,
+  ChatBubbleLeftRightIcon,
+  CheckCircleIcon,
+  BanknotesIcon,
+  ArrowUturnLeftIcon,
+  CalendarDaysIcon,
 } from "@heroicons/react/24/outline";
+import Link from "next/link";
 import TournamentForm from "@/components/admin/tournaments/TournamentForm";
 import ParticipantManager from "@/components/admin/tournaments/ParticipantManager";
+import BracketViewer from "@/components/admin/tournaments/BracketViewer";
+import TournamentChatConsole from "@/components/admin/tournaments/TournamentChatConsole";
+import PrizePayoutModal from "@/components/admin/tournaments/PrizePayoutModal";
+import CancelTournamentModal from "@/components/admin/tournaments/CancelTournamentModal";
 import {
   tournamentService,
   CreateTournamentData,
@@ -27,6 +38,8 @@ import {
 } from "@/services/TournamentService";
 import { AdminTournament } from "@/types/admin";
 import toast from "react-hot-toast";
+import RequirePermission from "@/components/admin/RequirePermission";
+import { PERMISSIONS } from "@/lib/permissions";
 // Simple currency formatter
 const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat("en-US", {
@@ -58,6 +71,13 @@ export default function TournamentsPage() {
   const [selectedTournaments, setSelectedTournaments] = useState<string[]>([]);
   const [managingParticipants, setManagingParticipants] =
     useState<AdminTournament | null>(null);
+  const [viewingBracket, setViewingBracket] =
+    useState<AdminTournament | null>(null);
+  const [moderatingChat, setModeratingChat] =
+    useState<AdminTournament | null>(null);
+  const [payingOut, setPayingOut] = useState<AdminTournament | null>(null);
+  const [cancellingTournament, setCancellingTournament] =
+    useState<AdminTournament | null>(null);
   const [showTournamentDetails, setShowTournamentDetails] = useState(false);
   const [selectedTournamentDetails, setSelectedTournamentDetails] =
     useState<AdminTournament | null>(null);
@@ -117,6 +137,21 @@ export default function TournamentsPage() {
     queryFn: () => tournamentService.getTournaments(queryParams),
   });
 
+  // Links from elsewhere in the panel open a tournament's details directly
+  useEffect(() => {
+    const linkedId = new URLSearchParams(window.location.search).get(
+      "tournament"
+    );
+    if (!linkedId) return;
+    tournamentService
+      .getTournament(linkedId)
+      .then((tournament) => {
+        setSelectedTournamentDetails(tournament);
+        setShowTournamentDetails(true);
+      })
+      .catch(() => toast.error("Linked tournament could not be found"));
+  }, []);
+
   // Mutations
   const createTournamentMutation = useMutation({
     mutationFn: (data: CreateTournamentData) =>
@@ -158,6 +193,23 @@ export default function TournamentsPage() {
     },
   });
 
+  // Completing a tournament goes straight on to paying out its prizes
+  const completeTournamentMutation = useMutation({
+    mutationFn: (tournament: AdminTournament) =>
+      tournamentService.completeTournament(tournament.id),
+    onSuccess: (completed, tournament) => {
+      queryClient.invalidateQueries({ queryKey: ["tournaments"] });
+      toast.success("Tournament completed");
+      if (tournament.prizePool > 0) {
+        setPayingOut({ ...tournament, ...completed });
+      }
+    },
+    onError: (error) => {
+      console.error("Error completing tournament:", error);
+      toast.error("Failed to complete tournament");
+    },
+  });
+
   const bulkDeleteTournamentMutation = useMutation({
     mutationFn: (ids: string[]) => tournamentService.bulkDeleteTournaments(ids),
     onSuccess: () => {
@@ -223,17 +275,20 @@ export default function TournamentsPage() {
       return;
     }
 
+    // The dialog shows the refunds owed before anything is cancelled
+    setCancellingTournament(tournament);
+  };
+
+  const handleCompleteTournament = async (id: string) => {
+    const tournament = tournaments.find((t) => t.id === id);
+    if (!tournament) return;
+
     if (
       confirm(
-        "Are you sure you want to cancel this tournament? Participants will be notified and refunded."
+        "Complete this tournament? The final standings will be locked in and prizes can then be paid out."
       )
     ) {
-      try {
-        // TODO: Implement cancel tournament mutation
-        toast.success("Tournament cancelled successfully");
-      } catch (error) {
-        toast.error("Failed to cancel tournament");
-      }
+      completeTournamentMutation.mutate(tournament);
     }
   };
 
@@ -352,6 +407,34 @@ export default function TournamentsPage() {
         />
       )}
 
+      {viewingBracket && (
+        <BracketViewer
+          tournament={viewingBracket}
+          onClose={() => setViewingBracket(null)}
+        />
+      )}
+
+      {cancellingTournament && (
+        <CancelTournamentModal
+          tournament={cancellingTournament}
+          onClose={() => setCancellingTournament(null)}
+        />
+      )}
+
+      {payingOut && (
+        <PrizePayoutModal
+          tournament={payingOut}
+          onClose={() => setPayingOut(null)}
+        />
+      )}
+
+      {moderatingChat && (
+        <TournamentChatConsole
+          tournament={moderatingChat}
+          onClose={() => setModeratingChat(null)}
+        />
+      )}
+
       <div className="space-y-6">
         {/* Page header */}
         <div className="sm:flex sm:items-center sm:justify-between">
@@ -376,13 +459,22 @@ export default function TournamentsPage() {
                 </button>
               </div>
             )}
-            <button
-              onClick={() => setShowCreateModal(true)}
-              className="inline-flex items-center rounded-md bg-blue-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600"
+            <Link
+              href="/admin/tournaments/templates"
+              className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
             >
-              <PlusIcon className="-ml-0.5 mr-1.5 h-5 w-5" />
-              Create Tournament
-            </button>
+              <CalendarDaysIcon className="-ml-0.5 mr-1.5 h-5 w-5" />
+              Templates
+            </Link>
+            <RequirePermission permission={PERMISSIONS.TOURNAMENTS_MANAGE}>
+              <button
+                onClick={() => setShowCreateModal(true)}
+                className="inline-flex items-center rounded-md bg-blue-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600"
+              >
+                <PlusIcon className="-ml-0.5 mr-1.5 h-5 w-5" />
+                Create Tournament
+              </button>
+            </RequirePermission>
           </div>
         </div>
 
@@ -654,6 +746,24 @@ export default function TournamentsPage() {
                               </button>
                             )}
 
+                            {/* Refunds - Entry fees left over from a cancellation */}
+                            {tournament.status === "CANCELLED" &&
+                              tournament.entryFee > 0 && (
+                                <RequirePermission
+                                  permission={PERMISSIONS.PAYMENTS_REFUND}
+                                >
+                                  <button
+                                    onClick={() =>
+                                      setCancellingTournament(tournament)
+                                    }
+                                    className="text-orange-600 hover:text-orange-800"
+                                    title="Refund Entry Fees"
+                                  >
+                                    <ArrowUturnLeftIcon className="h-4 w-4" />
+                                  </button>
+                                </RequirePermission>
+                              )}
+
                             {/* Suspend - For problematic tournaments */}
                             {(tournament.status === "OPEN" ||
                               tournament.status === "ACTIVE") && (
@@ -668,6 +778,40 @@ export default function TournamentsPage() {
                               </button>
                             )}
 
+                            {/* Complete - Once the final has been played */}
+                            {tournament.status === "ACTIVE" && (
+                              <RequirePermission
+                                permission={PERMISSIONS.TOURNAMENTS_MANAGE}
+                              >
+                                <button
+                                  onClick={() =>
+                                    handleCompleteTournament(tournament.id)
+                                  }
+                                  disabled={completeTournamentMutation.isPending}
+                                  className="text-green-600 hover:text-green-800 disabled:opacity-50"
+                                  title="Complete Tournament"
+                                >
+                                  <CheckCircleIcon className="h-4 w-4" />
+                                </button>
+                              </RequirePermission>
+                            )}
+
+                            {/* Prizes - For completed tournaments with a pool */}
+                            {tournament.status === "COMPLETED" &&
+                              tournament.prizePool > 0 && (
+                                <RequirePermission
+                                  permission={PERMISSIONS.PAYMENTS_VIEW}
+                                >
+                                  <button
+                                    onClick={() => setPayingOut(tournament)}
+                                    className="text-green-600 hover:text-green-800"
+                                    title="Prize Payouts"
+                                  >
+                                    <BanknotesIcon className="h-4 w-4" />
+                                  </button>
+                                </RequirePermission>
+                              )}
+
                             {/* Archive - For completed tournaments */}
                             {tournament.status === "COMPLETED" && (
                               <button
@@ -720,6 +864,32 @@ export default function TournamentsPage() {
                                 <UserGroupIcon className="h-4 w-4" />
                               </button>
                             )}
+
+                            {/* Bracket - Once players have registered */}
+                            {tournament.currentPlayers > 1 && (
+                              <button
+                                onClick={() => setViewingBracket(tournament)}
+                                className="text-indigo-600 hover:text-indigo-800"
+                                title="View Bracket"
+                              >
+                                <Squares2X2Icon className="h-4 w-4" />
+                              </button>
+                            )}
+
+                            {/* Chat - Once players have registered */}
+                            {tournament.currentPlayers > 0 && (
+                              <RequirePermission
+                                permission={PERMISSIONS.MODERATION_VIEW}
+                              >
+                                <button
+                                  onClick={() => setModeratingChat(tournament)}
+                                  className="text-teal-600 hover:text-teal-800"
+                                  title="Moderate Chat"
+                                >
+                                  <ChatBubbleLeftRightIcon className="h-4 w-4" />
+                                </button>
+                              </RequirePermission>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -0,0 +1,294 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeftIcon,
+  CalendarDaysIcon,
+  PauseIcon,
+  PencilIcon,
+  PlayIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  tournamentTemplateService,
+  TournamentTemplate,
+  TournamentTemplateInput,
+} from "@/services/TournamentTemplateService";
+import {
+  TEMPLATES_QUERY_KEY,
+  useTournamentTemplates,
+} from "@/hooks/useTournamentTemplates";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import { describeRecurrence } from "@/lib/tournament-schedule";
+import TournamentTemplateForm from "@/components/admin/tournaments/TournamentTemplateForm";
+import TemplateCalendar from "@/components/admin/tournaments/TemplateCalendar";
+
+const BRACKET_LABELS: Record<TournamentTemplate["bracketType"], string> = {
+  SINGLE_ELIMINATION: "Single Elimination",
+  DOUBLE_ELIMINATION: "Double Elimination",
+  ROUND_ROBIN: "Round Robin",
+  SWISS: "Swiss",
+};
+
+export default function TournamentTemplatesPage() {
+  const queryClient = useQueryClient();
+  const canManage = usePermission(PERMISSIONS.TOURNAMENTS_MANAGE);
+  const templatesQuery = useTournamentTemplates();
+  const [editing, setEditing] = useState<TournamentTemplate | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const templates = templatesQuery.data || [];
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+
+  const toggleMutation = useMutation({
+    mutationFn: (template: TournamentTemplate) =>
+      tournamentTemplateService.updateTemplate(template.id, {
+        active: !template.active,
+      }),
+    onSuccess: (template) => {
+      toast.success(
+        template.active
+          ? `"${template.name}" resumed`
+          : `"${template.name}" paused`
+      );
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update template"
+      );
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (template: TournamentTemplate) =>
+      tournamentTemplateService.deleteTemplate(template.id),
+    onSuccess: () => {
+      toast.success("Template deleted");
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete template"
+      );
+    },
+  });
+
+  const handleSubmit = async (input: TournamentTemplateInput) => {
+    const saved = editing
+      ? await tournamentTemplateService.updateTemplate(editing.id, input)
+      : await tournamentTemplateService.createTemplate(input);
+    toast.success(
+      editing ? `"${saved.name}" updated` : `"${saved.name}" created`
+    );
+    refresh();
+  };
+
+  const handleDelete = (template: TournamentTemplate) => {
+    if (
+      confirm(
+        `Delete "${template.name}"? No more tournaments will be created ` +
+          "from it. Tournaments already created are kept."
+      )
+    ) {
+      deleteMutation.mutate(template);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link
+            href="/admin/tournaments"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Tournaments
+          </Link>
+          <h1 className="mt-1 text-2xl font-semibold text-gray-900">
+            Tournament Templates
+          </h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Reusable tournament settings, and series that create their
+            tournaments automatically ahead of time
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="inline-flex items-center px-3 py-2 border border-transparent shadow-sm text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <PlusIcon className="h-4 w-4 mr-2" />
+            New Template
+          </button>
+        )}
+      </div>
+
+      {templatesQuery.error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+          {templatesQuery.error instanceof Error
+            ? templatesQuery.error.message
+            : "Failed to load templates"}
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {templatesQuery.isLoading ? (
+          <div className="p-6 space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+            ))}
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarDaysIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No templates yet
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Save a template to schedule a recurring series such as a weekly
+              blitz night.
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Template
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Schedule
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Format
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Entry Fee
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templates.map((template) => (
+                <tr key={template.id}>
+                  <td className="px-6 py-4 text-sm">
+                    <p className="font-medium text-gray-900">
+                      {template.name}
+                    </p>
+                    <p className="text-gray-500">{template.title}</p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {template.recurrence ? (
+                      <>
+                        {describeRecurrence(template.recurrence)}
+                        <span className="block text-xs text-gray-500">
+                          Created {template.createAheadDays} day
+                          {template.createAheadDays === 1 ? "" : "s"} ahead
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-gray-500">Manual</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    <span className="capitalize">{template.gameType}</span> ·{" "}
+                    {BRACKET_LABELS[template.bracketType]}
+                    <span className="block text-xs text-gray-500">
+                      Up to {template.maxPlayers} players
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right text-gray-900">
+                    ${template.entryFee.toFixed(2)}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {!template.recurrence ? (
+                      <span className="text-gray-500">—</span>
+                    ) : (
+                      <span
+                        className={`px-2 py-0.5 text-xs font-semibold rounded-full ${
+                          template.active
+                            ? "bg-green-100 text-green-800"
+                            : "bg-gray-100 text-gray-800"
+                        }`}
+                      >
+                        {template.active ? "Active" : "Paused"}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm">
+                    {canManage && (
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => setEditing(template)}
+                          className="text-blue-600 hover:text-blue-700"
+                          title="Edit Template"
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        {template.recurrence && (
+                          <button
+                            onClick={() => toggleMutation.mutate(template)}
+                            disabled={toggleMutation.isPending}
+                            className="text-yellow-600 hover:text-yellow-800 disabled:opacity-50"
+                            title={
+                              template.active
+                                ? "Pause Series"
+                                : "Resume Series"
+                            }
+                          >
+                            {template.active ? (
+                              <PauseIcon className="h-4 w-4" />
+                            ) : (
+                              <PlayIcon className="h-4 w-4" />
+                            )}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(template)}
+                          disabled={deleteMutation.isPending}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          title="Delete Template"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <TemplateCalendar
+        templates={templates.filter((template) => template.recurrence)}
+        canManage={canManage}
+      />
+
+      {(isCreating || editing) && (
+        <TournamentTemplateForm
+          template={editing}
+          onSubmit={handleSubmit}
+          onClose={() => {
+            setIsCreating(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -30,6 +30,9 @@ import UserForm from "@/components/admin/users/UserForm";
 import UserDetailsModal from "@/components/admin/users/UserDetailsModal";
 import { PlatformUser } from "@/types/admin";
 import { toast } from "react-hot-toast";
+import RequirePermission from "@/components/admin/RequirePermission";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
 
 const statusColors = {
   active: "bg-green-100 text-green-800",
@@ -68,6 +71,7 @@ export default function UsersPage() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingUser, setEditingUser] = useState<PlatformUser | null>(null);
   const [viewingUser, setViewingUser] = useState<PlatformUser | null>(null);
+  const canManageUsers = usePermission(PERMISSIONS.USERS_MANAGE);
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
@@ -377,13 +381,15 @@ export default function UsersPage() {
             Manage platform users and their accounts
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 flex items-center gap-2"
-        >
-          <PlusIcon className="h-4 w-4" />
-          Add User
-        </button>
+        <RequirePermission permission={PERMISSIONS.USERS_MANAGE}>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 flex items-center gap-2"
+          >
+            <PlusIcon className="h-4 w-4" />
+            Add User
+          </button>
+        </RequirePermission>
       </div>
 
       {/* Filters and search */}
@@ -478,30 +484,36 @@ export default function UsersPage() {
               {selectedUsers.length} user(s) selected
             </span>
             <div className="flex space-x-2">
-              <button
-                onClick={() => handleBulkAction("activate")}
-                className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700"
-              >
-                Activate
-              </button>
-              <button
-                onClick={() => handleBulkAction("deactivate")}
-                className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700"
-              >
-                Deactivate
-              </button>
-              <button
-                onClick={() => handleBulkAction("ban")}
-                className="bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700"
-              >
-                Ban
-              </button>
-              <button
-                onClick={() => handleBulkAction("toggle-status")}
-                className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700"
-              >
-                Toggle Status
-              </button>
+              <RequirePermission permission={PERMISSIONS.USERS_MANAGE}>
+                <button
+                  onClick={() => handleBulkAction("activate")}
+                  className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700"
+                >
+                  Activate
+                </button>
+                <button
+                  onClick={() => handleBulkAction("deactivate")}
+                  className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700"
+                >
+                  Deactivate
+                </button>
+              </RequirePermission>
+              <RequirePermission permission={PERMISSIONS.USERS_BAN}>
+                <button
+                  onClick={() => handleBulkAction("ban")}
+                  className="bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700"
+                >
+                  Ban
+                </button>
+              </RequirePermission>
+              <RequirePermission permission={PERMISSIONS.USERS_MANAGE}>
+                <button
+                  onClick={() => handleBulkAction("toggle-status")}
+                  className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700"
+                >
+                  Toggle Status
+                </button>
+              </RequirePermission>
             </div>
           </div>
         </div>
@@ -669,18 +681,23 @@ export default function UsersPage() {
                         onClick={(e) => e.stopPropagation()}
                       >
                         <div className="flex space-x-2">
-                          <button
-                            onClick={() => setEditingUser(user)}
-                            className="text-green-600 hover:text-green-900"
-                            title="Edit User"
+                          <RequirePermission
+                            permission={PERMISSIONS.USERS_MANAGE}
                           >
-                            <PencilIcon className="h-4 w-4" />
-                          </button>
+                            <button
+                              onClick={() => setEditingUser(user)}
+                              className="text-green-600 hover:text-green-900"
+                              title="Edit User"
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                          </RequirePermission>
                           <button
                             onClick={() =>
                               handleToggleStatus(user.id, user.status)
                             }
-                            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                            disabled={!canManageUsers}
+                            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
                               user.status === "active"
                                 ? "bg-green-600"
                                 : "bg-gray-200"
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   BanknotesIcon,
   ClockIcon,
@@ -17,12 +17,33 @@ import {
   UserIcon,
   PhoneIcon,
   PlusIcon,
+  ShieldCheckIcon,
+  ClipboardDocumentListIcon,
+  ArrowUpTrayIcon,
 } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
 import {
   paymentService,
   WithdrawalRequest,
   ProcessWithdrawalData,
+  WithdrawalApproval,
+  WithdrawalPolicy,
 } from "@/services/PaymentService";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  DEFAULT_WITHDRAWAL_POLICY,
+  evaluateWithdrawal,
+  canCompleteWithdrawal,
+  getLatestApproval,
+} from "@/lib/withdrawal-policy";
+import RequirePermission from "@/components/admin/RequirePermission";
+import BatchPayoutModal from "@/components/admin/withdrawals/BatchPayoutModal";
+import PayoutResultsImportModal from "@/components/admin/withdrawals/PayoutResultsImportModal";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import { useRealtimeEvent } from "@/contexts/RealtimeContext";
+import { useMaintenanceWindows } from "@/hooks/useMaintenance";
+import { getWithdrawalBlock } from "@/lib/maintenance";
 
 // Withdrawal status options
 const withdrawalStatuses = [
@@ -75,7 +96,29 @@ export default function WithdrawalsPage() {
   const [selectedWithdrawal, setSelectedWithdrawal] =
     useState<WithdrawalRequest | null>(null);
   const [showProcessModal, setShowProcessModal] = useState(false);
+  const [modalTab, setModalTab] = useState<ModalTab>("overview");
   const [processingWithdrawal, setProcessingWithdrawal] = useState(false);
+  const [showBatchModal, setShowBatchModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [policy, setPolicy] = useState<WithdrawalPolicy>(
+    DEFAULT_WITHDRAWAL_POLICY
+  );
+  const { user } = useAuth();
+  const { data: maintenanceWindows } = useMaintenanceWindows();
+  const maintenanceBlock = getWithdrawalBlock(
+    maintenanceWindows || [],
+    user?.id
+  );
+
+  // Load approval thresholds and limits once
+  useEffect(() => {
+    paymentService
+      .getWithdrawalPolicy()
+      .then(setPolicy)
+      .catch((err) => {
+        console.error("Error loading withdrawal policy, using defaults:", err);
+      });
+  }, []);
 
   // Load withdrawals from API
   useEffect(() => {
@@ -83,6 +126,12 @@ export default function WithdrawalsPage() {
     loadStats();
   }, [pagination.currentPage, statusFilter]);
 
+  // Pick up new requests pushed over the admin socket
+  useRealtimeEvent("withdrawal.requested", () => {
+    loadWithdrawals();
+    loadStats();
+  });
+
   const loadWithdrawals = async () => {
     setLoading(true);
     setError(null);
@@ -204,8 +253,92 @@ export default function WithdrawalsPage() {
     );
   };
 
+  const selectedBatchWithdrawals = useMemo(
+    () => withdrawals.filter((w) => selectedWithdrawals.includes(w.id)),
+    [withdrawals, selectedWithdrawals]
+  );
+
+  const openWithdrawal = (withdrawal: WithdrawalRequest, tab: ModalTab) => {
+    setSelectedWithdrawal(withdrawal);
+    setModalTab(tab);
+    setShowProcessModal(true);
+  };
+
+  // Completions outside the modal only go through when no second approval
+  // is needed; anything else is routed to the modal for review
+  const getWithdrawalsNeedingApproval = async (
+    candidates: WithdrawalRequest[]
+  ) => {
+    if (candidates.length === 0) return [];
+
+    const userIds = Array.from(new Set(candidates.map((w) => w.userId)));
+    const since = new Date(
+      Math.min(...candidates.map((w) => new Date(w.requestedAt).getTime())) -
+        24 * 60 * 60 * 1000
+    ).toISOString();
+
+    const histories = await Promise.all(
+      userIds.map((userId) => paymentService.getUserWithdrawals(userId, since))
+    );
+    const historyByUser = new Map(
+      userIds.map((userId, index) => [userId, histories[index]])
+    );
+
+    return candidates.filter(
+      (withdrawal) =>
+        evaluateWithdrawal(
+          withdrawal,
+          historyByUser.get(withdrawal.userId) || [],
+          policy
+        ).requiresSecondApproval
+    );
+  };
+
+  // Payouts are held while a maintenance window blocks withdrawals, unless
+  // this admin is on the window's bypass allowlist
+  const isPayoutBlocked = () => {
+    if (!maintenanceBlock) return false;
+    toast.error(`Withdrawals are on hold during "${maintenanceBlock.title}"`);
+    return true;
+  };
+
+  // A withdrawal claimed by a payout batch is settled by importing that
+  // batch's results file, never by hand
+  const findBatchedWithdrawal = (withdrawalId: string) =>
+    withdrawals.find((w) => w.id === withdrawalId && w.payoutBatchId);
+
+  const handleQuickApprove = async (withdrawal: WithdrawalRequest) => {
+    if (isPayoutBlocked()) return;
+    try {
+      const needsApproval = await getWithdrawalsNeedingApproval([withdrawal]);
+      if (needsApproval.length > 0) {
+        toast.error("This withdrawal needs a second approval");
+        openWithdrawal(withdrawal, "process");
+        return;
+      }
+    } catch (err) {
+      console.error("Error checking withdrawal limits:", err);
+      toast.error("Could not verify withdrawal limits");
+      openWithdrawal(withdrawal, "process");
+      return;
+    }
+
+    handleProcessWithdrawal({
+      withdrawalId: withdrawal.id,
+      status: "COMPLETED",
+    });
+  };
+
   // Handle withdrawal processing
   const handleProcessWithdrawal = async (data: ProcessWithdrawalData) => {
+    if (data.status === "COMPLETED" && isPayoutBlocked()) return;
+    const batched = findBatchedWithdrawal(data.withdrawalId);
+    if (batched) {
+      toast.error(
+        `This withdrawal is in payout batch ${batched.payoutBatchId}; import the batch results instead`
+      );
+      return;
+    }
     setProcessingWithdrawal(true);
     try {
       await paymentService.processWithdrawal(data);
@@ -222,8 +355,39 @@ export default function WithdrawalsPage() {
 
   // Handle bulk actions
   const handleBulkProcess = async (status: "COMPLETED" | "FAILED") => {
+    if (status === "COMPLETED" && isPayoutBlocked()) return;
     try {
-      for (const withdrawalId of selectedWithdrawals) {
+      const batched = selectedWithdrawals.filter(findBatchedWithdrawal);
+      let withdrawalIds = selectedWithdrawals.filter(
+        (id) => !batched.includes(id)
+      );
+      if (batched.length > 0) {
+        toast.error(
+          `${batched.length} withdrawal${
+            batched.length === 1 ? "" : "s"
+          } skipped: already in a payout batch`
+        );
+      }
+
+      if (status === "COMPLETED") {
+        const selected = withdrawals.filter((w) =>
+          withdrawalIds.includes(w.id)
+        );
+        const held = (await getWithdrawalsNeedingApproval(selected)).map(
+          (w) => w.id
+        );
+        withdrawalIds = withdrawalIds.filter((id) => !held.includes(id));
+
+        if (held.length > 0) {
+          toast.error(
+            `${held.length} withdrawal${
+              held.length === 1 ? "" : "s"
+            } skipped: second approval required`
+          );
+        }
+      }
+
+      for (const withdrawalId of withdrawalIds) {
         await paymentService.processWithdrawal({
           withdrawalId,
           status,
@@ -293,6 +457,15 @@ export default function WithdrawalsPage() {
             <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
             Export
           </button>
+          <RequirePermission permission={PERMISSIONS.WITHDRAWALS_PROCESS}>
+            <button
+              onClick={() => setShowImportModal(true)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+              Import Results
+            </button>
+          </RequirePermission>
           <button
             onClick={createTestWithdrawal}
             className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
@@ -303,6 +476,16 @@ export default function WithdrawalsPage() {
         </div>
       </div>
 
+      {maintenanceBlock && (
+        <div className="flex items-center p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          <ExclamationTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+          Payouts are on hold until{" "}
+          {new Date(maintenanceBlock.endsAt).toLocaleString()} for &quot;
+          {maintenanceBlock.title}&quot;. Ask an admin on the bypass allowlist
+          if a withdrawal can&apos;t wait.
+        </div>
+      )}
+
       {/* Statistics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white overflow-hidden shadow rounded-lg">
@@ -475,18 +658,28 @@ export default function WithdrawalsPage() {
                 <span className="text-sm text-gray-500">
                   {selectedWithdrawals.length} selected
                 </span>
-                <button
-                  onClick={() => handleBulkProcess("COMPLETED")}
-                  className="text-sm text-green-600 hover:text-green-500"
-                >
-                  Approve All
-                </button>
-                <button
-                  onClick={() => handleBulkProcess("FAILED")}
-                  className="text-sm text-red-600 hover:text-red-500"
-                >
-                  Reject All
-                </button>
+                <RequirePermission permission={PERMISSIONS.WITHDRAWALS_PROCESS}>
+                  <button
+                    onClick={() =>
+                      !isPayoutBlocked() && setShowBatchModal(true)
+                    }
+                    className="text-sm text-blue-600 hover:text-blue-500"
+                  >
+                    Batch Payout
+                  </button>
+                  <button
+                    onClick={() => handleBulkProcess("COMPLETED")}
+                    className="text-sm text-green-600 hover:text-green-500"
+                  >
+                    Approve All
+                  </button>
+                  <button
+                    onClick={() => handleBulkProcess("FAILED")}
+                    className="text-sm text-red-600 hover:text-red-500"
+                  >
+                    Reject All
+                  </button>
+                </RequirePermission>
               </div>
             )}
           </div>
@@ -613,6 +806,11 @@ export default function WithdrawalsPage() {
                             {withdrawal.failureReason}
                           </div>
                         )}
+                        {withdrawal.payoutBatchId && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Batch {withdrawal.payoutBatchId}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {new Date(withdrawal.requestedAt).toLocaleDateString()}
@@ -625,25 +823,22 @@ export default function WithdrawalsPage() {
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex items-center space-x-2">
                           <button
-                            onClick={() => {
-                              setSelectedWithdrawal(withdrawal);
-                              setShowProcessModal(true);
-                            }}
+                            onClick={() =>
+                              openWithdrawal(withdrawal, "overview")
+                            }
                             className="text-blue-600 hover:text-blue-900"
                             title="Process Withdrawal"
                           >
                             <EyeIcon className="h-4 w-4" />
                           </button>
 
-                          {withdrawal.status === "processing" && (
-                            <>
+                          {withdrawal.status === "processing" &&
+                            !withdrawal.payoutBatchId && (
+                            <RequirePermission
+                              permission={PERMISSIONS.WITHDRAWALS_PROCESS}
+                            >
                               <button
-                                onClick={() =>
-                                  handleProcessWithdrawal({
-                                    withdrawalId: withdrawal.id,
-                                    status: "COMPLETED",
-                                  })
-                                }
+                                onClick={() => handleQuickApprove(withdrawal)}
                                 className="text-green-600 hover:text-green-900"
                                 title="Approve"
                               >
@@ -662,7 +857,7 @@ export default function WithdrawalsPage() {
                               >
                                 <XMarkIcon className="h-4 w-4" />
                               </button>
-                            </>
+                            </RequirePermission>
                           )}
                         </div>
                       </td>
@@ -841,19 +1036,47 @@ export default function WithdrawalsPage() {
           }}
           onProcess={handleProcessWithdrawal}
           processing={processingWithdrawal}
+          policy={policy}
+          initialTab={modalTab}
         />
       )}
+
+      {/* Batch Payout */}
+      <BatchPayoutModal
+        isOpen={showBatchModal}
+        onClose={() => {
+          setShowBatchModal(false);
+          setSelectedWithdrawals([]);
+          loadWithdrawals();
+        }}
+        withdrawals={selectedBatchWithdrawals}
+        policy={policy}
+      />
+
+      <PayoutResultsImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={() => {
+          setSelectedWithdrawals([]);
+          loadWithdrawals();
+          loadStats();
+        }}
+      />
     </div>
   );
 }
 
 // Withdrawal Details Modal Component
+type ModalTab = "overview" | "process" | "approvals";
+
 interface WithdrawalDetailsModalProps {
   withdrawal: WithdrawalRequest;
   isOpen: boolean;
   onClose: () => void;
   onProcess: (data: ProcessWithdrawalData) => void;
   processing: boolean;
+  policy: WithdrawalPolicy;
+  initialTab?: ModalTab;
 }
 
 function WithdrawalDetailsModal({
@@ -862,15 +1085,88 @@ function WithdrawalDetailsModal({
   onClose,
   onProcess,
   processing,
+  policy,
+  initialTab = "overview",
 }: WithdrawalDetailsModalProps) {
   const [status, setStatus] = useState<"COMPLETED" | "FAILED">("COMPLETED");
   const [failureReason, setFailureReason] = useState("");
   const [transactionReference, setTransactionReference] = useState("");
   const [adminNotes, setAdminNotes] = useState("");
-  const [activeTab, setActiveTab] = useState<"overview" | "process">(
-    "overview"
+  const [activeTab, setActiveTab] = useState<ModalTab>(initialTab);
+  const canProcess = usePermission(PERMISSIONS.WITHDRAWALS_PROCESS);
+  const { user } = useAuth();
+
+  // Approval review state
+  const [history, setHistory] = useState<WithdrawalRequest[]>([]);
+  const [approvals, setApprovals] = useState<WithdrawalApproval[]>([]);
+  const [reviewLoading, setReviewLoading] = useState(true);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [reviewNotes, setReviewNotes] = useState("");
+  const [submittingReview, setSubmittingReview] = useState(false);
+
+  useEffect(() => {
+    loadReview();
+  }, [withdrawal.id]);
+
+  const loadReview = async () => {
+    setReviewLoading(true);
+    setReviewError(null);
+    try {
+      const since = new Date(
+        new Date(withdrawal.requestedAt).getTime() - 24 * 60 * 60 * 1000
+      ).toISOString();
+      const [userHistory, approvalLog] = await Promise.all([
+        paymentService.getUserWithdrawals(withdrawal.userId, since),
+        paymentService.getWithdrawalApprovals(withdrawal.id),
+      ]);
+      setHistory(userHistory || []);
+      setApprovals(approvalLog || []);
+    } catch (err) {
+      console.error("Error loading withdrawal review:", err);
+      setReviewError(
+        err instanceof Error ? err.message : "Failed to load approval data"
+      );
+    } finally {
+      setReviewLoading(false);
+    }
+  };
+
+  const summary = useMemo(
+    () => evaluateWithdrawal(withdrawal, history, policy),
+    [withdrawal, history, policy]
   );
 
+  // Without history we cannot verify limits, so completion stays blocked
+  const completion = reviewError
+    ? { allowed: false, reason: "Limits could not be verified: " + reviewError }
+    : canCompleteWithdrawal(summary, approvals, user?.id);
+  const latestApproval = getLatestApproval(approvals);
+  const awaitingFirstApproval =
+    summary.requiresSecondApproval && !reviewError && !latestApproval;
+
+  const handleReview = async (decision: WithdrawalApproval["decision"]) => {
+    setSubmittingReview(true);
+    try {
+      const approval = await paymentService.approveWithdrawal(
+        withdrawal.id,
+        decision,
+        reviewNotes.trim() || undefined
+      );
+      setApprovals((prev) => [...prev, approval]);
+      setReviewNotes("");
+      toast.success(
+        decision === "APPROVED"
+          ? "Approval recorded - a second admin can now complete the payout"
+          : "Rejection recorded"
+      );
+    } catch (err) {
+      console.error("Error recording withdrawal review:", err);
+      toast.error("Failed to record review");
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onProcess({
@@ -879,6 +1175,7 @@ function WithdrawalDetailsModal({
       failureReason: status === "FAILED" ? failureReason : undefined,
       transactionReference:
         status === "COMPLETED" ? transactionReference : undefined,
+      adminNotes: adminNotes.trim() || undefined,
     });
   };
 
@@ -954,10 +1251,15 @@ function WithdrawalDetailsModal({
               {[
                 { id: "overview", label: "Overview", icon: EyeIcon },
                 { id: "process", label: "Process", icon: CheckIcon },
+                {
+                  id: "approvals",
+                  label: "Approval Log",
+                  icon: ClipboardDocumentListIcon,
+                },
               ].map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id as "overview" | "process")}
+                  onClick={() => setActiveTab(tab.id as ModalTab)}
                   className={`group inline-flex items-center py-2 px-1 border-b-2 font-medium text-sm ${
                     activeTab === tab.id
                       ? "border-blue-500 text-blue-600"
@@ -1109,6 +1411,117 @@ function WithdrawalDetailsModal({
                 </div>
               </div>
 
+              {/* Limit and velocity checks */}
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-medium text-gray-900">
+                    Risk Checks
+                  </h4>
+                  {!reviewLoading && !reviewError && (
+                    <span
+                      className={`inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full ${
+                        summary.requiresSecondApproval
+                          ? "bg-yellow-100 text-yellow-800"
+                          : "bg-green-100 text-green-800"
+                      }`}
+                    >
+                      {summary.requiresSecondApproval
+                        ? "Second approval required"
+                        : "Single approval"}
+                    </span>
+                  )}
+                </div>
+                {reviewLoading ? (
+                  <div className="space-y-2">
+                    {[1, 2, 3, 4].map((i) => (
+                      <div
+                        key={i}
+                        className="h-4 bg-gray-200 rounded animate-pulse"
+                      />
+                    ))}
+                  </div>
+                ) : reviewError ? (
+                  <div className="flex items-center justify-between text-sm text-red-600">
+                    <span>{reviewError}</span>
+                    <button
+                      type="button"
+                      onClick={loadReview}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                ) : (
+                  <ul className="space-y-2">
+                    {summary.checks.map((check) => (
+                      <li
+                        key={check.id}
+                        className="flex items-center justify-between text-sm"
+                      >
+                        <span className="flex items-center">
+                          {check.passed ? (
+                            <CheckCircleIcon className="h-4 w-4 mr-2 text-green-500" />
+                          ) : (
+                            <ExclamationTriangleIcon className="h-4 w-4 mr-2 text-yellow-500" />
+                          )}
+                          {check.label}
+                        </span>
+                        <span
+                          className={
+                            check.passed ? "text-gray-500" : "text-yellow-700"
+                          }
+                        >
+                          {check.detail}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Maker step: first admin records an approval */}
+              {awaitingFirstApproval && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+                  <div className="flex">
+                    <ShieldCheckIcon className="h-5 w-5 text-blue-400" />
+                    <div className="ml-3">
+                      <h3 className="text-sm font-medium text-blue-800">
+                        First Approval
+                      </h3>
+                      <p className="mt-1 text-sm text-blue-700">
+                        Review the checks above and record your decision. A
+                        different admin will then complete the payout.
+                      </p>
+                    </div>
+                  </div>
+                  <textarea
+                    value={reviewNotes}
+                    onChange={(e) => setReviewNotes(e.target.value)}
+                    placeholder="Review notes (optional)"
+                    rows={2}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                  <div className="flex justify-end space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => handleReview("REJECTED")}
+                      disabled={!canProcess || submittingReview}
+                      className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Reject
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleReview("APPROVED")}
+                      disabled={!canProcess || submittingReview}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {submittingReview ? "Saving..." : "Approve for Payout"}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1169,6 +1582,14 @@ function WithdrawalDetailsModal({
                   />
                 </div>
 
+                {status === "COMPLETED" &&
+                  !reviewLoading &&
+                  !completion.allowed && (
+                    <p className="text-sm text-yellow-700">
+                      {completion.reason}
+                    </p>
+                  )}
+
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
                     type="button"
@@ -1180,9 +1601,17 @@ function WithdrawalDetailsModal({
                   <button
                     type="submit"
                     disabled={
+                      !canProcess ||
                       processing ||
+                      (status === "COMPLETED" &&
+                        (reviewLoading || !completion.allowed)) ||
                       (status === "FAILED" && !failureReason.trim())
                     }
+                    title={
+                      canProcess
+                        ? undefined
+                        : "You do not have permission to process withdrawals"
+                    }
                     className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {processing ? "Processing..." : "Process Withdrawal"}
@@ -1191,6 +1620,91 @@ function WithdrawalDetailsModal({
               </form>
             </div>
           )}
+
+          {activeTab === "approvals" && (
+            <div className="bg-white border border-gray-200 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-gray-900 mb-4">
+                Approval Log
+              </h4>
+              {reviewLoading ? (
+                <div className="space-y-3">
+                  {[1, 2, 3].map((i) => (
+                    <div
+                      key={i}
+                      className="h-10 bg-gray-200 rounded animate-pulse"
+                    />
+                  ))}
+                </div>
+              ) : reviewError ? (
+                <p className="text-sm text-red-600">{reviewError}</p>
+              ) : (
+                <ul className="space-y-4">
+                  <li className="flex items-start">
+                    <ClockIcon className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
+                    <div>
+                      <p className="text-sm text-gray-900">
+                        Requested by @{withdrawal.user?.username}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(withdrawal.requestedAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </li>
+                  {[...approvals]
+                    .sort(
+                      (a, b) =>
+                        new Date(a.createdAt).getTime() -
+                        new Date(b.createdAt).getTime()
+                    )
+                    .map((approval) => (
+                      <li key={approval.id} className="flex items-start">
+                        {approval.decision === "APPROVED" ? (
+                          <CheckCircleIcon className="h-5 w-5 text-green-500 mr-3 mt-0.5" />
+                        ) : (
+                          <XCircleIcon className="h-5 w-5 text-red-500 mr-3 mt-0.5" />
+                        )}
+                        <div>
+                          <p className="text-sm text-gray-900">
+                            {approval.decision === "APPROVED"
+                              ? "Approved"
+                              : "Rejected"}{" "}
+                            by {approval.adminName}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(approval.createdAt).toLocaleString()}
+                          </p>
+                          {approval.notes && (
+                            <p className="mt-1 text-sm text-gray-600">
+                              {approval.notes}
+                            </p>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  {withdrawal.processedAt && (
+                    <li className="flex items-start">
+                      <statusConfig.icon className="h-5 w-5 text-gray-400 mr-3 mt-0.5" />
+                      <div>
+                        <p className="text-sm text-gray-900">
+                          Marked {statusConfig.label.toLowerCase()}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(withdrawal.processedAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </li>
+                  )}
+                  {approvals.length === 0 && !withdrawal.processedAt && (
+                    <li className="text-sm text-gray-500">
+                      {summary.requiresSecondApproval
+                        ? "Awaiting first approval."
+                        : "No approvals recorded. This withdrawal is within single-approval limits."}
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
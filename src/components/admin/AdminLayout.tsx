@@ -16,8 +16,23 @@ import {
   Cog6ToothIcon,
   ArrowRightOnRectangleIcon,
   ShieldCheckIcon,
+  ScaleIcon,
+  ClipboardDocumentListIcon,
+  ShieldExclamationIcon,
 } from "@heroicons/react/24/outline";
 import { toast } from "react-hot-toast";
+import { PERMISSIONS, ROUTE_PERMISSIONS } from "@/lib/permissions";
+import { getOpenWindows, getMaintenancePhase } from "@/lib/maintenance";
+import {
+  useMaintenanceScheduler,
+  useMaintenanceWindows,
+} from "@/hooks/useMaintenance";
+import { useAutoMute } from "@/hooks/useModerationRules";
+import { useBanExpiryScheduler } from "@/hooks/useBanExpiry";
+import { useTournamentScheduler } from "@/hooks/useTournamentTemplates";
+import MaintenanceBanner from "./maintenance/MaintenanceBanner";
+import { useRealtime } from "@/contexts/RealtimeContext";
+import { SocketStatus } from "@/lib/socket-client";
 
 const navigation = [
   { name: "Dashboard", href: "/admin/dashboard", icon: HomeIcon },
@@ -25,11 +40,25 @@ const navigation = [
   { name: "Users", href: "/admin/users", icon: UsersIcon },
   { name: "Payments", href: "/admin/payments", icon: CreditCardIcon },
   { name: "Withdrawals", href: "/admin/withdrawals", icon: BanknotesIcon },
+  { name: "Disputes", href: "/admin/disputes", icon: ScaleIcon },
   { name: "Analytics", href: "/admin/analytics", icon: ChartBarIcon },
   { name: "Moderation", href: "/admin/moderation", icon: ShieldCheckIcon },
+  { name: "Risk Review", href: "/admin/risk", icon: ShieldExclamationIcon },
   { name: "Settings", href: "/admin/settings", icon: Cog6ToothIcon },
+  { name: "Audit Log", href: "/admin/audit", icon: ClipboardDocumentListIcon },
 ];
 
+const connectionStatus: Record<
+  SocketStatus,
+  { label: string; dot: string }
+> = {
+  open: { label: "Live", dot: "bg-green-500" },
+  connecting: { label: "Connecting", dot: "bg-yellow-400 animate-pulse" },
+  reconnecting: { label: "Reconnecting", dot: "bg-yellow-400 animate-pulse" },
+  idle: { label: "Offline", dot: "bg-gray-400" },
+  closed: { label: "Offline", dot: "bg-red-500" },
+};
+
 export default function AdminLayout({
   children,
 }: {
@@ -37,7 +66,25 @@ export default function AdminLayout({
 }) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const pathname = usePathname();
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
+  const { status: socketStatus, reconnect } = useRealtime();
+  const connection = connectionStatus[socketStatus];
+
+  useMaintenanceScheduler(can(PERMISSIONS.TOURNAMENTS_MANAGE));
+  useAutoMute(can(PERMISSIONS.MODERATION_MANAGE));
+  useBanExpiryScheduler(can(PERMISSIONS.USERS_BAN));
+  useTournamentScheduler(can(PERMISSIONS.TOURNAMENTS_MANAGE));
+  const { data: maintenanceWindows } = useMaintenanceWindows();
+  // Admins see the same notice players do while it is being announced
+  const announcedWindows = getOpenWindows(maintenanceWindows || []).filter(
+    (maintenance) => getMaintenancePhase(maintenance) !== "scheduled"
+  );
+
+  // Only show pages the current admin is allowed to open
+  const visibleNavigation = navigation.filter((item) => {
+    const permission = ROUTE_PERMISSIONS[item.href];
+    return !permission || can(permission);
+  });
 
   const handleLogout = async () => {
     try {
@@ -71,7 +118,7 @@ export default function AdminLayout({
             </button>
           </div>
           <nav className="flex-1 space-y-1 px-2 py-4">
-            {navigation.map((item) => {
+            {visibleNavigation.map((item) => {
               const isActive = pathname === item.href;
               return (
                 <Link
@@ -106,7 +153,7 @@ export default function AdminLayout({
             <h1 className="text-xl font-bold text-gray-900">Nhandare Admin</h1>
           </div>
           <nav className="flex-1 space-y-1 px-2 py-4">
-            {navigation.map((item) => {
+            {visibleNavigation.map((item) => {
               const isActive = pathname === item.href;
               return (
                 <Link
@@ -148,6 +195,22 @@ export default function AdminLayout({
           <div className="flex flex-1 gap-x-4 self-stretch lg:gap-x-6">
             <div className="flex flex-1" />
             <div className="flex items-center gap-x-4 lg:gap-x-6">
+              {/* Real-time connection */}
+              <button
+                type="button"
+                onClick={reconnect}
+                disabled={socketStatus === "open"}
+                title={
+                  socketStatus === "open"
+                    ? "Receiving live updates"
+                    : "Click to reconnect"
+                }
+                className="flex items-center gap-x-2 rounded-full border border-gray-200 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-default disabled:hover:bg-transparent"
+              >
+                <span className={`h-2 w-2 rounded-full ${connection.dot}`} />
+                {connection.label}
+              </button>
+
               {/* User menu */}
               <div className="flex items-center gap-x-4">
                 <div className="hidden sm:flex sm:flex-col sm:items-end">
@@ -173,6 +236,16 @@ export default function AdminLayout({
         {/* Page content */}
         <main className="py-6">
           <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+            {announcedWindows.length > 0 && (
+              <div className="mb-6 space-y-2">
+                {announcedWindows.map((maintenance) => (
+                  <MaintenanceBanner
+                    key={maintenance.id}
+                    maintenance={maintenance}
+                  />
+                ))}
+              </div>
+            )}
             {children}
           </div>
         </main>
@@ -1,31 +1,43 @@
 "use client";
 
 import { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { Permission, getRoutePermission } from "@/lib/permissions";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRole?: string;
+  requiredPermission?: Permission;
 }
 
+const FALLBACK_ROUTE = "/admin/dashboard";
+
 export default function ProtectedRoute({
   children,
   requiredRole,
+  requiredPermission,
 }: ProtectedRouteProps) {
-  const { user, isLoading, isAuthenticated } = useAuth();
+  const { isLoading, isAuthenticated, can, hasRole } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
+
+  // Explicit prop wins; otherwise use the route-level permission map
+  const permission = requiredPermission ?? getRoutePermission(pathname);
+  const isAuthorized =
+    (!requiredRole || hasRole(requiredRole)) &&
+    (!permission || can(permission));
 
   useEffect(() => {
     if (!isLoading) {
       if (!isAuthenticated) {
         router.push("/login");
-      } else if (requiredRole && user?.role !== requiredRole) {
-        // Redirect to dashboard if user doesn't have required role
-        router.push("/admin/dashboard");
+      } else if (!isAuthorized && pathname !== FALLBACK_ROUTE) {
+        // Redirect to dashboard if user lacks the role or permission
+        router.push(FALLBACK_ROUTE);
       }
     }
-  }, [isLoading, isAuthenticated, user, requiredRole, router]);
+  }, [isLoading, isAuthenticated, isAuthorized, pathname, router]);
 
   // Show loading spinner while checking authentication
   if (isLoading) {
@@ -63,8 +75,8 @@ export default function ProtectedRoute({
     return null;
   }
 
-  // Check role if required
-  if (requiredRole && user?.role !== requiredRole) {
+  // Check role and permission if required
+  if (!isAuthorized) {
     return null;
   }
 
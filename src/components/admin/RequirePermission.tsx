@@ -0,0 +1,21 @@
+"use client";
+
+import React from "react";
+import { usePermission } from "@/hooks/usePermission";
+import { Permission } from "@/lib/permissions";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+export default function RequirePermission({
+  permission,
+  children,
+  fallback = null,
+}: RequirePermissionProps) {
+  const allowed = usePermission(permission);
+
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import React from "react";
+import { AuditEntry } from "@/services/AuditService";
+import { diffAuditValues, formatAuditValue } from "@/lib/audit";
+
+interface AuditEntryDetailProps {
+  entry: AuditEntry;
+}
+
+/**
+ * The fields a logged action changed, plus the request that caused it
+ */
+export default function AuditEntryDetail({ entry }: AuditEntryDetailProps) {
+  const changes = diffAuditValues(entry.before, entry.after);
+  const hasSnapshots = entry.before !== undefined || entry.after !== undefined;
+
+  return (
+    <div className="space-y-4">
+      {entry.error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+          {entry.error}
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">
+          Changes
+        </h4>
+        {!hasSnapshots ? (
+          <p className="text-sm text-gray-500">
+            No before/after snapshot is kept for this kind of action.
+          </p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-gray-500">No fields changed.</p>
+        ) : (
+          <table className="min-w-full text-sm border border-gray-200 rounded">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Field
+                </th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Before
+                </th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  After
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {changes.map((change) => (
+                <tr key={change.field}>
+                  <td className="px-3 py-2 font-mono text-xs text-gray-700">
+                    {change.field}
+                  </td>
+                  <td className="px-3 py-2 text-red-700 bg-red-50 break-all">
+                    {formatAuditValue(change.before)}
+                  </td>
+                  <td className="px-3 py-2 text-green-700 bg-green-50 break-all">
+                    {formatAuditValue(change.after)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {entry.request !== undefined && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">
+            Request
+          </h4>
+          <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs text-gray-700 overflow-x-auto">
+            {JSON.stringify(entry.request, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,570 @@
+"use client";
+
+import React, { useState, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ChatBubbleLeftEllipsisIcon,
+  ArrowsRightLeftIcon,
+  DocumentTextIcon,
+  FlagIcon,
+  ClockIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { paymentService } from "@/services/PaymentService";
+import { userService } from "@/services/UserService";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import {
+  DisputeStatus,
+  TimelineEvent,
+  DISPUTE_TRANSITIONS,
+  DISPUTE_PRIORITY_COLORS,
+  DISPUTE_STATUS_COLORS,
+  buildDisputeTimeline,
+  getSlaState,
+  formatDuration,
+} from "@/lib/disputes";
+
+interface DisputeDetailPanelProps {
+  disputeId: string;
+  now: number;
+}
+
+type ResolutionAction = "refund" | "wallet_credit" | "none";
+
+const timelineIcons: Record<TimelineEvent["kind"], React.ElementType> = {
+  created: FlagIcon,
+  status: ArrowsRightLeftIcon,
+  note: ChatBubbleLeftEllipsisIcon,
+  audit: DocumentTextIcon,
+};
+
+const timelineColors: Record<TimelineEvent["kind"], string> = {
+  created: "bg-blue-500",
+  status: "bg-purple-500",
+  note: "bg-yellow-500",
+  audit: "bg-gray-400",
+};
+
+const transitionLabels: Record<DisputeStatus, string> = {
+  open: "Reopen",
+  investigating: "Start Investigation",
+  resolved: "Resolve",
+  closed: "Close",
+};
+
+const formatCurrency = (amount: number, currency: string = "USD") =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    amount
+  );
+
+export default function DisputeDetailPanel({
+  disputeId,
+  now,
+}: DisputeDetailPanelProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const canManage = usePermission(PERMISSIONS.DISPUTES_MANAGE);
+  const canRefund = usePermission(PERMISSIONS.PAYMENTS_REFUND);
+  const canAdjustWallet = usePermission(PERMISSIONS.USERS_MANAGE);
+
+  const [note, setNote] = useState("");
+  const [statusReason, setStatusReason] = useState("");
+  const [action, setAction] = useState<ResolutionAction>("none");
+  const [amount, setAmount] = useState("");
+  const [summary, setSummary] = useState("");
+  // One resolution attempt: kept while the same remedy is retried, replaced
+  // when the remedy changes or has been applied, so a different amount or
+  // a dispute resolved again is never matched to an earlier payment
+  const [attemptId, setAttemptId] = useState(() => crypto.randomUUID());
+  const newAttempt = () => setAttemptId(crypto.randomUUID());
+
+  const disputeQuery = useQuery({
+    queryKey: ["disputes", "detail", disputeId],
+    queryFn: () => paymentService.getDisputeDetails(disputeId),
+  });
+  const dispute = disputeQuery.data;
+
+  const paymentQuery = useQuery({
+    queryKey: ["payments", "detail", dispute?.paymentId],
+    queryFn: () => paymentService.getPaymentDetails(dispute!.paymentId),
+    enabled: !!dispute,
+  });
+  const payment = paymentQuery.data;
+
+  const adminsQuery = useQuery({
+    queryKey: ["users", "admins"],
+    queryFn: () =>
+      userService.getUsers({
+        filters: { role: ["admin", "moderator"] },
+        limit: 100,
+      }),
+    enabled: canManage,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const timeline = useMemo(
+    () => (dispute ? buildDisputeTimeline(dispute, payment?.auditTrail) : []),
+    [dispute, payment]
+  );
+
+  const refreshDispute = () =>
+    queryClient.invalidateQueries({ queryKey: ["disputes"] });
+
+  const assignMutation = useMutation({
+    mutationFn: (adminId: string | null) =>
+      paymentService.assignDispute(disputeId, adminId),
+    onSuccess: () => {
+      toast.success("Assignment updated");
+      refreshDispute();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to assign dispute");
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (status: DisputeStatus) =>
+      paymentService.updateDisputeStatus(
+        disputeId,
+        status,
+        statusReason.trim() || undefined
+      ),
+    onSuccess: (_data, status) => {
+      toast.success(`Dispute moved to ${status}`);
+      setStatusReason("");
+      refreshDispute();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update dispute status");
+    },
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: (body: string) => paymentService.addDisputeNote(disputeId, body),
+    onSuccess: () => {
+      setNote("");
+      refreshDispute();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to add note");
+    },
+  });
+
+  // Apply the remedy first so the dispute is only marked resolved once the
+  // money has actually moved. The remedy is keyed on the resolution
+  // attempt, so if marking it resolved fails, retrying doesn't pay the
+  // player twice.
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      if (!dispute) return;
+      const value = parseFloat(amount);
+      const reason = `Dispute ${dispute.id}: ${summary.trim()}`;
+      const idempotencyKey = `dispute:${dispute.id}:${attemptId}`;
+      let outcome = "No financial action taken";
+
+      if (action === "refund") {
+        const refund = await paymentService.processRefund({
+          paymentId: dispute.paymentId,
+          amount: value > 0 ? value : undefined,
+          reason,
+          idempotencyKey,
+        });
+        outcome = `Refunded ${formatCurrency(refund.amount, payment?.currency)} (refund ${refund.id})`;
+      } else if (action === "wallet_credit") {
+        const result = await userService.adjustUserWalletBalance(
+          dispute.userId,
+          value,
+          reason,
+          idempotencyKey
+        );
+        outcome = `Credited ${formatCurrency(value, payment?.currency)} to wallet (transaction ${result.transactionId}, new balance ${formatCurrency(result.newBalance, payment?.currency)})`;
+      }
+
+      await paymentService.updateDisputeStatus(
+        dispute.id,
+        "resolved",
+        summary.trim()
+      );
+      await paymentService.addDisputeNote(
+        dispute.id,
+        `Resolved: ${summary.trim()}\n${outcome}`
+      );
+    },
+    onSuccess: () => {
+      toast.success("Dispute resolved");
+      setAction("none");
+      setAmount("");
+      newAttempt();
+      setSummary("");
+      refreshDispute();
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to resolve dispute");
+      refreshDispute();
+    },
+  });
+
+  if (disputeQuery.isLoading) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div className="animate-pulse h-6 bg-gray-100 rounded w-1/2" />
+        <div className="animate-pulse h-24 bg-gray-100 rounded" />
+        <div className="animate-pulse h-48 bg-gray-100 rounded" />
+      </div>
+    );
+  }
+
+  if (disputeQuery.error || !dispute) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+          {disputeQuery.error instanceof Error
+            ? disputeQuery.error.message
+            : "Failed to load dispute"}
+        </div>
+      </div>
+    );
+  }
+
+  const sla = getSlaState(dispute, now);
+  const transitions = DISPUTE_TRANSITIONS[dispute.status].filter(
+    (status) => status !== "resolved"
+  );
+  const canResolve = DISPUTE_TRANSITIONS[dispute.status].includes("resolved");
+  const amountValue = parseFloat(amount);
+  const resolutionValid =
+    summary.trim() !== "" &&
+    (action === "none" ||
+      (action === "refund" && (amount === "" || amountValue > 0)) ||
+      (action === "wallet_credit" && amountValue > 0));
+  const busy =
+    assignMutation.isPending ||
+    statusMutation.isPending ||
+    resolveMutation.isPending;
+
+  const handleResolve = () => {
+    const remedy =
+      action === "refund"
+        ? `refund ${amount ? formatCurrency(amountValue, payment?.currency) : "the full payment"}`
+        : action === "wallet_credit"
+          ? `credit ${formatCurrency(amountValue, payment?.currency)} to the player's wallet`
+          : "resolve without a financial action";
+    if (confirm(`This will ${remedy} and mark the dispute resolved. Continue?`)) {
+      resolveMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+      {/* Summary */}
+      <div className="p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">
+              {dispute.reason}
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Raised by {dispute.user?.username || dispute.userId} on{" "}
+              {new Date(dispute.createdAt).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span
+              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${DISPUTE_PRIORITY_COLORS[dispute.priority]}`}
+            >
+              {dispute.priority}
+            </span>
+            <span
+              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${DISPUTE_STATUS_COLORS[dispute.status]}`}
+            >
+              {dispute.status}
+            </span>
+          </div>
+        </div>
+
+        {dispute.description && (
+          <p className="mt-3 text-sm text-gray-700 whitespace-pre-wrap">
+            {dispute.description}
+          </p>
+        )}
+
+        {sla.state !== "stopped" && (
+          <div
+            className={`mt-3 inline-flex items-center text-sm ${
+              sla.state === "breached"
+                ? "text-red-700"
+                : sla.state === "warning"
+                  ? "text-yellow-700"
+                  : "text-gray-600"
+            }`}
+          >
+            <ClockIcon className="h-4 w-4 mr-1" />
+            {sla.state === "breached"
+              ? `SLA breached ${formatDuration(sla.remainingMs)} ago`
+              : `${formatDuration(sla.remainingMs)} left to resolve`}
+          </div>
+        )}
+
+        <dl className="mt-4 grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Payment</dt>
+            <dd className="text-gray-900">
+              {payment
+                ? `${formatCurrency(payment.amount, payment.currency)} · ${payment.type} · ${payment.status}`
+                : paymentQuery.isLoading
+                  ? "Loading..."
+                  : dispute.paymentId}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Reference</dt>
+            <dd className="text-gray-900 font-mono text-xs">
+              {payment?.pesePayReference || "—"}
+            </dd>
+          </div>
+        </dl>
+      </div>
+
+      {/* Assignment and status */}
+      {canManage && (
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Assigned to
+            </label>
+            <div className="mt-1 flex items-center space-x-2">
+              <select
+                value={dispute.assignedTo?.id || ""}
+                onChange={(e) => assignMutation.mutate(e.target.value || null)}
+                disabled={busy}
+                className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="">Unassigned</option>
+                {dispute.assignedTo &&
+                  !adminsQuery.data?.users.some(
+                    (admin) => admin.id === dispute.assignedTo!.id
+                  ) && (
+                    <option value={dispute.assignedTo.id}>
+                      {dispute.assignedTo.name}
+                    </option>
+                  )}
+                {adminsQuery.data?.users.map((admin) => (
+                  <option key={admin.id} value={admin.id}>
+                    {admin.firstName
+                      ? `${admin.firstName} ${admin.lastName}`
+                      : admin.username}
+                  </option>
+                ))}
+              </select>
+              {user && dispute.assignedTo?.id !== user.id && (
+                <button
+                  onClick={() => assignMutation.mutate(user.id)}
+                  disabled={busy}
+                  className="whitespace-nowrap px-3 py-2 text-sm font-medium text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                >
+                  Assign to me
+                </button>
+              )}
+            </div>
+          </div>
+
+          {transitions.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Status change reason (optional)
+              </label>
+              <div className="mt-1 flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={statusReason}
+                  onChange={(e) => setStatusReason(e.target.value)}
+                  className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+                {transitions.map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => statusMutation.mutate(status)}
+                    disabled={busy}
+                    className={`whitespace-nowrap px-3 py-2 text-sm font-medium rounded-md disabled:opacity-50 ${
+                      status === "closed"
+                        ? "border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+                        : "text-white bg-blue-600 hover:bg-blue-700"
+                    }`}
+                  >
+                    {transitionLabels[status]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Resolution */}
+      {canManage && canResolve && (
+        <div className="p-6 space-y-4">
+          <h3 className="text-sm font-medium text-gray-900">Resolve Dispute</h3>
+          <div className="flex flex-wrap gap-4">
+            {(
+              [
+                { value: "refund", label: "Refund payment", allowed: canRefund },
+                {
+                  value: "wallet_credit",
+                  label: "Credit wallet",
+                  allowed: canAdjustWallet,
+                },
+                { value: "none", label: "No financial action", allowed: true },
+              ] as { value: ResolutionAction; label: string; allowed: boolean }[]
+            )
+              .filter((option) => option.allowed)
+              .map((option) => (
+                <label
+                  key={option.value}
+                  className="inline-flex items-center text-sm text-gray-700"
+                >
+                  <input
+                    type="radio"
+                    name="resolution-action"
+                    value={option.value}
+                    checked={action === option.value}
+                    onChange={() => {
+                      setAction(option.value);
+                      newAttempt();
+                    }}
+                    className="mr-2 text-blue-600 focus:ring-blue-500"
+                  />
+                  {option.label}
+                </label>
+              ))}
+          </div>
+
+          {action !== "none" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Amount
+                {action === "refund" && payment && (
+                  <span className="ml-1 font-normal text-gray-500">
+                    (leave blank for a full refund of{" "}
+                    {formatCurrency(payment.amount, payment.currency)})
+                  </span>
+                )}
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                max={action === "refund" ? payment?.amount : undefined}
+                value={amount}
+                onChange={(e) => {
+                  setAmount(e.target.value);
+                  newAttempt();
+                }}
+                className="mt-1 block w-48 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Resolution summary
+            </label>
+            <textarea
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              rows={2}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="What was found and what was done"
+            />
+          </div>
+
+          <button
+            onClick={handleResolve}
+            disabled={!resolutionValid || busy}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {resolveMutation.isPending ? "Resolving..." : "Resolve"}
+          </button>
+        </div>
+      )}
+
+      {/* Timeline */}
+      <div className="p-6">
+        <h3 className="text-sm font-medium text-gray-900 mb-4">Timeline</h3>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (note.trim()) noteMutation.mutate(note.trim());
+          }}
+          className="mb-6 flex items-start space-x-2"
+        >
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder="Add an internal note..."
+            className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!note.trim() || noteMutation.isPending}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </form>
+
+        <div className="flow-root">
+          <ul className="-mb-8">
+            {timeline.map((event, index) => {
+              const Icon = timelineIcons[event.kind];
+              return (
+                <li key={event.id}>
+                  <div className="relative pb-8">
+                    {index < timeline.length - 1 && (
+                      <span
+                        className="absolute top-4 left-4 -ml-px h-full w-0.5 bg-gray-200"
+                        aria-hidden="true"
+                      />
+                    )}
+                    <div className="relative flex space-x-3">
+                      <span
+                        className={`h-8 w-8 rounded-full flex items-center justify-center ring-8 ring-white ${timelineColors[event.kind]}`}
+                      >
+                        <Icon className="h-4 w-4 text-white" />
+                      </span>
+                      <div className="min-w-0 flex-1 pt-1.5">
+                        <div className="flex justify-between space-x-4">
+                          <p className="text-sm text-gray-900">
+                            {event.title}
+                            {event.actor && (
+                              <span className="text-gray-500">
+                                {" "}
+                                by {event.actor}
+                              </span>
+                            )}
+                          </p>
+                          <time className="whitespace-nowrap text-xs text-gray-500">
+                            {new Date(event.at).toLocaleString()}
+                          </time>
+                        </div>
+                        {event.body && (
+                          <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">
+                            {event.body}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import React from "react";
+import { WrenchScrewdriverIcon } from "@heroicons/react/24/outline";
+import { format } from "date-fns";
+import { MaintenanceWindow } from "@/services/MaintenanceService";
+
+interface MaintenanceBannerProps {
+  maintenance: Pick<MaintenanceWindow, "message" | "startsAt" | "endsAt">;
+  now?: number;
+}
+
+const formatTime = (value: string) => format(new Date(value), "d MMM, HH:mm");
+
+/**
+ * The notice players see before and during a maintenance window
+ */
+export default function MaintenanceBanner({
+  maintenance,
+  now = Date.now(),
+}: MaintenanceBannerProps) {
+  const isActive =
+    now >= new Date(maintenance.startsAt).getTime() &&
+    now < new Date(maintenance.endsAt).getTime();
+
+  return (
+    <div
+      className={`flex items-start px-4 py-3 rounded-md text-sm ${
+        isActive
+          ? "bg-orange-100 text-orange-900"
+          : "bg-blue-50 text-blue-900"
+      }`}
+    >
+      <WrenchScrewdriverIcon className="h-5 w-5 mr-3 flex-shrink-0" />
+      <div>
+        <p className="font-medium">
+          {isActive
+            ? `Maintenance in progress until ${formatTime(maintenance.endsAt)}`
+            : `Scheduled maintenance ${formatTime(maintenance.startsAt)} – ` +
+              formatTime(maintenance.endsAt)}
+        </p>
+        {maintenance.message && <p className="mt-1">{maintenance.message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import {
+  MaintenanceWindow,
+  MaintenanceWindowInput,
+} from "@/services/MaintenanceService";
+import { userService } from "@/services/UserService";
+import { validateMaintenanceWindow } from "@/lib/maintenance";
+import MaintenanceBanner from "./MaintenanceBanner";
+
+interface MaintenanceWindowFormProps {
+  maintenance?: MaintenanceWindow | null;
+  onSubmit: (input: MaintenanceWindowInput) => Promise<void>;
+  onClose: () => void;
+}
+
+// datetime-local inputs need local time without seconds or timezone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+const toIso = (local: string) =>
+  local ? new Date(local).toISOString() : "";
+
+const HOUR = 60 * 60 * 1000;
+
+export default function MaintenanceWindowForm({
+  maintenance,
+  onSubmit,
+  onClose,
+}: MaintenanceWindowFormProps) {
+  // New windows default to tomorrow 02:00-04:00, announced a day ahead
+  const [defaultStart] = useState(() => {
+    const date = new Date(Date.now() + 24 * HOUR);
+    date.setHours(2, 0, 0, 0);
+    return date.getTime();
+  });
+
+  const [title, setTitle] = useState(maintenance?.title || "");
+  const [message, setMessage] = useState(
+    maintenance?.message ||
+      "Nhandare will be briefly unavailable for scheduled maintenance. " +
+        "Tournaments in progress will be paused and resume afterwards."
+  );
+  const [announceAt, setAnnounceAt] = useState(
+    toLocalInput(
+      maintenance?.announceAt || new Date(defaultStart - 24 * HOUR).toISOString()
+    )
+  );
+  const [startsAt, setStartsAt] = useState(
+    toLocalInput(maintenance?.startsAt || new Date(defaultStart).toISOString())
+  );
+  const [endsAt, setEndsAt] = useState(
+    toLocalInput(
+      maintenance?.endsAt || new Date(defaultStart + 2 * HOUR).toISOString()
+    )
+  );
+  const [pauseTournaments, setPauseTournaments] = useState(
+    maintenance?.pauseTournaments ?? true
+  );
+  const [blockWithdrawals, setBlockWithdrawals] = useState(
+    maintenance?.blockWithdrawals ?? true
+  );
+  const [bypassAdminIds, setBypassAdminIds] = useState<string[]>(
+    maintenance?.bypassAdminIds || []
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const adminsQuery = useQuery({
+    queryKey: ["users", "admins"],
+    queryFn: () =>
+      userService.getUsers({
+        filters: { role: ["admin", "moderator"] },
+        limit: 100,
+      }),
+    enabled: blockWithdrawals,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const toggleBypass = (adminId: string) => {
+    setBypassAdminIds((prev) =>
+      prev.includes(adminId)
+        ? prev.filter((id) => id !== adminId)
+        : [...prev, adminId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: MaintenanceWindowInput = {
+      title: title.trim(),
+      message: message.trim(),
+      announceAt: toIso(announceAt),
+      startsAt: toIso(startsAt),
+      endsAt: toIso(endsAt),
+      pauseTournaments,
+      blockWithdrawals,
+      bypassAdminIds: blockWithdrawals ? bypassAdminIds : [],
+    };
+
+    const problem = !input.title
+      ? "Title is required"
+      : !input.message
+        ? "Enter the message players will see"
+        : validateMaintenanceWindow(input);
+    setError(problem);
+    if (problem) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(input);
+      onClose();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to save maintenance window"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            {maintenance ? "Edit Maintenance Window" : "Schedule Maintenance"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="flex-1 overflow-y-auto p-6 space-y-6"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Title *
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Database upgrade"
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Announce From
+              </label>
+              <input
+                type="datetime-local"
+                value={announceAt}
+                onChange={(e) => setAnnounceAt(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Starts *
+              </label>
+              <input
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Ends *
+              </label>
+              <input
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Message to Players *
+            </label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+              maxLength={500}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {startsAt && endsAt && (
+              <div className="mt-3">
+                <p className="text-xs font-medium text-gray-500 uppercase mb-1">
+                  Banner Preview
+                </p>
+                <MaintenanceBanner
+                  maintenance={{
+                    message,
+                    startsAt: toIso(startsAt),
+                    endsAt: toIso(endsAt),
+                  }}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">
+                  Pause Active Tournaments
+                </h4>
+                <p className="text-sm text-gray-500">
+                  Paused at the start and resumed when the window ends
+                </p>
+              </div>
+              <input
+                type="checkbox"
+                checked={pauseTournaments}
+                onChange={(e) => setPauseTournaments(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">
+                  Block Withdrawals
+                </h4>
+                <p className="text-sm text-gray-500">
+                  Players can&apos;t request and admins can&apos;t process
+                  withdrawals during the window
+                </p>
+              </div>
+              <input
+                type="checkbox"
+                checked={blockWithdrawals}
+                onChange={(e) => setBlockWithdrawals(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+            </div>
+
+            {blockWithdrawals && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">
+                  Bypass Allowlist
+                </h4>
+                <p className="text-sm text-gray-500 mb-2">
+                  Admins who can still process withdrawals during the window
+                </p>
+                {adminsQuery.isLoading ? (
+                  <div className="animate-pulse h-16 bg-gray-100 rounded" />
+                ) : (
+                  <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                    {adminsQuery.data?.users.map((admin) => (
+                      <label
+                        key={admin.id}
+                        className="flex items-center text-sm text-gray-700"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={bypassAdminIds.includes(admin.id)}
+                          onChange={() => toggleBypass(admin.id)}
+                          className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        {admin.firstName
+                          ? `${admin.firstName} ${admin.lastName}`
+                          : admin.username}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : maintenance ? "Save" : "Schedule"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { PlusIcon, PencilIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  maintenanceService,
+  MaintenanceWindow,
+  MaintenanceWindowInput,
+} from "@/services/MaintenanceService";
+import {
+  getMaintenancePhase,
+  getOpenWindows,
+  MAINTENANCE_PHASE_COLORS,
+} from "@/lib/maintenance";
+import {
+  MAINTENANCE_QUERY_KEY,
+  useMaintenanceWindows,
+} from "@/hooks/useMaintenance";
+import MaintenanceWindowForm from "./MaintenanceWindowForm";
+
+interface MaintenanceWindowManagerProps {
+  canManage: boolean;
+}
+
+const formatTime = (value: string) =>
+  format(new Date(value), "EEE d MMM yyyy, HH:mm");
+
+export default function MaintenanceWindowManager({
+  canManage,
+}: MaintenanceWindowManagerProps) {
+  const queryClient = useQueryClient();
+  const windowsQuery = useMaintenanceWindows();
+  const [editing, setEditing] = useState<MaintenanceWindow | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const windows = getOpenWindows(windowsQuery.data || []);
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: MAINTENANCE_QUERY_KEY });
+
+  const cancelMutation = useMutation({
+    mutationFn: (maintenance: MaintenanceWindow) =>
+      maintenanceService.cancelWindow(maintenance.id),
+    onSuccess: (maintenance) => {
+      toast.success(`"${maintenance.title}" cancelled`);
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to cancel window"
+      );
+    },
+  });
+
+  const handleSubmit = async (input: MaintenanceWindowInput) => {
+    const saved = editing
+      ? await maintenanceService.updateWindow(editing.id, input)
+      : await maintenanceService.createWindow(input);
+    toast.success(
+      editing ? `"${saved.title}" updated` : `"${saved.title}" scheduled`
+    );
+    refresh();
+  };
+
+  const handleCancel = (maintenance: MaintenanceWindow) => {
+    if (
+      confirm(
+        `Cancel "${maintenance.title}"? Players will stop seeing the notice.`
+      )
+    ) {
+      cancelMutation.mutate(maintenance);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">
+            Maintenance Windows
+          </h4>
+          <p className="text-sm text-gray-500">
+            Announce downtime to players, pause tournaments and hold
+            withdrawals automatically
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Schedule
+          </button>
+        )}
+      </div>
+
+      {windowsQuery.isLoading ? (
+        <div className="animate-pulse h-20 bg-gray-100 rounded" />
+      ) : windowsQuery.error ? (
+        <p className="text-sm text-red-600">
+          Failed to load maintenance windows.
+        </p>
+      ) : windows.length === 0 ? (
+        <p className="text-sm text-gray-500">No maintenance scheduled.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {windows.map((maintenance) => {
+            const phase = getMaintenancePhase(maintenance);
+            const canEdit = canManage && maintenance.status === "scheduled";
+            return (
+              <li key={maintenance.id} className="px-4 py-3">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {maintenance.title}
+                      <span
+                        className={`ml-2 px-2 py-0.5 text-xs rounded-full capitalize ${MAINTENANCE_PHASE_COLORS[phase]}`}
+                      >
+                        {phase}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {formatTime(maintenance.startsAt)} –{" "}
+                      {formatTime(maintenance.endsAt)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Announced from {formatTime(maintenance.announceAt)}
+                      {maintenance.pauseTournaments && " · Pauses tournaments"}
+                      {maintenance.blockWithdrawals &&
+                        ` · Blocks withdrawals (${maintenance.bypassAdminIds.length} bypass)`}
+                      {maintenance.status === "active" &&
+                        ` · ${maintenance.pausedTournamentIds.length} paused`}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-500 italic truncate">
+                      {maintenance.message}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center space-x-2 ml-4">
+                      <button
+                        onClick={() => setEditing(maintenance)}
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title="Edit"
+                      >
+                        <PencilIcon className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => handleCancel(maintenance)}
+                        disabled={cancelMutation.isPending}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Cancel window"
+                      >
+                        <XCircleIcon className="h-5 w-5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {(isCreating || editing) && (
+        <MaintenanceWindowForm
+          maintenance={editing}
+          onSubmit={handleSubmit}
+          onClose={() => {
+            setIsCreating(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
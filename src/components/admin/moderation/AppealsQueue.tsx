@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { HandRaisedIcon } from "@heroicons/react/24/outline";
+import { moderationService } from "@/services/ModerationService";
+import { isPenaltyEntry, CASE_ENTRY_LABELS } from "@/lib/moderation-cases";
+import CaseFile from "./CaseFile";
+
+/**
+ * Pending appeals across all users, oldest first, each opening onto the
+ * case file it concerns
+ */
+export default function AppealsQueue() {
+  const [expandedAppeal, setExpandedAppeal] = useState<string | null>(null);
+
+  const appealsQuery = useQuery({
+    queryKey: ["moderation", "appeals", "pending"],
+    queryFn: () => moderationService.getAppeals("pending"),
+  });
+
+  if (appealsQuery.isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (appealsQuery.error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+        {appealsQuery.error instanceof Error
+          ? appealsQuery.error.message
+          : "Failed to load appeals"}
+      </div>
+    );
+  }
+
+  const appeals = appealsQuery.data || [];
+
+  if (appeals.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <HandRaisedIcon className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">
+          No pending appeals
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Appeals against moderation decisions will appear here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {appeals.map(({ appeal, case: moderationCase }) => {
+        const expanded = expandedAppeal === appeal.id;
+        const penalties = moderationCase.entries.filter((entry) =>
+          isPenaltyEntry(entry.type)
+        );
+        return (
+          <li
+            key={appeal.id}
+            className="border border-gray-200 rounded-lg overflow-hidden"
+          >
+            <button
+              onClick={() => setExpandedAppeal(expanded ? null : appeal.id)}
+              className="w-full px-4 py-3 text-left hover:bg-gray-50"
+            >
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-gray-900">
+                  {moderationCase.username}{" "}
+                  <span className="font-normal text-gray-500">
+                    · {moderationCase.summary}
+                  </span>
+                </p>
+                <span className="text-xs text-gray-500">
+                  {formatDistanceToNow(new Date(appeal.submittedAt), {
+                    addSuffix: true,
+                  })}
+                </span>
+              </div>
+              <p className="mt-1 text-sm text-gray-700 line-clamp-2">
+                {appeal.message}
+              </p>
+              <p className="mt-1 text-xs text-gray-500">
+                Appealing:{" "}
+                {penalties.length > 0
+                  ? penalties
+                      .map((entry) => CASE_ENTRY_LABELS[entry.type])
+                      .join(", ")
+                  : "no penalties"}
+              </p>
+            </button>
+            {expanded && (
+              <div className="px-4 pb-4 pt-2 border-t border-gray-200">
+                {/* Escalation depends on the user's other cases, so new
+                    penalties are applied from their user record instead */}
+                <CaseFile moderationCase={moderationCase} nextPenalty={null} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarDaysIcon } from "@heroicons/react/24/outline";
+import {
+  moderationService,
+  SanctionedUser,
+} from "@/services/ModerationService";
+import { useExpiringSanctions } from "@/hooks/useBanExpiry";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import { formatTimeLeft, isDue, EXPIRY_WINDOWS } from "@/lib/ban-expiry";
+import SanctionModal from "./SanctionModal";
+
+const REINSTATEMENTS_PAGE_SIZE = 10;
+
+const formatTime = (value: string) =>
+  format(new Date(value), "d MMM yyyy, HH:mm");
+
+/**
+ * Upcoming ban and suspension expiries and the reinstatements carried out
+ * so far. Due sanctions are lifted by the scheduler in the admin layout.
+ */
+export default function BanExpirySchedule() {
+  const canBan = usePermission(PERMISSIONS.USERS_BAN);
+  const [withinHours, setWithinHours] = useState(EXPIRY_WINDOWS[1].hours);
+  const [reinstatementsPage, setReinstatementsPage] = useState(1);
+  const [selected, setSelected] = useState<SanctionedUser | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expiringQuery = useExpiringSanctions(withinHours);
+
+  const reinstatementsQuery = useQuery({
+    queryKey: ["moderation", "reinstatements", reinstatementsPage],
+    queryFn: () =>
+      moderationService.getReinstatements(
+        reinstatementsPage,
+        REINSTATEMENTS_PAGE_SIZE
+      ),
+  });
+
+  const expiring = expiringQuery.data || [];
+  const reinstatements = reinstatementsQuery.data;
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              Upcoming Expiries
+            </h3>
+            <p className="text-sm text-gray-500">
+              Users are reinstated and messaged automatically when their ban
+              or suspension ends.
+            </p>
+          </div>
+          <select
+            value={withinHours}
+            onChange={(e) => setWithinHours(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {EXPIRY_WINDOWS.map(({ hours, label }) => (
+              <option key={hours} value={hours}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {expiringQuery.isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+            ))}
+          </div>
+        ) : expiringQuery.error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+            {expiringQuery.error instanceof Error
+              ? expiringQuery.error.message
+              : "Failed to load upcoming expiries"}
+          </div>
+        ) : expiring.length === 0 ? (
+          <div className="text-center py-8">
+            <CalendarDaysIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">
+              No bans or suspensions end in this period.
+            </p>
+          </div>
+        ) : (
+          <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {expiring.map((sanction) => (
+              <li
+                key={sanction.id}
+                className="flex items-center justify-between px-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {sanction.username}{" "}
+                    <span
+                      className={`ml-1 px-2 py-0.5 text-xs rounded-full ${
+                        sanction.status === "banned"
+                          ? "bg-red-100 text-red-800"
+                          : "bg-orange-100 text-orange-800"
+                      }`}
+                    >
+                      {sanction.status}
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {sanction.reason}
+                  </p>
+                </div>
+                <div className="flex items-center ml-4 space-x-4">
+                  <div className="text-right">
+                    <p
+                      className={`text-sm font-medium ${
+                        isDue(sanction, now)
+                          ? "text-green-700"
+                          : "text-gray-900"
+                      }`}
+                    >
+                      {formatTimeLeft(sanction.expiresAt!, now)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatTime(sanction.expiresAt!)}
+                    </p>
+                  </div>
+                  {canBan && (
+                    <button
+                      onClick={() => setSelected(sanction)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      Manage
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">
+          Recent Reinstatements
+        </h3>
+        {reinstatementsQuery.isLoading ? (
+          <div className="animate-pulse h-14 bg-gray-100 rounded" />
+        ) : reinstatementsQuery.error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+            {reinstatementsQuery.error instanceof Error
+              ? reinstatementsQuery.error.message
+              : "Failed to load reinstatements"}
+          </div>
+        ) : !reinstatements?.reinstatements.length ? (
+          <p className="text-sm text-gray-500">No users reinstated yet.</p>
+        ) : (
+          <>
+            <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {reinstatements.reinstatements.map((reinstatement) => (
+                <li key={reinstatement.id} className="px-4 py-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">
+                      {reinstatement.username}
+                      <span className="ml-2 font-normal text-gray-500">
+                        {reinstatement.sanction === "banned"
+                          ? "ban"
+                          : "suspension"}{" "}
+                        {reinstatement.trigger === "expired"
+                          ? "expired"
+                          : "lifted early"}
+                      </span>
+                    </p>
+                    <span className="text-xs text-gray-500">
+                      {formatTime(reinstatement.reinstatedAt)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">{reinstatement.note}</p>
+                  <p className="text-xs text-gray-500">
+                    By {reinstatement.reinstatedBy.name}
+                    {" · "}
+                    {reinstatement.notified ? (
+                      "User notified"
+                    ) : (
+                      <span className="text-red-600">User not notified</span>
+                    )}
+                  </p>
+                </li>
+              ))}
+            </ul>
+            {reinstatements.pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between text-sm text-gray-700">
+                <span>
+                  Page {reinstatements.pagination.currentPage} of{" "}
+                  {reinstatements.pagination.totalPages}
+                </span>
+                <div className="space-x-2">
+                  <button
+                    onClick={() => setReinstatementsPage((p) => p - 1)}
+                    disabled={!reinstatements.pagination.hasPreviousPage}
+                    className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    onClick={() => setReinstatementsPage((p) => p + 1)}
+                    disabled={!reinstatements.pagination.hasNextPage}
+                    className="px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {selected && (
+        <SanctionModal sanction={selected} onClose={() => setSelected(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,456 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { PaperClipIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import {
+  moderationService,
+  ModerationCase,
+  PenaltyStep,
+} from "@/services/ModerationService";
+import {
+  describePenalty,
+  formatHours,
+  getPendingAppeal,
+  isPenaltyEntry,
+  CASE_ENTRY_LABELS,
+} from "@/lib/moderation-cases";
+
+interface CaseFileProps {
+  moderationCase: ModerationCase;
+  nextPenalty: PenaltyStep | null;
+}
+
+const MAX_EVIDENCE_BYTES = 10 * 1024 * 1024;
+
+const formatTime = (value: string) =>
+  format(new Date(value), "d MMM yyyy, HH:mm");
+
+const entryColors = {
+  flag: "border-yellow-400",
+  warning: "border-orange-400",
+  suspension: "border-red-400",
+  ban: "border-red-700",
+  note: "border-gray-300",
+};
+
+const appealColors = {
+  pending: "bg-yellow-100 text-yellow-800",
+  upheld: "bg-gray-100 text-gray-800",
+  overturned: "bg-blue-100 text-blue-800",
+};
+
+/**
+ * Everything recorded against a user for one case: flags, penalties, notes,
+ * evidence and appeals, with the actions a moderator can take on it
+ */
+export default function CaseFile({
+  moderationCase,
+  nextPenalty,
+}: CaseFileProps) {
+  const queryClient = useQueryClient();
+  const canManage = usePermission(PERMISSIONS.MODERATION_MANAGE);
+  const canBan = usePermission(PERMISSIONS.USERS_BAN);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [note, setNote] = useState("");
+  const [penaltyReason, setPenaltyReason] = useState("");
+  const [reviewNote, setReviewNote] = useState("");
+  const [appealMessage, setAppealMessage] = useState("");
+
+  const pendingAppeal = getPendingAppeal(moderationCase);
+  const isOpen = moderationCase.status === "open";
+  // Warnings are routine; suspensions and bans need the ban permission
+  const canApplyPenalty =
+    !!nextPenalty && (nextPenalty.action === "warn" ? canManage : canBan);
+  const canRecordAppeal =
+    canManage &&
+    !pendingAppeal &&
+    moderationCase.status !== "overturned" &&
+    moderationCase.entries.some((entry) => isPenaltyEntry(entry.type));
+
+  // Refresh every list the case, its appeals or its penalties show up in
+  const caseMutation = useMutation({
+    mutationFn: ({ run }: { run: () => Promise<unknown>; success: string }) =>
+      run(),
+    onSuccess: (_, { success }) => {
+      toast.success(success);
+      queryClient.invalidateQueries({
+        queryKey: ["moderation", "cases", moderationCase.userId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["moderation", "appeals"] });
+      queryClient.invalidateQueries({
+        queryKey: ["users", moderationCase.userId, "moderation-history"],
+      });
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Action failed");
+    },
+  });
+
+  const handleAddNote = () => {
+    if (!note.trim()) return;
+    caseMutation.mutate(
+      {
+        run: () =>
+          moderationService.addCaseEntry(moderationCase.id, {
+            type: "note",
+            text: note.trim(),
+          }),
+        success: "Note added",
+      },
+      { onSuccess: () => setNote("") }
+    );
+  };
+
+  const handleApplyPenalty = () => {
+    if (!nextPenalty || !penaltyReason.trim()) return;
+    const label = describePenalty(nextPenalty);
+    if (!confirm(`Apply ${label} to ${moderationCase.username}?`)) return;
+    caseMutation.mutate(
+      {
+        run: () =>
+          moderationService.applyPenalty(
+            moderationCase,
+            nextPenalty,
+            penaltyReason.trim()
+          ),
+        success: `${label} applied`,
+      },
+      { onSuccess: () => setPenaltyReason("") }
+    );
+  };
+
+  const handleAttach = (file: File | undefined) => {
+    if (fileInput.current) fileInput.current.value = "";
+    if (!file) return;
+    if (file.size > MAX_EVIDENCE_BYTES) {
+      toast.error("Evidence files must be 10 MB or smaller");
+      return;
+    }
+    caseMutation.mutate({
+      run: () => moderationService.attachEvidence(moderationCase.id, file),
+      success: `${file.name} attached`,
+    });
+  };
+
+  const handleClose = () => {
+    if (confirm("Close this case? No further penalties can be added.")) {
+      caseMutation.mutate({
+        run: () => moderationService.closeCase(moderationCase.id),
+        success: "Case closed",
+      });
+    }
+  };
+
+  const handleRecordAppeal = () => {
+    if (!appealMessage.trim()) return;
+    caseMutation.mutate(
+      {
+        run: () =>
+          moderationService.submitAppeal(
+            moderationCase.id,
+            appealMessage.trim()
+          ),
+        success: "Appeal recorded",
+      },
+      { onSuccess: () => setAppealMessage("") }
+    );
+  };
+
+  const handleReview = (decision: "upheld" | "overturned") => {
+    if (!pendingAppeal || !reviewNote.trim()) return;
+    const prompt =
+      decision === "overturned"
+        ? "Overturn this case? Its penalties will be lifted and stop " +
+          "counting towards escalation."
+        : "Uphold this case? The penalties stay in place.";
+    if (!confirm(prompt)) return;
+    caseMutation.mutate(
+      {
+        // Penalties are lifted before the appeal is decided, so if lifting
+        // fails the appeal stays pending and can be overturned again
+        run: async () => {
+          if (decision === "overturned") {
+            await moderationService.liftCasePenalties(moderationCase);
+          }
+          await moderationService.reviewAppeal(
+            moderationCase.id,
+            pendingAppeal.id,
+            decision,
+            reviewNote.trim()
+          );
+        },
+        success:
+          decision === "overturned" ? "Appeal granted" : "Appeal rejected",
+      },
+      { onSuccess: () => setReviewNote("") }
+    );
+  };
+
+  // Overturned cases whose penalties didn't all lift can be retried here
+  const handleLiftAgain = () => {
+    if (!confirm("Lift every penalty on this case again?")) return;
+    caseMutation.mutate({
+      run: () => moderationService.liftCasePenalties(moderationCase),
+      success: "Penalties lifted",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Timeline */}
+      <ol className="space-y-3">
+        {moderationCase.entries.map((entry) => (
+          <li
+            key={entry.id}
+            className={`border-l-4 pl-3 ${entryColors[entry.type]}`}
+          >
+            <p className="text-sm font-medium text-gray-900">
+              {CASE_ENTRY_LABELS[entry.type]}
+              {entry.type === "suspension" &&
+                entry.durationHours &&
+                ` (${formatHours(entry.durationHours)})`}
+            </p>
+            <p
+              className={`text-sm text-gray-700 whitespace-pre-wrap ${
+                entry.type === "flag" ? "italic" : ""
+              }`}
+            >
+              {entry.text}
+            </p>
+            <p className="text-xs text-gray-500">
+              {entry.author.name} · {formatTime(entry.createdAt)}
+              {isPenaltyEntry(entry.type) &&
+                moderationCase.status === "overturned" &&
+                " · lifted on appeal"}
+            </p>
+          </li>
+        ))}
+      </ol>
+
+      {/* Evidence */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="text-xs font-medium text-gray-500 uppercase">
+            Evidence ({moderationCase.evidence.length})
+          </h5>
+          {canManage && isOpen && (
+            <>
+              <button
+                onClick={() => fileInput.current?.click()}
+                disabled={caseMutation.isPending}
+                className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-800"
+              >
+                <PaperClipIcon className="h-4 w-4 mr-1" />
+                Attach
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept="image/*,.pdf,.txt"
+                className="hidden"
+                onChange={(e) => handleAttach(e.target.files?.[0])}
+              />
+            </>
+          )}
+        </div>
+        {moderationCase.evidence.length === 0 ? (
+          <p className="text-sm text-gray-500">No evidence attached.</p>
+        ) : (
+          <ul className="space-y-1">
+            {moderationCase.evidence.map((evidence) => (
+              <li
+                key={evidence.id}
+                className="flex items-center justify-between text-sm"
+              >
+                <a
+                  href={evidence.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline truncate"
+                >
+                  {evidence.fileName}
+                </a>
+                <span className="flex items-center ml-2 text-xs text-gray-500 whitespace-nowrap">
+                  {evidence.uploadedBy.name} · {formatTime(evidence.uploadedAt)}
+                  {canManage && isOpen && (
+                    <button
+                      onClick={() =>
+                        confirm(`Remove ${evidence.fileName}?`) &&
+                        caseMutation.mutate({
+                          run: () =>
+                            moderationService.removeEvidence(
+                              moderationCase.id,
+                              evidence.id
+                            ),
+                          success: `${evidence.fileName} removed`,
+                        })
+                      }
+                      className="ml-2 text-gray-400 hover:text-red-600"
+                      title="Remove"
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Appeals */}
+      {moderationCase.appeals.length > 0 && (
+        <div>
+          <h5 className="text-xs font-medium text-gray-500 uppercase mb-2">
+            Appeals
+          </h5>
+          <ul className="space-y-2">
+            {moderationCase.appeals.map((appeal) => (
+              <li key={appeal.id} className="bg-gray-50 rounded-md p-3">
+                <div className="flex items-center justify-between">
+                  <span
+                    className={`px-2 py-0.5 text-xs rounded-full capitalize ${appealColors[appeal.status]}`}
+                  >
+                    {appeal.status}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {formatTime(appeal.submittedAt)}
+                  </span>
+                </div>
+                <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">
+                  {appeal.message}
+                </p>
+                {appeal.reviewedBy && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    {appeal.reviewedBy.name}: {appeal.reviewNote}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canBan &&
+        moderationCase.status === "overturned" &&
+        moderationCase.entries.some((entry) => entry.actionId) && (
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>Still showing a penalty from this case?</span>
+            <button
+              onClick={handleLiftAgain}
+              disabled={caseMutation.isPending}
+              className="font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              Lift Penalties Again
+            </button>
+          </div>
+        )}
+
+      {canManage && pendingAppeal && (
+        <div className="border border-yellow-200 bg-yellow-50 rounded-md p-3 space-y-2">
+          <h5 className="text-sm font-medium text-gray-900">Review Appeal</h5>
+          <textarea
+            value={reviewNote}
+            onChange={(e) => setReviewNote(e.target.value)}
+            rows={2}
+            placeholder="Decision note shown to the user"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => handleReview("upheld")}
+              disabled={!reviewNote.trim() || caseMutation.isPending}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Uphold
+            </button>
+            <button
+              onClick={() => handleReview("overturned")}
+              disabled={!reviewNote.trim() || caseMutation.isPending}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Overturn
+            </button>
+          </div>
+        </div>
+      )}
+
+      {canRecordAppeal && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-600 hover:text-gray-900">
+            Record an appeal received by email or support
+          </summary>
+          <div className="mt-2 flex space-x-2">
+            <textarea
+              value={appealMessage}
+              onChange={(e) => setAppealMessage(e.target.value)}
+              rows={2}
+              placeholder="The user's statement"
+              className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleRecordAppeal}
+              disabled={!appealMessage.trim() || caseMutation.isPending}
+              className="self-start px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Record
+            </button>
+          </div>
+        </details>
+      )}
+
+      {canManage && isOpen && (
+        <div className="pt-3 border-t border-gray-200 space-y-3">
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a moderator note"
+              className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleAddNote}
+              disabled={!note.trim() || caseMutation.isPending}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Add Note
+            </button>
+          </div>
+          {canApplyPenalty && nextPenalty && (
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={penaltyReason}
+                onChange={(e) => setPenaltyReason(e.target.value)}
+                placeholder="Reason the user will see"
+                className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleApplyPenalty}
+                disabled={!penaltyReason.trim() || caseMutation.isPending}
+                className="px-3 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:opacity-50 whitespace-nowrap"
+              >
+                Apply {describePenalty(nextPenalty)}
+              </button>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <button
+              onClick={handleClose}
+              disabled={caseMutation.isPending}
+              className="text-sm font-medium text-gray-600 hover:text-gray-900"
+            >
+              Close Case
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
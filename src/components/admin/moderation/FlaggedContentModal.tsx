@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useState } from "react";
+import { FolderPlusIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { format } from "date-fns";
+import { FlaggedContent } from "@/services/ModerationService";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+
+export type ContentAction = "approve" | "reject" | "delete";
+export type SanctionAction = "suspend" | "ban";
+
+export interface SanctionInput {
+  action: SanctionAction;
+  reason: string;
+  duration?: number; // Days; omitted for a permanent ban
+}
+
+interface FlaggedContentModalProps {
+  content: FlaggedContent;
+  isProcessing: boolean;
+  onAction: (action: ContentAction) => void;
+  onSanction: (sanction: SanctionInput) => Promise<void>;
+  onFile: () => void; // Add the message to the user's case file
+  onClose: () => void;
+}
+
+export const severityColors = {
+  low: "bg-yellow-100 text-yellow-800",
+  medium: "bg-orange-100 text-orange-800",
+  high: "bg-red-100 text-red-800",
+};
+
+export const formatReason = (reason: string) => reason.replace(/_/g, " ");
+
+export default function FlaggedContentModal({
+  content,
+  isProcessing,
+  onAction,
+  onSanction,
+  onFile,
+  onClose,
+}: FlaggedContentModalProps) {
+  const canManage = usePermission(PERMISSIONS.MODERATION_MANAGE);
+  const canBan = usePermission(PERMISSIONS.USERS_BAN);
+
+  const [sanction, setSanction] = useState<SanctionAction>("suspend");
+  const [reason, setReason] = useState(formatReason(content.reason));
+  const [duration, setDuration] = useState("7");
+  const [error, setError] = useState<string | null>(null);
+  const [isSanctioning, setIsSanctioning] = useState(false);
+
+  const handleSanction = async () => {
+    const days = duration.trim() ? Number(duration) : undefined;
+    if (!reason.trim()) {
+      setError("Enter a reason the user will see");
+      return;
+    }
+    if (days !== undefined && (!Number.isInteger(days) || days < 1)) {
+      setError("Duration must be a whole number of days");
+      return;
+    }
+    if (sanction === "suspend" && days === undefined) {
+      setError("Suspensions need a duration");
+      return;
+    }
+    const label =
+      sanction === "ban"
+        ? days
+          ? `Ban ${content.username} for ${days} day(s)?`
+          : `Permanently ban ${content.username}?`
+        : `Suspend ${content.username} for ${days} day(s)?`;
+    if (!confirm(label)) return;
+
+    setError(null);
+    setIsSanctioning(true);
+    try {
+      await onSanction({
+        action: sanction,
+        reason: reason.trim(),
+        duration: days,
+      });
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : `Failed to ${sanction} user`
+      );
+    } finally {
+      setIsSanctioning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            Message Details
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              User
+            </label>
+            <p className="text-sm text-gray-900">
+              {content.username}
+              <span className="ml-2 text-gray-500">{content.userId}</span>
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Message
+            </label>
+            <p className="text-sm text-gray-900 bg-gray-50 p-3 rounded whitespace-pre-wrap">
+              {content.message}
+            </p>
+            <p className="mt-1 text-xs text-gray-500">
+              Posted {format(new Date(content.createdAt), "d MMM yyyy, HH:mm")}
+            </p>
+          </div>
+          <div className="flex space-x-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Reason
+              </label>
+              <p className="text-sm text-gray-900 capitalize">
+                {formatReason(content.reason)}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Severity
+              </label>
+              <span
+                className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${severityColors[content.severity]}`}
+              >
+                {content.severity}
+              </span>
+            </div>
+          </div>
+          {content.reviewedBy && content.reviewedAt && (
+            <p className="text-sm text-gray-500">
+              {content.status === "approved" ? "Approved" : "Rejected"} by{" "}
+              {content.reviewedBy.name} on{" "}
+              {format(new Date(content.reviewedAt), "d MMM yyyy, HH:mm")}
+            </p>
+          )}
+
+          {canManage && (
+            <div className="flex space-x-3 pt-2">
+              {content.status === "pending" && (
+                <>
+                  <button
+                    onClick={() => onAction("approve")}
+                    disabled={isProcessing}
+                    className="flex-1 bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => onAction("reject")}
+                    disabled={isProcessing}
+                    className="flex-1 bg-red-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => onAction("delete")}
+                disabled={isProcessing}
+                className="flex-1 bg-white border border-red-300 text-red-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          )}
+
+          {canManage && (
+            <button
+              onClick={onFile}
+              disabled={isProcessing}
+              className="w-full flex items-center justify-center bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+            >
+              <FolderPlusIcon className="h-4 w-4 mr-2" />
+              Add to Case File
+            </button>
+          )}
+
+          {canBan && (
+            <div className="pt-4 border-t border-gray-200 space-y-3">
+              <h4 className="text-sm font-medium text-gray-900">
+                Sanction User
+              </h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    Action
+                  </label>
+                  <select
+                    value={sanction}
+                    onChange={(e) =>
+                      setSanction(e.target.value as SanctionAction)
+                    }
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="suspend">Suspend</option>
+                    <option value="ban">Ban</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    Duration (days)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={duration}
+                    onChange={(e) => setDuration(e.target.value)}
+                    placeholder={sanction === "ban" ? "Permanent" : ""}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Reason
+                </label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <button
+                onClick={handleSanction}
+                disabled={isSanctioning}
+                className="w-full bg-orange-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-orange-700 disabled:opacity-50"
+              >
+                {isSanctioning
+                  ? "Applying..."
+                  : sanction === "ban"
+                    ? "Ban User"
+                    : "Suspend User"}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  moderationService,
+  FlaggedContentSeverity,
+  ModerationRule,
+  ModerationRuleAction,
+  ModerationRuleSet,
+  ModerationRuleType,
+  ProfanityLanguage,
+} from "@/services/ModerationService";
+import {
+  createRule,
+  validateRule,
+  DEFAULT_RULE_SET,
+  PROFANITY_LANGUAGES,
+  RULE_ACTION_LABELS,
+  RULE_TYPE_LABELS,
+} from "@/lib/auto-moderation";
+import {
+  MODERATION_RULES_QUERY_KEY,
+  useModerationRules,
+} from "@/hooks/useModerationRules";
+import RuleDryRun from "./RuleDryRun";
+
+interface ModerationRulesEditorProps {
+  canManage: boolean;
+}
+
+type RuleDraft = Pick<ModerationRuleSet, "enabled" | "rules">;
+
+const inputClass =
+  "w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100";
+
+// Blank lines are kept while editing so textareas round-trip, and dropped
+// when the rules are saved
+const toLines = (value: string) => value.split("\n");
+const cleanLines = (lines: string[]) =>
+  lines.map((line) => line.trim()).filter(Boolean);
+
+function RuleFields({
+  rule,
+  disabled,
+  onChange,
+}: {
+  rule: ModerationRule;
+  disabled: boolean;
+  onChange: (changes: Partial<ModerationRule>) => void;
+}) {
+  switch (rule.type) {
+    case "words":
+      return (
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Language</label>
+            <select
+              value={rule.language}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({ language: e.target.value as ProfanityLanguage })
+              }
+              className={inputClass}
+            >
+              {Object.entries(PROFANITY_LANGUAGES).map(([code, label]) => (
+                <option key={code} value={code}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-xs text-gray-500 mb-1">
+              Words and phrases (one per line)
+            </label>
+            <textarea
+              value={rule.words.join("\n")}
+              disabled={disabled}
+              onChange={(e) => onChange({ words: toLines(e.target.value) })}
+              rows={4}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      );
+    case "pattern":
+      return (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">
+            Regular expressions (one per line, case-insensitive)
+          </label>
+          <textarea
+            value={rule.patterns.join("\n")}
+            disabled={disabled}
+            onChange={(e) => onChange({ patterns: toLines(e.target.value) })}
+            rows={3}
+            className={`${inputClass} font-mono`}
+          />
+        </div>
+      );
+    default: {
+      const limit =
+        rule.type === "repeat"
+          ? {
+              key: "maxRepeats",
+              label: "Identical messages allowed",
+              value: rule.maxRepeats,
+            }
+          : rule.type === "links"
+            ? { key: "maxLinks", label: "Links allowed", value: rule.maxLinks }
+            : {
+                key: "maxMessages",
+                label: "Messages allowed",
+                value: rule.maxMessages,
+              };
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              {limit.label}
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={limit.value}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({ [limit.key]: Number(e.target.value) })
+              }
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Per (seconds, per user)
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={rule.windowSeconds}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({ windowSeconds: Number(e.target.value) })
+              }
+              className={inputClass}
+            />
+          </div>
+        </div>
+      );
+    }
+  }
+}
+
+/**
+ * Edit the chat auto-moderation rules and try them against recent chat
+ */
+export default function ModerationRulesEditor({
+  canManage,
+}: ModerationRulesEditorProps) {
+  const queryClient = useQueryClient();
+  const rulesQuery = useModerationRules();
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [newRuleType, setNewRuleType] = useState<ModerationRuleType>("words");
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved rules, or the defaults when none have been saved.
+  // Later refetches leave an in-progress draft alone.
+  useEffect(() => {
+    const saved = rulesQuery.data;
+    if (!saved) return;
+    setDraft(
+      (current) =>
+        current || {
+          enabled: saved.enabled,
+          rules: saved.rules.length > 0 ? saved.rules : DEFAULT_RULE_SET.rules,
+        }
+    );
+  }, [rulesQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (ruleSet: RuleDraft) => moderationService.updateRules(ruleSet),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(MODERATION_RULES_QUERY_KEY, saved);
+      setDraft({ enabled: saved.enabled, rules: saved.rules });
+      toast.success("Moderation rules saved");
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : "Failed to save rules");
+    },
+  });
+
+  if (rulesQuery.isLoading || (!draft && !rulesQuery.error)) {
+    return <div className="animate-pulse h-40 bg-gray-100 rounded-lg" />;
+  }
+  if (rulesQuery.error || !draft) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+        {rulesQuery.error instanceof Error
+          ? rulesQuery.error.message
+          : "Failed to load moderation rules"}
+      </div>
+    );
+  }
+
+  const disabled = !canManage;
+
+  const updateRule = (id: string, changes: Partial<ModerationRule>) => {
+    setDraft({
+      ...draft,
+      rules: draft.rules.map((rule) =>
+        rule.id === id ? ({ ...rule, ...changes } as ModerationRule) : rule
+      ),
+    });
+  };
+
+  const removeRule = (rule: ModerationRule) => {
+    if (confirm(`Remove the "${rule.name}" rule?`)) {
+      setDraft({
+        ...draft,
+        rules: draft.rules.filter((r) => r.id !== rule.id),
+      });
+    }
+  };
+
+  const handleSave = () => {
+    const rules = draft.rules.map((rule): ModerationRule => {
+      if (rule.type === "words") {
+        return { ...rule, words: cleanLines(rule.words) };
+      }
+      if (rule.type === "pattern") {
+        return { ...rule, patterns: cleanLines(rule.patterns) };
+      }
+      return rule;
+    });
+    const problem = rules.map(validateRule).find(Boolean) || null;
+    setError(problem);
+    if (problem) return;
+    saveMutation.mutate({ enabled: draft.enabled, rules });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-md font-medium text-gray-900">
+            Automated Filtering
+          </h4>
+          <p className="text-sm text-gray-500">
+            Rules run on every tournament chat message. The strongest action
+            of any matching rule is taken.
+            {rulesQuery.data?.updatedBy &&
+              ` Last changed by ${rulesQuery.data.updatedBy.name}.`}
+          </p>
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            disabled={disabled}
+            onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+            className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Auto-filter enabled
+        </label>
+      </div>
+
+      <div className={`space-y-3 ${draft.enabled ? "" : "opacity-60"}`}>
+        {draft.rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="border border-gray-200 rounded-lg p-4 space-y-3"
+          >
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="flex items-center pb-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    updateRule(rule.id, { enabled: e.target.checked })
+                  }
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+              </label>
+              <div className="flex-1 min-w-[12rem]">
+                <label className="block text-xs text-gray-500 mb-1">
+                  {RULE_TYPE_LABELS[rule.type]}
+                </label>
+                <input
+                  type="text"
+                  value={rule.name}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    updateRule(rule.id, { name: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Severity
+                </label>
+                <select
+                  value={rule.severity}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    updateRule(rule.id, {
+                      severity: e.target.value as FlaggedContentSeverity,
+                    })
+                  }
+                  className={inputClass}
+                >
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Action
+                </label>
+                <select
+                  value={rule.action}
+                  disabled={disabled}
+                  onChange={(e) => {
+                    const action = e.target.value as ModerationRuleAction;
+                    updateRule(rule.id, {
+                      action,
+                      muteMinutes:
+                        action === "mute" ? rule.muteMinutes || 10 : undefined,
+                    });
+                  }}
+                  className={inputClass}
+                >
+                  {Object.entries(RULE_ACTION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {rule.action === "mute" && (
+                <div className="w-28">
+                  <label className="block text-xs text-gray-500 mb-1">
+                    Mute (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={rule.muteMinutes ?? ""}
+                    disabled={disabled}
+                    onChange={(e) =>
+                      updateRule(rule.id, {
+                        muteMinutes: Number(e.target.value),
+                      })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              {canManage && (
+                <button
+                  onClick={() => removeRule(rule)}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  title="Remove rule"
+                >
+                  <TrashIcon className="h-5 w-5" />
+                </button>
+              )}
+            </div>
+            <RuleFields
+              rule={rule}
+              disabled={disabled}
+              onChange={(changes) => updateRule(rule.id, changes)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {canManage && (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center space-x-2">
+            <select
+              value={newRuleType}
+              onChange={(e) =>
+                setNewRuleType(e.target.value as ModerationRuleType)
+              }
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  rules: [...draft.rules, createRule(newRuleType)],
+                })
+              }
+              className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Add Rule
+            </button>
+          </div>
+          <div className="flex items-center space-x-3">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              onClick={handleSave}
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Rules"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="pt-6 border-t border-gray-200">
+        <RuleDryRun ruleSet={draft} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  moderationService,
+  PenaltyAction,
+  PenaltyStep,
+} from "@/services/ModerationService";
+import {
+  describePenalty,
+  validatePenaltyLadder,
+  DEFAULT_PENALTY_LADDER,
+} from "@/lib/moderation-cases";
+
+interface PenaltyLadderEditorProps {
+  canManage: boolean;
+}
+
+const PENALTY_QUERY_KEY = ["moderation", "penalty-ladder"];
+
+const inputClass =
+  "border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100";
+
+/**
+ * Edit the penalties applied for a user's first, second, third... offence
+ */
+export default function PenaltyLadderEditor({
+  canManage,
+}: PenaltyLadderEditorProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<PenaltyStep[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const ladderQuery = useQuery({
+    queryKey: PENALTY_QUERY_KEY,
+    queryFn: () => moderationService.getPenaltyLadder(),
+  });
+
+  // As with the rules editor, refetches leave an in-progress draft alone
+  useEffect(() => {
+    const saved = ladderQuery.data;
+    if (!saved) return;
+    setDraft(
+      (current) =>
+        current || (saved.length > 0 ? saved : DEFAULT_PENALTY_LADDER)
+    );
+  }, [ladderQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (steps: PenaltyStep[]) =>
+      moderationService.updatePenaltyLadder(steps),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(PENALTY_QUERY_KEY, saved);
+      setDraft(saved);
+      toast.success("Penalty ladder saved");
+    },
+    onError: (err) => {
+      setError(
+        err instanceof Error ? err.message : "Failed to save penalty ladder"
+      );
+    },
+  });
+
+  if (ladderQuery.isLoading || (!draft && !ladderQuery.error)) {
+    return <div className="animate-pulse h-40 bg-gray-100 rounded-lg" />;
+  }
+  if (ladderQuery.error || !draft) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+        {ladderQuery.error instanceof Error
+          ? ladderQuery.error.message
+          : "Failed to load penalty ladder"}
+      </div>
+    );
+  }
+
+  const disabled = !canManage;
+
+  const updateStep = (index: number, step: PenaltyStep) => {
+    setDraft(draft.map((current, i) => (i === index ? step : current)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...draft];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    setDraft(steps);
+  };
+
+  const handleSave = () => {
+    const steps = draft.map(
+      ({ action, durationHours }): PenaltyStep =>
+        action === "suspend" ? { action, durationHours } : { action }
+    );
+    const problem = validatePenaltyLadder(steps);
+    setError(problem);
+    if (problem) return;
+    saveMutation.mutate(steps);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-md font-medium text-gray-900">Penalty Ladder</h4>
+        <p className="text-sm text-gray-500">
+          Each offence moves a user one step down the ladder. Offences past
+          the last step repeat it, and cases overturned on appeal don&apos;t
+          count.
+        </p>
+      </div>
+
+      <ol className="space-y-2">
+        {draft.map((step, index) => (
+          <li
+            key={index}
+            className="flex flex-wrap items-center gap-3 border border-gray-200 rounded-lg px-4 py-3"
+          >
+            <span className="w-20 text-sm font-medium text-gray-500">
+              Offence {index + 1}
+            </span>
+            <select
+              value={step.action}
+              disabled={disabled}
+              onChange={(e) => {
+                const action = e.target.value as PenaltyAction;
+                updateStep(
+                  index,
+                  action === "suspend"
+                    ? { action, durationHours: step.durationHours ?? 24 }
+                    : { action }
+                );
+              }}
+              className={inputClass}
+            >
+              <option value="warn">Warning</option>
+              <option value="suspend">Suspension</option>
+              <option value="ban">Permanent ban</option>
+            </select>
+            {step.action === "suspend" && (
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="number"
+                  min={1}
+                  value={step.durationHours ?? ""}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    updateStep(index, {
+                      action: "suspend",
+                      durationHours: e.target.value
+                        ? Number(e.target.value)
+                        : undefined,
+                    })
+                  }
+                  className={`${inputClass} w-24 mr-2`}
+                />
+                hours
+              </label>
+            )}
+            <span className="text-sm text-gray-500">
+              {describePenalty(step)}
+            </span>
+            {canManage && (
+              <div className="flex items-center ml-auto space-x-1">
+                <button
+                  onClick={() => moveStep(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUpIcon className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => moveStep(index, 1)}
+                  disabled={index === draft.length - 1}
+                  className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDownIcon className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() =>
+                    setDraft(draft.filter((_, i) => i !== index))
+                  }
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {canManage && (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <button
+            onClick={() =>
+              setDraft([...draft, { action: "suspend", durationHours: 24 }])
+            }
+            className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add Step
+          </button>
+          <div className="flex items-center space-x-3">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              onClick={handleSave}
+              disabled={saveMutation.isPending}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Ladder"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { PlayIcon } from "@heroicons/react/24/outline";
+import {
+  tournamentService,
+  TournamentChatMessage,
+} from "@/services/TournamentService";
+import { ModerationRuleSet } from "@/services/ModerationService";
+import {
+  replayMessages,
+  summarizeReplay,
+  RULE_ACTION_LABELS,
+} from "@/lib/auto-moderation";
+import { severityColors } from "./FlaggedContentModal";
+
+interface RuleDryRunProps {
+  ruleSet: Pick<ModerationRuleSet, "enabled" | "rules">;
+}
+
+const REPLAY_SIZES = [50, 100, 250, 500];
+const CHAT_PAGE_SIZE = 100;
+
+const actionColors = {
+  flag: "bg-yellow-100 text-yellow-800",
+  hide: "bg-orange-100 text-orange-800",
+  mute: "bg-red-100 text-red-800",
+};
+
+async function getRecentChat(
+  tournamentId: string,
+  count: number
+): Promise<TournamentChatMessage[]> {
+  const messages: TournamentChatMessage[] = [];
+  for (let page = 1; messages.length < count; page++) {
+    const response = await tournamentService.getTournamentChat(
+      tournamentId,
+      page,
+      CHAT_PAGE_SIZE
+    );
+    messages.push(...response.messages);
+    if (!response.pagination.hasNextPage) break;
+  }
+  return messages.slice(0, count);
+}
+
+/**
+ * Replay recent tournament chat against the draft rules without acting on
+ * anything, so moderators can see what a change would catch before saving
+ */
+export default function RuleDryRun({ ruleSet }: RuleDryRunProps) {
+  const [tournamentId, setTournamentId] = useState("");
+  const [count, setCount] = useState(100);
+  const [replay, setReplay] = useState<{
+    tournamentId: string;
+    count: number;
+  } | null>(null);
+
+  const tournamentsQuery = useQuery({
+    queryKey: ["tournaments", "chat-replay"],
+    queryFn: () =>
+      tournamentService.getTournaments({
+        limit: 50,
+        sort: { key: "startDate", direction: "desc" },
+      }),
+  });
+
+  const chatQuery = useQuery({
+    queryKey: [
+      "tournament-chat",
+      replay?.tournamentId,
+      "replay",
+      replay?.count,
+    ],
+    queryFn: () => getRecentChat(replay!.tournamentId, replay!.count),
+    enabled: !!replay,
+  });
+
+  // Re-evaluated on every rule edit so the effect of a change shows at once
+  const verdicts = useMemo(
+    () => replayMessages(chatQuery.data || [], ruleSet),
+    [chatQuery.data, ruleSet]
+  );
+  const summary = summarizeReplay(verdicts);
+  const caught = verdicts.filter((verdict) => verdict.action).reverse();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium text-gray-900">Dry Run</h4>
+        <p className="text-sm text-gray-500">
+          Replay recent chat against the rules above, including unsaved
+          changes. Nothing is flagged, hidden or muted.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Tournament</label>
+          <select
+            value={tournamentId}
+            onChange={(e) => setTournamentId(e.target.value)}
+            className="w-64 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Select a tournament</option>
+            {tournamentsQuery.data?.tournaments.map((tournament) => (
+              <option key={tournament.id} value={tournament.id}>
+                {tournament.title} ({tournament.status})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Messages</label>
+          <select
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {REPLAY_SIZES.map((size) => (
+              <option key={size} value={size}>
+                Last {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => setReplay({ tournamentId, count })}
+          disabled={!tournamentId || chatQuery.isFetching}
+          className="flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <PlayIcon className="h-4 w-4 mr-1" />
+          {chatQuery.isFetching ? "Loading..." : "Replay"}
+        </button>
+      </div>
+
+      {chatQuery.error ? (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+          {chatQuery.error instanceof Error
+            ? chatQuery.error.message
+            : "Failed to load tournament chat"}
+        </div>
+      ) : (
+        chatQuery.data && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+              <span>
+                <strong>{summary.caught}</strong> of {summary.scanned} messages
+                caught
+              </span>
+              {(["flag", "hide", "mute"] as const).map((action) => (
+                <span key={action}>
+                  {RULE_ACTION_LABELS[action]}:{" "}
+                  <strong>{summary.byAction[action]}</strong>
+                </span>
+              ))}
+            </div>
+            {Object.keys(summary.byRule).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {ruleSet.rules
+                  .filter((rule) => summary.byRule[rule.id])
+                  .map((rule) => (
+                    <span
+                      key={rule.id}
+                      className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700"
+                    >
+                      {rule.name}: {summary.byRule[rule.id]}
+                    </span>
+                  ))}
+              </div>
+            )}
+
+            {caught.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                None of these messages would have been caught.
+              </p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        Sent
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        Message
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        Caught By
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        Outcome
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {caught.map(({ message, matches, action, severity }) => (
+                      <tr key={message.id}>
+                        <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                          {format(
+                            new Date(message.createdAt),
+                            "d MMM HH:mm:ss"
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <span className="font-medium text-gray-900">
+                            {message.username}:
+                          </span>{" "}
+                          <span className="text-gray-700 break-words">
+                            {message.message}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">
+                          {matches.map(({ rule, detail }) => (
+                            <div key={rule.id}>
+                              {rule.name}{" "}
+                              <span className="text-gray-400">({detail})</span>
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap space-x-1">
+                          {action && (
+                            <span
+                              className={`px-2 py-0.5 text-xs rounded-full ${actionColors[action]}`}
+                            >
+                              {RULE_ACTION_LABELS[action]}
+                            </span>
+                          )}
+                          {severity && (
+                            <span
+                              className={`px-2 py-0.5 text-xs rounded-full ${severityColors[severity]}`}
+                            >
+                              {severity}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  moderationService,
+  SanctionedUser,
+} from "@/services/ModerationService";
+import {
+  describeSanction,
+  shiftExpiry,
+  validateExpiry,
+  EXPIRY_ADJUSTMENTS,
+} from "@/lib/ban-expiry";
+
+interface SanctionModalProps {
+  sanction: SanctionedUser;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100";
+
+const toInputValue = (iso: string) =>
+  format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * Extend or shorten a ban or suspension, or lift it straight away
+ */
+export default function SanctionModal({
+  sanction,
+  onClose,
+}: SanctionModalProps) {
+  const queryClient = useQueryClient();
+  const kind = describeSanction(sanction);
+  const [expiry, setExpiry] = useState(
+    sanction.expiresAt ? toInputValue(sanction.expiresAt) : ""
+  );
+  const [permanent, setPermanent] = useState(sanction.expiresAt === null);
+  const [reason, setReason] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const onSuccess = (message: string) => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ["moderation"] });
+    onClose();
+  };
+
+  const expiryMutation = useMutation({
+    mutationFn: (expiresAt: string | null) =>
+      moderationService.updateSanctionExpiry(
+        sanction.id,
+        expiresAt,
+        reason.trim()
+      ),
+    onSuccess: (updated) =>
+      onSuccess(
+        updated.expiresAt
+          ? `${sanction.username}'s ${kind} now ends ` +
+              format(new Date(updated.expiresAt), "d MMM yyyy, HH:mm")
+          : `${sanction.username}'s ban is now permanent`
+      ),
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : "Failed to update expiry");
+    },
+  });
+
+  const reinstateMutation = useMutation({
+    mutationFn: () =>
+      moderationService.reinstateUser(sanction, "manual", note.trim()),
+    onSuccess: (reinstatement) => {
+      if (!reinstatement) {
+        setError(
+          "This sanction has changed or is already being lifted. Close and " +
+            "reopen it to see the latest."
+        );
+        return;
+      }
+      onSuccess(
+        reinstatement.notified
+          ? `${sanction.username} reinstated`
+          : `${sanction.username} reinstated, but could not be notified`
+      );
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : "Failed to reinstate user");
+    },
+  });
+
+  const isProcessing = expiryMutation.isPending || reinstateMutation.isPending;
+
+  const handleSaveExpiry = () => {
+    const expiresAt = permanent ? null : new Date(expiry).toISOString();
+    const problem =
+      !permanent && !expiry
+        ? "Choose when the sanction ends"
+        : !reason.trim()
+          ? "Enter a reason for the change"
+          : validateExpiry(expiresAt, Date.now());
+    setError(problem);
+    if (problem) return;
+    expiryMutation.mutate(expiresAt);
+  };
+
+  const handleReinstate = () => {
+    if (!note.trim()) {
+      setError("Enter a note for the audit trail");
+      return;
+    }
+    setError(null);
+    if (confirm(`Lift ${sanction.username}'s ${kind} now?`)) {
+      reinstateMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              {sanction.username}
+            </h3>
+            <p className="text-sm text-gray-500 capitalize">
+              {kind}: {sanction.reason}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Change Expiry</h4>
+            <div className="flex flex-wrap gap-2">
+              {EXPIRY_ADJUSTMENTS.map(({ hours, label }) => (
+                <button
+                  key={hours}
+                  onClick={() => {
+                    setPermanent(false);
+                    setExpiry(
+                      toInputValue(
+                        shiftExpiry(
+                          permanent || !expiry
+                            ? null
+                            : new Date(expiry).toISOString(),
+                          hours,
+                          Date.now()
+                        )
+                      )
+                    );
+                  }}
+                  disabled={isProcessing}
+                  className="px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <input
+              type="datetime-local"
+              value={expiry}
+              disabled={permanent || isProcessing}
+              onChange={(e) => setExpiry(e.target.value)}
+              className={inputClass}
+            />
+            {sanction.status === "banned" && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={permanent}
+                  disabled={isProcessing}
+                  onChange={(e) => setPermanent(e.target.checked)}
+                  className="mr-2"
+                />
+                Permanent ban
+              </label>
+            )}
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason for the change"
+              className={inputClass}
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleSaveExpiry}
+                disabled={isProcessing}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {expiryMutation.isPending ? "Saving..." : "Save Expiry"}
+              </button>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Reinstate Now</h4>
+            <p className="text-sm text-gray-500">
+              Lifts the {kind} straight away and sends {sanction.username} a
+              message saying so.
+            </p>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Audit note, e.g. appeal accepted by support"
+              className={inputClass}
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleReinstate}
+                disabled={isProcessing}
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {reinstateMutation.isPending ? "Reinstating..." : "Reinstate"}
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
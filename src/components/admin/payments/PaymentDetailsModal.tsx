@@ -22,6 +22,8 @@ import {
   PencilIcon,
 } from "@heroicons/react/24/outline";
 import { paymentService, PaymentDetails } from "@/services/PaymentService";
+import RequirePermission from "@/components/admin/RequirePermission";
+import { PERMISSIONS } from "@/lib/permissions";
 
 interface PaymentDetailsModalProps {
   isOpen: boolean;
@@ -488,24 +490,32 @@ export default function PaymentDetailsModal({
 
                         {/* Actions */}
                         <div className="flex items-center space-x-3">
-                          <button
-                            onClick={() => setShowStatusUpdate(true)}
-                            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                          <RequirePermission
+                            permission={PERMISSIONS.PAYMENTS_MANAGE}
                           >
-                            <PencilIcon className="h-4 w-4 mr-2" />
-                            Update Status
-                          </button>
+                            <button
+                              onClick={() => setShowStatusUpdate(true)}
+                              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                            >
+                              <PencilIcon className="h-4 w-4 mr-2" />
+                              Update Status
+                            </button>
+                          </RequirePermission>
 
                           {(payment.status === "completed" ||
                             payment.status === "COMPLETED") &&
                             payment.type === "ENTRY_FEE" && (
-                              <button
-                                onClick={() => setShowRefundForm(true)}
-                                className="inline-flex items-center px-3 py-2 border border-orange-300 shadow-sm text-sm leading-4 font-medium rounded-md text-orange-700 bg-orange-50 hover:bg-orange-100"
+                              <RequirePermission
+                                permission={PERMISSIONS.PAYMENTS_REFUND}
                               >
-                                <ArrowPathIcon className="h-4 w-4 mr-2" />
-                                Process Refund
-                              </button>
+                                <button
+                                  onClick={() => setShowRefundForm(true)}
+                                  className="inline-flex items-center px-3 py-2 border border-orange-300 shadow-sm text-sm leading-4 font-medium rounded-md text-orange-700 bg-orange-50 hover:bg-orange-100"
+                                >
+                                  <ArrowPathIcon className="h-4 w-4 mr-2" />
+                                  Process Refund
+                                </button>
+                              </RequirePermission>
                             )}
                         </div>
                       </div>
@@ -0,0 +1,39 @@
+"use client";
+
+import React from "react";
+import { RiskSignal } from "@/services/RiskService";
+import { RISK_SIGNAL_LABELS } from "@/lib/risk-scoring";
+
+interface RiskSignalListProps {
+  signals: RiskSignal[];
+}
+
+/**
+ * Each signal behind a risk score, with what it is worth and why it fired
+ */
+export default function RiskSignalList({ signals }: RiskSignalListProps) {
+  return (
+    <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+      {signals.map((signal) => (
+        <li key={signal.type} className="px-4 py-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-900">
+              {RISK_SIGNAL_LABELS[signal.type]}
+            </p>
+            <span className="text-sm font-semibold text-red-700">
+              +{signal.points}
+            </span>
+          </div>
+          <p className="text-sm text-gray-700">{signal.summary}</p>
+          {signal.details.length > 0 && (
+            <ul className="mt-1 text-xs text-gray-500 list-disc list-inside">
+              {signal.details.map((detail, i) => (
+                <li key={i}>{detail}</li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
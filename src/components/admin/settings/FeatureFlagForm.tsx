@@ -0,0 +1,333 @@
+"use client";
+
+import React, { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import {
+  FeatureFlag,
+  FeatureFlagInput,
+  UserRole,
+} from "@/services/FeatureFlagService";
+import { FLAG_ROLES, ZIMBABWE_PROVINCES } from "@/lib/feature-flags";
+
+const flagFormSchema = z.object({
+  key: z
+    .string()
+    .min(2, "Key must be at least 2 characters")
+    .max(64, "Key must be less than 64 characters")
+    .regex(
+      /^[a-z0-9_.-]+$/,
+      "Key can only contain lowercase letters, numbers, dots, dashes and underscores"
+    ),
+  name: z.string().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().max(300, "Description is too long").optional(),
+  enabled: z.boolean(),
+  rolloutPercentage: z
+    .number({ error: "Enter a percentage" })
+    .min(0, "Rollout cannot be below 0%")
+    .max(100, "Rollout cannot exceed 100%"),
+  roles: z.array(z.enum(FLAG_ROLES as [UserRole, ...UserRole[]])),
+  provinces: z.array(z.string()),
+  cities: z.string(),
+  allowlist: z.string(),
+  reason: z.string().max(300, "Reason is too long").optional(),
+});
+
+type FlagFormData = z.infer<typeof flagFormSchema>;
+
+interface FeatureFlagFormProps {
+  flag?: FeatureFlag | null;
+  onSubmit: (input: FeatureFlagInput, reason?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Split a comma or newline separated field into trimmed entries
+const splitList = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(/[\s,]+/)
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+  );
+
+export default function FeatureFlagForm({
+  flag,
+  onSubmit,
+  onClose,
+}: FeatureFlagFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const isEditing = !!flag;
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<FlagFormData>({
+    resolver: zodResolver(flagFormSchema),
+    defaultValues: {
+      key: flag?.key || "",
+      name: flag?.name || "",
+      description: flag?.description || "",
+      enabled: flag?.enabled ?? false,
+      rolloutPercentage: flag?.rolloutPercentage ?? 0,
+      roles: flag?.targeting.roles || [],
+      provinces: flag?.targeting.provinces || [],
+      cities: flag?.targeting.cities.join(", ") || "",
+      allowlist: flag?.allowlist.join("\n") || "",
+      reason: "",
+    },
+  });
+
+  const rolloutPercentage = watch("rolloutPercentage");
+
+  const handleFormSubmit = async (data: FlagFormData) => {
+    setIsLoading(true);
+    try {
+      await onSubmit(
+        {
+          key: data.key,
+          name: data.name,
+          description: data.description || undefined,
+          enabled: data.enabled,
+          rolloutPercentage: data.rolloutPercentage,
+          targeting: {
+            roles: data.roles,
+            provinces: data.provinces,
+            // City names can contain spaces, so only split on commas
+            cities: data.cities
+              .split(",")
+              .map((city) => city.trim())
+              .filter(Boolean),
+          },
+          allowlist: splitList(data.allowlist),
+        },
+        data.reason || undefined
+      );
+      onClose();
+    } catch (error) {
+      console.error("Error saving feature flag:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            {isEditing ? `Edit ${flag.name}` : "New Feature Flag"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form
+          onSubmit={handleSubmit(handleFormSubmit)}
+          className="flex-1 overflow-y-auto p-6 space-y-6"
+        >
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Key *
+              </label>
+              <input
+                type="text"
+                {...register("key")}
+                readOnly={isEditing}
+                placeholder="new_lobby"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:bg-gray-100"
+              />
+              {errors.key && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.key.message}
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Name *
+              </label>
+              <input
+                type="text"
+                {...register("name")}
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {errors.name && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors.name.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <textarea
+              {...register("description")}
+              rows={2}
+              className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.description && (
+              <p className="mt-1 text-sm text-red-600">
+                {errors.description.message}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Enabled</h4>
+              <p className="text-sm text-gray-500">
+                Disabled flags are off for everyone, including the allowlist
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              {...register("enabled")}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Rollout: {rolloutPercentage || 0}% of targeted users
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              {...register("rolloutPercentage", { valueAsNumber: true })}
+              className="mt-2 w-full"
+            />
+            {errors.rolloutPercentage && (
+              <p className="mt-1 text-sm text-red-600">
+                {errors.rolloutPercentage.message}
+              </p>
+            )}
+          </div>
+
+          {/* Targeting */}
+          <div className="space-y-4">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Roles</h4>
+              <p className="text-sm text-gray-500 mb-2">
+                Leave empty to include every role
+              </p>
+              <div className="flex flex-wrap gap-4">
+                {FLAG_ROLES.map((role) => (
+                  <label
+                    key={role}
+                    className="flex items-center text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      value={role}
+                      {...register("roles")}
+                      className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {role}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Provinces</h4>
+              <p className="text-sm text-gray-500 mb-2">
+                Leave empty to include every province
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {ZIMBABWE_PROVINCES.map((province) => (
+                  <label
+                    key={province}
+                    className="flex items-center text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      value={province}
+                      {...register("provinces")}
+                      className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {province}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Cities
+              </label>
+              <input
+                type="text"
+                {...register("cities")}
+                placeholder="Harare, Gweru, Mutare"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Allowlisted User IDs
+              </label>
+              <textarea
+                {...register("allowlist")}
+                rows={3}
+                placeholder="One user ID per line"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                Allowlisted users get the flag regardless of targeting and
+                rollout
+              </p>
+            </div>
+          </div>
+
+          {isEditing && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Reason for Change
+              </label>
+              <input
+                type="text"
+                {...register("reason")}
+                placeholder="Recorded in the flag's history"
+                className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isLoading ? "Saving..." : isEditing ? "Save Flag" : "Create Flag"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  PlusIcon,
+  PencilIcon,
+  PowerIcon,
+  ClockIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  featureFlagService,
+  FeatureFlag,
+  FeatureFlagInput,
+} from "@/services/FeatureFlagService";
+import { describeTargeting } from "@/lib/feature-flags";
+import FeatureFlagForm from "./FeatureFlagForm";
+
+interface FeatureFlagManagerProps {
+  canManage: boolean;
+}
+
+const auditActionLabels = {
+  created: "Created",
+  updated: "Updated",
+  killed: "Kill switch on",
+  restored: "Kill switch off",
+  deleted: "Deleted",
+};
+
+const formatAuditValue = (value: unknown) =>
+  Array.isArray(value)
+    ? value.join(", ") || "none"
+    : typeof value === "object" && value !== null
+      ? JSON.stringify(value)
+      : String(value ?? "—");
+
+function getFlagStatus(flag: FeatureFlag) {
+  if (flag.killed) {
+    return { label: "Killed", className: "bg-red-100 text-red-800" };
+  }
+  if (!flag.enabled) {
+    return { label: "Off", className: "bg-gray-100 text-gray-800" };
+  }
+  if (flag.rolloutPercentage >= 100) {
+    return { label: "On", className: "bg-green-100 text-green-800" };
+  }
+  return {
+    label: `${flag.rolloutPercentage}% rollout`,
+    className: "bg-yellow-100 text-yellow-800",
+  };
+}
+
+function FlagHistory({ flagId }: { flagId: string }) {
+  const historyQuery = useQuery({
+    queryKey: ["feature-flags", flagId, "history"],
+    queryFn: () => featureFlagService.getFlagHistory(flagId),
+  });
+
+  if (historyQuery.isLoading) {
+    return <div className="animate-pulse h-10 bg-gray-100 rounded" />;
+  }
+  if (historyQuery.error) {
+    return <p className="text-sm text-red-600">Failed to load history.</p>;
+  }
+  if (!historyQuery.data?.length) {
+    return <p className="text-sm text-gray-500">No history recorded.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {historyQuery.data.map((entry) => (
+        <li key={entry.id} className="text-sm">
+          <p className="text-gray-900">
+            <span className="font-medium">
+              {auditActionLabels[entry.action]}
+            </span>{" "}
+            by {entry.actor.name}
+            <span className="text-gray-500">
+              {" "}
+              · {new Date(entry.createdAt).toLocaleString()}
+            </span>
+          </p>
+          {entry.reason && (
+            <p className="text-gray-600 italic">{entry.reason}</p>
+          )}
+          {entry.changes?.map((change) => (
+            <p key={change.field} className="text-gray-600">
+              {change.field}:{" "}
+              <span className="text-red-700">
+                {formatAuditValue(change.before)}
+              </span>{" "}
+              →{" "}
+              <span className="text-green-700">
+                {formatAuditValue(change.after)}
+              </span>
+            </p>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function FeatureFlagManager({
+  canManage,
+}: FeatureFlagManagerProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<FeatureFlag | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [killTarget, setKillTarget] = useState<FeatureFlag | null>(null);
+  const [killReason, setKillReason] = useState("");
+
+  const flagsQuery = useQuery({
+    queryKey: ["feature-flags"],
+    queryFn: () => featureFlagService.getFlags(),
+  });
+  const flags = flagsQuery.data || [];
+
+  const refreshFlag = (flagId: string) => {
+    queryClient.invalidateQueries({ queryKey: ["feature-flags"] });
+    queryClient.invalidateQueries({
+      queryKey: ["feature-flags", flagId, "history"],
+    });
+  };
+
+  const killSwitchMutation = useMutation({
+    mutationFn: ({ flag, reason }: { flag: FeatureFlag; reason: string }) =>
+      featureFlagService.setKillSwitch(flag.id, !flag.killed, reason),
+    onSuccess: (flag) => {
+      toast.success(
+        flag.killed ? `${flag.name} switched off` : `${flag.name} restored`
+      );
+      refreshFlag(flag.id);
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update flag"
+      );
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (flag: FeatureFlag) => featureFlagService.deleteFlag(flag.id),
+    onSuccess: (_, flag) => {
+      toast.success(`${flag.name} deleted`);
+      queryClient.invalidateQueries({ queryKey: ["feature-flags"] });
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete flag"
+      );
+    },
+  });
+
+  const handleSubmit = async (input: FeatureFlagInput, reason?: string) => {
+    try {
+      const flag = editing
+        ? await featureFlagService.updateFlag(editing.id, input, reason)
+        : await featureFlagService.createFlag(input);
+      toast.success(`${flag.name} saved`);
+      refreshFlag(flag.id);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save flag"
+      );
+      throw error;
+    }
+  };
+
+  const handleKillSwitch = () => {
+    if (!killTarget) return;
+    if (!killReason.trim()) {
+      toast.error("A reason is required");
+      return;
+    }
+    killSwitchMutation.mutate(
+      { flag: killTarget, reason: killReason.trim() },
+      {
+        onSuccess: () => {
+          setKillTarget(null);
+          setKillReason("");
+        },
+      }
+    );
+  };
+
+  const handleDelete = (flag: FeatureFlag) => {
+    if (
+      confirm(`Delete ${flag.name}? Code checking ${flag.key} will see it off.`)
+    ) {
+      deleteMutation.mutate(flag);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Feature Flags</h4>
+          <p className="text-sm text-gray-500">
+            Gradual rollouts targeted by role, province, city or user
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            New Flag
+          </button>
+        )}
+      </div>
+
+      {flagsQuery.isLoading ? (
+        <div className="space-y-2">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+          ))}
+        </div>
+      ) : flagsQuery.error ? (
+        <p className="text-sm text-red-600">Failed to load feature flags.</p>
+      ) : flags.length === 0 ? (
+        <p className="text-sm text-gray-500">No feature flags yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {flags.map((flag) => {
+            const status = getFlagStatus(flag);
+            return (
+              <li key={flag.id} className="px-4 py-3">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {flag.name}
+                      <span className="ml-2 font-mono text-xs text-gray-500">
+                        {flag.key}
+                      </span>
+                      <span
+                        className={`ml-2 px-2 py-0.5 text-xs rounded-full ${status.className}`}
+                      >
+                        {status.label}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-500 truncate">
+                      {describeTargeting(flag)}
+                      {flag.allowlist.length > 0 &&
+                        ` · ${flag.allowlist.length} allowlisted`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() =>
+                        setHistoryFor(historyFor === flag.id ? null : flag.id)
+                      }
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="History"
+                    >
+                      <ClockIcon className="h-5 w-5" />
+                    </button>
+                    {canManage && (
+                      <>
+                        <button
+                          onClick={() => setEditing(flag)}
+                          className="p-1 text-gray-400 hover:text-blue-600"
+                          title="Edit"
+                        >
+                          <PencilIcon className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            setKillTarget(flag);
+                            setKillReason("");
+                          }}
+                          className={`p-1 ${
+                            flag.killed
+                              ? "text-red-600 hover:text-red-800"
+                              : "text-gray-400 hover:text-red-600"
+                          }`}
+                          title={flag.killed ? "Lift kill switch" : "Kill switch"}
+                        >
+                          <PowerIcon className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(flag)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <TrashIcon className="h-5 w-5" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {killTarget?.id === flag.id && (
+                  <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md">
+                    <p className="text-sm font-medium text-red-800">
+                      {flag.killed
+                        ? `Lift the kill switch on ${flag.name}?`
+                        : `Switch ${flag.name} off for every user?`}
+                    </p>
+                    <div className="mt-2 flex space-x-2">
+                      <input
+                        type="text"
+                        value={killReason}
+                        onChange={(e) => setKillReason(e.target.value)}
+                        placeholder="Reason (recorded in history)"
+                        className="flex-1 border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                      />
+                      <button
+                        onClick={handleKillSwitch}
+                        disabled={killSwitchMutation.isPending}
+                        className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Confirm
+                      </button>
+                      <button
+                        onClick={() => setKillTarget(null)}
+                        className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {historyFor === flag.id && (
+                  <div className="mt-3 p-3 bg-gray-50 rounded-md">
+                    <FlagHistory flagId={flag.id} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {(isCreating || editing) && (
+        <FeatureFlagForm
+          flag={editing}
+          onSubmit={handleSubmit}
+          onClose={() => {
+            setIsCreating(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
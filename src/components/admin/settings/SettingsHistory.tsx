@@ -0,0 +1,278 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowUturnLeftIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  settingsService,
+  SettingsChange,
+  SettingsVersion,
+} from "@/services/SettingsService";
+import {
+  diffSettings,
+  formatSettingKey,
+  formatSettingValue,
+  SETTINGS_SECTION_LABELS,
+} from "@/lib/settings";
+
+interface SettingsHistoryProps {
+  currentVersion: number | null;
+  canManage: boolean;
+  onRestored: (version: SettingsVersion) => void;
+}
+
+function ChangesTable({ changes }: { changes: SettingsChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">No setting changed.</p>;
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+            Setting
+          </th>
+          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+            Before
+          </th>
+          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+            After
+          </th>
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {changes.map((change) => (
+          <tr key={`${change.section}.${change.key}`}>
+            <td className="px-3 py-2 text-gray-900">
+              <span className="text-gray-500">
+                {SETTINGS_SECTION_LABELS[change.section]} ›{" "}
+              </span>
+              {formatSettingKey(change.key)}
+            </td>
+            <td className="px-3 py-2 text-red-700">
+              {formatSettingValue(change.before)}
+            </td>
+            <td className="px-3 py-2 text-green-700">
+              {formatSettingValue(change.after)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function SettingsHistory({
+  currentVersion,
+  canManage,
+  onRestored,
+}: SettingsHistoryProps) {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [compare, setCompare] = useState<number[]>([]);
+
+  const historyQuery = useQuery({
+    queryKey: ["settings", "history", page],
+    queryFn: () => settingsService.getSettingsHistory(page, 20),
+  });
+  const versions = historyQuery.data?.versions || [];
+  const pagination = historyQuery.data?.pagination;
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: SettingsVersion) =>
+      settingsService.rollbackSettings(
+        version.version,
+        `Rolled back to version ${version.version}`
+      ),
+    onSuccess: (restored, version) => {
+      toast.success(
+        `Restored version ${version.version} as version ${restored.version}`
+      );
+      queryClient.invalidateQueries({ queryKey: ["settings", "history"] });
+      onRestored(restored);
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to roll back"
+      );
+    },
+  });
+
+  const handleRollback = (version: SettingsVersion) => {
+    if (
+      confirm(
+        `Restore settings from version ${version.version}? The current ` +
+          "settings stay in history and can be restored later."
+      )
+    ) {
+      rollbackMutation.mutate(version);
+    }
+  };
+
+  // Keep at most two versions selected, dropping the oldest pick
+  const toggleCompare = (version: number) => {
+    setCompare((prev) =>
+      prev.includes(version)
+        ? prev.filter((v) => v !== version)
+        : [...prev, version].slice(-2)
+    );
+  };
+
+  const [older, newer] = compare
+    .map((version) => versions.find((v) => v.version === version))
+    .filter((v): v is SettingsVersion => !!v)
+    .sort((a, b) => a.version - b.version);
+
+  if (historyQuery.isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="animate-pulse h-14 bg-gray-100 rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (historyQuery.error) {
+    return (
+      <p className="text-sm text-red-600">Failed to load settings history.</p>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No saved versions yet. Each save creates a new version here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Comparison */}
+      {older && newer ? (
+        <div className="border border-blue-200 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 bg-blue-50">
+            <span className="text-sm font-medium text-blue-800">
+              Version {older.version} → version {newer.version}
+            </span>
+            <button
+              onClick={() => setCompare([])}
+              className="text-sm text-blue-700 hover:text-blue-900"
+            >
+              Clear
+            </button>
+          </div>
+          <ChangesTable changes={diffSettings(older.settings, newer.settings)} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Select two versions to compare them.
+        </p>
+      )}
+
+      {/* Versions */}
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {versions.map((version) => {
+          const isCurrent = version.version === currentVersion;
+          const isExpanded = expanded === version.version;
+          return (
+            <li key={version.id}>
+              <div className="flex items-center px-4 py-3">
+                <input
+                  type="checkbox"
+                  checked={compare.includes(version.version)}
+                  onChange={() => toggleCompare(version.version)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-4"
+                  title="Compare"
+                />
+                <button
+                  onClick={() =>
+                    setExpanded(isExpanded ? null : version.version)
+                  }
+                  className="flex-1 flex items-center text-left min-w-0"
+                >
+                  {isExpanded ? (
+                    <ChevronDownIcon className="h-4 w-4 text-gray-400 mr-2" />
+                  ) : (
+                    <ChevronRightIcon className="h-4 w-4 text-gray-400 mr-2" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      Version {version.version}
+                      {isCurrent && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">
+                          Current
+                        </span>
+                      )}
+                      {version.restoredFrom !== undefined && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">
+                          Restored v{version.restoredFrom}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500 truncate">
+                      {version.author.name} ·{" "}
+                      {new Date(version.createdAt).toLocaleString()} ·{" "}
+                      {version.changes.length} change
+                      {version.changes.length === 1 ? "" : "s"}
+                      {version.comment && ` · ${version.comment}`}
+                    </p>
+                  </div>
+                </button>
+                {canManage && !isCurrent && (
+                  <button
+                    onClick={() => handleRollback(version)}
+                    disabled={rollbackMutation.isPending}
+                    className="ml-4 flex items-center px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                    Roll back
+                  </button>
+                )}
+              </div>
+              {isExpanded && (
+                <div className="px-4 pb-4">
+                  <div className="border border-gray-200 rounded-lg overflow-hidden">
+                    <ChangesTable changes={version.changes} />
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>
+            Page {pagination.currentPage} of {pagination.totalPages}
+          </span>
+          <div className="space-x-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={!pagination.hasPreviousPage}
+              className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={!pagination.hasNextPage}
+              className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,23 @@
-import React, { useState } from "react";
-
-interface SeedingOptions {
-  includePerformance: boolean;
-  includeHistory: boolean;
-  includeRegional: boolean;
-  includeConsistency: boolean;
-  performanceWeight: number;
-  historyWeight: number;
-  regionalWeight: number;
-  consistencyWeight: number;
-  ratingWeight: number;
-  recentTournaments: number;
-  regionalRadius: number;
-}
+import React from "react";
+import { BracketFormat } from "@/lib/bracket-engine";
+import { SeedingOptions } from "@/lib/seeding";
+import SeedingPreview from "./SeedingPreview";
 
 interface AdvancedSeedingConfigProps {
   options: SeedingOptions;
   onOptionsChange: (options: SeedingOptions) => void;
   disabled?: boolean;
+  // Preview the seed order for an existing tournament's participants
+  tournamentId?: string;
+  bracketType?: BracketFormat;
 }
 
 const AdvancedSeedingConfig: React.FC<AdvancedSeedingConfigProps> = ({
   options,
   onOptionsChange,
   disabled = false,
+  tournamentId,
+  bracketType = "SINGLE_ELIMINATION",
 }) => {
   const updateOption = (
     key: keyof SeedingOptions,
@@ -338,6 +332,16 @@ const AdvancedSeedingConfig: React.FC<AdvancedSeedingConfigProps> = ({
           </p>
         )}
       </div>
+
+      {tournamentId && (
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <SeedingPreview
+            tournamentId={tournamentId}
+            bracketType={bracketType}
+            options={options}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { toast } from "react-hot-toast";
 
 interface BracketManagementProps {
   tournamentId: string;
@@ -26,11 +27,11 @@ const BracketManagement: React.FC<BracketManagementProps> = ({
     setIsLoading(true);
     try {
       await action();
-      alert(`${actionName} completed successfully`);
+      toast.success(`${actionName} completed successfully`);
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : "An unknown error occurred";
-      alert(`Failed to ${actionName.toLowerCase()}: ${errorMessage}`);
+      toast.error(`Failed to ${actionName.toLowerCase()}: ${errorMessage}`);
     } finally {
       setIsLoading(false);
     }
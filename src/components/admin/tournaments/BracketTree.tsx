@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useState } from "react";
+import { CalendarIcon, TrophyIcon } from "@heroicons/react/24/outline";
+import { BracketMatch, BracketRound } from "@/services/TournamentService";
+import { BracketSections } from "@/lib/bracket";
+
+interface BracketTreeProps {
+  sections: BracketSections;
+  getPlayerName: (playerId?: string) => string;
+  getSeed: (playerId?: string) => number | undefined;
+  canSwapSeeds: boolean;
+  onSwapSeeds: (playerA: string, playerB: string) => void;
+  onSelectMatch: (match: BracketMatch, roundLabel: string) => void;
+}
+
+const matchStatusStyles: Record<BracketMatch["status"], string> = {
+  pending: "border-gray-200",
+  active: "border-green-400 ring-1 ring-green-200",
+  completed: "border-gray-300 bg-gray-50",
+};
+
+const getRoundLabel = (
+  round: BracketRound,
+  index: number,
+  total: number,
+  prefix: string
+) => {
+  if (prefix === "GF") return index === 0 ? "Grand Final" : "Bracket Reset";
+  if (prefix) return `${prefix} Round ${round.roundNumber}`;
+  const fromEnd = total - index;
+  if (fromEnd === 1) return "Final";
+  if (fromEnd === 2) return "Semifinals";
+  if (fromEnd === 3) return "Quarterfinals";
+  return `Round ${round.roundNumber}`;
+};
+
+export default function BracketTree({
+  sections,
+  getPlayerName,
+  getSeed,
+  canSwapSeeds,
+  onSwapSeeds,
+  onSelectMatch,
+}: BracketTreeProps) {
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const isDoubleElimination =
+    sections.losers.length > 0 || sections.finals.length > 0;
+  const openingRoundId = sections.winners[0]?.id;
+
+  const renderSlot = (
+    match: BracketMatch,
+    playerId: string | undefined,
+    isOpening: boolean,
+    draggable: boolean
+  ) => {
+    const isWinner = !!playerId && match.winnerId === playerId;
+    const isLoser =
+      match.status === "completed" && !!match.winnerId && !isWinner;
+    const seed = getSeed(playerId);
+
+    return (
+      <div
+        draggable={draggable && !!playerId}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.effectAllowed = "move";
+          setDragging(playerId!);
+        }}
+        onDragEnd={() => {
+          setDragging(null);
+          setDropTarget(null);
+        }}
+        onDragOver={(e) => {
+          if (!draggable || !playerId || !dragging || dragging === playerId)
+            return;
+          e.preventDefault();
+          setDropTarget(playerId);
+        }}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          if (dragging && playerId && dragging !== playerId) {
+            onSwapSeeds(dragging, playerId);
+          }
+          setDragging(null);
+          setDropTarget(null);
+        }}
+        className={`flex items-center justify-between px-2 py-1.5 text-sm ${
+          draggable && playerId ? "cursor-move" : ""
+        } ${dropTarget === playerId ? "bg-blue-100" : ""} ${
+          dragging === playerId ? "opacity-50" : ""
+        }`}
+      >
+        <span
+          className={`truncate ${
+            isWinner
+              ? "font-semibold text-gray-900"
+              : isLoser
+                ? "text-gray-400 line-through"
+                : playerId
+                  ? "text-gray-800"
+                  : "text-gray-400 italic"
+          }`}
+        >
+          {seed !== undefined && (
+            <span className="text-xs text-gray-400 mr-1">{seed}</span>
+          )}
+          {playerId
+            ? getPlayerName(playerId)
+            : isOpening
+              ? "BYE"
+              : "TBD"}
+        </span>
+        {isWinner && <TrophyIcon className="h-3.5 w-3.5 text-yellow-500" />}
+      </div>
+    );
+  };
+
+  const renderRounds = (rounds: BracketRound[], prefix: string) => (
+    <div className="flex space-x-6 overflow-x-auto pb-4">
+      {rounds.map((round, index) => {
+        const label = getRoundLabel(round, index, rounds.length, prefix);
+        const isOpening = round.id === openingRoundId;
+        const draggable = canSwapSeeds && isOpening;
+
+        return (
+          <div key={round.id} className="flex flex-col min-w-[200px]">
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3 text-center">
+              {label}
+            </h4>
+            <div className="flex flex-col justify-around flex-1 space-y-4">
+              {round.matches.map((match) => (
+                <div
+                  key={match.id}
+                  onClick={() => onSelectMatch(match, label)}
+                  className={`bg-white border rounded-lg shadow-sm divide-y divide-gray-100 cursor-pointer hover:border-blue-400 ${matchStatusStyles[match.status]}`}
+                >
+                  {renderSlot(
+                    match,
+                    match.player1Id || undefined,
+                    isOpening,
+                    draggable
+                  )}
+                  {renderSlot(match, match.player2Id, isOpening, draggable)}
+                  {match.scheduledTime && match.status !== "completed" && (
+                    <div className="flex items-center px-2 py-1 text-xs text-gray-500">
+                      <CalendarIcon className="h-3 w-3 mr-1" />
+                      {new Date(match.scheduledTime).toLocaleString()}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {canSwapSeeds && (
+        <p className="text-sm text-gray-500">
+          Drag a player onto another in the opening round to swap their seeds.
+        </p>
+      )}
+
+      {isDoubleElimination ? (
+        <>
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">
+              Winners Bracket
+            </h3>
+            {renderRounds(sections.winners, "WB")}
+          </div>
+          {sections.losers.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-3">
+                Losers Bracket
+              </h3>
+              {renderRounds(sections.losers, "LB")}
+            </div>
+          )}
+          {sections.finals.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-3">
+                Grand Final
+              </h3>
+              {renderRounds(sections.finals, "GF")}
+            </div>
+          )}
+        </>
+      ) : (
+        renderRounds(sections.winners, "")
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+"use client";
+
+import React, { useState, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { XMarkIcon, EyeIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  tournamentService,
+  BracketMatch,
+  TournamentBracket,
+} from "@/services/TournamentService";
+import { AdminTournament } from "@/types/admin";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import {
+  getBracketSections,
+  isBracketStarted,
+  swapOpeningPlayers,
+} from "@/lib/bracket";
+import {
+  buildBracket,
+  getSeededPlayers,
+  validateBracket,
+} from "@/lib/bracket-engine";
+import BracketTree from "./BracketTree";
+import StandingsView from "./StandingsView";
+import MatchEditor from "./MatchEditor";
+import BracketManagement from "./BracketManagement";
+import BracketValidationDisplay from "./BracketValidationDisplay";
+
+interface BracketViewerProps {
+  tournament: AdminTournament;
+  onClose: () => void;
+}
+
+const formatLabels = {
+  SINGLE_ELIMINATION: "Single Elimination",
+  DOUBLE_ELIMINATION: "Double Elimination",
+  ROUND_ROBIN: "Round Robin",
+  SWISS: "Swiss",
+};
+
+export default function BracketViewer({
+  tournament,
+  onClose,
+}: BracketViewerProps) {
+  const queryClient = useQueryClient();
+  const canManage = usePermission(PERMISSIONS.TOURNAMENTS_MANAGE);
+  const format = tournament.bracketType || "SINGLE_ELIMINATION";
+  const [selectedMatch, setSelectedMatch] = useState<{
+    match: BracketMatch;
+    roundLabel: string;
+  } | null>(null);
+  const [validation, setValidation] = useState<{
+    errors: string[];
+    checkedAt: Date;
+  } | null>(null);
+  const [preview, setPreview] = useState<TournamentBracket | null>(null);
+  const [isSwapping, setIsSwapping] = useState(false);
+
+  const bracketKey = ["tournaments", tournament.id, "bracket"];
+  const participantsKey = ["tournaments", tournament.id, "participants"];
+
+  const bracketQuery = useQuery({
+    queryKey: bracketKey,
+    queryFn: () => tournamentService.getTournamentBracket(tournament.id),
+  });
+  const participantsQuery = useQuery({
+    queryKey: participantsKey,
+    queryFn: () => tournamentService.getTournamentParticipants(tournament.id),
+  });
+
+  const savedBracket = bracketQuery.data;
+  const bracket = preview || savedBracket;
+  const participants = useMemo(
+    () => participantsQuery.data || [],
+    [participantsQuery.data]
+  );
+  const hasBracket = !!bracket && bracket.rounds.length > 0;
+
+  const participantsById = useMemo(
+    () => new Map(participants.map((p) => [p.userId, p])),
+    [participants]
+  );
+  const playerIds = useMemo(
+    () =>
+      participants.filter((p) => p.status !== "withdrawn").map((p) => p.userId),
+    [participants]
+  );
+
+  const getPlayerName = (playerId?: string) =>
+    playerId
+      ? participantsById.get(playerId)?.username ||
+        `Player ${playerId.slice(0, 6)}`
+      : "TBD";
+  const getSeed = (playerId?: string) =>
+    playerId ? participantsById.get(playerId)?.seed : undefined;
+
+  const canSwapSeeds =
+    canManage &&
+    !preview &&
+    hasBracket &&
+    (tournament.status === "OPEN" || tournament.status === "CLOSED") &&
+    !isBracketStarted(bracket);
+
+  const setBracket = (next: TournamentBracket) => {
+    queryClient.setQueryData(bracketKey, next);
+    setValidation(null);
+  };
+
+  const refreshBracket = () =>
+    queryClient.invalidateQueries({ queryKey: bracketKey });
+
+  const handleGenerateBracket = async () => {
+    setBracket(await tournamentService.generateBracket(tournament.id));
+    setPreview(null);
+  };
+
+  // Build the bracket locally from the current seeds without saving it
+  const handlePreviewBracket = () => {
+    try {
+      const next = buildBracket(format, getSeededPlayers(participants));
+      setPreview(next);
+      setValidation({
+        errors: validateBracket(format, next, playerIds, getPlayerName),
+        checkedAt: new Date(),
+      });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to build preview"
+      );
+    }
+  };
+
+  const handleDiscardPreview = () => {
+    setPreview(null);
+    setValidation(null);
+  };
+
+  const handleValidateBracket = async () => {
+    if (!bracket) return;
+    const errors = validateBracket(format, bracket, playerIds, getPlayerName);
+    setValidation({ errors, checkedAt: new Date() });
+    if (errors.length > 0) {
+      throw new Error(
+        `${errors.length} problem${errors.length > 1 ? "s" : ""} found`
+      );
+    }
+  };
+
+  // Swapping opening-round slots also swaps the players' seeds so the
+  // participant list stays in step with the bracket
+  const handleSwapSeeds = async (playerA: string, playerB: string) => {
+    if (!bracket || isSwapping) return;
+    const a = participantsById.get(playerA);
+    const b = participantsById.get(playerB);
+
+    setIsSwapping(true);
+    try {
+      const swapped = swapOpeningPlayers(bracket, playerA, playerB);
+      setBracket(
+        await tournamentService.updateTournamentBracket(tournament.id, swapped)
+      );
+      if (a && b) {
+        await Promise.all([
+          tournamentService.updateParticipantSeed(
+            tournament.id,
+            playerA,
+            b.seed
+          ),
+          tournamentService.updateParticipantSeed(
+            tournament.id,
+            playerB,
+            a.seed
+          ),
+        ]);
+        queryClient.invalidateQueries({ queryKey: participantsKey });
+      }
+      toast.success(
+        `Swapped ${getPlayerName(playerA)} and ${getPlayerName(playerB)}`
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to swap seeds"
+      );
+      refreshBracket();
+    } finally {
+      setIsSwapping(false);
+    }
+  };
+
+  const handleRecordResult = async (match: BracketMatch, winnerId: string) => {
+    try {
+      await tournamentService.updateMatchResult(
+        tournament.id,
+        match.id,
+        winnerId
+      );
+      toast.success(`${getPlayerName(winnerId)} recorded as winner`);
+      refreshBracket();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to record result"
+      );
+      throw error;
+    }
+  };
+
+  const handleScheduleMatch = async (
+    match: BracketMatch,
+    scheduledTime: string
+  ) => {
+    try {
+      await tournamentService.scheduleMatch(
+        tournament.id,
+        match.id,
+        scheduledTime
+      );
+      toast.success("Match scheduled");
+      refreshBracket();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to schedule match"
+      );
+      throw error;
+    }
+  };
+
+  const handleSelectMatch = (match: BracketMatch, roundLabel: string) => {
+    if (canManage && !preview) setSelectedMatch({ match, roundLabel });
+  };
+
+  const bracketStatus =
+    !savedBracket || savedBracket.rounds.length === 0
+      ? "none"
+      : preview || validation === null
+        ? "generated"
+        : validation.errors.length > 0
+          ? "invalid"
+          : "valid";
+
+  const isLoading = bracketQuery.isLoading || participantsQuery.isLoading;
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-7xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {tournament.title}
+            </h2>
+            <p className="text-sm text-gray-500">
+              {formatLabels[format]} · {playerIds.length} players
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+            {/* Bracket */}
+            <div className="xl:col-span-3 min-w-0">
+              {preview && (
+                <div className="mb-4 flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                  <p className="text-sm text-blue-800">
+                    Preview from the current seeds. Nothing is saved until the
+                    bracket is generated.
+                  </p>
+                  <button
+                    onClick={handleDiscardPreview}
+                    className="ml-4 text-sm font-medium text-blue-700 hover:text-blue-900"
+                  >
+                    Discard
+                  </button>
+                </div>
+              )}
+              {isLoading ? (
+                <div className="flex space-x-6">
+                  {[...Array(3)].map((_, i) => (
+                    <div key={i} className="space-y-4 w-48">
+                      {[...Array(4 - i)].map((_, j) => (
+                        <div
+                          key={j}
+                          className="animate-pulse h-16 bg-gray-100 rounded-lg"
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              ) : !hasBracket ? (
+                <div className="text-center py-16 border-2 border-dashed border-gray-200 rounded-lg">
+                  <p className="text-sm text-gray-500">
+                    {bracketQuery.error
+                      ? "No bracket could be loaded for this tournament."
+                      : "No bracket has been generated yet."}
+                  </p>
+                </div>
+              ) : format === "ROUND_ROBIN" || format === "SWISS" ? (
+                <StandingsView
+                  bracket={bracket}
+                  format={format}
+                  playerIds={playerIds}
+                  getPlayerName={getPlayerName}
+                  onSelectMatch={handleSelectMatch}
+                />
+              ) : (
+                <div
+                  className={
+                    isSwapping ? "opacity-60 pointer-events-none" : ""
+                  }
+                >
+                  <BracketTree
+                    sections={getBracketSections(bracket)}
+                    getPlayerName={getPlayerName}
+                    getSeed={getSeed}
+                    canSwapSeeds={canSwapSeeds}
+                    onSwapSeeds={handleSwapSeeds}
+                    onSelectMatch={handleSelectMatch}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Management */}
+            {canManage && (
+              <div className="space-y-4">
+                <BracketManagement
+                  tournamentId={tournament.id}
+                  bracketStatus={bracketStatus}
+                  onGenerateBracket={handleGenerateBracket}
+                  onRegenerateBracket={handleGenerateBracket}
+                  onValidateBracket={handleValidateBracket}
+                  disabled={
+                    isLoading ||
+                    tournament.status === "ACTIVE" ||
+                    tournament.status === "COMPLETED"
+                  }
+                />
+
+                {(tournament.status === "OPEN" ||
+                  tournament.status === "CLOSED") && (
+                  <button
+                    onClick={handlePreviewBracket}
+                    disabled={isLoading || playerIds.length < 2}
+                    className="w-full flex items-center justify-center px-4 py-3 border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <EyeIcon className="w-5 h-5 mr-2" />
+                    Preview Bracket
+                  </button>
+                )}
+
+                {validation && bracket && (
+                  <BracketValidationDisplay
+                    bracket={{
+                      type: formatLabels[format],
+                      totalRounds: bracket.rounds.length,
+                      totalMatches: bracket.rounds.reduce(
+                        (sum, round) => sum + round.matches.length,
+                        0
+                      ),
+                      players: playerIds,
+                      generatedAt: validation.checkedAt,
+                      validationStatus:
+                        validation.errors.length > 0 ? "invalid" : "valid",
+                      validationErrors: validation.errors,
+                    }}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {selectedMatch && (
+        <MatchEditor
+          match={selectedMatch.match}
+          roundLabel={selectedMatch.roundLabel}
+          getPlayerName={getPlayerName}
+          onRecordResult={(winnerId) =>
+            handleRecordResult(selectedMatch.match, winnerId)
+          }
+          onSchedule={(scheduledTime) =>
+            handleScheduleMatch(selectedMatch.match, scheduledTime)
+          }
+          onClose={() => setSelectedMatch(null)}
+        />
+      )}
+    </div>
+  );
+}
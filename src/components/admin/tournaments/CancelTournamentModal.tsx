@@ -0,0 +1,390 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  XMarkIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { tournamentService } from "@/services/TournamentService";
+import { paymentService } from "@/services/PaymentService";
+import { userService } from "@/services/UserService";
+import { AdminTournament } from "@/types/admin";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import {
+  buildCancellationMessage,
+  buildRefundPlan,
+} from "@/lib/tournament-refunds";
+
+interface CancelTournamentModalProps {
+  tournament: AdminTournament;
+  onClose: () => void;
+}
+
+type Outcome = { ok: true } | { ok: false; error: string };
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const attempt = async (action: () => Promise<unknown>): Promise<Outcome> => {
+  try {
+    await action();
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, error: errorMessage(error, "Request failed") };
+  }
+};
+
+/**
+ * Cancel a tournament with the entry fees at stake in view, then refund
+ * each paid entry and tell every participant. Failed refunds and messages
+ * can be retried without repeating the ones that went through.
+ */
+export default function CancelTournamentModal({
+  tournament,
+  onClose,
+}: CancelTournamentModalProps) {
+  const queryClient = useQueryClient();
+  const canCancel = usePermission(PERMISSIONS.TOURNAMENTS_MANAGE);
+  const canRefund = usePermission(PERMISSIONS.PAYMENTS_REFUND);
+  const [reason, setReason] = useState("");
+  const [cancelled, setCancelled] = useState(
+    tournament.status === "CANCELLED"
+  );
+  // Everyone is told when the cancellation happens here; reopening an
+  // already cancelled tournament only tells the players refunded now
+  const [cancelledHere, setCancelledHere] = useState(false);
+  const [refunds, setRefunds] = useState<Record<string, Outcome>>({});
+  const [notices, setNotices] = useState<Record<string, Outcome>>({});
+  const [progress, setProgress] = useState<{
+    label: string;
+    done: number;
+    total: number;
+  } | null>(null);
+
+  const paymentsKey = ["tournaments", tournament.id, "payments"];
+
+  const paymentsQuery = useQuery({
+    queryKey: paymentsKey,
+    queryFn: () => paymentService.getAllTournamentPayments(tournament.id),
+  });
+  const participantsQuery = useQuery({
+    queryKey: ["tournaments", tournament.id, "participants"],
+    queryFn: () => tournamentService.getTournamentParticipants(tournament.id),
+  });
+
+  const plan = useMemo(
+    () =>
+      paymentsQuery.data && participantsQuery.data
+        ? buildRefundPlan(paymentsQuery.data, participantsQuery.data)
+        : null,
+    [paymentsQuery.data, participantsQuery.data]
+  );
+
+  const isLoading = paymentsQuery.isLoading || participantsQuery.isLoading;
+  const error = paymentsQuery.error || participantsQuery.error;
+
+  const owed =
+    plan?.lines.filter(
+      (line) => !line.refunded && !refunds[line.paymentId]?.ok
+    ) || [];
+  const owedTotal =
+    owed.reduce((total, line) => total + Math.round(line.amount * 100), 0) /
+    100;
+  const failedRefunds = Object.values(refunds).filter((r) => !r.ok).length;
+  const failedNotices = Object.values(notices).filter((r) => !r.ok).length;
+  const notified = Object.values(notices).filter((r) => r.ok).length;
+
+  const run = async (notifyAll: boolean) => {
+    if (!plan) return;
+    const refundResults = { ...refunds };
+    const noticeResults = { ...notices };
+
+    setProgress({ label: "Refunding", done: 0, total: owed.length });
+    for (let i = 0; i < owed.length; i++) {
+      const line = owed[i];
+      refundResults[line.paymentId] = await attempt(() =>
+        paymentService.processRefund({
+          paymentId: line.paymentId,
+          reason: `Tournament cancelled: ${reason.trim()}`,
+          // Stable across retries, so a refund that landed but timed out
+          // isn't paid twice
+          idempotencyKey: `cancel:${tournament.id}:${line.paymentId}`,
+        })
+      );
+      setRefunds({ ...refundResults });
+      setProgress({ label: "Refunding", done: i + 1, total: owed.length });
+    }
+
+    // Players are only told once everything they paid has come back
+    const refundedNow = new Map<string, number>();
+    const stillOwed = new Set<string>();
+    plan.lines.forEach((line) => {
+      if (refundResults[line.paymentId]?.ok) {
+        refundedNow.set(
+          line.userId,
+          (refundedNow.get(line.userId) || 0) + line.amount
+        );
+      } else if (!line.refunded) {
+        stillOwed.add(line.userId);
+      }
+    });
+    const audience = plan.recipients.filter(
+      (recipient) =>
+        !noticeResults[recipient.userId]?.ok &&
+        !stillOwed.has(recipient.userId) &&
+        (notifyAll || refundedNow.has(recipient.userId))
+    );
+
+    setProgress({ label: "Notifying", done: 0, total: audience.length });
+    for (let i = 0; i < audience.length; i++) {
+      const recipient = audience[i];
+      const { subject, message } = buildCancellationMessage(
+        tournament,
+        recipient.username,
+        reason,
+        refundedNow.get(recipient.userId)
+      );
+      noticeResults[recipient.userId] = await attempt(() =>
+        userService.sendMessageToUser(recipient.userId, subject, message)
+      );
+      setNotices({ ...noticeResults });
+      setProgress({ label: "Notifying", done: i + 1, total: audience.length });
+    }
+    setProgress(null);
+
+    queryClient.invalidateQueries({ queryKey: paymentsKey });
+    queryClient.invalidateQueries({ queryKey: ["payments"] });
+
+    const failed =
+      Object.values(refundResults).filter((r) => !r.ok).length +
+      Object.values(noticeResults).filter((r) => !r.ok).length;
+    if (failed === 0) {
+      toast.success("Refunds sent and participants notified");
+    } else {
+      toast.error(
+        `${failed} refund${failed === 1 ? "" : "s"} or message` +
+          `${failed === 1 ? "" : "s"} failed. Retry to finish.`
+      );
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!plan) return;
+    if (!reason.trim()) {
+      toast.error("Give a reason for the cancellation");
+      return;
+    }
+
+    if (cancelled) {
+      await run(cancelledHere);
+      return;
+    }
+
+    if (
+      !confirm(
+        `Cancel ${tournament.title}? ${formatAmount(owedTotal)} in entry ` +
+          `fees will be refunded and ${plan.recipients.length} ` +
+          `participant${plan.recipients.length === 1 ? "" : "s"} notified.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await tournamentService.cancelTournament(tournament.id, reason.trim());
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to cancel tournament"));
+      return;
+    }
+    setCancelled(true);
+    setCancelledHere(true);
+    queryClient.invalidateQueries({ queryKey: ["tournaments"] });
+    await run(true);
+  };
+
+  const lineStatus = (paymentId: string, refunded: boolean) => {
+    const outcome = refunds[paymentId];
+    if (refunded || outcome?.ok) {
+      return (
+        <span className="flex items-center text-green-700">
+          <CheckCircleIcon className="h-4 w-4 mr-1" />
+          Refunded
+        </span>
+      );
+    }
+    if (outcome) return <span className="text-red-700">{outcome.error}</span>;
+    return <span className="text-gray-500">To refund</span>;
+  };
+
+  const hasWork =
+    owed.length > 0 || failedNotices > 0 || (!cancelled && !!plan);
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {cancelled ? "Refund" : "Cancel"} {tournament.title}
+            </h2>
+            <p className="text-sm text-gray-500">
+              {cancelled
+                ? "This tournament is cancelled"
+                : "Entry fees are refunded in full once you confirm"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={!!progress}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+              ))}
+            </div>
+          ) : error || !plan ? (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+              {errorMessage(error, "Failed to load tournament payments")}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                  <p className="text-xs text-red-700">To refund</p>
+                  <p className="text-2xl font-semibold text-red-900">
+                    {formatAmount(owedTotal)}
+                  </p>
+                  <p className="text-xs text-red-700">
+                    {owed.length} entry fee{owed.length === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+                  <p className="text-xs text-gray-500">Already refunded</p>
+                  <p className="text-2xl font-semibold text-gray-900">
+                    {formatAmount(
+                      plan.refundedTotal + (plan.total - owedTotal)
+                    )}
+                  </p>
+                </div>
+                <div className="bg-gray-50 border border-gray-200 rounded-md p-3">
+                  <p className="text-xs text-gray-500">Participants</p>
+                  <p className="text-2xl font-semibold text-gray-900">
+                    {plan.recipients.length}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {notified > 0
+                      ? `${notified} notified`
+                      : "Will be notified"}
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Reason
+                </label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                  disabled={!!progress}
+                  placeholder="Shown to participants in the cancellation notice"
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              {(failedRefunds > 0 || failedNotices > 0) && (
+                <div className="flex items-start bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                  <ExclamationTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                  {failedRefunds} refund{failedRefunds === 1 ? "" : "s"} and{" "}
+                  {failedNotices} message{failedNotices === 1 ? "" : "s"}{" "}
+                  failed. Retrying only repeats these.
+                </div>
+              )}
+
+              {plan.lines.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Nobody has paid an entry fee, so there is nothing to
+                  refund.
+                </p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Player
+                      </th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Entry Fee
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Refund
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {plan.lines.map((line) => (
+                      <tr key={line.paymentId}>
+                        <td className="px-4 py-3 text-sm text-gray-900">
+                          @{line.username}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">
+                          {formatAmount(line.amount)}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {lineStatus(line.paymentId, line.refunded)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          {progress && (
+            <span className="text-sm text-gray-500">
+              {progress.label} {progress.done} of {progress.total}...
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            disabled={!!progress}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Close
+          </button>
+          {canRefund && (cancelled || canCancel) && hasWork && (
+            <button
+              onClick={handleConfirm}
+              disabled={!!progress || !plan}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+            >
+              {!cancelled
+                ? `Cancel & Refund ${formatAmount(owedTotal)}`
+                : failedRefunds > 0 || failedNotices > 0
+                  ? "Retry Failed"
+                  : `Refund ${formatAmount(owedTotal)}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
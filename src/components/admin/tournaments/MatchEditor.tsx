@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useState } from "react";
+import { XMarkIcon, TrophyIcon } from "@heroicons/react/24/outline";
+import { BracketMatch } from "@/services/TournamentService";
+import { canRecordResult } from "@/lib/bracket";
+
+interface MatchEditorProps {
+  match: BracketMatch;
+  roundLabel: string;
+  getPlayerName: (playerId?: string) => string;
+  onRecordResult: (winnerId: string) => Promise<void>;
+  onSchedule: (scheduledTime: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// datetime-local inputs need local time without seconds or timezone
+const toLocalInput = (iso?: string) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+export default function MatchEditor({
+  match,
+  roundLabel,
+  getPlayerName,
+  onRecordResult,
+  onSchedule,
+  onClose,
+}: MatchEditorProps) {
+  const [winnerId, setWinnerId] = useState(match.winnerId || "");
+  const [scheduledTime, setScheduledTime] = useState(
+    toLocalInput(match.scheduledTime)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const players = [match.player1Id, match.player2Id].filter(
+    (id): id is string => !!id
+  );
+  const canRecord = canRecordResult(match);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onClose();
+    } catch {
+      // The caller reports the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Match</h3>
+            <p className="text-sm text-gray-500">{roundLabel}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {/* Result */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Winner</h4>
+            {match.status === "completed" ? (
+              <p className="text-sm text-gray-700">
+                {match.winnerId
+                  ? `${getPlayerName(match.winnerId)} won`
+                  : "Drawn"}
+                {match.completedTime &&
+                  ` on ${new Date(match.completedTime).toLocaleString()}`}
+              </p>
+            ) : !canRecord ? (
+              <p className="text-sm text-gray-500">
+                Waiting for both players to be decided
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {players.map((playerId) => (
+                  <label
+                    key={playerId}
+                    className={`flex items-center p-3 border rounded-lg cursor-pointer ${
+                      winnerId === playerId
+                        ? "border-green-500 bg-green-50"
+                        : "border-gray-200 hover:bg-gray-50"
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="winner"
+                      value={playerId}
+                      checked={winnerId === playerId}
+                      onChange={() => setWinnerId(playerId)}
+                      className="mr-3 text-green-600 focus:ring-green-500"
+                    />
+                    <span className="text-sm text-gray-900">
+                      {getPlayerName(playerId)}
+                    </span>
+                    {winnerId === playerId && (
+                      <TrophyIcon className="h-4 w-4 ml-auto text-green-600" />
+                    )}
+                  </label>
+                ))}
+                <button
+                  onClick={() => run(() => onRecordResult(winnerId))}
+                  disabled={!winnerId || isSaving}
+                  className="w-full px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Record Result
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Schedule */}
+          {match.status !== "completed" && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">
+                Scheduled Time
+              </h4>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="datetime-local"
+                  value={scheduledTime}
+                  onChange={(e) => setScheduledTime(e.target.value)}
+                  className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+                <button
+                  onClick={() =>
+                    run(() => onSchedule(new Date(scheduledTime).toISOString()))
+                  }
+                  disabled={!scheduledTime || isSaving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Schedule
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  XMarkIcon,
+  BanknotesIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { tournamentService } from "@/services/TournamentService";
+import { AdminTournament } from "@/types/admin";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import { buildPayoutPlan, getPlacePrizes, ordinal } from "@/lib/prize-payout";
+
+interface PrizePayoutModalProps {
+  tournament: AdminTournament;
+  onClose: () => void;
+}
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Preview of each winner's prize from the final standings, paid out on
+ * approval. Winners already paid are skipped, so a failed run can simply
+ * be retried.
+ */
+export default function PrizePayoutModal({
+  tournament,
+  onClose,
+}: PrizePayoutModalProps) {
+  const queryClient = useQueryClient();
+  const canPay = usePermission(PERMISSIONS.PAYMENTS_MANAGE);
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [failures, setFailures] = useState<Record<string, string>>({});
+
+  const payoutsKey = ["tournaments", tournament.id, "payouts"];
+
+  const bracketQuery = useQuery({
+    queryKey: ["tournaments", tournament.id, "bracket"],
+    queryFn: () => tournamentService.getTournamentBracket(tournament.id),
+  });
+  const participantsQuery = useQuery({
+    queryKey: ["tournaments", tournament.id, "participants"],
+    queryFn: () => tournamentService.getTournamentParticipants(tournament.id),
+  });
+  const payoutsQuery = useQuery({
+    queryKey: payoutsKey,
+    queryFn: () => tournamentService.getPrizePayouts(tournament.id),
+  });
+
+  const plan = useMemo(
+    () =>
+      bracketQuery.data && participantsQuery.data && payoutsQuery.data
+        ? buildPayoutPlan(
+            tournament,
+            bracketQuery.data,
+            participantsQuery.data,
+            payoutsQuery.data
+          )
+        : null,
+    [tournament, bracketQuery.data, participantsQuery.data, payoutsQuery.data]
+  );
+  const prizes = getPlacePrizes(tournament);
+
+  const isLoading =
+    bracketQuery.isLoading ||
+    participantsQuery.isLoading ||
+    payoutsQuery.isLoading;
+  const error =
+    bracketQuery.error || participantsQuery.error || payoutsQuery.error;
+
+  const unpaid = plan?.lines.filter((line) => !line.paid) || [];
+
+  const handlePay = async () => {
+    if (!plan || unpaid.length === 0) return;
+    if (
+      !confirm(
+        `Pay ${formatAmount(plan.outstanding)} in prizes to ` +
+          `${unpaid.length} player${unpaid.length === 1 ? "" : "s"}?`
+      )
+    ) {
+      return;
+    }
+
+    const failed: Record<string, string> = {};
+    setFailures({});
+    setProgress({ done: 0, total: unpaid.length });
+    // One at a time so a failure part-way leaves a clear record of who
+    // was paid; the idempotency key makes resending any of them safe
+    for (let i = 0; i < unpaid.length; i++) {
+      const line = unpaid[i];
+      try {
+        await tournamentService.payPrize(tournament.id, {
+          userId: line.userId,
+          position: line.position,
+          amount: line.amount,
+          idempotencyKey: line.idempotencyKey,
+        });
+      } catch (error) {
+        failed[line.userId] = errorMessage(error, "Payout failed");
+      }
+      setProgress({ done: i + 1, total: unpaid.length });
+    }
+    setProgress(null);
+    setFailures(failed);
+
+    await queryClient.invalidateQueries({ queryKey: payoutsKey });
+    unpaid.forEach((line) =>
+      queryClient.invalidateQueries({ queryKey: ["users", line.userId] })
+    );
+
+    const failedCount = Object.keys(failed).length;
+    if (failedCount === 0) {
+      toast.success("Prizes paid out");
+    } else {
+      toast.error(
+        `${failedCount} payout${failedCount === 1 ? "" : "s"} failed. ` +
+          "Retry to pay the rest."
+      );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {tournament.title} Prizes
+            </h2>
+            <p className="text-sm text-gray-500">
+              {formatAmount(tournament.prizePool)} pool ·{" "}
+              {prizes
+                .map(
+                  (prize, i) => `${ordinal(i + 1)} ${formatAmount(prize / 100)}`
+                )
+                .join(" · ")}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+              ))}
+            </div>
+          ) : error || !plan ? (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+              {errorMessage(error, "Failed to load the final standings")}
+            </div>
+          ) : plan.issue ? (
+            <div className="flex items-start bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+              <ExclamationTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              {plan.issue}, so prizes can&apos;t be worked out yet.
+            </div>
+          ) : plan.lines.length === 0 ? (
+            <div className="text-center py-8">
+              <BanknotesIcon className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">
+                No prizes to pay
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                This tournament has no prize pool.
+              </p>
+            </div>
+          ) : (
+            <>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Place
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Player
+                    </th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Prize
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {plan.lines.map((line) => (
+                    <tr key={line.userId}>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {line.tiedWith > 0 ? "=" : ""}
+                        {ordinal(line.position)}
+                        {line.tiedWith > 0 && (
+                          <span className="block text-xs text-gray-500">
+                            Split {line.tiedWith + 1} ways
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        @{line.username}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">
+                        {formatAmount(line.amount)}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {line.paid ? (
+                          <span className="flex items-center text-green-700">
+                            <CheckCircleIcon className="h-4 w-4 mr-1" />
+                            Paid {format(new Date(line.paid.paidAt), "d MMM")}
+                            {line.paid.paidBy && ` by ${line.paid.paidBy.name}`}
+                          </span>
+                        ) : failures[line.userId] ? (
+                          <span className="text-red-700">
+                            {failures[line.userId]}
+                          </span>
+                        ) : (
+                          <span className="text-gray-500">Unpaid</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="text-sm text-gray-700 space-y-1">
+                <p>
+                  Total {formatAmount(plan.total)}
+                  {plan.outstanding > 0 &&
+                    plan.outstanding < plan.total &&
+                    `, ${formatAmount(plan.outstanding)} still to pay`}
+                </p>
+                {plan.unawarded > 0 && (
+                  <p className="text-gray-500">
+                    {formatAmount(plan.unawarded)} isn&apos;t awarded because
+                    fewer players finished than there are prize places.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          {progress && (
+            <span className="text-sm text-gray-500">
+              Paying {progress.done} of {progress.total}...
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+          {canPay && plan && !plan.issue && unpaid.length > 0 && (
+            <button
+              onClick={handlePay}
+              disabled={!!progress}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {Object.keys(failures).length > 0
+                ? "Retry Unpaid"
+                : `Approve & Pay ${formatAmount(plan.outstanding)}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { tournamentService } from "@/services/TournamentService";
+import { userService } from "@/services/UserService";
+import { BracketFormat } from "@/lib/bracket-engine";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import {
+  SEEDING_FACTOR_LABELS,
+  SeedingFactor,
+  SeedingOptions,
+  SeedingProfile,
+  findPairingConflicts,
+  getOpeningPairings,
+  simulateSeeding,
+} from "@/lib/seeding";
+
+interface SeedingPreviewProps {
+  tournamentId: string;
+  bracketType: BracketFormat;
+  options: SeedingOptions;
+}
+
+const factorColors: Record<SeedingFactor, string> = {
+  rating: "bg-blue-500",
+  performance: "bg-green-500",
+  history: "bg-purple-500",
+  regional: "bg-orange-500",
+  consistency: "bg-teal-500",
+};
+
+const factors = Object.keys(SEEDING_FACTOR_LABELS) as SeedingFactor[];
+
+// Players loaded at once
+const PROFILE_CONCURRENCY = 4;
+
+interface ProfileFailure {
+  userId: string;
+  username: string;
+  missing: string[]; // "rating" and/or "game history"
+}
+
+// Load each active participant's rating and recent games. Players whose
+// data couldn't be loaded are still seeded, and listed so the admin knows
+// which seeds rest on incomplete data.
+async function loadSeedingProfiles(
+  tournamentId: string
+): Promise<{ profiles: SeedingProfile[]; failures: ProfileFailure[] }> {
+  const participants = (
+    await tournamentService.getTournamentParticipants(tournamentId)
+  ).filter((participant) => participant.status !== "withdrawn");
+  const failures: ProfileFailure[] = [];
+
+  const profiles = await mapWithConcurrency(
+    participants,
+    PROFILE_CONCURRENCY,
+    async (participant) => {
+      const [stats, history] = await Promise.all([
+        participant.rating === undefined
+          ? userService.getUserStats(participant.userId).catch(() => null)
+          : undefined,
+        userService
+          .getUserGameHistory(participant.userId, 1, 100)
+          .catch(() => null),
+      ]);
+      const missing = [
+        ...(stats === null ? ["rating"] : []),
+        ...(history === null ? ["game history"] : []),
+      ];
+      if (missing.length > 0) {
+        failures.push({
+          userId: participant.userId,
+          username: participant.username,
+          missing,
+        });
+      }
+      return {
+        userId: participant.userId,
+        username: participant.username,
+        rating: participant.rating ?? stats?.currentEloRating ?? 0,
+        games: history?.games || [],
+        province: participant.province,
+        city: participant.city,
+        institution: participant.institution,
+      };
+    }
+  );
+
+  return { profiles, failures };
+}
+
+export default function SeedingPreview({
+  tournamentId,
+  bracketType,
+  options,
+}: SeedingPreviewProps) {
+  const profilesQuery = useQuery({
+    queryKey: ["tournaments", tournamentId, "seeding-profiles"],
+    queryFn: () => loadSeedingProfiles(tournamentId),
+  });
+  const profiles = useMemo(
+    () => profilesQuery.data?.profiles || [],
+    [profilesQuery.data]
+  );
+  const failures = profilesQuery.data?.failures || [];
+
+  const seeds = useMemo(
+    () => simulateSeeding(profiles, options),
+    [profiles, options]
+  );
+
+  // Compare round one under the weighted and the pure rating seed order
+  const { conflicts, ratingConflictCount } = useMemo(() => {
+    const weightedOrder = seeds.map((result) => result.userId);
+    const ratingOrder = [...seeds]
+      .sort((a, b) => a.ratingSeed - b.ratingSeed)
+      .map((result) => result.userId);
+    return {
+      conflicts: findPairingConflicts(
+        getOpeningPairings(bracketType, weightedOrder),
+        profiles,
+        options.regionalRadius
+      ),
+      ratingConflictCount: findPairingConflicts(
+        getOpeningPairings(bracketType, ratingOrder),
+        profiles,
+        options.regionalRadius
+      ).length,
+    };
+  }, [seeds, profiles, bracketType, options.regionalRadius]);
+
+  const getPlayerName = (playerId: string) =>
+    profiles.find((profile) => profile.userId === playerId)?.username ||
+    `Player ${playerId.slice(0, 6)}`;
+
+  const movedCount = seeds.filter(
+    (result) => result.seed !== result.ratingSeed
+  ).length;
+
+  if (profilesQuery.isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="animate-pulse h-8 bg-gray-100 rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (profilesQuery.error) {
+    return (
+      <p className="text-sm text-red-600">
+        Failed to load participants for the seeding preview.
+      </p>
+    );
+  }
+
+  if (seeds.length < 2) {
+    return (
+      <p className="text-sm text-gray-500">
+        At least two registered players are needed to preview seeding.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-700">Seeding Preview</h4>
+        <span className="text-sm text-gray-500">
+          {movedCount} of {seeds.length} players seeded differently from
+          rating order
+        </span>
+      </div>
+
+      {/* Players seeded on incomplete data */}
+      {failures.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center text-sm font-medium text-red-800">
+              <ExclamationTriangleIcon className="w-5 h-5 mr-2" />
+              Couldn&apos;t load data for {failures.length} player
+              {failures.length === 1 ? "" : "s"}; their seeds may be wrong
+            </div>
+            <button
+              type="button"
+              onClick={() => profilesQuery.refetch()}
+              disabled={profilesQuery.isFetching}
+              className="text-sm font-medium text-red-700 hover:text-red-900 disabled:opacity-50"
+            >
+              {profilesQuery.isFetching ? "Retrying..." : "Retry"}
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-sm text-red-700">
+            {failures.map((failure) => (
+              <li key={failure.userId}>
+                {failure.username}: no {failure.missing.join(" or ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Round one pairing warnings */}
+      {conflicts.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex items-center text-sm font-medium text-yellow-800">
+            <ExclamationTriangleIcon className="w-5 h-5 mr-2" />
+            {conflicts.length} round one pairing
+            {conflicts.length > 1 ? "s" : ""} between players from the same
+            institution or within {options.regionalRadius} km
+          </div>
+          <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+            {conflicts.map((conflict) => (
+              <li key={`${conflict.playerA}-${conflict.playerB}-${conflict.kind}`}>
+                {getPlayerName(conflict.playerA)} vs{" "}
+                {getPlayerName(conflict.playerB)}:{" "}
+                {conflict.kind === "nearby" ? "from" : "both from"}{" "}
+                {conflict.value}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs text-yellow-700">
+            Pure rating seeding would give {ratingConflictCount} such pairing
+            {ratingConflictCount === 1 ? "" : "s"}.
+          </p>
+        </div>
+      )}
+
+      {/* Factor legend */}
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        {factors.map((factor) => (
+          <span key={factor} className="flex items-center">
+            <span
+              className={`inline-block w-3 h-3 rounded-sm mr-1 ${factorColors[factor]}`}
+            />
+            {SEEDING_FACTOR_LABELS[factor]}
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                Seed
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                Player
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                Rating Seed
+              </th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase w-1/2">
+                Factor Contribution
+              </th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                Score
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {seeds.map((result) => {
+              const change = result.ratingSeed - result.seed;
+              return (
+                <tr key={result.userId}>
+                  <td className="px-3 py-2 font-semibold text-gray-900">
+                    {result.seed}
+                  </td>
+                  <td className="px-3 py-2 text-gray-900">
+                    {result.username}
+                  </td>
+                  <td className="px-3 py-2 text-gray-500">
+                    <span className="flex items-center">
+                      {result.ratingSeed}
+                      {change > 0 && (
+                        <span className="ml-2 flex items-center text-green-600">
+                          <ArrowUpIcon className="w-3 h-3 mr-0.5" />
+                          {change}
+                        </span>
+                      )}
+                      {change < 0 && (
+                        <span className="ml-2 flex items-center text-red-600">
+                          <ArrowDownIcon className="w-3 h-3 mr-0.5" />
+                          {-change}
+                        </span>
+                      )}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex h-3 w-full bg-gray-100 rounded overflow-hidden">
+                      {factors.map(
+                        (factor) =>
+                          result.contributions[factor] > 0 && (
+                            <div
+                              key={factor}
+                              className={factorColors[factor]}
+                              style={{
+                                width: `${result.contributions[factor] * 100}%`,
+                              }}
+                              title={`${SEEDING_FACTOR_LABELS[factor]}: ${(
+                                result.contributions[factor] * 100
+                              ).toFixed(1)}`}
+                            />
+                          )
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">
+                    {(result.score * 100).toFixed(1)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { BracketMatch, TournamentBracket } from "@/services/TournamentService";
+import {
+  computeStandings,
+  getHeadToHead,
+  isTableBye,
+} from "@/lib/bracket";
+
+interface StandingsViewProps {
+  bracket: TournamentBracket;
+  format: "ROUND_ROBIN" | "SWISS";
+  playerIds: string[];
+  getPlayerName: (playerId?: string) => string;
+  onSelectMatch: (match: BracketMatch, roundLabel: string) => void;
+}
+
+const headToHeadStyles = {
+  win: { label: "1", className: "bg-green-50 text-green-700 font-semibold" },
+  loss: { label: "0", className: "bg-red-50 text-red-600" },
+  draw: { label: "½", className: "bg-yellow-50 text-yellow-700" },
+  pending: { label: "·", className: "text-gray-400" },
+};
+
+const formatPoints = (points: number) =>
+  Number.isInteger(points) ? points.toString() : points.toFixed(1);
+
+export default function StandingsView({
+  bracket,
+  format,
+  playerIds,
+  getPlayerName,
+  onSelectMatch,
+}: StandingsViewProps) {
+  const standings = useMemo(
+    () => computeStandings(bracket, playerIds),
+    [bracket, playerIds]
+  );
+  const rounds = useMemo(
+    () => [...bracket.rounds].sort((a, b) => a.roundNumber - b.roundNumber),
+    [bracket]
+  );
+  const ranked = standings.map((row) => row.playerId);
+
+  return (
+    <div className="space-y-8">
+      {/* Standings */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-3">Standings</h3>
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  #
+                </th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Player
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Played
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  W
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  D
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  L
+                </th>
+                {format === "SWISS" && (
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Buchholz
+                  </th>
+                )}
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Points
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {standings.map((row, index) => (
+                <tr key={row.playerId}>
+                  <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                  <td className="px-3 py-2 font-medium text-gray-900">
+                    {getPlayerName(row.playerId)}
+                    {row.byes > 0 && (
+                      <span className="ml-2 text-xs text-gray-400">
+                        ({row.byes} bye{row.byes > 1 ? "s" : ""})
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">
+                    {row.played}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">
+                    {row.wins}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">
+                    {row.draws}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">
+                    {row.losses}
+                  </td>
+                  {format === "SWISS" && (
+                    <td className="px-3 py-2 text-right text-gray-700">
+                      {formatPoints(row.buchholz)}
+                    </td>
+                  )}
+                  <td className="px-3 py-2 text-right font-semibold text-gray-900">
+                    {formatPoints(row.points)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Round robin cross table */}
+      {format === "ROUND_ROBIN" && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-3">
+            Results Grid
+          </h3>
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2" />
+                  {ranked.map((playerId, index) => (
+                    <th
+                      key={playerId}
+                      className="px-3 py-2 text-center text-xs font-medium text-gray-500"
+                      title={getPlayerName(playerId)}
+                    >
+                      {index + 1}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {ranked.map((playerId, rowIndex) => (
+                  <tr key={playerId}>
+                    <td className="px-3 py-2 whitespace-nowrap font-medium text-gray-900">
+                      {rowIndex + 1}. {getPlayerName(playerId)}
+                    </td>
+                    {ranked.map((opponentId) => {
+                      if (opponentId === playerId) {
+                        return (
+                          <td key={opponentId} className="bg-gray-100" />
+                        );
+                      }
+                      const result = getHeadToHead(
+                        bracket,
+                        playerId,
+                        opponentId
+                      );
+                      const style = result ? headToHeadStyles[result] : null;
+                      return (
+                        <td
+                          key={opponentId}
+                          className={`px-3 py-2 text-center ${style?.className || "text-gray-300"}`}
+                        >
+                          {style?.label || "—"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Pairings by round */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-3">
+          {format === "SWISS" ? "Pairings" : "Fixtures"}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {rounds.map((round) => {
+            const label = `Round ${round.roundNumber}`;
+            return (
+              <div
+                key={round.id}
+                className="border border-gray-200 rounded-lg overflow-hidden"
+              >
+                <div className="px-3 py-2 bg-gray-50 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                  {label}
+                </div>
+                <ul className="divide-y divide-gray-100">
+                  {round.matches.map((match) => (
+                    <li
+                      key={match.id}
+                      onClick={() => onSelectMatch(match, label)}
+                      className="px-3 py-2 flex items-center justify-between text-sm cursor-pointer hover:bg-gray-50"
+                    >
+                      <span
+                        className={
+                          match.winnerId === match.player1Id
+                            ? "font-semibold text-gray-900"
+                            : "text-gray-700"
+                        }
+                      >
+                        {getPlayerName(match.player1Id)}
+                      </span>
+                      <span className="text-xs text-gray-400 mx-2">
+                        {isTableBye(match)
+                          ? "bye"
+                          : match.status !== "completed"
+                            ? "vs"
+                            : !match.winnerId
+                              ? "½–½"
+                              : match.winnerId === match.player1Id
+                                ? "1–0"
+                                : "0–1"}
+                      </span>
+                      <span
+                        className={
+                          match.winnerId && match.winnerId === match.player2Id
+                            ? "font-semibold text-gray-900"
+                            : "text-gray-700"
+                        }
+                      >
+                        {match.player2Id ? getPlayerName(match.player2Id) : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  tournamentTemplateService,
+  OccurrenceOverride,
+  TournamentTemplate,
+} from "@/services/TournamentTemplateService";
+import {
+  TEMPLATES_QUERY_KEY,
+  useTemplateOccurrences,
+} from "@/hooks/useTournamentTemplates";
+import {
+  addDays,
+  expandTemplate,
+  ScheduledInstance,
+  WEEKDAY_LABELS,
+} from "@/lib/tournament-schedule";
+
+interface TemplateCalendarProps {
+  templates: TournamentTemplate[];
+  canManage: boolean;
+}
+
+const inputClass =
+  "mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const toKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+const instanceStyle = (instance: ScheduledInstance) =>
+  instance.tournamentId
+    ? "bg-green-100 text-green-800"
+    : instance.skipped
+      ? "bg-gray-100 text-gray-500 line-through"
+      : instance.overridden
+        ? "bg-yellow-100 text-yellow-800"
+        : "bg-blue-100 text-blue-800";
+
+/**
+ * Month view of every recurring template's instances. Clicking one opens
+ * it for skipping or changing that single date.
+ */
+export default function TemplateCalendar({
+  templates,
+  canManage,
+}: TemplateCalendarProps) {
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [selected, setSelected] = useState<ScheduledInstance | null>(null);
+
+  // Whole weeks, Sunday first, covering the month
+  const firstCell = addDays(toKey(month), -month.getDay());
+  const lastOfMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const lastCell = addDays(toKey(lastOfMonth), 6 - lastOfMonth.getDay());
+
+  const occurrencesQuery = useTemplateOccurrences(firstCell, lastCell);
+
+  const byDate = useMemo(() => {
+    const days = new Map<string, ScheduledInstance[]>();
+    templates
+      .flatMap((template) =>
+        expandTemplate(
+          template,
+          firstCell,
+          lastCell,
+          occurrencesQuery.data || []
+        )
+      )
+      .forEach((instance) => {
+        days.set(instance.date, [...(days.get(instance.date) || []), instance]);
+      });
+    days.forEach((instances) =>
+      instances.sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+    );
+    return days;
+  }, [templates, firstCell, lastCell, occurrencesQuery.data]);
+
+  const cells: string[] = [];
+  for (let date = firstCell; date <= lastCell; date = addDays(date, 1)) {
+    cells.push(date);
+  }
+  const today = toKey(new Date());
+
+  const shiftMonth = (delta: number) =>
+    setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">
+          {format(month, "MMMM yyyy")}
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => shiftMonth(-1)}
+            className="p-1 text-gray-500 border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Previous month"
+          >
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => shiftMonth(1)}
+            className="p-1 text-gray-500 border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Next month"
+          >
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {occurrencesQuery.error && (
+        <div className="m-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+          {occurrencesQuery.error instanceof Error
+            ? occurrencesQuery.error.message
+            : "Failed to load skipped and changed dates"}
+        </div>
+      )}
+
+      <div className="grid grid-cols-7 border-b border-gray-200 bg-gray-50">
+        {WEEKDAY_LABELS.map((label) => (
+          <div
+            key={label}
+            className="px-2 py-2 text-xs font-medium text-gray-500 uppercase text-center"
+          >
+            {label}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {cells.map((date) => {
+          const inMonth = date.slice(0, 7) === toKey(month).slice(0, 7);
+          return (
+            <div
+              key={date}
+              className={`min-h-[6rem] border-b border-r border-gray-100 p-1 ${
+                inMonth ? "bg-white" : "bg-gray-50"
+              }`}
+            >
+              <p
+                className={`text-xs mb-1 ${
+                  date === today
+                    ? "font-semibold text-blue-600"
+                    : inMonth
+                      ? "text-gray-700"
+                      : "text-gray-400"
+                }`}
+              >
+                {Number(date.slice(8))}
+              </p>
+              <div className="space-y-1">
+                {(byDate.get(date) || []).map((instance) => (
+                  <button
+                    key={`${instance.template.id}-${instance.date}`}
+                    onClick={() => setSelected(instance)}
+                    className={`block w-full truncate rounded px-1 py-0.5 text-left text-xs ${instanceStyle(
+                      instance
+                    )}`}
+                    title={instance.title}
+                  >
+                    {instance.time} {instance.template.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-4 px-6 py-3 text-xs text-gray-500">
+        <span className="flex items-center">
+          <span className="h-3 w-3 rounded bg-blue-100 mr-1" />
+          Scheduled
+        </span>
+        <span className="flex items-center">
+          <span className="h-3 w-3 rounded bg-yellow-100 mr-1" />
+          Changed
+        </span>
+        <span className="flex items-center">
+          <span className="h-3 w-3 rounded bg-green-100 mr-1" />
+          Created
+        </span>
+        <span className="flex items-center">
+          <span className="h-3 w-3 rounded bg-gray-100 mr-1" />
+          Skipped
+        </span>
+        <span>Times are in each template&apos;s timezone</span>
+      </div>
+
+      {selected && (
+        <OccurrenceEditor
+          instance={selected}
+          canManage={canManage}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface OccurrenceEditorProps {
+  instance: ScheduledInstance;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+function OccurrenceEditor({
+  instance,
+  canManage,
+  onClose,
+}: OccurrenceEditorProps) {
+  const queryClient = useQueryClient();
+  const { template, date } = instance;
+  const rule = template.recurrence!;
+  const editable = canManage && !instance.tournamentId;
+  const [title, setTitle] = useState(instance.title);
+  const [time, setTime] = useState(instance.time);
+  const [entryFee, setEntryFee] = useState(instance.entryFee);
+  const [maxPlayers, setMaxPlayers] = useState(instance.maxPlayers);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (action: () => Promise<unknown>, message: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast.success(message);
+      queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+      onClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update occurrence"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSkip = () =>
+    save(
+      () =>
+        tournamentTemplateService.updateOccurrence(template.id, date, {
+          skipped: !instance.skipped,
+        }),
+      instance.skipped ? "Occurrence restored" : "Occurrence skipped"
+    );
+
+  const handleSave = () => {
+    // Only fields that differ from the template are stored
+    const override: OccurrenceOverride = {};
+    const changedTitle =
+      title.trim() && title.trim() !== instance.title
+        ? title.trim()
+        : instance.override.title;
+    if (changedTitle) override.title = changedTitle;
+    if (time && time !== rule.time) override.time = time;
+    if (entryFee !== template.entryFee) override.entryFee = entryFee;
+    if (maxPlayers !== template.maxPlayers) override.maxPlayers = maxPlayers;
+    save(
+      () =>
+        tournamentTemplateService.updateOccurrence(template.id, date, {
+          skipped: instance.skipped,
+          override,
+        }),
+      "Occurrence updated"
+    );
+  };
+
+  const handleReset = () =>
+    save(
+      () => tournamentTemplateService.resetOccurrence(template.id, date),
+      "Occurrence reset to the template"
+    );
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              {instance.title}
+            </h3>
+            <p className="text-sm text-gray-500">
+              {template.name} ·{" "}
+              {format(new Date(`${date}T00:00:00`), "EEE d MMM yyyy")},{" "}
+              {instance.time} {rule.timezone}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {instance.tournamentId ? (
+            <p className="text-sm text-gray-700">
+              This tournament has been created.{" "}
+              <Link
+                href={`/admin/tournaments?tournament=${instance.tournamentId}`}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Open tournament
+              </Link>
+            </p>
+          ) : instance.skipped ? (
+            <p className="text-sm text-gray-700">
+              This date is skipped; no tournament will be created.
+            </p>
+          ) : null}
+
+          {editable && !instance.skipped && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Title
+                </label>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Start ({rule.timezone})
+                  </label>
+                  <input
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTime(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Entry Fee ($)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={entryFee}
+                    onChange={(e) => setEntryFee(Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Max Players
+                  </label>
+                  <input
+                    type="number"
+                    min={2}
+                    value={maxPlayers}
+                    onChange={(e) => setMaxPlayers(Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {editable && (
+          <div className="flex items-center justify-between p-6 border-t border-gray-200">
+            <button
+              onClick={handleReset}
+              disabled={isSaving || (!instance.overridden && !instance.skipped)}
+              className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              Reset to Template
+            </button>
+            <div className="flex space-x-3">
+              <button
+                onClick={handleSkip}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {instance.skipped ? "Restore Date" : "Skip This Date"}
+              </button>
+              {!instance.skipped && (
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSaving ? "Saving..." : "Save Changes"}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
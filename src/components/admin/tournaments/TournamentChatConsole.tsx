@@ -0,0 +1,451 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  XMarkIcon,
+  TrashIcon,
+  UserIcon,
+  SpeakerXMarkIcon,
+  ArchiveBoxXMarkIcon,
+  ChatBubbleLeftRightIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  tournamentService,
+  TournamentChatMessage,
+  TournamentChatMute,
+} from "@/services/TournamentService";
+import { userService } from "@/services/UserService";
+import { AdminTournament, PlatformUser } from "@/types/admin";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import UserDetailsModal from "@/components/admin/users/UserDetailsModal";
+
+interface TournamentChatConsoleProps {
+  tournament: AdminTournament;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const MUTE_DURATIONS = [
+  { minutes: 10, label: "10 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 24 * 60, label: "24 hours" },
+  { minutes: 7 * 24 * 60, label: "7 days" },
+];
+
+const toIso = (value: Date | string) => new Date(value).toISOString();
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Live view of a tournament's chat, newest first, with delete and mute
+ * actions on each message and the list of currently muted players
+ */
+export default function TournamentChatConsole({
+  tournament,
+  onClose,
+}: TournamentChatConsoleProps) {
+  const queryClient = useQueryClient();
+  const canModerate = usePermission(PERMISSIONS.MODERATION_MANAGE);
+  const [muteMenuFor, setMuteMenuFor] = useState<string | null>(null);
+  const [viewingUser, setViewingUser] = useState<PlatformUser | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const chatKey = ["tournament-chat", tournament.id];
+  const mutesKey = ["tournament-chat", tournament.id, "mutes"];
+
+  const {
+    data,
+    error,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: chatKey,
+    queryFn: ({ pageParam }) =>
+      tournamentService.getTournamentChat(tournament.id, pageParam, PAGE_SIZE),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.hasNextPage
+        ? lastPage.pagination.currentPage + 1
+        : undefined,
+    refetchInterval: 15000,
+  });
+
+  const mutesQuery = useQuery({
+    queryKey: mutesKey,
+    queryFn: () => tournamentService.getMutedUsers(tournament.id),
+    refetchInterval: 60000,
+  });
+
+  // New messages shift later pages, so the same message can briefly
+  // appear on two pages
+  const messages = useMemo(() => {
+    const seen = new Set<string>();
+    return (data?.pages.flatMap((page) => page.messages) || []).filter(
+      (message) => {
+        if (seen.has(message.id)) return false;
+        seen.add(message.id);
+        return true;
+      }
+    );
+  }, [data]);
+
+  const activeMutes = (mutesQuery.data || []).filter(
+    (mute) => new Date(mute.expiresAt).getTime() > Date.now()
+  );
+  const mutedIds = new Set(activeMutes.map((mute) => mute.userId));
+
+  // Load older messages as the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { root: scrollRef.current, rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const refreshChat = () =>
+    queryClient.invalidateQueries({ queryKey: chatKey });
+
+  const deleteMutation = useMutation({
+    mutationFn: (message: TournamentChatMessage) =>
+      tournamentService.deleteMessage(tournament.id, message.id),
+    onSuccess: () => {
+      toast.success("Message deleted");
+      refreshChat();
+    },
+    onError: (err) => {
+      toast.error(errorMessage(err, "Failed to delete message"));
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (message: TournamentChatMessage) =>
+      tournamentService.deleteUserMessages(tournament.id, message.userId),
+    onSuccess: ({ deleted }, message) => {
+      toast.success(`Deleted ${deleted} message(s) from ${message.username}`);
+      refreshChat();
+    },
+    onError: (err) => {
+      toast.error(errorMessage(err, "Failed to delete messages"));
+    },
+  });
+
+  const muteMutation = useMutation({
+    mutationFn: ({
+      message,
+      minutes,
+    }: {
+      message: TournamentChatMessage;
+      minutes: number;
+    }) => tournamentService.muteUser(tournament.id, message.userId, minutes),
+    onSuccess: (_, { message, minutes }) => {
+      const duration = MUTE_DURATIONS.find((d) => d.minutes === minutes);
+      toast.success(`${message.username} muted for ${duration?.label}`);
+      setMuteMenuFor(null);
+      queryClient.invalidateQueries({ queryKey: mutesKey });
+    },
+    onError: (err) => {
+      toast.error(errorMessage(err, "Failed to mute user"));
+    },
+  });
+
+  const unmuteMutation = useMutation({
+    mutationFn: (mute: TournamentChatMute) =>
+      tournamentService.unmuteUser(tournament.id, mute.userId),
+    onSuccess: (_, mute) => {
+      toast.success(`${mute.username} can chat again`);
+      queryClient.invalidateQueries({ queryKey: mutesKey });
+    },
+    onError: (err) => {
+      toast.error(errorMessage(err, "Failed to lift mute"));
+    },
+  });
+
+  const userMutation = useMutation({
+    mutationFn: (userId: string) => userService.getUser(userId),
+    onSuccess: setViewingUser,
+    onError: (err) => {
+      toast.error(errorMessage(err, "Failed to load user"));
+    },
+  });
+
+  const handleDelete = (message: TournamentChatMessage) => {
+    if (confirm(`Delete this message from ${message.username}?`)) {
+      deleteMutation.mutate(message);
+    }
+  };
+
+  const handlePurge = (message: TournamentChatMessage) => {
+    if (
+      confirm(
+        `Delete everything ${message.username} has posted in this ` +
+          `tournament's chat? This cannot be undone.`
+      )
+    ) {
+      purgeMutation.mutate(message);
+    }
+  };
+
+  const handleUnmute = (mute: TournamentChatMute) => {
+    if (confirm(`Lift the mute on ${mute.username}?`)) {
+      unmuteMutation.mutate(mute);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {tournament.title} Chat
+            </h2>
+            <p className="text-sm text-gray-500">
+              Newest first · refreshes every 15 seconds
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 lg:grid-cols-3 min-h-0">
+          {/* Messages */}
+          <div
+            ref={scrollRef}
+            className="lg:col-span-2 overflow-y-auto border-r border-gray-200"
+          >
+            {isLoading ? (
+              <div className="p-6 space-y-3">
+                {[...Array(8)].map((_, i) => (
+                  <div
+                    key={i}
+                    className="animate-pulse h-10 bg-gray-100 rounded"
+                  />
+                ))}
+              </div>
+            ) : error ? (
+              <div className="m-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+                {errorMessage(error, "Failed to load chat")}
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="text-center py-12">
+                <ChatBubbleLeftRightIcon className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">
+                  No messages yet
+                </h3>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {messages.map((message) => (
+                  <li
+                    key={message.id}
+                    className="group relative px-4 py-2 hover:bg-gray-50"
+                  >
+                    <div className="flex items-baseline space-x-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {message.username}
+                      </span>
+                      {mutedIds.has(message.userId) && (
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-orange-100 text-orange-800">
+                          muted
+                        </span>
+                      )}
+                      <span
+                        className="text-xs text-gray-400"
+                        title={format(
+                          new Date(message.createdAt),
+                          "d MMM yyyy, HH:mm:ss"
+                        )}
+                      >
+                        {format(new Date(message.createdAt), "HH:mm")}
+                      </span>
+                    </div>
+                    <p
+                      className={`text-sm break-words ${
+                        message.isDeleted
+                          ? "italic text-gray-400"
+                          : "text-gray-700"
+                      }`}
+                    >
+                      {message.isDeleted ? "Message deleted" : message.message}
+                    </p>
+
+                    <div
+                      className={`absolute right-4 top-1 items-center space-x-1 bg-white border border-gray-200 rounded-md shadow-sm px-1 ${
+                        muteMenuFor === message.id
+                          ? "flex"
+                          : "hidden group-hover:flex"
+                      }`}
+                    >
+                      <button
+                        onClick={() => userMutation.mutate(message.userId)}
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title="View user"
+                      >
+                        <UserIcon className="h-4 w-4" />
+                      </button>
+                      {canModerate && (
+                        <>
+                          <button
+                            onClick={() =>
+                              setMuteMenuFor(
+                                muteMenuFor === message.id ? null : message.id
+                              )
+                            }
+                            className="p-1 text-gray-400 hover:text-orange-600"
+                            title="Mute user"
+                          >
+                            <SpeakerXMarkIcon className="h-4 w-4" />
+                          </button>
+                          {!message.isDeleted && (
+                            <button
+                              onClick={() => handleDelete(message)}
+                              disabled={deleteMutation.isPending}
+                              className="p-1 text-gray-400 hover:text-red-600"
+                              title="Delete message"
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handlePurge(message)}
+                            disabled={purgeMutation.isPending}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title={`Delete all from ${message.username}`}
+                          >
+                            <ArchiveBoxXMarkIcon className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+
+                    {muteMenuFor === message.id && (
+                      <div className="absolute right-4 top-9 z-10 w-40 bg-white border border-gray-200 rounded-md shadow-lg py-1">
+                        <p className="px-3 py-1 text-xs text-gray-500">
+                          Mute {message.username} for
+                        </p>
+                        {MUTE_DURATIONS.map(({ minutes, label }) => (
+                          <button
+                            key={minutes}
+                            onClick={() =>
+                              muteMutation.mutate({ message, minutes })
+                            }
+                            disabled={muteMutation.isPending}
+                            className="block w-full text-left px-3 py-1 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div ref={sentinelRef} className="py-3 text-center">
+              {isFetchingNextPage && (
+                <span className="text-xs text-gray-500">
+                  Loading older messages...
+                </span>
+              )}
+              {!hasNextPage && messages.length > 0 && (
+                <span className="text-xs text-gray-400">
+                  Start of the conversation
+                </span>
+              )}
+            </div>
+          </div>
+
+          {/* Muted players */}
+          <div className="overflow-y-auto p-4">
+            <h3 className="text-sm font-medium text-gray-900 mb-3">
+              Muted Players ({activeMutes.length})
+            </h3>
+            {mutesQuery.isLoading ? (
+              <div className="animate-pulse h-16 bg-gray-100 rounded" />
+            ) : mutesQuery.error ? (
+              <p className="text-sm text-red-600">
+                {errorMessage(mutesQuery.error, "Failed to load muted players")}
+              </p>
+            ) : activeMutes.length === 0 ? (
+              <p className="text-sm text-gray-500">Nobody is muted.</p>
+            ) : (
+              <ul className="space-y-2">
+                {activeMutes.map((mute) => (
+                  <li
+                    key={mute.userId}
+                    className="flex items-start justify-between border border-gray-200 rounded-md p-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {mute.username}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Until{" "}
+                        {format(new Date(mute.expiresAt), "d MMM, HH:mm")} (
+                        {formatDistanceToNow(new Date(mute.expiresAt))} left)
+                      </p>
+                      {mute.mutedBy && (
+                        <p className="text-xs text-gray-400">
+                          by {mute.mutedBy.name}
+                        </p>
+                      )}
+                    </div>
+                    {canModerate && (
+                      <button
+                        onClick={() => handleUnmute(mute)}
+                        disabled={unmuteMutation.isPending}
+                        className="ml-2 text-xs font-medium text-green-600 hover:text-green-800 disabled:opacity-50"
+                      >
+                        Lift
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {viewingUser && (
+        <UserDetailsModal
+          user={{
+            ...viewingUser,
+            lastActive: toIso(viewingUser.lastActive),
+            createdAt: toIso(viewingUser.createdAt),
+            updatedAt: toIso(viewingUser.updatedAt),
+          }}
+          isOpen={!!viewingUser}
+          onClose={() => setViewingUser(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { AdminTournament } from "@/types/admin";
 import { CreateTournamentData } from "@/services/TournamentService";
+import { DEFAULT_SEEDING_OPTIONS, SeedingOptions } from "@/lib/seeding";
+import AdvancedSeedingConfig from "./AdvancedSeedingConfig";
 
 const tournamentSchema = z
   .object({
@@ -134,6 +136,9 @@ export default function TournamentForm({
 }: TournamentFormProps) {
   const isEditing = !!tournament;
   const [showAdvancedSeeding, setShowAdvancedSeeding] = useState(false);
+  const [seedingOptions, setSeedingOptions] = useState<SeedingOptions>(
+    tournament?.bracketConfig?.seedingOptions || DEFAULT_SEEDING_OPTIONS
+  );
 
   const {
     register,
@@ -212,19 +217,7 @@ export default function TournamentForm({
       // Add bracket configuration with advanced seeding
       bracketConfig: {
         useAdvancedSeeding: data.useAdvancedSeeding,
-        seedingOptions: {
-          includePerformance: true,
-          includeHistory: true,
-          includeRegional: false,
-          includeConsistency: true,
-          performanceWeight: 0.4,
-          historyWeight: 0.3,
-          regionalWeight: 0.1,
-          consistencyWeight: 0.2,
-          ratingWeight: 0.5,
-          recentTournaments: 10,
-          regionalRadius: 100,
-        },
+        seedingOptions,
       },
     };
     await onSubmit(transformedData);
@@ -520,6 +513,29 @@ export default function TournamentForm({
                   The system will automatically analyze player statistics and
                   historical performance to create balanced tournament brackets.
                 </p>
+                <button
+                  type="button"
+                  onClick={() => setShowAdvancedSeeding(!showAdvancedSeeding)}
+                  className="mt-3 text-sm font-medium text-blue-700 hover:text-blue-900"
+                >
+                  {showAdvancedSeeding
+                    ? "Hide seeding weights"
+                    : isEditing
+                      ? "Configure weights and preview seeds"
+                      : "Configure weights"}
+                </button>
+              </div>
+            )}
+
+            {useAdvancedSeeding && showAdvancedSeeding && (
+              <div className="mt-4">
+                <AdvancedSeedingConfig
+                  options={seedingOptions}
+                  onOptionsChange={setSeedingOptions}
+                  disabled={isLoading}
+                  tournamentId={tournament?.id}
+                  bracketType={bracketType}
+                />
               </div>
             )}
           </div>
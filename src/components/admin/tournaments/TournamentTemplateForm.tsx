@@ -0,0 +1,484 @@
+"use client";
+
+import React, { useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import {
+  RecurrenceRule,
+  ScheduleTimezone,
+  TournamentTemplate,
+  TournamentTemplateInput,
+} from "@/services/TournamentTemplateService";
+import { CreateTournamentData } from "@/services/TournamentService";
+import {
+  describeRecurrence,
+  MAX_CREATE_AHEAD_DAYS,
+  TIMEZONE_OFFSETS,
+  validateTemplate,
+  WEEKDAY_LABELS,
+} from "@/lib/tournament-schedule";
+import { DEFAULT_PRIZE_BREAKDOWN } from "@/lib/prize-payout";
+
+interface TournamentTemplateFormProps {
+  template?: TournamentTemplate | null;
+  onSubmit: (input: TournamentTemplateInput) => Promise<void>;
+  onClose: () => void;
+}
+
+const GAME_TYPES: CreateTournamentData["gameType"][] = [
+  "chess",
+  "checkers",
+  "connect4",
+  "tictactoe",
+];
+
+const BRACKET_TYPES: {
+  value: CreateTournamentData["bracketType"];
+  label: string;
+}[] = [
+  { value: "SINGLE_ELIMINATION", label: "Single Elimination" },
+  { value: "DOUBLE_ELIMINATION", label: "Double Elimination" },
+  { value: "ROUND_ROBIN", label: "Round Robin" },
+  { value: "SWISS", label: "Swiss" },
+];
+
+const inputClass =
+  "mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// New series default to every Friday at 18:00 CAT
+const defaultRecurrence = (): RecurrenceRule => ({
+  frequency: "weekly",
+  weekdays: [5],
+  time: "18:00",
+  timezone: "CAT",
+  durationMinutes: 180,
+  startsOn: new Date().toISOString().slice(0, 10),
+});
+
+export default function TournamentTemplateForm({
+  template,
+  onSubmit,
+  onClose,
+}: TournamentTemplateFormProps) {
+  const [name, setName] = useState(template?.name || "");
+  const [title, setTitle] = useState(template?.title || "");
+  const [description, setDescription] = useState(
+    template?.description || ""
+  );
+  const [gameType, setGameType] = useState(template?.gameType || "chess");
+  const [bracketType, setBracketType] = useState(
+    template?.bracketType || "SINGLE_ELIMINATION"
+  );
+  const [useAdvancedSeeding, setUseAdvancedSeeding] = useState(
+    template?.bracketConfig?.useAdvancedSeeding ?? false
+  );
+  const [maxPlayers, setMaxPlayers] = useState(template?.maxPlayers ?? 16);
+  const [entryFee, setEntryFee] = useState(template?.entryFee ?? 0);
+  const [prizeBreakdown, setPrizeBreakdown] = useState(
+    template?.prizeBreakdown || DEFAULT_PRIZE_BREAKDOWN
+  );
+  const [recurring, setRecurring] = useState(
+    template ? !!template.recurrence : true
+  );
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(
+    template?.recurrence || defaultRecurrence()
+  );
+  const [createAheadDays, setCreateAheadDays] = useState(
+    template?.createAheadDays ?? 7
+  );
+  const [active, setActive] = useState(template?.active ?? true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRule = (changes: Partial<RecurrenceRule>) =>
+    setRecurrence((prev) => ({ ...prev, ...changes }));
+
+  const toggleWeekday = (day: number) =>
+    updateRule({
+      weekdays: recurrence.weekdays.includes(day)
+        ? recurrence.weekdays.filter((d) => d !== day)
+        : [...recurrence.weekdays, day],
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: TournamentTemplateInput = {
+      name: name.trim(),
+      title: title.trim(),
+      description: description.trim(),
+      gameType,
+      bracketType,
+      bracketConfig: {
+        ...template?.bracketConfig,
+        useAdvancedSeeding,
+      },
+      maxPlayers,
+      entryFee,
+      prizeBreakdown,
+      recurrence: recurring
+        ? { ...recurrence, endsOn: recurrence.endsOn || undefined }
+        : undefined,
+      createAheadDays,
+      active,
+    };
+
+    const problem = validateTemplate(input);
+    setError(problem);
+    if (problem) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(input);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            {template ? "Edit Template" : "New Template"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="flex-1 overflow-y-auto p-6 space-y-6"
+        >
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Template Name *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Friday night chess"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Tournament Title *
+              </label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Friday Night Chess"
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                The date is added to each tournament&apos;s title
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Game
+              </label>
+              <select
+                value={gameType}
+                onChange={(e) =>
+                  setGameType(e.target.value as typeof gameType)
+                }
+                className={inputClass}
+              >
+                {GAME_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Format
+              </label>
+              <select
+                value={bracketType}
+                onChange={(e) =>
+                  setBracketType(e.target.value as typeof bracketType)
+                }
+                className={inputClass}
+              >
+                {BRACKET_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Max Players
+              </label>
+              <input
+                type="number"
+                min={2}
+                value={maxPlayers}
+                onChange={(e) => setMaxPlayers(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Entry Fee ($)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={entryFee}
+                onChange={(e) => setEntryFee(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Prize Breakdown (%)
+            </label>
+            <div className="mt-1 grid grid-cols-3 gap-4">
+              {(["first", "second", "third"] as const).map((place) => (
+                <div key={place}>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={prizeBreakdown[place]}
+                    onChange={(e) =>
+                      setPrizeBreakdown((prev) => ({
+                        ...prev,
+                        [place]: Number(e.target.value),
+                      }))
+                    }
+                    className={inputClass}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 capitalize">
+                    {place}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={useAdvancedSeeding}
+              onChange={(e) => setUseAdvancedSeeding(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Use advanced seeding
+          </label>
+
+          <div className="space-y-4 pt-4 border-t border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Repeat</h4>
+                <p className="text-sm text-gray-500">
+                  {recurring
+                    ? describeRecurrence(recurrence)
+                    : "Only used when creating tournaments by hand"}
+                </p>
+              </div>
+              <input
+                type="checkbox"
+                checked={recurring}
+                onChange={(e) => setRecurring(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+            </div>
+
+            {recurring && (
+              <>
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Repeats
+                    </label>
+                    <select
+                      value={recurrence.frequency}
+                      onChange={(e) =>
+                        updateRule({
+                          frequency: e.target
+                            .value as RecurrenceRule["frequency"],
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Starts At
+                    </label>
+                    <input
+                      type="time"
+                      value={recurrence.time}
+                      onChange={(e) => updateRule({ time: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Timezone
+                    </label>
+                    <select
+                      value={recurrence.timezone}
+                      onChange={(e) =>
+                        updateRule({
+                          timezone: e.target.value as ScheduleTimezone,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      {Object.entries(TIMEZONE_OFFSETS).map(
+                        ([zone, offset]) => (
+                          <option key={zone} value={zone}>
+                            {zone} (UTC+{offset / 60})
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Duration (min)
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={recurrence.durationMinutes}
+                      onChange={(e) =>
+                        updateRule({ durationMinutes: Number(e.target.value) })
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                {recurrence.frequency === "weekly" && (
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleWeekday(day)}
+                        className={`px-3 py-1 text-sm rounded-md border ${
+                          recurrence.weekdays.includes(day)
+                            ? "bg-blue-600 border-blue-600 text-white"
+                            : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      First Date
+                    </label>
+                    <input
+                      type="date"
+                      value={recurrence.startsOn}
+                      onChange={(e) => updateRule({ startsOn: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Last Date
+                    </label>
+                    <input
+                      type="date"
+                      value={recurrence.endsOn || ""}
+                      onChange={(e) => updateRule({ endsOn: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Create Days Ahead
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_CREATE_AHEAD_DAYS}
+                      value={createAheadDays}
+                      onChange={(e) =>
+                        setCreateAheadDays(Number(e.target.value))
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={active}
+                    onChange={(e) => setActive(e.target.checked)}
+                    className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Create tournaments automatically
+                </label>
+              </>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : template ? "Save" : "Create Template"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
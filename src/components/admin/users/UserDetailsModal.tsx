@@ -17,8 +17,16 @@ import {
   XCircleIcon,
   DevicePhoneMobileIcon,
   GlobeAltIcon,
+  FlagIcon,
+  ShieldExclamationIcon,
 } from "@heroicons/react/24/outline";
 import { userService, UserStats, UserActivity } from "@/services/UserService";
+import UserFeatureFlags from "./UserFeatureFlags";
+import UserModerationCases from "./UserModerationCases";
+import UserWalletLedger from "./UserWalletLedger";
+import UserRiskProfile from "./UserRiskProfile";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
 
 interface UserDetailsModalProps {
   user: {
@@ -30,6 +38,8 @@ interface UserDetailsModalProps {
     phoneNumber?: string;
     role: "user" | "admin" | "moderator";
     status: "active" | "inactive" | "banned" | "pending";
+    province?: string;
+    city?: string;
     walletBalance: number;
     totalGamesPlayed: number;
     totalWins: number;
@@ -51,8 +61,15 @@ export default function UserDetailsModal({
   onEdit,
 }: UserDetailsModalProps) {
   const [activeTab, setActiveTab] = useState<
-    "overview" | "activity" | "games" | "moderation"
+    | "overview"
+    | "activity"
+    | "games"
+    | "wallet"
+    | "risk"
+    | "moderation"
+    | "flags"
   >("overview");
+  const canViewRisk = usePermission(PERMISSIONS.RISK_VIEW);
   const [userStats, setUserStats] = useState<UserStats | null>(null);
   const [userActivity, setUserActivity] = useState<UserActivity[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -215,7 +232,12 @@ export default function UserDetailsModal({
     { id: "overview", name: "Overview", icon: UserCircleIcon },
     { id: "activity", name: "Activity", icon: ClockIcon },
     { id: "games", name: "Game Stats", icon: TrophyIcon },
+    { id: "wallet", name: "Wallet Ledger", icon: BanknotesIcon },
+    ...(canViewRisk
+      ? [{ id: "risk", name: "Risk", icon: ShieldExclamationIcon }]
+      : []),
     { id: "moderation", name: "Moderation", icon: ShieldCheckIcon },
+    { id: "flags", name: "Feature Flags", icon: FlagIcon },
   ];
 
   return (
@@ -520,22 +542,13 @@ export default function UserDetailsModal({
             </div>
           )}
 
-          {activeTab === "moderation" && (
-            <div>
-              <h4 className="text-md font-medium text-gray-900 mb-4">
-                Moderation History
-              </h4>
-              <div className="text-center py-8">
-                <ShieldCheckIcon className="mx-auto h-12 w-12 text-gray-400" />
-                <h3 className="mt-2 text-sm font-medium text-gray-900">
-                  No moderation actions
-                </h3>
-                <p className="mt-1 text-sm text-gray-500">
-                  This user has a clean record with no moderation actions taken.
-                </p>
-              </div>
-            </div>
-          )}
+          {activeTab === "wallet" && <UserWalletLedger user={user} />}
+
+          {activeTab === "risk" && <UserRiskProfile user={user} />}
+
+          {activeTab === "moderation" && <UserModerationCases user={user} />}
+
+          {activeTab === "flags" && <UserFeatureFlags user={user} />}
         </div>
       </div>
     </div>
@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircleIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { featureFlagService } from "@/services/FeatureFlagService";
+import { evaluateFlag, FlagSubject } from "@/lib/feature-flags";
+
+interface UserFeatureFlagsProps {
+  user: FlagSubject;
+}
+
+export default function UserFeatureFlags({ user }: UserFeatureFlagsProps) {
+  const flagsQuery = useQuery({
+    queryKey: ["feature-flags"],
+    queryFn: () => featureFlagService.getFlags(),
+  });
+  const serverQuery = useQuery({
+    queryKey: ["feature-flags", "evaluate", user.id],
+    queryFn: () => featureFlagService.getUserEvaluations(user.id),
+    retry: false,
+  });
+
+  // The API's evaluation is what the player gets. If it can't be loaded the
+  // flags are evaluated here instead and the panel says it's a preview.
+  const isPreview = !!serverQuery.error;
+
+  // Active flags first, then alphabetical
+  const evaluations = useMemo(() => {
+    const byFlag = new Map(
+      (serverQuery.data || []).map((evaluation) => [
+        evaluation.flagId,
+        evaluation,
+      ])
+    );
+    return (flagsQuery.data || [])
+      .flatMap((flag) => {
+        const evaluation = isPreview
+          ? evaluateFlag(flag, user)
+          : byFlag.get(flag.id);
+        if (!evaluation) return [];
+        const { active, reason } = evaluation;
+        return [{ flag, active, reason }];
+      })
+      .sort(
+        (a, b) =>
+          Number(b.active) - Number(a.active) ||
+          a.flag.name.localeCompare(b.flag.name)
+      );
+  }, [flagsQuery.data, serverQuery.data, isPreview, user]);
+  const activeCount = evaluations.filter((e) => e.active).length;
+
+  if (flagsQuery.isLoading || serverQuery.isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="animate-pulse h-12 bg-gray-100 rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (flagsQuery.error) {
+    return (
+      <p className="text-sm text-red-600">Failed to load feature flags.</p>
+    );
+  }
+
+  if (evaluations.length === 0) {
+    return <p className="text-sm text-gray-500">No feature flags defined.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {isPreview && (
+        <div className="rounded-md bg-yellow-50 border border-yellow-200 p-3 text-sm text-yellow-800">
+          Preview only. The server&apos;s evaluation for this user couldn&apos;t
+          be loaded, so these results were worked out in the browser from the
+          flag rules and may not match what the player actually gets.
+        </div>
+      )}
+      <p className="text-sm text-gray-600">
+        {activeCount} of {evaluations.length} flags{" "}
+        {isPreview ? "would be active" : "active"} for this user
+        {user.province || user.city
+          ? ` (${[user.city, user.province].filter(Boolean).join(", ")})`
+          : ""}
+      </p>
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {evaluations.map(({ flag, active, reason }) => (
+          <li
+            key={flag.id}
+            className="flex items-center justify-between px-4 py-3"
+          >
+            <div className="flex items-center min-w-0">
+              {active ? (
+                <CheckCircleIcon className="h-5 w-5 text-green-500 mr-3" />
+              ) : (
+                <XCircleIcon className="h-5 w-5 text-gray-400 mr-3" />
+              )}
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {flag.name}
+                </p>
+                <p className="text-xs font-mono text-gray-500">{flag.key}</p>
+              </div>
+            </div>
+            <span
+              className={`ml-4 text-sm ${active ? "text-green-700" : "text-gray-500"}`}
+            >
+              {reason}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
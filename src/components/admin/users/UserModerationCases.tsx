@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  FolderPlusIcon,
+  ShieldCheckIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { userService } from "@/services/UserService";
+import { moderationService } from "@/services/ModerationService";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import {
+  describePenalty,
+  formatHours,
+  getNextPenalty,
+  getPendingAppeal,
+  CASE_STATUS_COLORS,
+  DEFAULT_PENALTY_LADDER,
+} from "@/lib/moderation-cases";
+import CaseFile from "@/components/admin/moderation/CaseFile";
+
+interface UserModerationCasesProps {
+  user: { id: string; username: string };
+}
+
+export default function UserModerationCases({
+  user,
+}: UserModerationCasesProps) {
+  const queryClient = useQueryClient();
+  const canManage = usePermission(PERMISSIONS.MODERATION_MANAGE);
+  const [expandedCase, setExpandedCase] = useState<string | null>(null);
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [summary, setSummary] = useState("");
+
+  const casesQuery = useQuery({
+    queryKey: ["moderation", "cases", user.id],
+    queryFn: () => moderationService.getUserCases(user.id),
+  });
+
+  const ladderQuery = useQuery({
+    queryKey: ["moderation", "penalty-ladder"],
+    queryFn: () => moderationService.getPenaltyLadder(),
+  });
+
+  const historyQuery = useQuery({
+    queryKey: ["users", user.id, "moderation-history"],
+    queryFn: () => userService.getUserModerationHistory(user.id),
+  });
+
+  const openCaseMutation = useMutation({
+    mutationFn: () => moderationService.openCase(user.id, summary.trim()),
+    onSuccess: (moderationCase) => {
+      toast.success("Case opened");
+      setSummary("");
+      setShowOpenForm(false);
+      setExpandedCase(moderationCase.id);
+      queryClient.invalidateQueries({
+        queryKey: ["moderation", "cases", user.id],
+      });
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to open case"
+      );
+    },
+  });
+
+  const cases = casesQuery.data || [];
+  const ladder =
+    ladderQuery.data && ladderQuery.data.length > 0
+      ? ladderQuery.data
+      : DEFAULT_PENALTY_LADDER;
+  const next = getNextPenalty(ladder, cases);
+  const hasOpenCase = cases.some((c) => c.status === "open");
+
+  if (casesQuery.isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (casesQuery.error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+        {casesQuery.error instanceof Error
+          ? casesQuery.error.message
+          : "Failed to load case files"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-md font-medium text-gray-900">Case Files</h4>
+          {next && (
+            <p className="text-sm text-gray-500">
+              Next offence: <strong>{describePenalty(next.step)}</strong>{" "}
+              (step {next.index + 1} of {ladder.length})
+            </p>
+          )}
+        </div>
+        {canManage && !hasOpenCase && (
+          <button
+            onClick={() => setShowOpenForm(!showOpenForm)}
+            className="flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            <FolderPlusIcon className="h-4 w-4 mr-1" />
+            Open Case
+          </button>
+        )}
+      </div>
+
+      {showOpenForm && (
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            placeholder="What is this case about?"
+            className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => openCaseMutation.mutate()}
+            disabled={!summary.trim() || openCaseMutation.isPending}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {openCaseMutation.isPending ? "Opening..." : "Open"}
+          </button>
+        </div>
+      )}
+
+      {cases.length === 0 ? (
+        <div className="text-center py-8">
+          <ShieldCheckIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">
+            No case files
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {user.username} has a clean record with no moderation cases.
+          </p>
+        </div>
+      ) : (
+        <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {cases.map((moderationCase) => {
+            const expanded = expandedCase === moderationCase.id;
+            return (
+              <li key={moderationCase.id}>
+                <button
+                  onClick={() =>
+                    setExpandedCase(expanded ? null : moderationCase.id)
+                  }
+                  className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50"
+                >
+                  <div className="flex items-center min-w-0">
+                    {expanded ? (
+                      <ChevronDownIcon className="h-4 w-4 text-gray-400 mr-2" />
+                    ) : (
+                      <ChevronRightIcon className="h-4 w-4 text-gray-400 mr-2" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {moderationCase.summary}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Opened by {moderationCase.openedBy.name} on{" "}
+                        {format(new Date(moderationCase.createdAt), "d MMM yyyy")}
+                        {" · "}
+                        {moderationCase.entries.length} entries
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-2">
+                    {getPendingAppeal(moderationCase) && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">
+                        Appeal pending
+                      </span>
+                    )}
+                    <span
+                      className={`px-2 py-0.5 text-xs rounded-full capitalize ${CASE_STATUS_COLORS[moderationCase.status]}`}
+                    >
+                      {moderationCase.status}
+                    </span>
+                  </div>
+                </button>
+                {expanded && (
+                  <div className="px-4 pb-4">
+                    <CaseFile
+                      moderationCase={moderationCase}
+                      nextPenalty={next?.step ?? null}
+                    />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div>
+        <h4 className="text-md font-medium text-gray-900 mb-2">
+          Action History
+        </h4>
+        {historyQuery.isLoading ? (
+          <div className="animate-pulse h-14 bg-gray-100 rounded" />
+        ) : historyQuery.error ? (
+          <p className="text-sm text-red-600">
+            Failed to load moderation history.
+          </p>
+        ) : !historyQuery.data?.length ? (
+          <p className="text-sm text-gray-500">No moderation actions taken.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 text-sm">
+            {historyQuery.data.map((action) => (
+              <li key={action.id} className="flex justify-between py-2">
+                <span className="text-gray-700">
+                  <span className="font-medium capitalize">
+                    {action.actionType}
+                  </span>
+                  {action.duration ? ` (${formatHours(action.duration)})` : ""}:{" "}
+                  {action.reason}
+                </span>
+                <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+                  {action.moderatorUsername} ·{" "}
+                  {format(new Date(action.createdAt), "d MMM yyyy")}
+                  {!action.isActive && " · lifted"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowPathIcon, ShieldCheckIcon } from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { riskService, RiskSubject } from "@/services/RiskService";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import RiskSignalList from "@/components/admin/risk/RiskSignalList";
+import { RISK_LEVEL_COLORS, RISK_THRESHOLDS } from "@/lib/risk-scoring";
+
+const formatTime = (value: string) =>
+  format(new Date(value), "d MMM yyyy, HH:mm");
+
+interface UserRiskProfileProps {
+  user: RiskSubject;
+}
+
+/**
+ * The user's fraud and multi-account score with the signals behind it
+ */
+export default function UserRiskProfile({ user }: UserRiskProfileProps) {
+  const queryClient = useQueryClient();
+  const canManage = usePermission(PERMISSIONS.RISK_MANAGE);
+
+  const assessmentQuery = useQuery({
+    queryKey: ["risk", "assessment", user.id],
+    queryFn: () => riskService.assessUser(user),
+  });
+
+  const flagMutation = useMutation({
+    mutationFn: () => riskService.flagForReview(assessmentQuery.data!),
+    onSuccess: () => {
+      toast.success("Added to the risk review queue");
+      queryClient.invalidateQueries({ queryKey: ["risk", "reviews"] });
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to flag account"
+      );
+    },
+  });
+
+  if (assessmentQuery.isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (assessmentQuery.error || !assessmentQuery.data) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+        {assessmentQuery.error instanceof Error
+          ? assessmentQuery.error.message
+          : "Failed to assess this account"}
+      </div>
+    );
+  }
+
+  const assessment = assessmentQuery.data;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <span className="text-3xl font-semibold text-gray-900">
+            {assessment.score}
+          </span>
+          <span className="ml-1 text-sm text-gray-500">/ 100</span>
+          <span
+            className={`ml-3 px-2 py-0.5 text-xs font-semibold rounded-full ${
+              RISK_LEVEL_COLORS[assessment.level]
+            }`}
+          >
+            {assessment.level} risk
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => assessmentQuery.refetch()}
+            disabled={assessmentQuery.isFetching}
+            className="flex items-center px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowPathIcon
+              className={`h-4 w-4 mr-1 ${
+                assessmentQuery.isFetching ? "animate-spin" : ""
+              }`}
+            />
+            Re-assess
+          </button>
+          {canManage && assessment.signals.length > 0 && (
+            <button
+              onClick={() => flagMutation.mutate()}
+              disabled={flagMutation.isPending}
+              className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {flagMutation.isPending ? "Flagging..." : "Send to Review Queue"}
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Assessed {formatTime(assessment.assessedAt)}. Medium risk from{" "}
+        {RISK_THRESHOLDS.medium}, high from {RISK_THRESHOLDS.high}.
+      </p>
+
+      {assessment.signals.length === 0 ? (
+        <div className="text-center py-8">
+          <ShieldCheckIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">
+            No risk signals
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Nothing links this account to others or suggests abuse.
+          </p>
+        </div>
+      ) : (
+        <RiskSignalList signals={assessment.signals} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,459 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  BanknotesIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { userService } from "@/services/UserService";
+import { walletService, LedgerCorrection } from "@/services/WalletService";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermission } from "@/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/permissions";
+import {
+  buildLedger,
+  canReviewCorrection,
+  formatSignedAmount,
+  reconcileLedger,
+  validateCorrection,
+  LEDGER_ENTRY_COLORS,
+  LEDGER_ENTRY_LABELS,
+} from "@/lib/wallet-ledger";
+import PaymentDetailsModal from "@/components/admin/payments/PaymentDetailsModal";
+
+interface UserWalletLedgerProps {
+  user: { id: string; walletBalance: number };
+}
+
+const inputClass =
+  "border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const formatTime = (value: string) =>
+  format(new Date(value), "d MMM yyyy, HH:mm");
+
+const CORRECTION_STATUS_COLORS: Record<LedgerCorrection["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+/**
+ * Every credit and debit on a user's wallet with its running balance, and
+ * two-admin corrections for when the ledger and balance disagree
+ */
+export default function UserWalletLedger({ user }: UserWalletLedgerProps) {
+  const queryClient = useQueryClient();
+  const { user: admin } = useAuth();
+  const canManage = usePermission(PERMISSIONS.PAYMENTS_MANAGE);
+  const [showCorrectionForm, setShowCorrectionForm] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [paymentId, setPaymentId] = useState<string | null>(null);
+
+  const ledgerQuery = useQuery({
+    queryKey: ["users", user.id, "wallet", "ledger"],
+    queryFn: () => walletService.getLedger(user.id),
+  });
+
+  const balanceQuery = useQuery({
+    queryKey: ["users", user.id, "wallet"],
+    queryFn: () => userService.getUserWalletBalance(user.id),
+  });
+
+  const correctionsQuery = useQuery({
+    queryKey: ["users", user.id, "wallet", "corrections"],
+    queryFn: () => walletService.getCorrections(user.id),
+  });
+
+  const invalidateWallet = () =>
+    queryClient.invalidateQueries({ queryKey: ["users", user.id, "wallet"] });
+
+  const requestMutation = useMutation({
+    mutationFn: () =>
+      walletService.requestCorrection(user.id, Number(amount), reason.trim()),
+    onSuccess: () => {
+      toast.success("Correction requested; a second admin must sign it off");
+      setAmount("");
+      setReason("");
+      setShowCorrectionForm(false);
+      invalidateWallet();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to request correction"
+      );
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({
+      correction,
+      decision,
+    }: {
+      correction: LedgerCorrection;
+      decision: "approved" | "rejected";
+    }) =>
+      walletService.reviewCorrection(
+        user.id,
+        correction.id,
+        decision,
+        (reviewNotes[correction.id] || "").trim()
+      ),
+    onSuccess: (correction) => {
+      toast.success(
+        correction.status === "approved"
+          ? "Correction posted to the ledger"
+          : "Correction rejected"
+      );
+      setReviewNotes((notes) => ({ ...notes, [correction.id]: "" }));
+      invalidateWallet();
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to review correction"
+      );
+    },
+  });
+
+  if (ledgerQuery.isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="animate-pulse h-14 bg-gray-100 rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (ledgerQuery.error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+        {ledgerQuery.error instanceof Error
+          ? ledgerQuery.error.message
+          : "Failed to load the wallet ledger"}
+      </div>
+    );
+  }
+
+  const entries = ledgerQuery.data || [];
+  const corrections = correctionsQuery.data || [];
+  const rows = buildLedger(entries).reverse();
+  const reconciliation = reconcileLedger(
+    entries,
+    balanceQuery.data?.balance ?? user.walletBalance,
+    corrections
+  );
+  // What is still unexplained once pending corrections are posted
+  const outstanding =
+    Math.round(
+      (reconciliation.difference - reconciliation.pendingTotal) * 100
+    ) / 100;
+  const formErrors = validateCorrection(Number(amount), reason);
+
+  const openCorrectionForm = () => {
+    setAmount(outstanding.toFixed(2));
+    setShowCorrectionForm(true);
+  };
+
+  const handleReview = (
+    correction: LedgerCorrection,
+    decision: "approved" | "rejected"
+  ) => {
+    const verb = decision === "approved" ? "Post" : "Reject";
+    if (
+      !confirm(
+        `${verb} the ${formatSignedAmount(correction.amount)} correction?`
+      )
+    ) {
+      return;
+    }
+    reviewMutation.mutate({ correction, decision });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <p className="text-sm text-gray-500">Wallet Balance</p>
+          <p className="text-lg font-semibold text-gray-900">
+            ${reconciliation.walletBalance.toFixed(2)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Ledger Total</p>
+          <p className="text-lg font-semibold text-gray-900">
+            ${reconciliation.ledgerTotal.toFixed(2)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Difference</p>
+          <p
+            className={`text-lg font-semibold ${
+              reconciliation.balanced ? "text-green-700" : "text-red-700"
+            }`}
+          >
+            {formatSignedAmount(reconciliation.difference)}
+          </p>
+        </div>
+      </div>
+
+      {!reconciliation.balanced && (
+        <div className="flex items-start justify-between bg-yellow-50 border border-yellow-200 rounded-md p-3">
+          <div className="flex items-start">
+            <ExclamationTriangleIcon className="h-5 w-5 text-yellow-500 mr-2 flex-shrink-0" />
+            <div className="text-sm text-yellow-800">
+              <p>
+                The ledger does not add up to the wallet balance. It is{" "}
+                {formatSignedAmount(reconciliation.difference)} away.
+              </p>
+              {reconciliation.pendingTotal !== 0 && (
+                <p>
+                  {formatSignedAmount(reconciliation.pendingTotal)} is awaiting
+                  sign-off
+                  {outstanding === 0 ? ", which would settle it." : "."}
+                </p>
+              )}
+            </div>
+          </div>
+          {canManage && outstanding !== 0 && !showCorrectionForm && (
+            <button
+              onClick={openCorrectionForm}
+              className="ml-4 px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 whitespace-nowrap"
+            >
+              Request Correction
+            </button>
+          )}
+        </div>
+      )}
+
+      {showCorrectionForm && (
+        <div className="border border-gray-200 rounded-md p-3 space-y-2">
+          <h5 className="text-sm font-medium text-gray-900">
+            Request Correcting Entry
+          </h5>
+          <p className="text-xs text-gray-500">
+            Posted to the ledger only once another admin approves it. The
+            wallet balance is not changed.
+          </p>
+          <div className="flex items-start space-x-2">
+            <input
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={`${inputClass} w-32`}
+            />
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              placeholder="Why the ledger is wrong and how this was checked"
+              className={`${inputClass} flex-1`}
+            />
+          </div>
+          {(amount || reason) && formErrors.length > 0 && (
+            <ul className="text-xs text-red-600 list-disc list-inside">
+              {formErrors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setShowCorrectionForm(false)}
+              className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => requestMutation.mutate()}
+              disabled={formErrors.length > 0 || requestMutation.isPending}
+              className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {requestMutation.isPending ? "Requesting..." : "Request"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {corrections.length > 0 && (
+        <div>
+          <h4 className="text-md font-medium text-gray-900 mb-3">
+            Corrections
+          </h4>
+          <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+            {corrections.map((correction) => {
+              const review = canReviewCorrection(correction, admin?.id);
+              return (
+                <li key={correction.id} className="px-4 py-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">
+                      {formatSignedAmount(correction.amount)}
+                      <span
+                        className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                          CORRECTION_STATUS_COLORS[correction.status]
+                        }`}
+                      >
+                        {correction.status}
+                      </span>
+                    </p>
+                    <span className="text-xs text-gray-500">
+                      {correction.requestedBy.name},{" "}
+                      {formatTime(correction.requestedAt)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">{correction.reason}</p>
+                  {correction.reviewedBy && (
+                    <p className="text-xs text-gray-500">
+                      {correction.status === "approved"
+                        ? "Approved"
+                        : "Rejected"}{" "}
+                      by {correction.reviewedBy.name}
+                      {correction.reviewNote && `: ${correction.reviewNote}`}
+                    </p>
+                  )}
+                  {correction.status === "pending" &&
+                    canManage &&
+                    (review.allowed ? (
+                      <div className="flex space-x-2">
+                        <input
+                          type="text"
+                          value={reviewNotes[correction.id] || ""}
+                          onChange={(e) =>
+                            setReviewNotes((notes) => ({
+                              ...notes,
+                              [correction.id]: e.target.value,
+                            }))
+                          }
+                          placeholder="Review note"
+                          className={`${inputClass} flex-1`}
+                        />
+                        <button
+                          onClick={() => handleReview(correction, "approved")}
+                          disabled={reviewMutation.isPending}
+                          className="px-3 py-1 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => handleReview(correction, "rejected")}
+                          disabled={reviewMutation.isPending}
+                          className="px-3 py-1 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-500">{review.reason}</p>
+                    ))}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-md font-medium text-gray-900 mb-3">Ledger</h4>
+        {rows.length === 0 ? (
+          <div className="text-center py-8">
+            <BanknotesIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No entries
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Nothing has been credited to or debited from this wallet yet.
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Date
+                </th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Entry
+                </th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Source
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Amount
+                </th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Balance
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(({ entry, balance }) => (
+                <tr key={entry.id}>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                    {formatTime(entry.createdAt)}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={`px-2 py-0.5 text-xs rounded-full ${
+                        LEDGER_ENTRY_COLORS[entry.type]
+                      }`}
+                    >
+                      {LEDGER_ENTRY_LABELS[entry.type]}
+                    </span>
+                    <p className="mt-1 text-gray-700">{entry.description}</p>
+                    {entry.createdBy && (
+                      <p className="text-xs text-gray-500">
+                        By {entry.createdBy.name}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {entry.paymentId && (
+                      <button
+                        onClick={() => setPaymentId(entry.paymentId!)}
+                        className="block text-blue-600 hover:text-blue-800"
+                      >
+                        Payment
+                      </button>
+                    )}
+                    {entry.tournamentId && (
+                      <Link
+                        href={`/admin/tournaments?tournament=${entry.tournamentId}`}
+                        className="block text-blue-600 hover:text-blue-800"
+                      >
+                        {entry.tournamentName || "Tournament"}
+                      </Link>
+                    )}
+                  </td>
+                  <td
+                    className={`px-3 py-2 text-right whitespace-nowrap font-medium ${
+                      entry.amount < 0 ? "text-red-700" : "text-green-700"
+                    }`}
+                  >
+                    {formatSignedAmount(entry.amount)}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap text-gray-900">
+                    ${balance.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {paymentId && (
+        <PaymentDetailsModal
+          isOpen
+          onClose={() => setPaymentId(null)}
+          paymentId={paymentId}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, Fragment } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import {
+  XMarkIcon,
+  DocumentArrowDownIcon,
+  ExclamationTriangleIcon,
+  CheckCircleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import {
+  paymentService,
+  WithdrawalRequest,
+  WithdrawalPolicy,
+} from "@/services/PaymentService";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  evaluateWithdrawal,
+  canCompleteWithdrawal,
+} from "@/lib/withdrawal-policy";
+import {
+  PayoutBatch,
+  buildPayoutBatch,
+  groupByProvider,
+  getProviderName,
+} from "@/lib/payout-batch";
+import { downloadFile } from "@/lib/csv";
+import { mapWithConcurrency } from "@/lib/concurrency";
+
+interface BatchPayoutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  withdrawals: WithdrawalRequest[];
+  policy: WithdrawalPolicy;
+}
+
+interface HeldWithdrawal {
+  withdrawal: WithdrawalRequest;
+  reason: string;
+}
+
+const CHECK_CONCURRENCY = 4; // history and approval lookups at once
+
+const PAYABLE_STATUSES: WithdrawalRequest["status"][] = [
+  "pending",
+  "processing",
+];
+
+export default function BatchPayoutModal({
+  isOpen,
+  onClose,
+  withdrawals,
+  policy,
+}: BatchPayoutModalProps) {
+  const { user } = useAuth();
+  const [checking, setChecking] = useState(false);
+  const [eligible, setEligible] = useState<WithdrawalRequest[]>([]);
+  const [held, setHeld] = useState<HeldWithdrawal[]>([]);
+  const [generated, setGenerated] = useState<Record<string, PayoutBatch>>({});
+  const [generating, setGenerating] = useState<string | null>(null);
+
+  // Only withdrawals that could be completed right now go into a batch, so
+  // the maker-checker rules apply to bulk payouts too
+  const checkEligibility = useCallback(async () => {
+    setChecking(true);
+    const nextHeld: HeldWithdrawal[] = [];
+    const candidates: WithdrawalRequest[] = [];
+
+    withdrawals.forEach((withdrawal) => {
+      if (withdrawal.payoutBatchId) {
+        nextHeld.push({
+          withdrawal,
+          reason: `In batch ${withdrawal.payoutBatchId}`,
+        });
+      } else if (!PAYABLE_STATUSES.includes(withdrawal.status)) {
+        nextHeld.push({ withdrawal, reason: `Already ${withdrawal.status}` });
+      } else if (!withdrawal.destinationNumber) {
+        nextHeld.push({ withdrawal, reason: "No destination number" });
+      } else {
+        candidates.push(withdrawal);
+      }
+    });
+
+    if (candidates.length === 0) {
+      setEligible([]);
+      setHeld(nextHeld);
+      setChecking(false);
+      return;
+    }
+
+    try {
+      const userIds = Array.from(new Set(candidates.map((w) => w.userId)));
+      const since = new Date(
+        Math.min(...candidates.map((w) => new Date(w.requestedAt).getTime())) -
+          24 * 60 * 60 * 1000
+      ).toISOString();
+      const histories = await mapWithConcurrency(
+        userIds,
+        CHECK_CONCURRENCY,
+        (userId) => paymentService.getUserWithdrawals(userId, since)
+      );
+      const historyByUser = new Map(
+        userIds.map((userId, index) => [userId, histories[index]])
+      );
+
+      const decisions = await mapWithConcurrency(
+        candidates,
+        CHECK_CONCURRENCY,
+        async (withdrawal) => {
+          const summary = evaluateWithdrawal(
+            withdrawal,
+            historyByUser.get(withdrawal.userId) || [],
+            policy
+          );
+          const approvals = summary.requiresSecondApproval
+            ? await paymentService.getWithdrawalApprovals(withdrawal.id)
+            : [];
+          return canCompleteWithdrawal(summary, approvals, user?.id);
+        }
+      );
+
+      const nextEligible: WithdrawalRequest[] = [];
+      candidates.forEach((withdrawal, index) => {
+        if (decisions[index].allowed) {
+          nextEligible.push(withdrawal);
+        } else {
+          nextHeld.push({
+            withdrawal,
+            reason: decisions[index].reason || "Second approval required",
+          });
+        }
+      });
+      setEligible(nextEligible);
+    } catch (error) {
+      console.error("Error checking batch eligibility:", error);
+      candidates.forEach((withdrawal) =>
+        nextHeld.push({ withdrawal, reason: "Could not verify limits" })
+      );
+      setEligible([]);
+    } finally {
+      setHeld(nextHeld);
+      setChecking(false);
+    }
+  }, [withdrawals, policy, user?.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setGenerated({});
+      checkEligibility();
+    }
+  }, [isOpen, checkEligibility]);
+
+  const handleGenerate = async (
+    providerCode: string,
+    group: WithdrawalRequest[]
+  ) => {
+    setGenerating(providerCode);
+    try {
+      const { batch, content } = await buildPayoutBatch(
+        providerCode,
+        group,
+        user?.name
+      );
+      // The file is only released once the server has claimed every
+      // withdrawal in it for this batch
+      const saved = await paymentService.createPayoutBatch(batch);
+      downloadFile(content, saved.fileName);
+      setGenerated((prev) => ({ ...prev, [providerCode]: saved }));
+      toast.success(`Generated ${saved.fileName}`);
+    } catch (error) {
+      console.error("Error generating payout batch:", error);
+      toast.error(
+        error instanceof Error
+          ? `Failed to generate payout file: ${error.message}`
+          : "Failed to generate payout file"
+      );
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const groups = groupByProvider(eligible);
+
+  const formatTotals = (group: WithdrawalRequest[]) =>
+    Object.entries(
+      group.reduce<Record<string, number>>((totals, withdrawal) => {
+        totals[withdrawal.currency] =
+          (totals[withdrawal.currency] || 0) + withdrawal.amount;
+        return totals;
+      }, {})
+    )
+      .map(([currency, total]) => `$${total.toFixed(2)} ${currency}`)
+      .join(" + ");
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-lg bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                  <div>
+                    <Dialog.Title
+                      as="h3"
+                      className="text-lg font-medium text-gray-900"
+                    >
+                      Batch Payout
+                    </Dialog.Title>
+                    <p className="mt-1 text-sm text-gray-500">
+                      {withdrawals.length} selected withdrawal
+                      {withdrawals.length === 1 ? "" : "s"}, one file per
+                      provider
+                    </p>
+                  </div>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {checking ? (
+                  <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                    <span className="ml-3 text-gray-500">
+                      Checking limits and approvals...
+                    </span>
+                  </div>
+                ) : (
+                  <div className="p-6 space-y-6">
+                    {Object.keys(groups).length === 0 ? (
+                      <p className="text-sm text-gray-500 text-center">
+                        None of the selected withdrawals can be paid out yet.
+                      </p>
+                    ) : (
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Provider
+                            </th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Payouts
+                            </th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Total
+                            </th>
+                            <th className="relative px-4 py-3">
+                              <span className="sr-only">Actions</span>
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {Object.entries(groups).map(([code, group]) => {
+                            const batch = generated[code];
+                            return (
+                              <tr key={code}>
+                                <td className="px-4 py-3 text-sm">
+                                  <div className="font-medium text-gray-900">
+                                    {getProviderName(code)}
+                                  </div>
+                                  <div className="text-gray-500">{code}</div>
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-900">
+                                  {group.length}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-900">
+                                  {formatTotals(group)}
+                                </td>
+                                <td className="px-4 py-3 text-right text-sm">
+                                  {batch ? (
+                                    <div className="text-left">
+                                      <div className="flex items-center text-green-700">
+                                        <CheckCircleIcon className="h-4 w-4 mr-1" />
+                                        {batch.fileName}
+                                      </div>
+                                      <div
+                                        className="text-xs text-gray-500 font-mono truncate max-w-xs"
+                                        title={batch.checksum}
+                                      >
+                                        SHA-256 {batch.checksum.slice(0, 16)}…
+                                      </div>
+                                    </div>
+                                  ) : (
+                                    <button
+                                      onClick={() =>
+                                        handleGenerate(code, group)
+                                      }
+                                      disabled={generating !== null}
+                                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
+                                      {generating === code
+                                        ? "Generating..."
+                                        : "Generate File"}
+                                    </button>
+                                  )}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    )}
+
+                    {held.length > 0 && (
+                      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                        <div className="flex">
+                          <ExclamationTriangleIcon className="h-5 w-5 text-yellow-400" />
+                          <div className="ml-3 flex-1">
+                            <h4 className="text-sm font-medium text-yellow-800">
+                              {held.length} held back
+                            </h4>
+                            <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+                              {held.map(({ withdrawal, reason }) => (
+                                <li
+                                  key={withdrawal.id}
+                                  className="flex justify-between"
+                                >
+                                  <span>
+                                    @{withdrawal.user?.username} · $
+                                    {withdrawal.amount.toFixed(2)}
+                                  </span>
+                                  <span>{reason}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    <p className="text-xs text-gray-500">
+                      Upload each file to the provider&apos;s bulk payment
+                      portal, then import the results file to complete or
+                      fail each withdrawal.
+                    </p>
+                  </div>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
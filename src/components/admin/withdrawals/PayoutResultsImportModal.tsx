@@ -0,0 +1,464 @@
+"use client";
+
+import React, { useState, useEffect, Fragment } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import {
+  XMarkIcon,
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { toast } from "react-hot-toast";
+import { paymentService, WithdrawalRequest } from "@/services/PaymentService";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMaintenanceWindows } from "@/hooks/useMaintenance";
+import { getWithdrawalBlock } from "@/lib/maintenance";
+import {
+  PayoutBatch,
+  PayoutResultMatch,
+  PayoutResultRow,
+  isAwaitingBatchResult,
+  parsePayoutResults,
+  matchPayoutResults,
+} from "@/lib/payout-batch";
+
+interface PayoutResultsImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type ApplyState = "applied" | "skipped" | "error";
+
+export default function PayoutResultsImportModal({
+  isOpen,
+  onClose,
+  onImported,
+}: PayoutResultsImportModalProps) {
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [loadingBatches, setLoadingBatches] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [matches, setMatches] = useState<PayoutResultMatch[]>([]);
+  const [applyState, setApplyState] = useState<Record<string, ApplyState>>({});
+  const [applying, setApplying] = useState(false);
+  const { user } = useAuth();
+  const { data: maintenanceWindows } = useMaintenanceWindows();
+  const maintenanceBlock = getWithdrawalBlock(
+    maintenanceWindows || [],
+    user?.id
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setMatches([]);
+      setApplyState({});
+      setLoadingBatches(true);
+      paymentService
+        .getPayoutBatches("generated")
+        .then(setBatches)
+        .catch((error) => {
+          console.error("Error loading payout batches:", error);
+          toast.error("Failed to load payout batches");
+          setBatches([]);
+        })
+        .finally(() => setLoadingBatches(false));
+    }
+  }, [isOpen]);
+
+  // Current state of the withdrawals in every batch the rows refer to
+  const loadBatchWithdrawals = async (rows: PayoutResultRow[]) => {
+    const references = new Set(rows.map((row) => row.reference));
+    const referenced = batches.filter((batch) =>
+      batch.items.some((item) => references.has(item.withdrawalId))
+    );
+    const results = await Promise.all(
+      referenced.map((batch) =>
+        paymentService.getPayoutBatchWithdrawals(batch.id)
+      )
+    );
+    return new Map<string, WithdrawalRequest>(
+      results.flat().map((withdrawal) => [withdrawal.id, withdrawal])
+    );
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const rows = parsePayoutResults(await file.text());
+      if (rows.length === 0) {
+        toast.error("No result rows with a reference were found");
+        return;
+      }
+      const current = await loadBatchWithdrawals(rows);
+      setFileName(file.name);
+      setMatches(matchPayoutResults(rows, batches, current));
+      setApplyState({});
+    } catch (error) {
+      console.error("Error reading payout results:", error);
+      toast.error("Could not read results file");
+    }
+  };
+
+  const applicable = matches.filter(
+    (match) => match.outcome && match.issues.length === 0
+  );
+
+  // Rows with issues are listed but never applied automatically. Each
+  // withdrawal is checked again just before applying, so importing the same
+  // file twice, or after a manual change, doesn't process it again.
+  const handleApply = async () => {
+    // Completing payouts is held during maintenance, as on the withdrawals
+    // page
+    if (
+      maintenanceBlock &&
+      applicable.some((match) => match.outcome === "COMPLETED")
+    ) {
+      toast.error(`Withdrawals are on hold during "${maintenanceBlock.title}"`);
+      return;
+    }
+    setApplying(true);
+    let applied = 0;
+    let skipped = 0;
+    let current: Map<string, WithdrawalRequest>;
+    try {
+      current = await loadBatchWithdrawals(matches.map((match) => match.row));
+    } catch (error) {
+      console.error("Error checking batch withdrawals:", error);
+      toast.error("Could not check the current state of the withdrawals");
+      setApplying(false);
+      return;
+    }
+    const resolved = new Set<string>();
+
+    for (const match of applicable) {
+      const reference = match.row.reference;
+      const { outcome, batchId } = match;
+      if (!outcome || !batchId) continue;
+
+      const withdrawal = current.get(reference);
+      if (!withdrawal || !isAwaitingBatchResult(withdrawal, batchId)) {
+        skipped++;
+        setApplyState((prev) => ({ ...prev, [reference]: "skipped" }));
+        continue;
+      }
+
+      try {
+        await paymentService.processWithdrawal({
+          withdrawalId: reference,
+          status: outcome,
+          transactionReference: match.row.transactionReference,
+          failureReason:
+            outcome === "FAILED"
+              ? match.row.failureReason || "Rejected by provider"
+              : undefined,
+          adminNotes: `Imported from ${fileName} (${batchId})`,
+          payoutBatchId: batchId,
+        });
+        applied++;
+        resolved.add(reference);
+        setApplyState((prev) => ({ ...prev, [reference]: "applied" }));
+      } catch (error) {
+        console.error(`Error applying payout result ${reference}:`, error);
+        setApplyState((prev) => ({ ...prev, [reference]: "error" }));
+      }
+    }
+
+    // A batch is reconciled once no item is still waiting for a result
+    const reconciled = batches.filter(
+      (batch) =>
+        batch.items.some((item) => current.has(item.withdrawalId)) &&
+        batch.items.every((item) => {
+          const withdrawal = current.get(item.withdrawalId);
+          return (
+            resolved.has(item.withdrawalId) ||
+            (withdrawal && !isAwaitingBatchResult(withdrawal, batch.id))
+          );
+        })
+    );
+    for (const batch of reconciled) {
+      try {
+        await paymentService.markPayoutBatchReconciled(batch.id);
+      } catch (error) {
+        console.error(`Error reconciling payout batch ${batch.id}:`, error);
+      }
+    }
+    setBatches((prev) => prev.filter((batch) => !reconciled.includes(batch)));
+
+    setApplying(false);
+    if (skipped > 0) {
+      toast.error(
+        `${skipped} result${skipped === 1 ? "" : "s"} skipped: already processed`
+      );
+    }
+    if (applied > 0) {
+      toast.success(`Updated ${applied} withdrawal${applied === 1 ? "" : "s"}`);
+      onImported();
+    }
+  };
+
+  const openBatches = batches.filter((batch) => batch.status === "generated");
+  const completedCount = applicable.filter(
+    (m) => m.outcome === "COMPLETED"
+  ).length;
+  const failedCount = applicable.filter((m) => m.outcome === "FAILED").length;
+  const flaggedCount = matches.length - applicable.length;
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-4xl transform overflow-hidden rounded-lg bg-white text-left align-middle shadow-xl transition-all">
+                {/* Header */}
+                <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                  <div>
+                    <Dialog.Title
+                      as="h3"
+                      className="text-lg font-medium text-gray-900"
+                    >
+                      Import Payout Results
+                    </Dialog.Title>
+                    <p className="mt-1 text-sm text-gray-500">
+                      {loadingBatches
+                        ? "Loading batches..."
+                        : `${openBatches.length} batch${
+                            openBatches.length === 1 ? "" : "es"
+                          } awaiting results`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={onClose}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                  {maintenanceBlock && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                      Withdrawals are on hold until{" "}
+                      {new Date(maintenanceBlock.endsAt).toLocaleString()} for
+                      &quot;{maintenanceBlock.title}&quot;. Completed results
+                      can be imported once the window ends.
+                    </div>
+                  )}
+
+                  {/* Open batches */}
+                  {openBatches.length > 0 && (
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {openBatches.map((batch) => (
+                        <li
+                          key={batch.id}
+                          className="flex items-center justify-between px-4 py-2 text-sm"
+                        >
+                          <span className="font-medium text-gray-900">
+                            {batch.fileName}
+                          </span>
+                          <span className="text-gray-500">
+                            {batch.itemCount} payouts ·{" "}
+                            {Object.entries(batch.totals)
+                              .map(
+                                ([currency, total]) =>
+                                  `$${total.toFixed(2)} ${currency}`
+                              )
+                              .join(" + ")}{" "}
+                            · {new Date(batch.createdAt).toLocaleString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {/* File picker */}
+                  <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-6 cursor-pointer hover:border-blue-400">
+                    <ArrowUpTrayIcon className="h-8 w-8 text-gray-400" />
+                    <span className="mt-2 text-sm text-gray-700">
+                      {fileName || "Choose the provider results CSV"}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      Needs reference and status columns; transaction
+                      reference for successful payouts
+                    </span>
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+
+                  {matches.length > 0 && (
+                    <>
+                      <div className="grid grid-cols-3 gap-4 text-center">
+                        <div className="bg-green-50 rounded-lg p-3">
+                          <div className="text-lg font-semibold text-green-800">
+                            {completedCount}
+                          </div>
+                          <div className="text-xs text-green-700">
+                            Completed
+                          </div>
+                        </div>
+                        <div className="bg-red-50 rounded-lg p-3">
+                          <div className="text-lg font-semibold text-red-800">
+                            {failedCount}
+                          </div>
+                          <div className="text-xs text-red-700">Failed</div>
+                        </div>
+                        <div className="bg-yellow-50 rounded-lg p-3">
+                          <div className="text-lg font-semibold text-yellow-800">
+                            {flaggedCount}
+                          </div>
+                          <div className="text-xs text-yellow-700">
+                            Needs review
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+                        <table className="min-w-full divide-y divide-gray-200">
+                          <thead className="bg-gray-50 sticky top-0">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Row
+                              </th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Reference
+                              </th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Result
+                              </th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                Details
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody className="bg-white divide-y divide-gray-200">
+                            {matches.map((match) => {
+                              const state = applyState[match.row.reference];
+                              return (
+                                <tr key={`${match.row.line}`}>
+                                  <td className="px-4 py-2 text-sm text-gray-500">
+                                    {match.row.line}
+                                  </td>
+                                  <td className="px-4 py-2 text-sm">
+                                    <div className="font-mono text-gray-900">
+                                      {match.row.reference}
+                                    </div>
+                                    {match.item && (
+                                      <div className="text-gray-500">
+                                        @{match.item.username} · $
+                                        {match.item.amount.toFixed(2)}
+                                      </div>
+                                    )}
+                                  </td>
+                                  <td className="px-4 py-2 text-sm">
+                                    {match.outcome === "COMPLETED" ? (
+                                      <span className="inline-flex items-center text-green-700">
+                                        <CheckCircleIcon className="h-4 w-4 mr-1" />
+                                        Completed
+                                      </span>
+                                    ) : match.outcome === "FAILED" ? (
+                                      <span className="inline-flex items-center text-red-700">
+                                        <XCircleIcon className="h-4 w-4 mr-1" />
+                                        Failed
+                                      </span>
+                                    ) : (
+                                      <span className="text-gray-500">
+                                        {match.row.status || "—"}
+                                      </span>
+                                    )}
+                                    {state === "applied" && (
+                                      <div className="text-xs text-green-600">
+                                        Applied
+                                      </div>
+                                    )}
+                                    {state === "skipped" && (
+                                      <div className="text-xs text-gray-500">
+                                        Already processed
+                                      </div>
+                                    )}
+                                    {state === "error" && (
+                                      <div className="text-xs text-red-600">
+                                        Update failed
+                                      </div>
+                                    )}
+                                  </td>
+                                  <td className="px-4 py-2 text-sm text-gray-500">
+                                    {match.issues.length > 0 ? (
+                                      <span className="flex items-start text-yellow-700">
+                                        <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+                                        {match.issues.join("; ")}
+                                      </span>
+                                    ) : match.outcome === "COMPLETED" ? (
+                                      match.row.transactionReference
+                                    ) : (
+                                      match.row.failureReason ||
+                                      "Rejected by provider"
+                                    )}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  )}
+
+                  <div className="flex justify-end space-x-3">
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                    >
+                      Close
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleApply}
+                      disabled={applying || applicable.length === 0}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {applying
+                        ? "Applying..."
+                        : `Apply ${applicable.length} Result${
+                            applicable.length === 1 ? "" : "s"
+                          }`}
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import { authService, LoginResponse } from "@/services/AuthService";
 import { AdminUser, AdminRole } from "@/types/admin";
+import { Permission } from "@/lib/permissions";
 
 // Helper function to map AuthService user to AdminUser
 const mapToAdminUser = (userData: LoginResponse["user"]): AdminUser => ({
@@ -24,6 +25,8 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  hasRole: (role: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -95,6 +98,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Both checks read the stored user, so gate them on the context user to
+  // stay in sync with login/logout renders
+  const can = (permission: Permission) =>
+    !!user && authService.can(permission);
+
+  const hasRole = (role: string) => !!user && authService.hasRole(role);
+
   const value: AuthContextType = {
     user,
     isLoading,
@@ -102,6 +112,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     login,
     logout,
     refreshUser,
+    can,
+    hasRole,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
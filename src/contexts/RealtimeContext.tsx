@@ -0,0 +1,154 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { authService } from "@/services/AuthService";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  socketClient,
+  SocketStatus,
+  RealtimeEventType,
+  RealtimeEventMap,
+} from "@/lib/socket-client";
+import { OnlinePlayersData } from "@/services/AdminStatsService";
+
+interface RealtimeContextType {
+  status: SocketStatus;
+  reconnect: () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(
+  undefined
+);
+
+const formatAmount = (amount: number, currency: string) =>
+  `${currency === "USD" ? "$" : ""}${amount.toFixed(2)}${
+    currency === "USD" ? "" : ` ${currency}`
+  }`;
+
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<SocketStatus>(socketClient.getStatus());
+
+  // Connect while an admin is logged in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    socketClient.setAuthService(authService);
+    const unsubscribeStatus = socketClient.onStatusChange(setStatus);
+    socketClient.connect();
+
+    return () => {
+      unsubscribeStatus();
+      socketClient.disconnect();
+    };
+  }, [isAuthenticated]);
+
+  // Map socket events onto React Query caches and toasts
+  useEffect(() => {
+    const unsubscribers = [
+      socketClient.subscribe("payment.created", (payment) => {
+        queryClient.invalidateQueries({ queryKey: ["payments"] });
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "revenue"] });
+        toast.success(
+          `New payment: ${formatAmount(payment.amount, payment.currency)}${
+            payment.username ? ` from @${payment.username}` : ""
+          }`
+        );
+      }),
+      socketClient.subscribe("withdrawal.requested", (withdrawal) => {
+        queryClient.invalidateQueries({ queryKey: ["withdrawals"] });
+        toast(
+          `Withdrawal requested: ${formatAmount(
+            withdrawal.amount,
+            withdrawal.currency
+          )}${withdrawal.username ? ` by @${withdrawal.username}` : ""}`,
+          { icon: "💸" }
+        );
+      }),
+      socketClient.subscribe("chat.flagged", (flagged) => {
+        queryClient.invalidateQueries({ queryKey: ["moderation"] });
+        if (flagged.tournamentId) {
+          queryClient.invalidateQueries({
+            queryKey: ["tournament-chat", flagged.tournamentId],
+          });
+        }
+        toast(
+          `Flagged message${
+            flagged.username ? ` from @${flagged.username}` : ""
+          }: ${flagged.reason.replace(/_/g, " ")}`,
+          { icon: "🚩" }
+        );
+      }),
+      socketClient.subscribe("tournament.status_changed", (tournament) => {
+        queryClient.invalidateQueries({ queryKey: ["tournaments"] });
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "stats"] });
+        toast(
+          `${tournament.title ?? "Tournament"} is now ${tournament.status}`,
+          { icon: "🏆" }
+        );
+      }),
+      socketClient.subscribe("players.online", (online) => {
+        // High-frequency event: patch the cache instead of refetching
+        queryClient.setQueryData(
+          ["dashboard", "stats"],
+          (
+            current:
+              | { onlineData: OnlinePlayersData; [key: string]: unknown }
+              | undefined
+          ) =>
+            current
+              ? {
+                  ...current,
+                  onlineData: {
+                    ...current.onlineData,
+                    online: online.online,
+                    activeSessions: online.activeSessions,
+                    byGame: online.byGame ?? current.onlineData.byGame,
+                  },
+                }
+              : current
+        );
+      }),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [queryClient]);
+
+  const reconnect = () => {
+    socketClient.disconnect();
+    socketClient.connect();
+  };
+
+  return (
+    <RealtimeContext.Provider value={{ status, reconnect }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error("useRealtime must be used within a RealtimeProvider");
+  }
+  return context;
+}
+
+/**
+ * Run a callback for every socket event of the given type while mounted
+ */
+export function useRealtimeEvent<T extends RealtimeEventType>(
+  type: T,
+  handler: (payload: RealtimeEventMap[T]) => void
+) {
+  const handlerRef = React.useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => socketClient.subscribe(type, (payload) => handlerRef.current(payload)),
+    [type]
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import {
+  moderationService,
+  SanctionedUser,
+} from "@/services/ModerationService";
+import { getDueSanctions } from "@/lib/ban-expiry";
+
+export const EXPIRING_SANCTIONS_QUERY_KEY = ["moderation", "expiring"];
+
+const CHECK_INTERVAL = 60000; // 1 minute
+
+/**
+ * Bans and suspensions ending within the next few hours, refreshed every
+ * minute. Includes any that are already overdue.
+ */
+export function useExpiringSanctions(withinHours: number, enabled = true) {
+  return useQuery({
+    queryKey: [...EXPIRING_SANCTIONS_QUERY_KEY, withinHours],
+    queryFn: () =>
+      moderationService.getExpiringSanctions(
+        new Date(Date.now() + withinHours * 60 * 60 * 1000).toISOString()
+      ),
+    enabled,
+    refetchInterval: CHECK_INTERVAL,
+  });
+}
+
+/**
+ * Reinstate users whose ban or suspension has run out. Mounted once in the
+ * admin layout for admins who can ban users. Each reinstatement is claimed
+ * on the server first, so only one open session lifts a sanction, and only
+ * if it hasn't been changed since it was loaded. A sanction is only
+ * attempted once per session, so a failing one doesn't retry every minute.
+ */
+export function useBanExpiryScheduler(enabled: boolean) {
+  const queryClient = useQueryClient();
+  const { data: sanctions } = useExpiringSanctions(1, enabled);
+  const [now, setNow] = useState(Date.now());
+  const running = useRef(false);
+  const attempted = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(Date.now()), CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !sanctions || running.current) return;
+    // Keyed on the expiry too, so a ban that was extended is tried again
+    const key = (sanction: SanctionedUser) =>
+      `${sanction.id}:${sanction.expiresAt}`;
+    const due = getDueSanctions(sanctions, now).filter(
+      (sanction) => !attempted.current.has(key(sanction))
+    );
+    if (due.length === 0) return;
+
+    running.current = true;
+    (async () => {
+      for (const sanction of due) {
+        attempted.current.add(key(sanction));
+        try {
+          const reinstatement = await moderationService.reinstateUser(
+            sanction,
+            "expired",
+            `${sanction.status === "banned" ? "Ban" : "Suspension"} expired ` +
+              `at ${new Date(sanction.expiresAt!).toLocaleString()}`
+          );
+          // Changed since it was loaded, or another session has it
+          if (!reinstatement) continue;
+          toast.success(
+            reinstatement.notified
+              ? `${sanction.username} reinstated`
+              : `${sanction.username} reinstated, but could not be notified`
+          );
+        } catch (error) {
+          console.error("Error reinstating user:", error);
+          toast.error(`Failed to reinstate ${sanction.username}`);
+        }
+      }
+    })().finally(() => {
+      running.current = false;
+      queryClient.invalidateQueries({ queryKey: ["moderation"] });
+    });
+  }, [enabled, sanctions, now, queryClient]);
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import {
+  maintenanceService,
+  MaintenanceWindow,
+} from "@/services/MaintenanceService";
+import { tournamentService } from "@/services/TournamentService";
+import { getDueTransitions } from "@/lib/maintenance";
+import { mapWithConcurrency } from "@/lib/concurrency";
+
+export const MAINTENANCE_QUERY_KEY = ["maintenance", "windows"];
+
+const CHECK_INTERVAL = 30000; // 30 seconds
+const PAUSE_CONCURRENCY = 4;
+
+/**
+ * Scheduled and active maintenance windows, refreshed every minute
+ */
+export function useMaintenanceWindows() {
+  return useQuery({
+    queryKey: MAINTENANCE_QUERY_KEY,
+    queryFn: () => maintenanceService.getWindows(),
+    refetchInterval: 60000,
+  });
+}
+
+async function getActiveTournamentIds(): Promise<string[]> {
+  const ids: string[] = [];
+  for (let page = 1; ; page++) {
+    const { tournaments, pagination } = await tournamentService.getTournaments(
+      { page, limit: 100, filters: { status: ["ACTIVE"] } }
+    );
+    ids.push(...tournaments.map((t) => t.id));
+    if (!pagination.hasNextPage) return ids;
+  }
+}
+
+// Resolves to null when another session has the claim, or the window has
+// already moved on
+const claim = (
+  maintenance: MaintenanceWindow,
+  transition: "start" | "complete"
+) =>
+  maintenanceService
+    .claimTransition(maintenance.id, transition)
+    .catch(() => null);
+
+const resumeTournaments = async (ids: string[]) => {
+  const resumed = await mapWithConcurrency(ids, PAUSE_CONCURRENCY, (id) =>
+    tournamentService
+      .resumeTournament(id)
+      .then(() => true)
+      .catch(() => false)
+  );
+  return resumed.filter((ok) => !ok).length;
+};
+
+// If the window can't be marked as started, the tournaments paused for it
+// are resumed and the claim released, so nothing is left paused without a
+// record and the next check can try again
+async function startMaintenance(due: MaintenanceWindow) {
+  const maintenance = await claim(due, "start");
+  if (!maintenance) return;
+
+  let paused: string[] = [];
+  try {
+    if (maintenance.pauseTournaments) {
+      const ids = await getActiveTournamentIds();
+      const results = await mapWithConcurrency(ids, PAUSE_CONCURRENCY, (id) =>
+        tournamentService
+          .pauseTournament(id)
+          .then(() => true)
+          .catch(() => false)
+      );
+      paused = ids.filter((_, i) => results[i]);
+      if (paused.length < ids.length) {
+        toast.error(
+          `${ids.length - paused.length} tournament(s) could not be paused`
+        );
+      }
+    }
+    await maintenanceService.startWindow(maintenance.id, paused);
+  } catch (error) {
+    const failed = await resumeTournaments(paused);
+    if (failed > 0) {
+      toast.error(`${failed} tournament(s) could not be resumed`);
+    }
+    await maintenanceService
+      .releaseClaim(maintenance.id, "start")
+      .catch(() => undefined);
+    throw error;
+  }
+  toast.success(
+    maintenance.pauseTournaments
+      ? `Maintenance "${maintenance.title}" started, ` +
+          `${paused.length} tournament(s) paused`
+      : `Maintenance "${maintenance.title}" started`
+  );
+}
+
+// Only tournaments the window paused are resumed, so anything an admin
+// paused by hand stays paused. The list comes from the claim, not the
+// cached window, so it is the one the server holds.
+async function completeMaintenance(due: MaintenanceWindow) {
+  const maintenance = await claim(due, "complete");
+  if (!maintenance) return;
+
+  if (maintenance.status === "active") {
+    const failed = await resumeTournaments(maintenance.pausedTournamentIds);
+    if (failed > 0) {
+      toast.error(`${failed} tournament(s) could not be resumed`);
+    }
+  }
+  await maintenanceService.completeWindow(maintenance.id);
+  toast.success(`Maintenance "${maintenance.title}" finished`);
+}
+
+/**
+ * Start and finish maintenance windows as they fall due. Mounted once in
+ * the admin layout for admins who can manage tournaments.
+ */
+export function useMaintenanceScheduler(enabled: boolean) {
+  const queryClient = useQueryClient();
+  const { data: windows } = useMaintenanceWindows();
+  const [now, setNow] = useState(Date.now());
+  const running = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(Date.now()), CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !windows || running.current) return;
+    const { toStart, toComplete } = getDueTransitions(windows, now);
+    if (toStart.length === 0 && toComplete.length === 0) return;
+
+    running.current = true;
+    (async () => {
+      for (const maintenance of toStart) await startMaintenance(maintenance);
+      for (const maintenance of toComplete) await completeMaintenance(maintenance);
+    })()
+      .then(() =>
+        queryClient.invalidateQueries({ queryKey: MAINTENANCE_QUERY_KEY })
+      )
+      // Retried on the next check rather than straight away
+      .catch((error) => {
+        console.error("Error running maintenance window:", error);
+        toast.error("Failed to update maintenance window");
+      })
+      .finally(() => {
+        running.current = false;
+      });
+  }, [enabled, windows, now, queryClient]);
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { moderationService } from "@/services/ModerationService";
+import { tournamentService } from "@/services/TournamentService";
+import { useRealtimeEvent } from "@/contexts/RealtimeContext";
+
+export const MODERATION_RULES_QUERY_KEY = ["moderation", "rules"];
+
+/**
+ * The saved auto-moderation rule set
+ */
+export function useModerationRules(enabled = true) {
+  return useQuery({
+    queryKey: MODERATION_RULES_QUERY_KEY,
+    queryFn: () => moderationService.getRules(),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Mute users when the backend reports a flag raised by a mute rule. The
+ * backend flags and hides messages itself but leaves muting to the chat
+ * moderation API, so an open admin session carries it out. Each mute is
+ * claimed on the server first, so with several admins online it is applied
+ * once; a session that loses the claim skips it quietly.
+ */
+export function useAutoMute(enabled: boolean) {
+  const { data: ruleSet } = useModerationRules(enabled);
+  const handled = useRef(new Set<string>());
+
+  useRealtimeEvent("chat.flagged", (flagged) => {
+    if (!enabled || flagged.action !== "mute" || !flagged.tournamentId) return;
+    if (handled.current.has(flagged.messageId)) return;
+
+    const rule = ruleSet?.rules.find((r) => r.id === flagged.ruleId);
+    if (!rule?.muteMinutes) return;
+    handled.current.add(flagged.messageId);
+    const { tournamentId } = flagged;
+    const { muteMinutes, name } = rule;
+
+    (async () => {
+      const claimed = await moderationService
+        .claimAutoMute(flagged.messageId)
+        .catch((error) => {
+          console.error("Error claiming auto-mute:", error);
+          return false;
+        });
+      if (!claimed) return;
+
+      try {
+        await tournamentService.muteUser(
+          tournamentId,
+          flagged.userId,
+          muteMinutes
+        );
+        toast(
+          `${flagged.username ? `@${flagged.username}` : "User"} muted for ` +
+            `${muteMinutes} min (${name})`,
+          { icon: "🔇" }
+        );
+      } catch (error) {
+        console.error("Error applying auto-mute:", error);
+        toast.error(`Failed to auto-mute ${flagged.username ?? "user"}`);
+      }
+    })();
+  });
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { Permission } from "@/lib/permissions";
+
+/**
+ * Whether the current admin holds a permission (explicitly or via role)
+ */
+export function usePermission(permission: Permission): boolean {
+  const { can } = useAuth();
+  return can(permission);
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-hot-toast";
+import { tournamentTemplateService } from "@/services/TournamentTemplateService";
+import { tournamentService } from "@/services/TournamentService";
+import {
+  addDays,
+  buildTournamentData,
+  getDueInstances,
+  MAX_CREATE_AHEAD_DAYS,
+  ScheduledInstance,
+} from "@/lib/tournament-schedule";
+
+export const TEMPLATES_QUERY_KEY = ["tournament-templates"];
+
+const CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+export function useTournamentTemplates(enabled = true) {
+  return useQuery({
+    queryKey: TEMPLATES_QUERY_KEY,
+    queryFn: () => tournamentTemplateService.getTemplates(),
+    enabled,
+  });
+}
+
+/**
+ * Skipped, changed and created occurrences between two dates
+ */
+export function useTemplateOccurrences(
+  from: string,
+  to: string,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: [...TEMPLATES_QUERY_KEY, "occurrences", from, to],
+    queryFn: () => tournamentTemplateService.getOccurrences(from, to),
+    enabled,
+    refetchInterval: CHECK_INTERVAL,
+  });
+}
+
+interface UnrecordedInstance {
+  templateId: string;
+  date: string;
+  tournamentId: string;
+}
+
+/**
+ * Claim an instance and create its tournament. Resolves to null if another
+ * session holds the claim, which is expected rather than an error.
+ */
+async function createInstance(
+  instance: ScheduledInstance
+): Promise<string | null> {
+  const { template, date } = instance;
+  const claimed = await tournamentTemplateService
+    .claimOccurrence(template.id, date)
+    .then(() => true)
+    .catch(() => false);
+  if (!claimed) return null;
+
+  try {
+    const tournament = await tournamentService.createTournament(
+      buildTournamentData(instance)
+    );
+    return tournament.id;
+  } catch (error) {
+    // Nothing was created, so let the next check, in this or another
+    // session, try again
+    await tournamentTemplateService
+      .completeClaim(template.id, date, null)
+      .catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Create tournaments from recurring templates as they come within their
+ * create-ahead window. Mounted once in the admin layout for admins who can
+ * manage tournaments. An instance is only attempted once per session.
+ * A tournament that was created but couldn't be recorded against its
+ * template keeps the claim, and recording it is retried on every check.
+ */
+export function useTournamentScheduler(enabled: boolean) {
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(Date.now());
+  const today = new Date(now).toISOString().slice(0, 10);
+  const { data: templates } = useTournamentTemplates(enabled);
+  // A day either side covers the timezone offsets
+  const { data: occurrences } = useTemplateOccurrences(
+    addDays(today, -1),
+    addDays(today, MAX_CREATE_AHEAD_DAYS + 1),
+    enabled
+  );
+  const running = useRef(false);
+  const attempted = useRef(new Set<string>());
+  const unrecorded = useRef(new Map<string, UnrecordedInstance>());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(Date.now()), CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !templates || !occurrences || running.current) return;
+    const key = (instance: ScheduledInstance) =>
+      `${instance.template.id}:${instance.date}`;
+    const due = getDueInstances(templates, occurrences, now).filter(
+      (instance) => !attempted.current.has(key(instance))
+    );
+    if (due.length === 0 && unrecorded.current.size === 0) return;
+
+    const record = async (pending: UnrecordedInstance) => {
+      const id = `${pending.templateId}:${pending.date}`;
+      try {
+        await tournamentTemplateService.completeClaim(
+          pending.templateId,
+          pending.date,
+          pending.tournamentId
+        );
+        unrecorded.current.delete(id);
+        return true;
+      } catch (error) {
+        console.error("Error recording scheduled tournament:", error);
+        unrecorded.current.set(id, pending);
+        return false;
+      }
+    };
+
+    running.current = true;
+    (async () => {
+      for (const pending of Array.from(unrecorded.current.values())) {
+        await record(pending);
+      }
+
+      let created = 0;
+      for (const instance of due) {
+        attempted.current.add(key(instance));
+        let tournamentId: string | null;
+        try {
+          tournamentId = await createInstance(instance);
+        } catch (error) {
+          console.error("Error creating scheduled tournament:", error);
+          toast.error(`Failed to create ${instance.title}`);
+          continue;
+        }
+        if (!tournamentId) continue;
+
+        created++;
+        const recorded = await record({
+          templateId: instance.template.id,
+          date: instance.date,
+          tournamentId,
+        });
+        if (!recorded) {
+          toast.error(
+            `${instance.title} was created but couldn't be linked to its ` +
+              "template; retrying"
+          );
+        }
+      }
+      if (created > 0) {
+        toast.success(
+          `${created} scheduled tournament${created === 1 ? "" : "s"} created`
+        );
+      }
+    })().finally(() => {
+      running.current = false;
+      queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["tournaments"] });
+    });
+  }, [enabled, templates, occurrences, now, queryClient]);
+}
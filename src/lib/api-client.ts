@@ -1,5 +1,21 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
 import { toast } from "react-hot-toast";
+import type { PendingAudit } from "@/lib/audit";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    skipErrorToast?: boolean; // The caller reports the failure itself
+    audit?: PendingAudit | null;
+  }
+}
+
+// Records mutating requests in the admin audit log
+export interface AuditRecorder {
+  prepare(method: string, url: string, data: unknown): PendingAudit | null;
+  record(pending: PendingAudit, error?: unknown): void;
+}
+
+const MUTATING_METHODS = ["post", "put", "patch", "delete"];
 
 // API Client Configuration
 class ApiClient {
@@ -11,6 +27,7 @@ class ApiClient {
     clearAuthData(): void;
     isAuthenticated(): boolean;
   } | null = null; // Will be injected to avoid circular dependency
+  private auditRecorder: AuditRecorder | null = null;
 
   constructor() {
     this.baseURL =
@@ -37,10 +54,15 @@ class ApiClient {
     this.authService = authService;
   }
 
+  // Injected the same way, as the audit service makes requests itself
+  setAuditRecorder(auditRecorder: AuditRecorder) {
+    this.auditRecorder = auditRecorder;
+  }
+
   private setupInterceptors() {
     // Request interceptor - add auth token
     this.client.interceptors.request.use(
-      (config) => {
+      async (config) => {
         // Get token from auth service if available
         if (this.authService) {
           const token = this.authService.getToken();
@@ -48,6 +70,28 @@ class ApiClient {
             config.headers.Authorization = `Bearer ${token}`;
           }
         }
+
+        // Capture mutations for the audit log. This never waits on the
+        // network: the before snapshot, taken only for routes with a
+        // snapshot URL, is read alongside the mutation, so the log is
+        // best-effort and the server's own records are the authority.
+        // Retried requests keep the snapshot taken the first time.
+        const method = config.method?.toLowerCase() || "get";
+        if (
+          this.auditRecorder &&
+          MUTATING_METHODS.includes(method) &&
+          config.audit === undefined
+        ) {
+          try {
+            config.audit = this.auditRecorder.prepare(
+              method,
+              config.url || "",
+              config.data
+            );
+          } catch {
+            config.audit = null;
+          }
+        }
         return config;
       },
       (error) => {
@@ -58,6 +102,9 @@ class ApiClient {
     // Response interceptor - handle errors and token refresh
     this.client.interceptors.response.use(
       (response: AxiosResponse) => {
+        if (response.config.audit) {
+          this.auditRecorder?.record(response.config.audit);
+        }
         return response;
       },
       async (error) => {
@@ -98,7 +145,12 @@ class ApiClient {
         }
 
         // Handle other errors
-        this.handleApiError(error);
+        if (originalRequest?.audit) {
+          this.auditRecorder?.record(originalRequest.audit, error);
+        }
+        if (!originalRequest?.skipErrorToast) {
+          this.handleApiError(error);
+        }
         return Promise.reject(error);
       }
     );
@@ -187,6 +239,9 @@ if (typeof window !== "undefined") {
   import("../services/AuthService").then(({ authService }) => {
     apiClient.setAuthService(authService);
   });
+  import("../services/AuditService").then(({ auditService }) => {
+    apiClient.setAuditRecorder(auditService);
+  });
 }
 
 // Export types for convenience
@@ -0,0 +1,385 @@
+import { toCsv } from "@/lib/csv";
+import type { AuditEntry } from "@/services/AuditService";
+
+// Admin audit log
+//
+// Every mutating API request the panel makes is described here by entity
+// type, entity id and action, so the audit recorder in the API client can
+// log it without each service doing so by hand. Routes are matched in
+// order, and anything not listed is still recorded under a generic action.
+
+export type AuditEntityType =
+  | "user"
+  | "wallet"
+  | "tournament"
+  | "payment"
+  | "withdrawal"
+  | "dispute"
+  | "settings"
+  | "moderation"
+  | "feature_flag"
+  | "maintenance"
+  | "risk"
+  | "tournament_template"
+  | "other";
+
+export type HttpMethod = "post" | "put" | "patch" | "delete";
+
+export interface AuditedMutation {
+  entityType: AuditEntityType;
+  entityId?: string;
+  action: string;
+  // Where to read the entity from before and after the change, so the
+  // diff compares like with like
+  snapshotUrl?: string;
+}
+
+// A mutation on its way to the server. The read of the entity as it stood
+// before is started alongside the mutation rather than ahead of it, so it
+// can land after the change and the diff is best-effort.
+export interface PendingAudit {
+  mutation: AuditedMutation;
+  request: unknown;
+  before: Promise<unknown>;
+}
+
+interface AuditRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  entityType: AuditEntityType;
+  action: string;
+  snapshot?: (id?: string) => string;
+}
+
+type RouteSpec = [HttpMethod, string, string];
+
+// ":id" marks the entity id; ":any" matches a segment without capturing it
+const toPattern = (path: string) =>
+  new RegExp(
+    `^${path.replace(/:id/g, "([^/?]+)").replace(/:any/g, "[^/?]+")}$`
+  );
+
+const group = (
+  entityType: AuditEntityType,
+  specs: RouteSpec[],
+  snapshot?: (id?: string) => string
+): AuditRoute[] =>
+  specs.map(([method, path, action]) => ({
+    method,
+    pattern: toPattern(path),
+    entityType,
+    action,
+    snapshot,
+  }));
+
+// Specific routes come before the generic update/delete routes they overlap
+export const AUDIT_ROUTES: AuditRoute[] = [
+  ...group(
+    "user",
+    [
+      ["patch", "/api/users/admin/:id/ban", "user.ban"],
+      ["patch", "/api/users/admin/:id/unban", "user.unban"],
+      ["patch", "/api/users/:id/suspend", "user.suspend"],
+      ["patch", "/api/users/admin/:id/activate", "user.activate"],
+      ["patch", "/api/users/admin/:id/deactivate", "user.deactivate"],
+      ["patch", "/api/users/admin/:id/assign-role", "user.assign_role"],
+      ["put", "/api/users/:id/permissions", "user.update_permissions"],
+      ["post", "/api/users/:id/moderation", "user.add_moderation_action"],
+      ["delete", "/api/users/:id/moderation/:any", "user.remove_moderation"],
+      ["post", "/api/users/:id/message", "user.message"],
+      ["put", "/api/users/:id", "user.update"],
+      ["delete", "/api/users/:id", "user.delete"],
+    ],
+    (id) => `/api/users/${id}`
+  ),
+  ...group(
+    "wallet",
+    [
+      ["patch", "/api/users/:id/wallet/adjust", "wallet.adjust"],
+      ["patch", "/api/users/:id/wallet/freeze", "wallet.freeze"],
+      ["patch", "/api/users/:id/wallet/unfreeze", "wallet.unfreeze"],
+      [
+        "post",
+        "/api/users/:id/wallet/corrections",
+        "wallet.request_correction",
+      ],
+      [
+        "post",
+        "/api/users/:id/wallet/corrections/:any/review",
+        "wallet.review_correction",
+      ],
+    ],
+    (id) => `/api/users/${id}/wallet`
+  ),
+  ...group(
+    "tournament",
+    [
+      ["patch", "/api/tournaments/:id/cancel", "tournament.cancel"],
+      ["post", "/api/tournaments/:id/start", "tournament.start"],
+      ["post", "/api/tournaments/:id/complete", "tournament.complete"],
+      ["post", "/api/tournaments/:id/payouts", "tournament.pay_prize"],
+      ["post", "/api/tournaments/:id/pause", "tournament.pause"],
+      ["post", "/api/tournaments/:id/resume", "tournament.resume"],
+      ["put", "/api/tournaments/:id", "tournament.update"],
+      ["delete", "/api/tournaments/:id", "tournament.delete"],
+    ],
+    (id) => `/api/tournaments/${id}`
+  ),
+  ...group("tournament", [["post", "/api/tournaments", "tournament.create"]]),
+  ...group(
+    "tournament_template",
+    [
+      [
+        "post",
+        "/api/admin/tournament-templates/:id/occurrences/:any/claim",
+        "tournament_template.claim_occurrence",
+      ],
+      [
+        "put",
+        "/api/admin/tournament-templates/:id/occurrences/:any/claim",
+        "tournament_template.complete_claim",
+      ],
+      [
+        "put",
+        "/api/admin/tournament-templates/:id/occurrences/:any",
+        "tournament_template.update_occurrence",
+      ],
+      [
+        "delete",
+        "/api/admin/tournament-templates/:id/occurrences/:any",
+        "tournament_template.reset_occurrence",
+      ],
+      [
+        "put",
+        "/api/admin/tournament-templates/:id",
+        "tournament_template.update",
+      ],
+      [
+        "delete",
+        "/api/admin/tournament-templates/:id",
+        "tournament_template.delete",
+      ],
+    ]
+  ),
+  ...group("tournament_template", [
+    [
+      "post",
+      "/api/admin/tournament-templates",
+      "tournament_template.create",
+    ],
+  ]),
+  ...group("withdrawal", [
+    ["put", "/api/payments/admin/withdrawals/:id", "withdrawal.process"],
+    [
+      "post",
+      "/api/payments/admin/withdrawals/:id/approvals",
+      "withdrawal.approve",
+    ],
+    ["post", "/api/payments/admin/payout-batches", "withdrawal.create_batch"],
+    [
+      "put",
+      "/api/payments/admin/payout-batches/:id",
+      "withdrawal.reconcile_batch",
+    ],
+  ]),
+  ...group("payment", [
+    ["put", "/api/payments/admin/:id/status", "payment.update_status"],
+    ["post", "/api/payments/admin/:id/refund", "payment.refund"],
+  ]),
+  ...group("risk", [
+    ["post", "/api/admin/risk/reviews", "risk.flag"],
+    ["patch", "/api/admin/risk/reviews/:id", "risk.resolve"],
+    ["post", "/api/admin/risk/collusion", "risk.report_collusion"],
+    ["patch", "/api/admin/risk/collusion/:id", "risk.resolve_collusion"],
+  ]),
+  ...group(
+    "settings",
+    [
+      ["put", "/api/admin/settings", "settings.update"],
+      [
+        "post",
+        "/api/admin/settings/versions/:any/rollback",
+        "settings.rollback",
+      ],
+    ],
+    () => "/api/admin/settings"
+  ),
+];
+
+export const AUDIT_ACTIONS = Array.from(
+  new Set(AUDIT_ROUTES.map((r) => r.action))
+).sort();
+
+const ENTITY_PREFIXES: [string, AuditEntityType][] = [
+  ["/api/users", "user"],
+  ["/api/tournaments", "tournament"],
+  ["/api/payments/admin/withdrawals", "withdrawal"],
+  ["/api/payments/admin/payout-batches", "withdrawal"],
+  ["/api/payments/admin/disputes", "dispute"],
+  ["/api/payments", "payment"],
+  ["/api/admin/settings", "settings"],
+  ["/api/admin/moderation", "moderation"],
+  ["/api/admin/feature-flags", "feature_flag"],
+  ["/api/admin/maintenance", "maintenance"],
+  ["/api/admin/risk", "risk"],
+  ["/api/admin/tournament-templates", "tournament_template"],
+];
+
+// Requests that are never recorded: logging in, and the audit log itself
+const UNAUDITED_PREFIXES = ["/api/auth", "/api/admin/audit"];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: "User",
+  wallet: "Wallet",
+  tournament: "Tournament",
+  payment: "Payment",
+  withdrawal: "Withdrawal",
+  dispute: "Dispute",
+  settings: "Settings",
+  moderation: "Moderation",
+  feature_flag: "Feature flag",
+  maintenance: "Maintenance",
+  risk: "Risk review",
+  tournament_template: "Tournament template",
+  other: "Other",
+};
+
+// Sensitive request fields are masked before they leave the browser
+const REDACTED_KEYS = /password|token|secret|^pin$/i;
+
+/**
+ * Describe a mutating request, or null if it should not be recorded
+ */
+export function describeMutation(
+  method: string,
+  url: string
+): AuditedMutation | null {
+  const verb = method.toLowerCase() as HttpMethod;
+  const path = url.split("?")[0].replace(/\/+$/, "");
+  if (UNAUDITED_PREFIXES.some((prefix) => path.startsWith(prefix))) {
+    return null;
+  }
+
+  for (const candidate of AUDIT_ROUTES) {
+    if (candidate.method !== verb) continue;
+    const match = path.match(candidate.pattern);
+    if (!match) continue;
+    return {
+      entityType: candidate.entityType,
+      entityId: match[1],
+      action: candidate.action,
+      snapshotUrl: candidate.snapshot?.(match[1]),
+    };
+  }
+
+  const prefix = ENTITY_PREFIXES.find(([p]) => path.startsWith(p));
+  const entityType = prefix ? prefix[1] : "other";
+  return {
+    entityType,
+    action: `${entityType}.${verb}`,
+  };
+}
+
+/**
+ * Copy a value for the log, masking sensitive fields and files
+ */
+export function redact(value: unknown): unknown {
+  if (typeof FormData !== "undefined" && value instanceof FormData) {
+    return "[file upload]";
+  }
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        REDACTED_KEYS.test(key) ? "[redacted]" : redact(v),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Responses from newer endpoints are wrapped in { data }; older ones
+ * return the entity directly
+ */
+export function unwrapResponse(body: unknown): unknown {
+  if (
+    body &&
+    typeof body === "object" &&
+    !Array.isArray(body) &&
+    "data" in body
+  ) {
+    return (body as { data: unknown }).data;
+  }
+  return body;
+}
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Field-by-field differences between two snapshots, with nested objects
+ * flattened to dotted paths. Arrays are compared whole.
+ */
+export function diffAuditValues(
+  before: unknown,
+  after: unknown,
+  path = ""
+): AuditChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)])
+    ).sort();
+    return keys.flatMap((key) =>
+      diffAuditValues(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ field: path || "(value)", before, after }];
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  return toCsv([
+    [
+      "Time",
+      "Actor",
+      "Actor Role",
+      "Action",
+      "Entity Type",
+      "Entity ID",
+      "Outcome",
+      "Changes",
+      "Request",
+    ],
+    ...entries.map((entry) => [
+      entry.createdAt,
+      entry.actor.name,
+      entry.actor.role,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.outcome,
+      diffAuditValues(entry.before, entry.after)
+        .map(
+          (change) =>
+            `${change.field}: ${formatAuditValue(change.before)} -> ` +
+            formatAuditValue(change.after)
+        )
+        .join("; "),
+      entry.request === undefined ? "" : JSON.stringify(entry.request),
+    ]),
+  ]);
+}
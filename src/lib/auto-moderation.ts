@@ -0,0 +1,375 @@
+import {
+  FlaggedContentSeverity,
+  ModerationRule,
+  ModerationRuleAction,
+  ModerationRuleSet,
+  ModerationRuleType,
+  ProfanityLanguage,
+} from "@/services/ModerationService";
+import { TournamentChatMessage } from "@/services/TournamentService";
+
+// Chat auto-moderation rules
+//
+// The backend applies the saved rules to every chat message as it arrives.
+// Here recent chat is replayed against draft rules before they are saved,
+// so admins can see what a change would catch; the verdicts are a preview
+// and the server's are the ones that count.
+//
+// Word lists are matched against normalised text, with case, accents and
+// leetspeak folded and long letter runs squashed, so "F4iiiil" matches
+// "fail". Patterns run on the raw text.
+
+export interface RuleMatch {
+  rule: ModerationRule;
+  detail: string;
+}
+
+export interface MessageVerdict {
+  message: TournamentChatMessage;
+  matches: RuleMatch[];
+  action: ModerationRuleAction | null; // Strongest action across matches
+  severity: FlaggedContentSeverity | null;
+}
+
+export interface ReplaySummary {
+  scanned: number;
+  caught: number;
+  byAction: Record<ModerationRuleAction, number>;
+  byRule: Record<string, number>;
+}
+
+export const PROFANITY_LANGUAGES: Record<ProfanityLanguage, string> = {
+  en: "English",
+  sn: "Shona",
+  nd: "Ndebele",
+};
+
+export const RULE_TYPE_LABELS: Record<ModerationRuleType, string> = {
+  words: "Word list",
+  pattern: "Regex patterns",
+  repeat: "Repeated messages",
+  links: "Link flooding",
+  rate: "Message rate",
+};
+
+export const RULE_ACTION_LABELS: Record<ModerationRuleAction, string> = {
+  flag: "Flag for review",
+  hide: "Hide message",
+  mute: "Mute user",
+};
+
+const ACTION_RANK: Record<ModerationRuleAction, number> = {
+  flag: 1,
+  hide: 2,
+  mute: 3,
+};
+
+const SEVERITY_RANK: Record<FlaggedContentSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+const LEET: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|zw|me|ly|gg|xyz|info)\b(?:\/\S*)?/gi;
+
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/\s+/)
+    // Only fold leetspeak inside words so plain numbers stay distinct
+    .map((token) =>
+      /[a-z]/.test(token)
+        ? token.replace(/[013457@$]/g, (char) => LEET[char])
+        : token
+    )
+    .join(" ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/([a-z])\1{2,}/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function countLinks(text: string): number {
+  return text.match(LINK_PATTERN)?.length ?? 0;
+}
+
+export function createRule(type: ModerationRuleType): ModerationRule {
+  const base = {
+    id: `rule-${Date.now().toString(36)}`,
+    name: RULE_TYPE_LABELS[type],
+    enabled: true,
+    severity: "medium" as const,
+    action: "flag" as const,
+  };
+  switch (type) {
+    case "words":
+      return { ...base, type, language: "en", words: [] };
+    case "pattern":
+      return { ...base, type, patterns: [] };
+    case "repeat":
+      return { ...base, type, maxRepeats: 3, windowSeconds: 60 };
+    case "links":
+      return { ...base, type, maxLinks: 3, windowSeconds: 60 };
+    case "rate":
+      return { ...base, type, maxMessages: 10, windowSeconds: 30 };
+  }
+}
+
+/**
+ * Starting rules for a platform with nothing configured. Word lists start
+ * empty and are filled in by moderators for each language.
+ */
+export const DEFAULT_RULE_SET: ModerationRuleSet = {
+  enabled: true,
+  rules: [
+    ...(Object.keys(PROFANITY_LANGUAGES) as ProfanityLanguage[]).map(
+      (language): ModerationRule => ({
+        id: `profanity-${language}`,
+        name: `${PROFANITY_LANGUAGES[language]} profanity`,
+        enabled: true,
+        severity: "medium",
+        action: "hide",
+        type: "words",
+        language,
+        words: [],
+      })
+    ),
+    {
+      id: "phone-numbers",
+      name: "Phone numbers",
+      enabled: true,
+      severity: "low",
+      action: "flag",
+      type: "pattern",
+      // Zimbabwean mobile numbers, often shared to arrange side bets
+      patterns: ["(?:\\+?263|\\b0)\\s?7[1-8]\\d\\s?\\d{3}\\s?\\d{3}\\b"],
+    },
+    {
+      id: "repeated-messages",
+      name: "Repeated messages",
+      enabled: true,
+      severity: "low",
+      action: "hide",
+      type: "repeat",
+      maxRepeats: 3,
+      windowSeconds: 60,
+    },
+    {
+      id: "link-flooding",
+      name: "Link flooding",
+      enabled: true,
+      severity: "medium",
+      action: "hide",
+      type: "links",
+      maxLinks: 3,
+      windowSeconds: 60,
+    },
+    {
+      id: "message-rate",
+      name: "Message rate",
+      enabled: true,
+      severity: "medium",
+      action: "mute",
+      muteMinutes: 10,
+      type: "rate",
+      maxMessages: 10,
+      windowSeconds: 30,
+    },
+  ],
+};
+
+/**
+ * Check a rule before saving, returning the first problem found
+ */
+export function validateRule(rule: ModerationRule): string | null {
+  if (!rule.name.trim()) return "Every rule needs a name";
+  if (
+    rule.action === "mute" &&
+    !(Number.isInteger(rule.muteMinutes) && rule.muteMinutes! > 0)
+  ) {
+    return `${rule.name}: mute duration must be a whole number of minutes`;
+  }
+  switch (rule.type) {
+    case "words":
+      return null;
+    case "pattern":
+      for (const pattern of rule.patterns) {
+        try {
+          new RegExp(pattern, "i");
+        } catch {
+          return `${rule.name}: invalid pattern /${pattern}/`;
+        }
+      }
+      return null;
+    default: {
+      const limit =
+        rule.type === "repeat"
+          ? rule.maxRepeats
+          : rule.type === "links"
+            ? rule.maxLinks
+            : rule.maxMessages;
+      if (!Number.isInteger(limit) || limit < 1) {
+        return `${rule.name}: limit must be at least 1`;
+      }
+      if (!Number.isInteger(rule.windowSeconds) || rule.windowSeconds < 1) {
+        return `${rule.name}: window must be at least 1 second`;
+      }
+      return null;
+    }
+  }
+}
+
+interface SentMessage {
+  time: number;
+  text: string;
+  links: number;
+}
+
+// Messages a user sent within the window before (and including) now
+const inWindow = (history: SentMessage[], now: number, seconds: number) =>
+  history.filter((sent) => now - sent.time < seconds * 1000);
+
+function matchRule(
+  rule: ModerationRule,
+  message: TournamentChatMessage,
+  current: SentMessage,
+  history: SentMessage[]
+): string | null {
+  switch (rule.type) {
+    case "words": {
+      const padded = ` ${current.text} `;
+      const found = rule.words
+        .map(normalizeText)
+        .filter((word) => word && padded.includes(` ${word} `));
+      return found.length > 0
+        ? `Contains ${found
+            .slice(0, 3)
+            .map((word) => `"${word}"`)
+            .join(", ")}`
+        : null;
+    }
+    case "pattern": {
+      const pattern = rule.patterns.find((source) => {
+        if (!source.trim()) return false;
+        try {
+          return new RegExp(source, "i").test(message.message);
+        } catch {
+          return false;
+        }
+      });
+      return pattern !== undefined ? `Matches /${pattern}/` : null;
+    }
+    case "repeat": {
+      if (!current.text) return null;
+      const count = inWindow(history, current.time, rule.windowSeconds).filter(
+        (sent) => sent.text === current.text
+      ).length;
+      return count > rule.maxRepeats
+        ? `Sent ${count} times in ${rule.windowSeconds}s`
+        : null;
+    }
+    case "links": {
+      if (current.links === 0) return null;
+      const count = inWindow(history, current.time, rule.windowSeconds).reduce(
+        (sum, sent) => sum + sent.links,
+        0
+      );
+      return count > rule.maxLinks
+        ? `${count} links in ${rule.windowSeconds}s`
+        : null;
+    }
+    case "rate": {
+      const count = inWindow(history, current.time, rule.windowSeconds).length;
+      return count > rule.maxMessages
+        ? `${count} messages in ${rule.windowSeconds}s`
+        : null;
+    }
+  }
+}
+
+/**
+ * Run chat messages through the rules in the order they were sent. Rate and
+ * repeat rules only see the messages passed in, so replaying a short slice
+ * of chat can under-count users who were already busy before it.
+ */
+export function replayMessages(
+  messages: TournamentChatMessage[],
+  ruleSet: Pick<ModerationRuleSet, "enabled" | "rules">
+): MessageVerdict[] {
+  const rules = ruleSet.enabled ? ruleSet.rules.filter((r) => r.enabled) : [];
+  const histories = new Map<string, SentMessage[]>();
+
+  return [...messages]
+    .filter((message) => !message.isDeleted)
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    )
+    .map((message) => {
+      const current: SentMessage = {
+        time: new Date(message.createdAt).getTime(),
+        text: normalizeText(message.message),
+        links: countLinks(message.message),
+      };
+      const history = histories.get(message.userId) || [];
+      history.push(current);
+      histories.set(message.userId, history);
+
+      const matches: RuleMatch[] = [];
+      for (const rule of rules) {
+        const detail = matchRule(rule, message, current, history);
+        if (detail) matches.push({ rule, detail });
+      }
+
+      return {
+        message,
+        matches,
+        action: matches.reduce<ModerationRuleAction | null>(
+          (strongest, { rule }) =>
+            !strongest || ACTION_RANK[rule.action] > ACTION_RANK[strongest]
+              ? rule.action
+              : strongest,
+          null
+        ),
+        severity: matches.reduce<FlaggedContentSeverity | null>(
+          (highest, { rule }) =>
+            !highest || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[highest]
+              ? rule.severity
+              : highest,
+          null
+        ),
+      };
+    });
+}
+
+export function summarizeReplay(verdicts: MessageVerdict[]): ReplaySummary {
+  const summary: ReplaySummary = {
+    scanned: verdicts.length,
+    caught: 0,
+    byAction: { flag: 0, hide: 0, mute: 0 },
+    byRule: {},
+  };
+  for (const verdict of verdicts) {
+    if (!verdict.action) continue;
+    summary.caught++;
+    summary.byAction[verdict.action]++;
+    for (const { rule } of verdict.matches) {
+      summary.byRule[rule.id] = (summary.byRule[rule.id] || 0) + 1;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,100 @@
+import {
+  ReinstatementTrigger,
+  SanctionedUser,
+} from "@/services/ModerationService";
+
+// Ban and suspension expiry
+//
+// The backend records when a sanction ends but does not lift it, so the
+// admin layout checks for due sanctions and reinstates the users through
+// the user API. Everything here is pure so the schedule view and the
+// scheduler agree on what is due.
+
+export const EXPIRY_WINDOWS = [
+  { hours: 24, label: "Next 24 hours" },
+  { hours: 7 * 24, label: "Next 7 days" },
+  { hours: 30 * 24, label: "Next 30 days" },
+];
+
+export const EXPIRY_ADJUSTMENTS = [
+  { hours: -24, label: "-1 day" },
+  { hours: 24, label: "+1 day" },
+  { hours: 7 * 24, label: "+7 days" },
+  { hours: 30 * 24, label: "+30 days" },
+];
+
+const HOUR = 60 * 60 * 1000;
+
+export function isDue(sanction: SanctionedUser, now: number): boolean {
+  return (
+    sanction.expiresAt !== null && new Date(sanction.expiresAt).getTime() <= now
+  );
+}
+
+export function getDueSanctions(
+  sanctions: SanctionedUser[],
+  now: number
+): SanctionedUser[] {
+  return sanctions.filter((sanction) => isDue(sanction, now));
+}
+
+/**
+ * Move an expiry by a number of hours. Permanent bans count from now.
+ */
+export function shiftExpiry(
+  expiresAt: string | null,
+  hours: number,
+  now: number
+): string {
+  const from = expiresAt ? new Date(expiresAt).getTime() : now;
+  return new Date(from + hours * HOUR).toISOString();
+}
+
+/**
+ * Check a new expiry before saving
+ */
+export function validateExpiry(
+  expiresAt: string | null,
+  now: number
+): string | null {
+  if (expiresAt === null) return null;
+  const time = new Date(expiresAt).getTime();
+  if (Number.isNaN(time)) return "Enter a valid date and time";
+  if (time <= now) {
+    return "The new expiry is in the past; reinstate the user instead";
+  }
+  return null;
+}
+
+export function formatTimeLeft(expiresAt: string, now: number): string {
+  const ms = new Date(expiresAt).getTime() - now;
+  if (ms <= 0) return "Due now";
+  const hours = Math.floor(ms / HOUR);
+  if (hours >= 48) return `${Math.floor(hours / 24)}d left`;
+  if (hours >= 1) return `${hours}h left`;
+  return `${Math.max(1, Math.ceil(ms / (60 * 1000)))}m left`;
+}
+
+export function describeSanction(sanction: SanctionedUser): string {
+  return sanction.status === "banned" ? "ban" : "suspension";
+}
+
+/**
+ * The message sent to a user when their account is reinstated
+ */
+export function buildReinstatementMessage(
+  sanction: SanctionedUser,
+  trigger: ReinstatementTrigger
+): { subject: string; message: string } {
+  const kind = describeSanction(sanction);
+  return {
+    subject: "Your account has been reinstated",
+    message:
+      trigger === "expired"
+        ? `Hi ${sanction.username}, your ${kind} has ended and your ` +
+          `account is active again. Please keep to the community rules ` +
+          `so we don't need to restrict it again.`
+        : `Hi ${sanction.username}, a moderator has lifted your ${kind} ` +
+          `early and your account is active again. Welcome back.`,
+  };
+}
@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+import {
+  BracketMatch,
+  BracketRound,
+  TournamentBracket,
+} from "@/services/TournamentService";
+import {
+  buildBracket,
+  pairNextSwissRound,
+  validateBracket,
+} from "@/lib/bracket-engine";
+import { getBracketSections, getMatchPlayers } from "@/lib/bracket";
+
+const players = (count: number) =>
+  Array.from({ length: count }, (_, index) => `p${index + 1}`);
+
+const pairKey = (match: BracketMatch) =>
+  [match.player1Id, match.player2Id].sort().join("|");
+
+// Player one wins every pending match that has two players
+const completeRound = (round: BracketRound): BracketRound => ({
+  ...round,
+  matches: round.matches.map((match) =>
+    match.status === "completed" || !match.player2Id
+      ? match
+      : { ...match, status: "completed", winnerId: match.player1Id }
+  ),
+});
+
+describe("buildBracket", () => {
+  it("refuses a field of fewer than two players", () => {
+    expect(() => buildBracket("SINGLE_ELIMINATION", ["p1"])).toThrow();
+  });
+
+  it("gives the top seeds byes in a single elimination field of five", () => {
+    const bracket = buildBracket("SINGLE_ELIMINATION", players(5));
+    const [opening, second, final] = bracket.rounds;
+
+    expect(bracket.rounds).toHaveLength(3);
+    expect(opening.matches).toHaveLength(4);
+
+    const byes = opening.matches.filter((match) => match.isBye);
+    expect(byes.map((match) => match.player1Id).sort()).toEqual([
+      "p1",
+      "p2",
+      "p3",
+    ]);
+    byes.forEach((match) => {
+      expect(match.status).toBe("completed");
+      expect(match.winnerId).toBe(match.player1Id);
+    });
+
+    // Bye winners go straight into round two; p4 and p5 still have to play
+    expect(second.matches.map(getMatchPlayers)).toEqual([["p1"], ["p2", "p3"]]);
+    expect(final.matches).toHaveLength(1);
+    expect(validateBracket("SINGLE_ELIMINATION", bracket, players(5))).toEqual(
+      []
+    );
+  });
+
+  it("sits each player out once in an odd round robin", () => {
+    const field = players(5);
+    const bracket = buildBracket("ROUND_ROBIN", field);
+
+    expect(bracket.rounds).toHaveLength(5);
+    field.forEach((player) => {
+      const sittingOut = bracket.rounds.filter(
+        (round) =>
+          !round.matches.some((match) =>
+            getMatchPlayers(match).includes(player)
+          )
+      );
+      expect(sittingOut).toHaveLength(1);
+    });
+
+    const pairings = bracket.rounds.flatMap((round) =>
+      round.matches.map(pairKey)
+    );
+    expect(new Set(pairings).size).toBe(10);
+    expect(pairings).toHaveLength(10);
+    expect(validateBracket("ROUND_ROBIN", bracket, field)).toEqual([]);
+  });
+
+  it("gives the lowest seed the opening bye in an odd Swiss field", () => {
+    const bracket = buildBracket("SWISS", players(5));
+
+    expect(bracket.rounds).toHaveLength(1);
+    const [round] = bracket.rounds;
+    expect(round.matches.map(getMatchPlayers)).toEqual([
+      ["p1", "p3"],
+      ["p2", "p4"],
+      ["p5"],
+    ]);
+    expect(round.matches[2]).toMatchObject({
+      isBye: true,
+      status: "completed",
+      winnerId: "p5",
+    });
+    expect(validateBracket("SWISS", bracket, players(5))).toEqual([]);
+  });
+
+  it("builds winners, losers and grand final sections for double elimination", () => {
+    const bracket = buildBracket("DOUBLE_ELIMINATION", players(8));
+    const sections = getBracketSections(bracket);
+
+    expect(sections.winners.map((round) => round.matches.length)).toEqual([
+      4, 2, 1,
+    ]);
+    expect(sections.losers.map((round) => round.matches.length)).toEqual([
+      2, 2, 1, 1,
+    ]);
+    expect(sections.finals).toHaveLength(1);
+    expect(validateBracket("DOUBLE_ELIMINATION", bracket, players(8))).toEqual(
+      []
+    );
+  });
+});
+
+describe("pairNextSwissRound", () => {
+  it("pairs every round without rematches", () => {
+    const field = players(6);
+    const bracket: TournamentBracket = buildBracket("SWISS", field);
+
+    for (let roundNumber = 2; roundNumber <= 3; roundNumber++) {
+      bracket.rounds = bracket.rounds.map(completeRound);
+      const round = pairNextSwissRound(bracket, field);
+      expect(round.roundNumber).toBe(roundNumber);
+      bracket.rounds.push(round);
+    }
+
+    const pairings = bracket.rounds.flatMap((round) =>
+      round.matches.map(pairKey)
+    );
+    expect(new Set(pairings).size).toBe(pairings.length);
+    expect(validateBracket("SWISS", bracket, field)).toEqual([]);
+  });
+
+  it("doesn't give the same player a second bye", () => {
+    const field = players(5);
+    const bracket = buildBracket("SWISS", field);
+    bracket.rounds = bracket.rounds.map(completeRound);
+
+    const round = pairNextSwissRound(bracket, field);
+    const bye = round.matches.find((match) => match.isBye);
+
+    expect(bye?.player1Id).toBeDefined();
+    expect(bye?.player1Id).not.toBe("p5");
+    bracket.rounds.push(round);
+    expect(validateBracket("SWISS", bracket, field)).toEqual([]);
+  });
+});
+
+describe("validateBracket", () => {
+  it("reports an empty bracket", () => {
+    expect(validateBracket("SWISS", { rounds: [] }, players(4))).toEqual([
+      "Bracket has no rounds",
+    ]);
+  });
+
+  it("reports players missing from the opening round", () => {
+    const bracket = buildBracket("SINGLE_ELIMINATION", players(4));
+
+    expect(
+      validateBracket("SINGLE_ELIMINATION", bracket, players(5))
+    ).toContain("p5 is missing from the opening round");
+  });
+
+  it("reports a Swiss rematch", () => {
+    const field = players(4);
+    const bracket = buildBracket("SWISS", field);
+    const [opening] = bracket.rounds;
+    bracket.rounds.push({
+      ...opening,
+      id: "sw-r2",
+      roundNumber: 2,
+      matches: opening.matches.map((match) => ({
+        ...match,
+        id: match.id.replace("r1", "r2"),
+      })),
+    });
+
+    expect(validateBracket("SWISS", bracket, field)).toContain(
+      "Round 2: p1 and p3 have already met"
+    );
+  });
+
+  it("accepts a grand final reset but not a third final", () => {
+    const field = players(4);
+    const bracket = buildBracket("DOUBLE_ELIMINATION", field);
+    const reset: BracketRound = {
+      id: "gf-r2",
+      roundNumber: 2,
+      bracket: "grand_final",
+      matches: [{ id: "gf-r2-m1", player1Id: "", status: "pending" }],
+    };
+
+    bracket.rounds.push(reset);
+    expect(validateBracket("DOUBLE_ELIMINATION", bracket, field)).toEqual([]);
+
+    bracket.rounds.push({ ...reset, id: "gf-r3", roundNumber: 3 });
+    expect(validateBracket("DOUBLE_ELIMINATION", bracket, field)).toContain(
+      "Grand final: expected 1 or 2 rounds, found 3"
+    );
+  });
+
+  it("reports a player who keeps playing after a third loss", () => {
+    const field = players(4);
+    const bracket = buildBracket("DOUBLE_ELIMINATION", field);
+    const loss = (id: string): BracketMatch => ({
+      id,
+      player1Id: "p1",
+      player2Id: "p4",
+      status: "completed",
+      winnerId: "p1",
+    });
+    const sections = getBracketSections(bracket);
+    sections.losers[0].matches = [loss("lb-r1-m1")];
+    sections.losers[1].matches = [loss("lb-r2-m1")];
+    sections.finals[0].matches = [loss("gf-r1-m1")];
+
+    expect(validateBracket("DOUBLE_ELIMINATION", bracket, field)).toContain(
+      "p4 has 3 losses but is still playing"
+    );
+  });
+});
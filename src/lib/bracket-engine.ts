@@ -0,0 +1,528 @@
+import {
+  BracketMatch,
+  BracketRound,
+  TournamentBracket,
+  TournamentParticipant,
+} from "@/services/TournamentService";
+import { AdminTournament } from "@/types/admin";
+import {
+  getBracketSections,
+  getMatchPlayers,
+  computeStandings,
+} from "@/lib/bracket";
+
+// Bracket generation and validation
+//
+// Builds brackets for every supported format from a seeded participant list
+// so admins can preview them before the server generates the real one, and
+// checks server-returned brackets for structural problems. Everything here
+// is pure so it can run offline.
+
+export type BracketFormat = NonNullable<AdminTournament["bracketType"]>;
+
+export function nextPowerOfTwo(count: number): number {
+  let size = 1;
+  while (size < count) size *= 2;
+  return size;
+}
+
+/**
+ * Active participants ordered by seed
+ */
+export function getSeededPlayers(
+  participants: TournamentParticipant[]
+): string[] {
+  return participants
+    .filter((participant) => participant.status !== "withdrawn")
+    .sort((a, b) => a.seed - b.seed)
+    .map((participant) => participant.userId);
+}
+
+/**
+ * Standard bracket order for a power-of-two field, so seed 1 and seed 2
+ * can only meet in the final: [1, 8, 4, 5, 2, 7, 3, 6] for eight slots
+ */
+export function getSeedPositions(size: number): number[] {
+  let positions = [1];
+  while (positions.length < size) {
+    const next = positions.length * 2 + 1;
+    positions = positions.flatMap((seed) => [seed, next - seed]);
+  }
+  return positions;
+}
+
+function createMatch(
+  id: string,
+  player1Id: string = "",
+  player2Id?: string,
+  isBye: boolean = false
+): BracketMatch {
+  return isBye
+    ? { id, player1Id, status: "completed", winnerId: player1Id, isBye: true }
+    : { id, player1Id, player2Id, status: "pending" };
+}
+
+/**
+ * Knockout rounds for a seeded field. Slots beyond the field become byes
+ * for the top seeds, and bye winners are placed straight into round two.
+ */
+function buildKnockoutRounds(
+  players: string[],
+  prefix: string,
+  section?: BracketRound["bracket"]
+): BracketRound[] {
+  const size = nextPowerOfTwo(players.length);
+  const slots = getSeedPositions(size).map((seed) => players[seed - 1]);
+  const rounds: BracketRound[] = [];
+
+  let matchCount = size / 2;
+  for (let roundNumber = 1; matchCount >= 1; roundNumber++) {
+    const previous = rounds[rounds.length - 1];
+    const matches: BracketMatch[] = [];
+
+    for (let index = 0; index < matchCount; index++) {
+      const id = `${prefix}-r${roundNumber}-m${index + 1}`;
+      if (!previous) {
+        const [player1, player2] = [slots[index * 2], slots[index * 2 + 1]];
+        matches.push(createMatch(id, player1, player2, !player2));
+      } else {
+        const [feeder1, feeder2] = [
+          previous.matches[index * 2],
+          previous.matches[index * 2 + 1],
+        ];
+        matches.push(createMatch(id, feeder1.winnerId, feeder2.winnerId));
+      }
+    }
+
+    rounds.push({
+      id: `${prefix}-r${roundNumber}`,
+      roundNumber,
+      ...(section && { bracket: section }),
+      matches,
+    });
+    matchCount /= 2;
+  }
+
+  return rounds;
+}
+
+function buildDoubleElimination(players: string[]): BracketRound[] {
+  const winners = buildKnockoutRounds(players, "wb", "winners");
+  const size = nextPowerOfTwo(players.length);
+  const losers: BracketRound[] = [];
+
+  // Losers rounds come in pairs: one where winners-bracket losers drop in,
+  // one where the survivors play each other
+  const losersRounds = 2 * (winners.length - 1);
+  for (let roundNumber = 1; roundNumber <= losersRounds; roundNumber++) {
+    const matchCount = size / 2 ** (Math.ceil(roundNumber / 2) + 1);
+    losers.push({
+      id: `lb-r${roundNumber}`,
+      roundNumber,
+      bracket: "losers",
+      matches: Array.from({ length: matchCount }, (_, index) =>
+        createMatch(`lb-r${roundNumber}-m${index + 1}`)
+      ),
+    });
+  }
+
+  const grandFinal: BracketRound = {
+    id: "gf-r1",
+    roundNumber: 1,
+    bracket: "grand_final",
+    matches: [createMatch("gf-r1-m1")],
+  };
+
+  return [...winners, ...losers, grandFinal];
+}
+
+/**
+ * Circle method: the first player stays put while the rest rotate, so
+ * everyone meets once. With an odd field one player sits out each round.
+ */
+function buildRoundRobin(players: string[]): BracketRound[] {
+  const field: (string | null)[] =
+    players.length % 2 === 0 ? [...players] : [...players, null];
+  const rounds: BracketRound[] = [];
+
+  for (let roundNumber = 1; roundNumber < field.length; roundNumber++) {
+    const matches: BracketMatch[] = [];
+    for (let index = 0; index < field.length / 2; index++) {
+      const home = field[index];
+      const away = field[field.length - 1 - index];
+      if (home && away) {
+        matches.push(
+          createMatch(`rr-r${roundNumber}-m${matches.length + 1}`, home, away)
+        );
+      }
+    }
+    rounds.push({ id: `rr-r${roundNumber}`, roundNumber, matches });
+
+    field.splice(1, 0, field.pop()!);
+  }
+
+  return rounds;
+}
+
+export function getSwissRoundCount(playerCount: number): number {
+  return playerCount < 2 ? 0 : Math.ceil(Math.log2(playerCount));
+}
+
+/**
+ * Opening Swiss round: top half of the seeds plays the bottom half, and
+ * the lowest seed gets the bye in an odd field
+ */
+function buildSwissOpeningRound(players: string[]): BracketRound {
+  const field = [...players];
+  const bye = field.length % 2 === 1 ? field.pop() : undefined;
+  const half = field.length / 2;
+
+  const matches = field
+    .slice(0, half)
+    .map((player, index) =>
+      createMatch(`sw-r1-m${index + 1}`, player, field[index + half])
+    );
+  if (bye) {
+    matches.push(
+      createMatch(`sw-r1-m${matches.length + 1}`, bye, undefined, true)
+    );
+  }
+
+  return { id: "sw-r1", roundNumber: 1, matches };
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const chunkPairs = (pool: string[]): [string, string][] =>
+  Array.from({ length: pool.length / 2 }, (_, index) => [
+    pool[index * 2],
+    pool[index * 2 + 1],
+  ]);
+
+// Each player takes the highest-ranked opponent they haven't met, backing
+// up when that leaves the rest of the table unpairable. Null if every
+// pairing needs a rematch somewhere.
+function pairWithoutRematches(
+  pool: string[],
+  played: Set<string>
+): [string, string][] | null {
+  if (pool.length === 0) return [];
+  const [player, ...rest] = pool;
+  for (const [index, opponent] of rest.entries()) {
+    if (played.has(pairKey(player, opponent))) continue;
+    const remaining = rest.filter((_, other) => other !== index);
+    const pairs = pairWithoutRematches(remaining, played);
+    if (pairs) return [[player, opponent], ...pairs];
+  }
+  return null;
+}
+
+/**
+ * Pair the next Swiss round from the current standings. Players are
+ * matched down the table without rematches whenever the field allows it; the lowest-ranked player without a bye sits out an odd field.
+ */
+export function pairNextSwissRound(
+  bracket: TournamentBracket,
+  playerIds: string[]
+): BracketRound {
+  const roundNumber =
+    Math.max(0, ...bracket.rounds.map((round) => round.roundNumber)) + 1;
+  const standings = computeStandings(bracket, playerIds).filter((row) =>
+    playerIds.includes(row.playerId)
+  );
+  const played = new Set<string>();
+  bracket.rounds.forEach((round) =>
+    round.matches.forEach((match) => {
+      if (match.player2Id) {
+        played.add(pairKey(match.player1Id, match.player2Id));
+      }
+    })
+  );
+
+  const pool = standings.map((row) => row.playerId);
+  const matches: BracketMatch[] = [];
+  const id = () => `sw-r${roundNumber}-m${matches.length + 1}`;
+
+  let bye: string | undefined;
+  if (pool.length % 2 === 1) {
+    const candidates = standings.filter((row) => row.byes === 0);
+    bye = (
+      candidates[candidates.length - 1] || standings[standings.length - 1]
+    ).playerId;
+    pool.splice(pool.indexOf(bye), 1);
+  }
+
+  // Fall back to pairing straight down the table, rematches and all,
+  // rather than leaving someone unpaired
+  const pairs = pairWithoutRematches(pool, played) || chunkPairs(pool);
+  pairs.forEach(([player, opponent]) =>
+    matches.push(createMatch(id(), player, opponent))
+  );
+  if (bye) matches.push(createMatch(id(), bye, undefined, true));
+
+  return { id: `sw-r${roundNumber}`, roundNumber, matches };
+}
+
+/**
+ * Build a bracket for the format from players in seed order. Swiss
+ * brackets contain the opening round only; later rounds depend on results.
+ */
+export function buildBracket(
+  format: BracketFormat,
+  players: string[]
+): TournamentBracket {
+  if (players.length < 2) {
+    throw new Error("At least two players are needed to build a bracket");
+  }
+
+  switch (format) {
+    case "SINGLE_ELIMINATION":
+      return { rounds: buildKnockoutRounds(players, "se") };
+    case "DOUBLE_ELIMINATION":
+      return { rounds: buildDoubleElimination(players) };
+    case "ROUND_ROBIN":
+      return { rounds: buildRoundRobin(players) };
+    case "SWISS":
+      return { rounds: [buildSwissOpeningRound(players)] };
+  }
+}
+
+// Validation
+
+function checkKnockoutRounds(
+  rounds: BracketRound[],
+  playerCount: number,
+  label: string,
+  describe: (playerId: string) => string,
+  errors: string[]
+) {
+  const expectedRounds = Math.log2(nextPowerOfTwo(playerCount));
+  if (rounds.length !== expectedRounds) {
+    errors.push(
+      `${label}: expected ${expectedRounds} rounds for ${playerCount} players, found ${rounds.length}`
+    );
+  }
+
+  let expectedMatches = nextPowerOfTwo(playerCount) / 2;
+  rounds.forEach((round, index) => {
+    if (round.matches.length !== expectedMatches) {
+      errors.push(
+        `${label} round ${round.roundNumber}: expected ${expectedMatches} matches, found ${round.matches.length}`
+      );
+    }
+    expectedMatches /= 2;
+
+    round.matches.forEach((match) => {
+      if (match.status === "completed" && !match.winnerId) {
+        errors.push(
+          `${label} round ${round.roundNumber}: match ${match.id} is completed without a winner`
+        );
+      }
+    });
+
+    // Every player after the opening round must have won a feeder match,
+    // and every decided feeder's winner must have moved on
+    const previous = rounds[index - 1];
+    if (!previous) return;
+    round.matches.forEach((match, matchIndex) => {
+      const feeders = [
+        previous.matches[matchIndex * 2],
+        previous.matches[matchIndex * 2 + 1],
+      ].filter(Boolean);
+      const feederWinners = feeders
+        .map((feeder) => feeder.winnerId)
+        .filter((id): id is string => !!id);
+
+      getMatchPlayers(match).forEach((playerId) => {
+        if (!feederWinners.includes(playerId)) {
+          errors.push(
+            `${label} round ${round.roundNumber}: ${describe(playerId)} advanced without winning a feeder match`
+          );
+        }
+      });
+      feederWinners.forEach((winnerId) => {
+        if (!getMatchPlayers(match).includes(winnerId)) {
+          errors.push(
+            `${label} round ${round.roundNumber}: ${describe(winnerId)} won in round ${previous.roundNumber} but was not advanced`
+          );
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Check a bracket against the registered players and the rules of its
+ * format. Returns a list of human-readable problems; empty means valid.
+ */
+export function validateBracket(
+  format: BracketFormat,
+  bracket: TournamentBracket,
+  playerIds: string[],
+  describe: (playerId: string) => string = (playerId) => playerId
+): string[] {
+  const errors: string[] = [];
+  const known = new Set(playerIds);
+  const playerCount = playerIds.length;
+
+  if (bracket.rounds.length === 0) {
+    return ["Bracket has no rounds"];
+  }
+
+  bracket.rounds.forEach((round) => {
+    const seen = new Set<string>();
+    round.matches.forEach((match) => {
+      getMatchPlayers(match).forEach((playerId) => {
+        if (!known.has(playerId)) {
+          errors.push(
+            `Round ${round.roundNumber}: match ${match.id} has a player who is not registered`
+          );
+        } else if (seen.has(playerId)) {
+          errors.push(
+            `Round ${round.roundNumber}: ${describe(playerId)} appears in more than one match`
+          );
+        }
+        seen.add(playerId);
+      });
+
+      if (match.winnerId && !getMatchPlayers(match).includes(match.winnerId)) {
+        errors.push(
+          `Round ${round.roundNumber}: winner of match ${match.id} did not play in it`
+        );
+      }
+    });
+  });
+
+  const sections = getBracketSections(bracket);
+  const opening = sections.winners[0];
+  const seeded = new Set(
+    opening ? opening.matches.flatMap(getMatchPlayers) : []
+  );
+  if (format !== "ROUND_ROBIN") {
+    playerIds
+      .filter((playerId) => !seeded.has(playerId))
+      .forEach((playerId) =>
+        errors.push(`${describe(playerId)} is missing from the opening round`)
+      );
+  }
+
+  switch (format) {
+    case "SINGLE_ELIMINATION":
+      checkKnockoutRounds(
+        sections.winners,
+        playerCount,
+        "Bracket",
+        describe,
+        errors
+      );
+      break;
+
+    case "DOUBLE_ELIMINATION": {
+      checkKnockoutRounds(
+        sections.winners,
+        playerCount,
+        "Winners bracket",
+        describe,
+        errors
+      );
+      const expectedLosers = 2 * (sections.winners.length - 1);
+      if (sections.losers.length !== expectedLosers) {
+        errors.push(
+          `Losers bracket: expected ${expectedLosers} rounds, found ${sections.losers.length}`
+        );
+      }
+      if (sections.finals.length < 1 || sections.finals.length > 2) {
+        errors.push(
+          `Grand final: expected 1 or 2 rounds, found ${sections.finals.length}`
+        );
+      }
+
+      // Two losses knock a player out
+      const losses = new Map<string, number>();
+      bracket.rounds.forEach((round) =>
+        round.matches.forEach((match) => {
+          if (match.status !== "completed" || !match.winnerId) return;
+          getMatchPlayers(match)
+            .filter((playerId) => playerId !== match.winnerId)
+            .forEach((playerId) =>
+              losses.set(playerId, (losses.get(playerId) || 0) + 1)
+            );
+        })
+      );
+      losses.forEach((count, playerId) => {
+        if (count > 2) {
+          errors.push(
+            `${describe(playerId)} has ${count} losses but is still playing`
+          );
+        }
+      });
+      break;
+    }
+
+    case "ROUND_ROBIN": {
+      const expectedRounds =
+        playerCount % 2 === 0 ? playerCount - 1 : playerCount;
+      if (bracket.rounds.length !== expectedRounds) {
+        errors.push(
+          `Expected ${expectedRounds} rounds for ${playerCount} players, found ${bracket.rounds.length}`
+        );
+      }
+
+      const pairings = new Map<string, number>();
+      bracket.rounds.forEach((round) =>
+        round.matches.forEach((match) => {
+          if (!match.player2Id) return;
+          const key = pairKey(match.player1Id, match.player2Id);
+          pairings.set(key, (pairings.get(key) || 0) + 1);
+        })
+      );
+      pairings.forEach((count, key) => {
+        if (count > 1) {
+          const [a, b] = key.split("|");
+          errors.push(`${describe(a)} and ${describe(b)} meet ${count} times`);
+        }
+      });
+      const expectedPairings = (playerCount * (playerCount - 1)) / 2;
+      if (pairings.size < expectedPairings) {
+        errors.push(
+          `${expectedPairings - pairings.size} pairings are missing from the schedule`
+        );
+      }
+      break;
+    }
+
+    case "SWISS": {
+      if (bracket.rounds.length > playerCount - 1) {
+        errors.push(
+          `${bracket.rounds.length} rounds is more than a ${playerCount}-player field can pair without rematches`
+        );
+      }
+
+      const pairings = new Set<string>();
+      const byes = new Map<string, number>();
+      bracket.rounds.forEach((round) =>
+        round.matches.forEach((match) => {
+          if (!match.player2Id) {
+            byes.set(match.player1Id, (byes.get(match.player1Id) || 0) + 1);
+            return;
+          }
+          const key = pairKey(match.player1Id, match.player2Id);
+          if (pairings.has(key)) {
+            errors.push(
+              `Round ${round.roundNumber}: ${describe(match.player1Id)} and ${describe(match.player2Id)} have already met`
+            );
+          }
+          pairings.add(key);
+        })
+      );
+      byes.forEach((count, playerId) => {
+        if (count > 1) {
+          errors.push(`${describe(playerId)} has received ${count} byes`);
+        }
+      });
+      break;
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,218 @@
+import {
+  BracketMatch,
+  BracketRound,
+  TournamentBracket,
+} from "@/services/TournamentService";
+
+// Helpers for drawing and editing a generated tournament bracket
+
+export interface BracketSections {
+  winners: BracketRound[];
+  losers: BracketRound[];
+  finals: BracketRound[];
+}
+
+export interface StandingRow {
+  playerId: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  byes: number;
+  points: number;
+  buchholz: number; // Sum of opponents' points, Swiss tiebreak
+}
+
+const byRoundNumber = (a: BracketRound, b: BracketRound) =>
+  a.roundNumber - b.roundNumber;
+
+/**
+ * Split rounds into winners, losers and grand final sections. Rounds
+ * without a section (single elimination, round robin, Swiss) count as
+ * winners rounds.
+ */
+export function getBracketSections(
+  bracket: TournamentBracket
+): BracketSections {
+  return {
+    winners: bracket.rounds
+      .filter((round) => !round.bracket || round.bracket === "winners")
+      .sort(byRoundNumber),
+    losers: bracket.rounds
+      .filter((round) => round.bracket === "losers")
+      .sort(byRoundNumber),
+    finals: bracket.rounds
+      .filter((round) => round.bracket === "grand_final")
+      .sort(byRoundNumber),
+  };
+}
+
+export function getMatchPlayers(match: BracketMatch): string[] {
+  return [match.player1Id, match.player2Id].filter((id): id is string => !!id);
+}
+
+/**
+ * Whether a match is a bye. For brackets that don't mark their byes, a
+ * match with one player is a bye in the opening round or once it has been
+ * completed; later pending ones are waiting on a feeder match.
+ */
+export function isBye(match: BracketMatch, round?: BracketRound): boolean {
+  if (match.isBye !== undefined) return match.isBye;
+  if (!match.player1Id || match.player2Id) return false;
+  const openingRound =
+    round?.roundNumber === 1 && (!round.bracket || round.bracket === "winners");
+  return (
+    openingRound ||
+    (match.status === "completed" && match.winnerId === match.player1Id)
+  );
+}
+
+/**
+ * Whether a round robin or Swiss match is a bye. Those formats have no
+ * feeder matches, so a match with one player is a bye in any round and
+ * whatever its status, marked or not.
+ */
+export function isTableBye(match: BracketMatch): boolean {
+  return match.isBye ?? (!!match.player1Id && !match.player2Id);
+}
+
+/**
+ * Results can be recorded once both players are known and the match
+ * hasn't been completed
+ */
+export function canRecordResult(match: BracketMatch): boolean {
+  return (
+    !!match.player1Id && !!match.player2Id && match.status !== "completed"
+  );
+}
+
+/**
+ * Seeds can only be moved while no match has been played
+ */
+export function isBracketStarted(bracket: TournamentBracket): boolean {
+  return bracket.rounds.some((round) =>
+    round.matches.some((match) => match.status !== "pending")
+  );
+}
+
+/**
+ * Swap two players' positions in the opening round
+ */
+export function swapOpeningPlayers(
+  bracket: TournamentBracket,
+  playerA: string,
+  playerB: string
+): TournamentBracket {
+  const opening = getBracketSections(bracket).winners[0];
+  const swap = (id?: string) =>
+    id === playerA ? playerB : id === playerB ? playerA : id;
+
+  return {
+    ...bracket,
+    rounds: bracket.rounds.map((round) =>
+      round.id !== opening?.id
+        ? round
+        : {
+            ...round,
+            matches: round.matches.map((match) => ({
+              ...match,
+              player1Id: swap(match.player1Id) || "",
+              player2Id: swap(match.player2Id),
+            })),
+          }
+    ),
+  };
+}
+
+/**
+ * Result of a round robin pairing from playerA's point of view
+ */
+export function getHeadToHead(
+  bracket: TournamentBracket,
+  playerA: string,
+  playerB: string
+): "win" | "loss" | "draw" | "pending" | null {
+  for (const round of bracket.rounds) {
+    const match = round.matches.find(
+      (m) =>
+        (m.player1Id === playerA && m.player2Id === playerB) ||
+        (m.player1Id === playerB && m.player2Id === playerA)
+    );
+    if (!match) continue;
+    if (match.status !== "completed") return "pending";
+    if (!match.winnerId) return "draw";
+    return match.winnerId === playerA ? "win" : "loss";
+  }
+  return null;
+}
+
+/**
+ * Points table for round robin and Swiss: a win or bye is worth 1, a draw
+ * 0.5. Ties are broken on Buchholz, then wins.
+ */
+export function computeStandings(
+  bracket: TournamentBracket,
+  playerIds: string[]
+): StandingRow[] {
+  const rows = new Map<string, StandingRow>();
+  const opponents = new Map<string, string[]>();
+
+  const row = (playerId: string) => {
+    if (!rows.has(playerId)) {
+      rows.set(playerId, {
+        playerId,
+        played: 0,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        byes: 0,
+        points: 0,
+        buchholz: 0,
+      });
+      opponents.set(playerId, []);
+    }
+    return rows.get(playerId)!;
+  };
+
+  playerIds.forEach(row);
+
+  bracket.rounds.forEach((round) =>
+    round.matches.forEach((match) => {
+      if (isTableBye(match)) {
+        const player = row(match.player1Id);
+        player.byes++;
+        player.points += 1;
+        return;
+      }
+      if (match.status !== "completed" || !match.player2Id) return;
+
+      const [a, b] = [row(match.player1Id), row(match.player2Id)];
+      opponents.get(a.playerId)!.push(b.playerId);
+      opponents.get(b.playerId)!.push(a.playerId);
+      a.played++;
+      b.played++;
+
+      if (!match.winnerId) {
+        a.draws++;
+        b.draws++;
+        a.points += 0.5;
+        b.points += 0.5;
+      } else {
+        const [winner, loser] = match.winnerId === a.playerId ? [a, b] : [b, a];
+        winner.wins++;
+        winner.points += 1;
+        loser.losses++;
+      }
+    })
+  );
+
+  rows.forEach((standing) => {
+    standing.buchholz = opponents
+      .get(standing.playerId)!
+      .reduce((sum, id) => sum + rows.get(id)!.points, 0);
+  });
+
+  return Array.from(rows.values()).sort(
+    (a, b) => b.points - a.points || b.buchholz - a.buchholz || b.wins - a.wins
+  );
+}
@@ -0,0 +1,262 @@
+import type { UserGameHistory } from "@/services/UserService";
+import type {
+  CollusionFinding,
+  CollusionFindingType,
+  FlaggedGame,
+} from "@/services/RiskService";
+
+// Collusion and match-fixing detection
+//
+// Game histories are paired up by opponent so each head-to-head can be seen
+// from both sides. A pair is flagged when one player wins far more often
+// against the other than against anyone else, when their prize-tournament
+// games end implausibly fast, or when one keeps farming rating from the
+// same weaker account.
+
+export interface AnalysedPlayer {
+  userId: string;
+  username: string;
+  rating?: number;
+  games: UserGameHistory[];
+}
+
+// Head-to-head asymmetry
+export const MIN_HEAD_TO_HEAD_GAMES = 6;
+const ASYMMETRY_WIN_SHARE = 0.85;
+const ASYMMETRY_GAP = 0.35; // vs. the winner's rate against everyone else
+const MIN_OTHER_GAMES = 5;
+
+type GameType = UserGameHistory["gameType"];
+
+// Games over faster than this (in seconds) weren't really played
+export const SHORT_GAME_SECONDS: Record<GameType, number> = {
+  chess: 90,
+  checkers: 60,
+  connect4: 30,
+  tictactoe: 8,
+};
+const MIN_SHORT_GAMES = 2;
+
+// Rating pumping
+export const MIN_PUMP_WINS = 5;
+const PUMP_RATING_GAP = 200;
+const PUMP_OPPONENT_WIN_RATE = 0.25; // when the opponent's rating is unknown
+
+export const COLLUSION_FINDING_LABELS: Record<CollusionFindingType, string> = {
+  win_asymmetry: "Head-to-head asymmetry",
+  short_games: "Short prize games",
+  rating_pumping: "Rating pumping",
+};
+
+interface PairGames {
+  ids: [string, string];
+  usernames: [string, string];
+  games: FlaggedGame[]; // Results from the first player's side
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const flip = (result: UserGameHistory["result"]) =>
+  result === "win" ? "loss" : result === "loss" ? "win" : "draw";
+
+/**
+ * Every head-to-head among the players, each game counted once even when
+ * both players' histories include it
+ */
+export function pairGames(players: AnalysedPlayer[]): PairGames[] {
+  const pairs = new Map<string, PairGames>();
+  const seen = new Set<string>();
+
+  players.forEach((player) => {
+    player.games.forEach((game) => {
+      if (seen.has(game.id)) return;
+      seen.add(game.id);
+
+      const first = player.userId < game.opponentId;
+      const ids: [string, string] = first
+        ? [player.userId, game.opponentId]
+        : [game.opponentId, player.userId];
+      const key = ids.join("|");
+      const pair = pairs.get(key) || {
+        ids,
+        usernames: first
+          ? [player.username, game.opponentUsername]
+          : [game.opponentUsername, player.username],
+        games: [],
+      };
+      pair.games.push({
+        id: game.id,
+        gameType: game.gameType,
+        result: first ? game.result : flip(game.result),
+        duration: game.duration,
+        eloChange: first ? game.eloChange : -game.eloChange,
+        tournamentId: game.tournamentId,
+        tournamentName: game.tournamentName,
+        createdAt: game.createdAt,
+      });
+      pairs.set(key, pair);
+    });
+  });
+
+  return Array.from(pairs.values());
+}
+
+// Win rate over decisive games against everyone except one opponent
+function winRateExcluding(player: AnalysedPlayer, opponentId: string) {
+  const decisive = player.games.filter(
+    (game) => game.opponentId !== opponentId && game.result !== "draw"
+  );
+  if (decisive.length < MIN_OTHER_GAMES) return undefined;
+  return (
+    decisive.filter((game) => game.result === "win").length / decisive.length
+  );
+}
+
+function tournamentsOf(games: FlaggedGame[]) {
+  const tournaments = new Map<string, string>();
+  games.forEach((game) => {
+    if (game.tournamentId) {
+      tournaments.set(
+        game.tournamentId,
+        game.tournamentName || game.tournamentId
+      );
+    }
+  });
+  return Array.from(tournaments.entries()).map(([id, name]) => ({ id, name }));
+}
+
+// Who won each decisive game, with index 0 or 1 into the pair
+const winnerIndex = (game: FlaggedGame) => (game.result === "win" ? 0 : 1);
+
+function findAsymmetry(
+  pair: PairGames,
+  players: Map<string, AnalysedPlayer>
+): CollusionFinding | null {
+  const decisive = pair.games.filter((game) => game.result !== "draw");
+  if (decisive.length < MIN_HEAD_TO_HEAD_GAMES) return null;
+
+  const firstWins = decisive.filter((game) => winnerIndex(game) === 0).length;
+  const winner = firstWins * 2 >= decisive.length ? 0 : 1;
+  const wins = winner === 0 ? firstWins : decisive.length - firstWins;
+  const share = wins / decisive.length;
+  if (share < ASYMMETRY_WIN_SHARE) return null;
+
+  const winnerPlayer = players.get(pair.ids[winner]);
+  const otherRate =
+    winnerPlayer && winRateExcluding(winnerPlayer, pair.ids[1 - winner]);
+  if (otherRate === undefined || share - otherRate < ASYMMETRY_GAP) {
+    return null;
+  }
+
+  const games = decisive.filter((game) => winnerIndex(game) === winner);
+  return {
+    type: "win_asymmetry",
+    playerIds: pair.ids,
+    usernames: pair.usernames,
+    summary:
+      `@${pair.usernames[winner]} beat @${pair.usernames[1 - winner]} in ` +
+      `${wins} of ${decisive.length} decisive games`,
+    details: [
+      `${percent(share)} head-to-head against ${percent(otherRate)} ` +
+        `against everyone else`,
+    ],
+    games,
+    tournaments: tournamentsOf(games),
+  };
+}
+
+function findShortGames(
+  pair: PairGames,
+  prizeTournamentIds: Set<string>
+): CollusionFinding | null {
+  const games = pair.games.filter(
+    (game) =>
+      game.tournamentId &&
+      prizeTournamentIds.has(game.tournamentId) &&
+      game.duration < SHORT_GAME_SECONDS[game.gameType]
+  );
+  if (games.length < MIN_SHORT_GAMES) return null;
+
+  return {
+    type: "short_games",
+    playerIds: pair.ids,
+    usernames: pair.usernames,
+    summary:
+      `${games.length} prize-tournament games between ` +
+      `@${pair.usernames[0]} and @${pair.usernames[1]} ended too quickly`,
+    details: games.map(
+      (game) =>
+        `${game.gameType} over in ${game.duration}s (expected at least ` +
+        `${SHORT_GAME_SECONDS[game.gameType]}s)`
+    ),
+    games,
+    tournaments: tournamentsOf(games),
+  };
+}
+
+function findRatingPumping(
+  pair: PairGames,
+  players: Map<string, AnalysedPlayer>
+): CollusionFinding | null {
+  for (const winner of [0, 1]) {
+    const wins = pair.games.filter(
+      (game) => game.result !== "draw" && winnerIndex(game) === winner
+    );
+    if (wins.length < MIN_PUMP_WINS) continue;
+
+    // Elo changes are stored from the first player's side
+    const gained = wins.reduce(
+      (sum, game) => sum + (winner === 0 ? game.eloChange : -game.eloChange),
+      0
+    );
+    if (gained <= 0) continue;
+
+    const winnerPlayer = players.get(pair.ids[winner]);
+    const loserPlayer = players.get(pair.ids[1 - winner]);
+    const loserRate =
+      loserPlayer && winRateExcluding(loserPlayer, pair.ids[winner]);
+    const weaker =
+      winnerPlayer?.rating !== undefined && loserPlayer?.rating !== undefined
+        ? winnerPlayer.rating - loserPlayer.rating >= PUMP_RATING_GAP
+        : loserRate !== undefined && loserRate < PUMP_OPPONENT_WIN_RATE;
+    if (!weaker) continue;
+
+    const loserName = pair.usernames[1 - winner];
+    return {
+      type: "rating_pumping",
+      playerIds: pair.ids,
+      usernames: pair.usernames,
+      summary:
+        `@${pair.usernames[winner]} gained ${gained} rating from ` +
+        `${wins.length} wins over @${loserName}`,
+      details: [
+        loserPlayer?.rating !== undefined
+          ? `@${loserName} is rated ${loserPlayer.rating}` +
+            (winnerPlayer?.rating !== undefined
+              ? ` against ${winnerPlayer.rating}`
+              : "")
+          : `@${loserName} wins ${percent(loserRate!)} of their other games`,
+      ],
+      games: wins,
+      tournaments: tournamentsOf(wins),
+    };
+  }
+  return null;
+}
+
+/**
+ * Run every check over each pair of players who have met
+ */
+export function detectCollusion(
+  players: AnalysedPlayer[],
+  prizeTournamentIds: Set<string>
+): CollusionFinding[] {
+  const byId = new Map(players.map((player) => [player.userId, player]));
+  return pairGames(players).flatMap((pair) =>
+    [
+      findAsymmetry(pair, byId),
+      findShortGames(pair, prizeTournamentIds),
+      findRatingPumping(pair, byId),
+    ].filter((finding): finding is CollusionFinding => finding !== null)
+  );
+}
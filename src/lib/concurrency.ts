@@ -0,0 +1,31 @@
+// Bounded concurrency for per-item API calls
+//
+// Pages that load something for every player or withdrawal use this rather
+// than Promise.all, so a large field doesn't fire hundreds of requests at
+// once.
+
+/**
+ * Map over items with at most `limit` calls in flight. Results keep the
+ * order of the input; a rejected call rejects the whole map, so callers
+ * that want to carry on catch inside `fn`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
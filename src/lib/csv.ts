@@ -0,0 +1,135 @@
+// Minimal RFC 4180 CSV helpers for files generated and imported in the browser
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+}
+
+/**
+ * Parse CSV text into rows of cells, each with the file line it starts on.
+ * Handles quoted cells, escaped quotes and CRLF line endings; blank lines
+ * are dropped.
+ */
+export function parseCsvLines(
+  text: string
+): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++;
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+        line++;
+      }
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      cell = "";
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push({ line: rowLine, cells: row });
+
+  return rows.filter((r) => r.cells.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parse CSV text into rows of cells
+ */
+export function parseCsv(text: string): string[][] {
+  return parseCsvLines(text).map((row) => row.cells);
+}
+
+/**
+ * Normalise a column name to snake case ("Transaction ID", "transactionId"
+ * and "transaction-id" all become "transaction_id")
+ */
+export function normaliseHeader(name: string): string {
+  return name
+    .trim()
+    .replace(/([a-z])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Parse CSV with a header row into objects keyed by normalised header
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const keys = header.map(normaliseHeader);
+  return rows.map((row) =>
+    Object.fromEntries(keys.map((key, index) => [key, row[index]?.trim() ?? ""]))
+  );
+}
+
+/**
+ * Trigger a browser download for generated file content
+ */
+export function downloadFile(
+  content: BlobPart,
+  filename: string,
+  type: string = "text/csv;charset=utf-8"
+): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Hex-encoded SHA-256 digest of a string, used as a file checksum
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(text);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,148 @@
+import { startOfMonth, subMonths } from "date-fns";
+import { DashboardMetrics } from "@/types/admin";
+import {
+  AdminStats,
+  OnlinePlayersData,
+  ActiveGamesData,
+} from "@/services/AdminStatsService";
+import { PaymentAnalytics } from "@/services/PaymentService";
+
+export type MetricKey = keyof DashboardMetrics;
+
+export interface MetricsSnapshot {
+  takenAt: number;
+  metrics: Partial<DashboardMetrics>;
+}
+
+export interface MetricDelta {
+  change: number;
+  percentage: number | null; // null when the previous value was zero
+  direction: "increase" | "decrease" | "unchanged";
+}
+
+const SNAPSHOT_KEY = "admin_dashboard_snapshots";
+const SNAPSHOT_RETENTION = 8 * 24 * 60 * 60 * 1000; // 8 days
+const SNAPSHOT_INTERVAL = 60 * 60 * 1000; // at most one snapshot per hour
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Map the raw dashboard responses onto the DashboardMetrics shape.
+ * Only the fields the APIs actually provide are filled in.
+ */
+export function buildDashboardMetrics(
+  data: {
+    adminStats: AdminStats;
+    onlineData: OnlinePlayersData;
+    activeGames: ActiveGamesData;
+  },
+  paymentAnalytics?: PaymentAnalytics
+): Partial<DashboardMetrics> {
+  const metrics: Partial<DashboardMetrics> = {
+    totalUsers: data.adminStats.totalUsers,
+    activeUsers: data.adminStats.activeUsers,
+    activeTournaments: data.adminStats.activeTournaments,
+    totalTournaments: data.adminStats.totalTournaments,
+    activeGames: data.activeGames.sessions,
+  };
+
+  if (paymentAnalytics) {
+    metrics.totalRevenue = paymentAnalytics.totalRevenue;
+    metrics.revenueThisMonth = paymentAnalytics.revenueThisMonth;
+    metrics.paymentSuccessRate = paymentAnalytics.successRate;
+    metrics.averageTransactionValue = paymentAnalytics.averageTransactionValue;
+  }
+
+  return metrics;
+}
+
+export function computeDelta(
+  current: number | undefined,
+  previous: number | undefined
+): MetricDelta | null {
+  if (current === undefined || previous === undefined) return null;
+
+  const change = current - previous;
+  return {
+    change,
+    percentage: previous === 0 ? null : (change / previous) * 100,
+    direction: change > 0 ? "increase" : change < 0 ? "decrease" : "unchanged",
+  };
+}
+
+/**
+ * Last month from its first day up to the same point in the month as now,
+ * so month-to-date revenue is compared like for like. Short months clamp to
+ * their last day.
+ */
+export function getPreviousMonthToDate(now: Date = new Date()): {
+  start: string;
+  end: string;
+} {
+  const sameTimeLastMonth = subMonths(now, 1);
+  return {
+    start: startOfMonth(sameTimeLastMonth).toISOString(),
+    end: sameTimeLastMonth.toISOString(),
+  };
+}
+
+export function formatDelta(delta: MetricDelta, asPercentage = true): string {
+  const sign = delta.change > 0 ? "+" : "";
+  if (asPercentage && delta.percentage !== null) {
+    return `${sign}${delta.percentage.toFixed(1)}%`;
+  }
+  return `${sign}${delta.change.toLocaleString()}`;
+}
+
+// Snapshot history
+//
+// The stats endpoints only return current values, so we keep a short rolling
+// history in localStorage to compare against the previous period.
+
+function readSnapshots(): MetricsSnapshot[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(SNAPSHOT_KEY);
+    return raw ? (JSON.parse(raw) as MetricsSnapshot[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordMetricsSnapshot(
+  metrics: Partial<DashboardMetrics>,
+  now: number = Date.now()
+): void {
+  if (typeof window === "undefined") return;
+
+  const snapshots = readSnapshots().filter(
+    (snapshot) => now - snapshot.takenAt <= SNAPSHOT_RETENTION
+  );
+  const latest = snapshots[snapshots.length - 1];
+
+  if (latest && now - latest.takenAt < SNAPSHOT_INTERVAL) {
+    // Only fill in fields the current hour's snapshot is missing, so its
+    // values stay the ones seen at takenAt
+    latest.metrics = { ...metrics, ...latest.metrics };
+  } else {
+    snapshots.push({ takenAt: now, metrics });
+  }
+
+  localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshots));
+}
+
+/**
+ * Most recent snapshot from the previous period: at least one period old
+ * but less than two. Null when the dashboard wasn't opened then, rather
+ * than comparing against an older snapshot under the same label.
+ */
+export function getPreviousPeriodSnapshot(
+  periodMs: number = DAY_MS,
+  now: number = Date.now()
+): MetricsSnapshot | null {
+  const candidates = readSnapshots().filter((snapshot) => {
+    const age = now - snapshot.takenAt;
+    return age >= periodMs && age < 2 * periodMs;
+  });
+  return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+}
@@ -0,0 +1,178 @@
+import {
+  PaymentDispute,
+  DisputeDetails,
+  PaymentAuditEntry,
+} from "@/services/PaymentService";
+
+// Dispute queue ordering, SLA targets and timeline
+
+export type DisputeStatus = PaymentDispute["status"];
+export type DisputePriority = PaymentDispute["priority"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Time allowed to resolve an active dispute, by priority
+export const DISPUTE_SLA_MS: Record<DisputePriority, number> = {
+  urgent: 4 * HOUR_MS,
+  high: 24 * HOUR_MS,
+  medium: 72 * HOUR_MS,
+  low: 7 * 24 * HOUR_MS,
+};
+
+// Share of the SLA after which a dispute is flagged as ageing
+const SLA_WARNING_RATIO = 0.75;
+
+const PRIORITY_RANK: Record<DisputePriority, number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+// Allowed status changes; resolved and closed disputes can be reopened
+export const DISPUTE_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  open: ["investigating", "closed"],
+  investigating: ["resolved", "closed", "open"],
+  resolved: ["investigating"],
+  closed: ["open"],
+};
+
+// Badge classes shared by the queue and detail panel
+export const DISPUTE_PRIORITY_COLORS: Record<DisputePriority, string> = {
+  urgent: "bg-red-100 text-red-800",
+  high: "bg-orange-100 text-orange-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-gray-100 text-gray-800",
+};
+
+export const DISPUTE_STATUS_COLORS: Record<DisputeStatus, string> = {
+  open: "bg-blue-100 text-blue-800",
+  investigating: "bg-purple-100 text-purple-800",
+  resolved: "bg-green-100 text-green-800",
+  closed: "bg-gray-100 text-gray-800",
+};
+
+export interface SlaState {
+  elapsedMs: number;
+  remainingMs: number;
+  state: "ok" | "warning" | "breached" | "stopped";
+}
+
+export interface TimelineEvent {
+  id: string;
+  kind: "created" | "status" | "note" | "audit";
+  at: string;
+  actor?: string;
+  title: string;
+  body?: string;
+}
+
+export function isActiveDispute(dispute: PaymentDispute): boolean {
+  return dispute.status === "open" || dispute.status === "investigating";
+}
+
+export function getSlaState(
+  dispute: PaymentDispute,
+  now: number = Date.now()
+): SlaState {
+  const elapsedMs = now - new Date(dispute.createdAt).getTime();
+  const remainingMs = DISPUTE_SLA_MS[dispute.priority] - elapsedMs;
+
+  if (!isActiveDispute(dispute)) {
+    return { elapsedMs, remainingMs, state: "stopped" };
+  }
+  if (remainingMs <= 0) {
+    return { elapsedMs, remainingMs, state: "breached" };
+  }
+  return {
+    elapsedMs,
+    remainingMs,
+    state:
+      elapsedMs >= DISPUTE_SLA_MS[dispute.priority] * SLA_WARNING_RATIO
+        ? "warning"
+        : "ok",
+  };
+}
+
+/**
+ * Format a duration as "3d 4h", "5h 12m" or "8m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
+
+/**
+ * Active disputes first, then by priority, then by least SLA time left
+ */
+export function sortDisputeQueue(
+  disputes: PaymentDispute[],
+  now: number = Date.now()
+): PaymentDispute[] {
+  return [...disputes].sort((a, b) => {
+    const active = Number(isActiveDispute(b)) - Number(isActiveDispute(a));
+    if (active !== 0) return active;
+
+    const priority = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+    if (priority !== 0) return priority;
+
+    return getSlaState(a, now).remainingMs - getSlaState(b, now).remainingMs;
+  });
+}
+
+/**
+ * Merge the payment audit trail, internal notes and status changes into a
+ * single chronological timeline
+ */
+export function buildDisputeTimeline(
+  dispute: DisputeDetails,
+  auditEntries: PaymentAuditEntry[] = []
+): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    {
+      id: `created-${dispute.id}`,
+      kind: "created",
+      at: dispute.createdAt,
+      actor: dispute.user?.username,
+      title: "Dispute opened",
+      body: dispute.description || dispute.reason,
+    },
+    ...(dispute.statusHistory || []).map((change) => ({
+      id: `status-${change.id}`,
+      kind: "status" as const,
+      at: change.createdAt,
+      actor: change.changedBy,
+      title: `Status changed from ${change.fromStatus} to ${change.toStatus}`,
+      body: change.reason,
+    })),
+    ...(dispute.notes || []).map((note) => ({
+      id: `note-${note.id}`,
+      kind: "note" as const,
+      at: note.createdAt,
+      actor: note.authorName,
+      title: "Internal note",
+      body: note.body,
+    })),
+    ...auditEntries.map((entry) => ({
+      id: `audit-${entry.id}`,
+      kind: "audit" as const,
+      at: entry.createdAt,
+      actor: entry.performedBy,
+      title:
+        entry.previousStatus !== entry.newStatus
+          ? `Payment ${entry.action}: ${entry.previousStatus} → ${entry.newStatus}`
+          : `Payment ${entry.action}`,
+      body: entry.reason,
+    })),
+  ];
+
+  return events.sort(
+    (a, b) => new Date(a.at).getTime() - new Date(b.at).getTime()
+  );
+}
@@ -0,0 +1,120 @@
+import { FeatureFlag, UserRole } from "@/services/FeatureFlagService";
+
+// Feature flag evaluation
+//
+// The per-user view shows the API's own evaluation and only falls back to
+// this, labelled as a preview, when that can't be loaded. It follows the
+// API's order: the kill switch wins, then the enabled toggle, then the
+// allowlist. Everyone else must match every targeting list that has entries
+// and fall inside the rollout percentage.
+
+export const ZIMBABWE_PROVINCES = [
+  "Bulawayo",
+  "Harare",
+  "Manicaland",
+  "Mashonaland Central",
+  "Mashonaland East",
+  "Mashonaland West",
+  "Masvingo",
+  "Matabeleland North",
+  "Matabeleland South",
+  "Midlands",
+];
+
+export const FLAG_ROLES: UserRole[] = [
+  "user",
+  "support",
+  "moderator",
+  "admin",
+  "super_admin",
+];
+
+export interface FlagSubject {
+  id: string;
+  role: string;
+  province?: string;
+  city?: string;
+}
+
+export interface FlagEvaluation {
+  active: boolean;
+  reason: string;
+  bucket: number;
+}
+
+const matches = (list: string[], value?: string) =>
+  !!value &&
+  list.some((item) => item.trim().toLowerCase() === value.trim().toLowerCase());
+
+/**
+ * Stable 0-99 bucket for a user and flag (FNV-1a hash), so a user stays in
+ * or out of a rollout as the percentage changes
+ */
+export function getRolloutBucket(flagKey: string, userId: string): number {
+  let hash = 0x811c9dc5;
+  const input = `${flagKey}:${userId}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+export function evaluateFlag(
+  flag: FeatureFlag,
+  subject: FlagSubject
+): FlagEvaluation {
+  const bucket = getRolloutBucket(flag.key, subject.id);
+  const result = (active: boolean, reason: string) => ({
+    active,
+    reason,
+    bucket,
+  });
+  const { roles, provinces, cities } = flag.targeting;
+
+  if (flag.killed) return result(false, "Kill switch on");
+  if (!flag.enabled) return result(false, "Flag disabled");
+  if (flag.allowlist.includes(subject.id)) return result(true, "Allowlisted");
+  if (roles.length > 0 && !matches(roles, subject.role)) {
+    return result(false, `Role ${subject.role} not targeted`);
+  }
+  if (provinces.length > 0 && !matches(provinces, subject.province)) {
+    return result(
+      false,
+      subject.province
+        ? `${subject.province} not targeted`
+        : "No province on profile"
+    );
+  }
+  if (cities.length > 0 && !matches(cities, subject.city)) {
+    return result(
+      false,
+      subject.city ? `${subject.city} not targeted` : "No city on profile"
+    );
+  }
+  if (bucket >= flag.rolloutPercentage) {
+    return result(
+      false,
+      `Bucket ${bucket} outside ${flag.rolloutPercentage}% rollout`
+    );
+  }
+  return result(
+    true,
+    flag.rolloutPercentage >= 100
+      ? "Full rollout"
+      : `Bucket ${bucket} inside ${flag.rolloutPercentage}% rollout`
+  );
+}
+
+/**
+ * One line summary of who a flag targets
+ */
+export function describeTargeting(flag: FeatureFlag): string {
+  const { roles, provinces, cities } = flag.targeting;
+  const parts = [
+    roles.length > 0 && `Roles: ${roles.join(", ")}`,
+    provinces.length > 0 && `Provinces: ${provinces.join(", ")}`,
+    cities.length > 0 && `Cities: ${cities.join(", ")}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Everyone";
+}
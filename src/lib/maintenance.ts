@@ -0,0 +1,112 @@
+import { MaintenanceWindow } from "@/services/MaintenanceService";
+
+// Maintenance window scheduling
+//
+// A window is announced to players at announceAt, pauses ACTIVE tournaments
+// at startsAt and resumes the ones it paused at endsAt. Transitions are
+// driven by the first admin session open when they fall due, which claims
+// each one on the server first; if no admin is online they wait for the
+// next session.
+
+export type MaintenancePhase = "scheduled" | "announced" | "active" | "ended";
+
+export interface MaintenanceTransitions {
+  toStart: MaintenanceWindow[];
+  toComplete: MaintenanceWindow[];
+}
+
+export const MAINTENANCE_PHASE_COLORS: Record<MaintenancePhase, string> = {
+  scheduled: "bg-gray-100 text-gray-800",
+  announced: "bg-blue-100 text-blue-800",
+  active: "bg-orange-100 text-orange-800",
+  ended: "bg-green-100 text-green-800",
+};
+
+const time = (value: string) => new Date(value).getTime();
+
+export function getMaintenancePhase(
+  window: MaintenanceWindow,
+  now = Date.now()
+): MaintenancePhase {
+  if (window.status === "completed" || now >= time(window.endsAt)) {
+    return "ended";
+  }
+  if (window.status === "active" || now >= time(window.startsAt)) {
+    return "active";
+  }
+  if (now >= time(window.announceAt)) return "announced";
+  return "scheduled";
+}
+
+/**
+ * Windows that should start or finish now. A window whose end passed before
+ * it was started goes straight to completed without pausing anything.
+ */
+export function getDueTransitions(
+  windows: MaintenanceWindow[],
+  now = Date.now()
+): MaintenanceTransitions {
+  return {
+    toStart: windows.filter(
+      (w) =>
+        w.status === "scheduled" &&
+        now >= time(w.startsAt) &&
+        now < time(w.endsAt)
+    ),
+    toComplete: windows.filter(
+      (w) =>
+        (w.status === "active" || w.status === "scheduled") &&
+        now >= time(w.endsAt)
+    ),
+  };
+}
+
+/**
+ * Upcoming (announced or not) and active windows, soonest first
+ */
+export function getOpenWindows(
+  windows: MaintenanceWindow[],
+  now = Date.now()
+): MaintenanceWindow[] {
+  return windows
+    .filter(
+      (w) => w.status !== "cancelled" && getMaintenancePhase(w, now) !== "ended"
+    )
+    .sort((a, b) => time(a.startsAt) - time(b.startsAt));
+}
+
+/**
+ * The window blocking withdrawals for an admin right now, if any
+ */
+export function getWithdrawalBlock(
+  windows: MaintenanceWindow[],
+  adminId: string | undefined,
+  now = Date.now()
+): MaintenanceWindow | null {
+  return (
+    windows.find(
+      (w) =>
+        w.blockWithdrawals &&
+        w.status !== "cancelled" &&
+        getMaintenancePhase(w, now) === "active" &&
+        !(adminId && w.bypassAdminIds.includes(adminId))
+    ) || null
+  );
+}
+
+/**
+ * Check a window's times before saving
+ */
+export function validateMaintenanceWindow(
+  window: Pick<MaintenanceWindow, "announceAt" | "startsAt" | "endsAt">
+): string | null {
+  const [announce, start, end] = [
+    time(window.announceAt),
+    time(window.startsAt),
+    time(window.endsAt),
+  ];
+  if ([announce, start, end].some(isNaN)) return "Enter valid dates";
+  if (end <= start) return "The window must end after it starts";
+  if (announce > start) return "Players must be told before the window starts";
+  return null;
+}
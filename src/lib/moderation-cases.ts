@@ -0,0 +1,104 @@
+import {
+  CaseEntryType,
+  CaseStatus,
+  ModerationCase,
+  PenaltyStep,
+} from "@/services/ModerationService";
+
+// Moderation case files and escalating penalties
+//
+// Each offence moves a user one step up the penalty ladder. Steps are
+// counted across all of a user's cases, except cases overturned on appeal,
+// and repeat offences past the top of the ladder get the last step again.
+
+export const DEFAULT_PENALTY_LADDER: PenaltyStep[] = [
+  { action: "warn" },
+  { action: "suspend", durationHours: 24 },
+  { action: "suspend", durationHours: 7 * 24 },
+  { action: "ban" },
+];
+
+export const CASE_STATUS_COLORS: Record<CaseStatus, string> = {
+  open: "bg-yellow-100 text-yellow-800",
+  closed: "bg-gray-100 text-gray-800",
+  overturned: "bg-blue-100 text-blue-800",
+};
+
+export const CASE_ENTRY_LABELS: Record<CaseEntryType, string> = {
+  flag: "Flagged message",
+  warning: "Warning",
+  suspension: "Suspension",
+  ban: "Ban",
+  note: "Note",
+};
+
+const PENALTY_ENTRY_TYPES: CaseEntryType[] = ["warning", "suspension", "ban"];
+
+export function formatHours(hours: number): string {
+  if (hours % 24 === 0) return `${hours / 24}d`;
+  return `${hours}h`;
+}
+
+export function describePenalty(step: PenaltyStep): string {
+  switch (step.action) {
+    case "warn":
+      return "Warning";
+    case "suspend":
+      return `${formatHours(step.durationHours ?? 24)} suspension`;
+    case "ban":
+      return "Permanent ban";
+  }
+}
+
+export function isPenaltyEntry(type: CaseEntryType): boolean {
+  return PENALTY_ENTRY_TYPES.includes(type);
+}
+
+/**
+ * Penalties that still count towards escalation
+ */
+export function countPenalties(cases: ModerationCase[]): number {
+  return cases
+    .filter((c) => c.status !== "overturned")
+    .reduce(
+      (total, c) =>
+        total + c.entries.filter((entry) => isPenaltyEntry(entry.type)).length,
+      0
+    );
+}
+
+/**
+ * The ladder step the user's next offence lands on
+ */
+export function getNextPenalty(
+  ladder: PenaltyStep[],
+  cases: ModerationCase[]
+): { step: PenaltyStep; index: number } | null {
+  if (ladder.length === 0) return null;
+  const index = Math.min(countPenalties(cases), ladder.length - 1);
+  return { step: ladder[index], index };
+}
+
+/**
+ * Check a ladder before saving
+ */
+export function validatePenaltyLadder(ladder: PenaltyStep[]): string | null {
+  if (ladder.length === 0) return "The ladder needs at least one step";
+  for (const [i, step] of ladder.entries()) {
+    if (
+      step.action === "suspend" &&
+      !(Number.isInteger(step.durationHours) && step.durationHours! > 0)
+    ) {
+      return `Step ${i + 1}: suspensions need a duration in whole hours`;
+    }
+  }
+  const banIndex = ladder.findIndex((step) => step.action === "ban");
+  if (banIndex !== -1 && banIndex < ladder.length - 1) {
+    return "A permanent ban must be the last step";
+  }
+  return null;
+}
+
+export function getPendingAppeal(moderationCase: ModerationCase) {
+  return moderationCase.appeals.find((appeal) => appeal.status === "pending");
+}
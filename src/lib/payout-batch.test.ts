@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { parsePayoutResults } from "@/lib/payout-batch";
+
+describe("parsePayoutResults", () => {
+  it("reads amounts with thousands separators", () => {
+    const [row] = parsePayoutResults(
+      'reference,status,amount\nw1,success,"1,000.00"\n'
+    );
+
+    expect(row.amount).toBe(1000);
+  });
+
+  it("marks amounts that aren't numbers as unreadable", () => {
+    const [row] = parsePayoutResults(
+      "reference,status,amount\nw1,success,12abc\n"
+    );
+
+    expect(row.amount).toBeNaN();
+  });
+});
@@ -0,0 +1,390 @@
+import { WithdrawalRequest } from "@/services/PaymentService";
+import {
+  CsvValue,
+  toCsv,
+  parseCsvLines,
+  normaliseHeader,
+  sha256Hex,
+} from "@/lib/csv";
+
+// Mobile money batch payouts
+//
+// Withdrawals are grouped by provider and written to the bulk-payment CSV
+// layout each provider accepts. The withdrawal ID is used as the payment
+// reference so the provider's results file can be matched back. Batches are
+// stored on the server, which claims each withdrawal for its batch so it
+// can't be paid again through another batch or a manual approval.
+
+export interface PayoutBatchItem {
+  withdrawalId: string;
+  userId: string;
+  username?: string;
+  recipientName: string;
+  msisdn: string;
+  amount: number;
+  currency: string;
+}
+
+export interface PayoutBatch {
+  id: string;
+  providerCode: string;
+  providerName: string;
+  fileName: string;
+  createdAt: string;
+  createdBy?: string;
+  items: PayoutBatchItem[];
+  itemCount: number;
+  totals: Record<string, number>; // per currency
+  controlTotal: number; // sum of amounts in cents
+  checksum: string; // SHA-256 of the detail section
+  status: "generated" | "reconciled";
+}
+
+interface PayoutColumn {
+  header: string;
+  value: (item: PayoutBatchItem, batchId: string) => CsvValue;
+}
+
+interface PayoutProviderFormat {
+  name: string;
+  matches: (providerCode: string) => boolean;
+  columns: PayoutColumn[];
+}
+
+export type PayoutOutcome = "COMPLETED" | "FAILED";
+
+export interface PayoutResultRow {
+  line: number; // line in the results file
+  reference: string;
+  status: string;
+  transactionReference?: string;
+  failureReason?: string;
+  amount?: number; // NaN if the file's value couldn't be read
+}
+
+export interface PayoutResultMatch {
+  row: PayoutResultRow;
+  outcome: PayoutOutcome | null;
+  item?: PayoutBatchItem;
+  batchId?: string;
+  issues: string[];
+}
+
+/**
+ * Normalise a Zimbabwean mobile number to international format (2637XXXXXXXX)
+ */
+export function toInternationalMsisdn(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  if (digits.startsWith("263")) return digits;
+  if (digits.startsWith("0")) return `263${digits.slice(1)}`;
+  return digits.length === 9 ? `263${digits}` : digits;
+}
+
+function toLocalMsisdn(phone: string): string {
+  const international = toInternationalMsisdn(phone);
+  return international.startsWith("263")
+    ? `0${international.slice(3)}`
+    : international;
+}
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const PROVIDER_FORMATS: PayoutProviderFormat[] = [
+  {
+    name: "EcoCash",
+    // PZW211 is the Pesepay code for EcoCash USD
+    matches: (code) => code === "PZW211" || code.includes("ECOCASH"),
+    columns: [
+      { header: "MSISDN", value: (item) => item.msisdn },
+      { header: "Amount", value: (item) => formatAmount(item.amount) },
+      { header: "Currency", value: (item) => item.currency },
+      { header: "Reference", value: (item) => item.withdrawalId },
+      { header: "Beneficiary Name", value: (item) => item.recipientName },
+    ],
+  },
+  {
+    name: "OneMoney",
+    matches: (code) => code.includes("ONEMONEY"),
+    columns: [
+      { header: "Mobile Number", value: (item) => toLocalMsisdn(item.msisdn) },
+      { header: "Amount", value: (item) => formatAmount(item.amount) },
+      { header: "Currency", value: (item) => item.currency },
+      {
+        header: "Narration",
+        value: (_item, batchId) => `Nhandare payout ${batchId}`,
+      },
+      { header: "Reference", value: (item) => item.withdrawalId },
+    ],
+  },
+];
+
+const GENERIC_FORMAT: PayoutProviderFormat = {
+  name: "Mobile Money",
+  matches: () => true,
+  columns: [
+    { header: "Reference", value: (item) => item.withdrawalId },
+    { header: "Destination", value: (item) => item.msisdn },
+    { header: "Amount", value: (item) => formatAmount(item.amount) },
+    { header: "Currency", value: (item) => item.currency },
+    { header: "Recipient", value: (item) => item.recipientName },
+  ],
+};
+
+function getProviderFormat(providerCode: string): PayoutProviderFormat {
+  const code = providerCode.toUpperCase();
+  return (
+    PROVIDER_FORMATS.find((format) => format.matches(code)) || GENERIC_FORMAT
+  );
+}
+
+export function getProviderName(providerCode: string): string {
+  const format = getProviderFormat(providerCode);
+  return format === GENERIC_FORMAT ? providerCode : format.name;
+}
+
+export function toPayoutItem(withdrawal: WithdrawalRequest): PayoutBatchItem {
+  const name = [withdrawal.user?.firstName, withdrawal.user?.lastName]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    withdrawalId: withdrawal.id,
+    userId: withdrawal.userId,
+    username: withdrawal.user?.username,
+    recipientName: name || withdrawal.user?.username || "",
+    msisdn: toInternationalMsisdn(
+      withdrawal.destinationNumber || withdrawal.user?.phoneNumber || ""
+    ),
+    amount: withdrawal.amount,
+    currency: withdrawal.currency,
+  };
+}
+
+/**
+ * Group withdrawals by mobile money provider code
+ */
+export function groupByProvider(
+  withdrawals: WithdrawalRequest[]
+): Record<string, WithdrawalRequest[]> {
+  return withdrawals.reduce<Record<string, WithdrawalRequest[]>>(
+    (groups, withdrawal) => {
+      const code = withdrawal.mobileMoneyProviderCode || "UNKNOWN";
+      (groups[code] = groups[code] || []).push(withdrawal);
+      return groups;
+    },
+    {}
+  );
+}
+
+function sumByCurrency(items: PayoutBatchItem[]): Record<string, number> {
+  return items.reduce<Record<string, number>>((totals, item) => {
+    totals[item.currency] =
+      Math.round(((totals[item.currency] || 0) + item.amount) * 100) / 100;
+    return totals;
+  }, {});
+}
+
+/**
+ * Build the provider file for one group. The header row carries the batch
+ * ID and item count; the trailer carries the control total (in cents) and a
+ * SHA-256 checksum of the column header and detail rows.
+ */
+export async function buildPayoutBatch(
+  providerCode: string,
+  withdrawals: WithdrawalRequest[],
+  createdBy?: string,
+  now: Date = new Date()
+): Promise<{ batch: PayoutBatch; content: string }> {
+  const format = getProviderFormat(providerCode);
+  const stamp = now.toISOString().replace(/[-:]/g, "").slice(0, 15);
+  // The server rejects a batch whose ID is already taken
+  const id = `PB-${providerCode}-${stamp}-${crypto.randomUUID().slice(0, 8)}`;
+  const items = withdrawals.map(toPayoutItem);
+
+  const controlTotal = items.reduce(
+    (sum, item) => sum + Math.round(item.amount * 100),
+    0
+  );
+  const detail = toCsv([
+    format.columns.map((column) => column.header),
+    ...items.map((item) => format.columns.map((column) => column.value(item, id))),
+  ]);
+  const checksum = await sha256Hex(detail);
+
+  const content = [
+    toCsv([["H", id, providerCode, now.toISOString(), items.length]]),
+    detail,
+    toCsv([["T", items.length, controlTotal, checksum]]),
+  ].join("\r\n");
+
+  const batch: PayoutBatch = {
+    id,
+    providerCode,
+    providerName: getProviderName(providerCode),
+    fileName: `${id}.csv`,
+    createdAt: now.toISOString(),
+    createdBy,
+    items,
+    itemCount: items.length,
+    totals: sumByCurrency(items),
+    controlTotal,
+    checksum,
+    status: "generated",
+  };
+
+  return { batch, content };
+}
+
+/**
+ * Whether a withdrawal is still claimed by a batch and waiting for its
+ * result. Anything else has been paid, failed or released since.
+ */
+export function isAwaitingBatchResult(
+  withdrawal: WithdrawalRequest,
+  batchId: string
+): boolean {
+  return (
+    withdrawal.payoutBatchId === batchId && withdrawal.status === "processing"
+  );
+}
+
+// Results import
+
+const COLUMN_ALIASES = {
+  reference: ["reference", "merchant_reference", "client_reference", "ref"],
+  status: ["status", "result", "transaction_status"],
+  transactionReference: [
+    "transaction_reference",
+    "transaction_id",
+    "provider_reference",
+    "receipt_number",
+    "receipt",
+  ],
+  failureReason: ["failure_reason", "reason", "error", "message"],
+  amount: ["amount"],
+};
+
+const SUCCESS_STATUSES = ["success", "successful", "completed", "paid", "ok"];
+const FAILURE_STATUSES = ["failed", "failure", "rejected", "error", "declined"];
+
+// Providers format amounts like 1,000.00; anything else that isn't a plain
+// number is NaN so it is flagged rather than misread
+function parseAmount(value: string): number {
+  const amount = value.replace(/[,\s]/g, "");
+  return /^-?\d+(\.\d+)?$/.test(amount) ? Number(amount) : NaN;
+}
+
+function pick(record: Record<string, string>, aliases: string[]) {
+  const key = aliases.find((alias) => record[alias]);
+  return key ? record[key] : undefined;
+}
+
+export function normalisePayoutStatus(status: string): PayoutOutcome | null {
+  const value = status.trim().toLowerCase();
+  if (SUCCESS_STATUSES.includes(value)) return "COMPLETED";
+  if (FAILURE_STATUSES.includes(value)) return "FAILED";
+  return null;
+}
+
+/**
+ * Read a provider results file. Header/trailer rows from our own format
+ * and rows without a reference are skipped.
+ */
+export function parsePayoutResults(text: string): PayoutResultRow[] {
+  // Drop our H/T control rows if the provider echoes them back
+  const [header, ...rows] = parseCsvLines(text).filter(
+    ({ cells }) => cells[0] !== "H" && cells[0] !== "T"
+  );
+  if (!header) return [];
+  const keys = header.cells.map(normaliseHeader);
+
+  return rows
+    .map(({ line, cells }) => {
+      const record = Object.fromEntries(
+        keys.map((key, index) => [key, cells[index]?.trim() ?? ""])
+      );
+      const amount = pick(record, COLUMN_ALIASES.amount);
+      return {
+        line,
+        reference: pick(record, COLUMN_ALIASES.reference) || "",
+        status: pick(record, COLUMN_ALIASES.status) || "",
+        transactionReference: pick(
+          record,
+          COLUMN_ALIASES.transactionReference
+        ),
+        failureReason: pick(record, COLUMN_ALIASES.failureReason),
+        amount: amount ? parseAmount(amount) : undefined,
+      };
+    })
+    .filter((row) => row.reference);
+}
+
+/**
+ * Match result rows to generated batch items and flag anything that
+ * should not be applied automatically
+ */
+export function matchPayoutResults(
+  rows: PayoutResultRow[],
+  batches: PayoutBatch[],
+  current: Map<string, WithdrawalRequest>
+): PayoutResultMatch[] {
+  const itemsById = new Map<string, { item: PayoutBatchItem; batchId: string }>();
+  batches.forEach((batch) =>
+    batch.items.forEach((item) =>
+      itemsById.set(item.withdrawalId, { item, batchId: batch.id })
+    )
+  );
+
+  const seen = new Set<string>();
+
+  return rows.map((row) => {
+    const issues: string[] = [];
+    const outcome = normalisePayoutStatus(row.status);
+    const match = itemsById.get(row.reference);
+
+    if (!match) {
+      issues.push("Reference not found in any generated batch");
+    } else {
+      const withdrawal = current.get(row.reference);
+      if (!withdrawal) {
+        issues.push("Withdrawal not found");
+      } else if (!isAwaitingBatchResult(withdrawal, match.batchId)) {
+        issues.push(
+          withdrawal.payoutBatchId === match.batchId
+            ? `Withdrawal is already ${withdrawal.status}`
+            : "Withdrawal is no longer in this batch"
+        );
+      }
+    }
+    if (seen.has(row.reference)) {
+      issues.push("Duplicate reference in results file");
+    }
+    seen.add(row.reference);
+
+    if (!outcome) {
+      issues.push(`Unrecognised status "${row.status}"`);
+    }
+    if (outcome === "COMPLETED" && !row.transactionReference) {
+      issues.push("Missing transaction reference");
+    }
+    if (row.amount !== undefined && isNaN(row.amount)) {
+      issues.push("Amount is not a number");
+    } else if (
+      match &&
+      row.amount !== undefined &&
+      Math.abs(row.amount - match.item.amount) >= 0.01
+    ) {
+      issues.push(
+        `Amount ${row.amount.toFixed(2)} does not match ${match.item.amount.toFixed(2)}`
+      );
+    }
+
+    return {
+      row,
+      outcome,
+      item: match?.item,
+      batchId: match?.batchId,
+      issues,
+    };
+  });
+}
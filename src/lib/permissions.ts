@@ -0,0 +1,108 @@
+// Admin permission model
+//
+// Permissions are granted either explicitly (the `permissions` array on the
+// logged-in admin) or implicitly by role: every permission has a minimum role,
+// and the role hierarchy in AuthService.hasRole decides whether it is met.
+
+export const PERMISSIONS = {
+  DASHBOARD_VIEW: "dashboard:view",
+
+  TOURNAMENTS_VIEW: "tournaments:view",
+  TOURNAMENTS_MANAGE: "tournaments:manage",
+
+  USERS_VIEW: "users:view",
+  USERS_MANAGE: "users:manage",
+  USERS_BAN: "users:ban",
+  USERS_ASSIGN_ROLE: "users:assign_role",
+
+  PAYMENTS_VIEW: "payments:view",
+  PAYMENTS_MANAGE: "payments:manage",
+  PAYMENTS_REFUND: "payments:refund",
+
+  DISPUTES_VIEW: "disputes:view",
+  DISPUTES_MANAGE: "disputes:manage",
+
+  WITHDRAWALS_VIEW: "withdrawals:view",
+  WITHDRAWALS_PROCESS: "withdrawals:process",
+
+  ANALYTICS_VIEW: "analytics:view",
+
+  MODERATION_VIEW: "moderation:view",
+  MODERATION_MANAGE: "moderation:manage",
+
+  SETTINGS_VIEW: "settings:view",
+  SETTINGS_MANAGE: "settings:manage",
+
+  AUDIT_VIEW: "audit:view",
+
+  RISK_VIEW: "risk:view",
+  RISK_MANAGE: "risk:manage",
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export type PermissionRole = "super_admin" | "admin" | "moderator" | "support";
+
+// Lowest role that is granted each permission without an explicit grant
+export const PERMISSION_MIN_ROLE: Record<Permission, PermissionRole> = {
+  [PERMISSIONS.DASHBOARD_VIEW]: "support",
+
+  [PERMISSIONS.TOURNAMENTS_VIEW]: "support",
+  [PERMISSIONS.TOURNAMENTS_MANAGE]: "admin",
+
+  [PERMISSIONS.USERS_VIEW]: "support",
+  [PERMISSIONS.USERS_MANAGE]: "admin",
+  [PERMISSIONS.USERS_BAN]: "moderator",
+  [PERMISSIONS.USERS_ASSIGN_ROLE]: "super_admin",
+
+  [PERMISSIONS.PAYMENTS_VIEW]: "support",
+  [PERMISSIONS.PAYMENTS_MANAGE]: "admin",
+  [PERMISSIONS.PAYMENTS_REFUND]: "admin",
+
+  [PERMISSIONS.DISPUTES_VIEW]: "support",
+  [PERMISSIONS.DISPUTES_MANAGE]: "admin",
+
+  [PERMISSIONS.WITHDRAWALS_VIEW]: "admin",
+  [PERMISSIONS.WITHDRAWALS_PROCESS]: "admin",
+
+  [PERMISSIONS.ANALYTICS_VIEW]: "support",
+
+  [PERMISSIONS.MODERATION_VIEW]: "moderator",
+  [PERMISSIONS.MODERATION_MANAGE]: "moderator",
+
+  [PERMISSIONS.SETTINGS_VIEW]: "admin",
+  [PERMISSIONS.SETTINGS_MANAGE]: "super_admin",
+
+  [PERMISSIONS.AUDIT_VIEW]: "admin",
+
+  [PERMISSIONS.RISK_VIEW]: "admin",
+  [PERMISSIONS.RISK_MANAGE]: "admin",
+};
+
+// Permission required to open each admin page
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  "/admin/dashboard": PERMISSIONS.DASHBOARD_VIEW,
+  "/admin/tournaments": PERMISSIONS.TOURNAMENTS_VIEW,
+  "/admin/users": PERMISSIONS.USERS_VIEW,
+  "/admin/payments": PERMISSIONS.PAYMENTS_VIEW,
+  "/admin/payments/reconciliation": PERMISSIONS.PAYMENTS_MANAGE,
+  "/admin/withdrawals": PERMISSIONS.WITHDRAWALS_VIEW,
+  "/admin/disputes": PERMISSIONS.DISPUTES_VIEW,
+  "/admin/analytics": PERMISSIONS.ANALYTICS_VIEW,
+  "/admin/moderation": PERMISSIONS.MODERATION_VIEW,
+  "/admin/settings": PERMISSIONS.SETTINGS_VIEW,
+  "/admin/audit": PERMISSIONS.AUDIT_VIEW,
+  "/admin/risk": PERMISSIONS.RISK_VIEW,
+};
+
+/**
+ * Resolve the permission for a pathname, matching nested routes
+ * (e.g. /admin/users/123) against the longest registered prefix.
+ */
+export function getRoutePermission(pathname: string): Permission | undefined {
+  const match = Object.keys(ROUTE_PERMISSIONS)
+    .filter((route) => pathname === route || pathname.startsWith(`${route}/`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? ROUTE_PERMISSIONS[match] : undefined;
+}
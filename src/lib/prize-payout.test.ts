@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { TournamentBracket } from "@/services/TournamentService";
+import { getFinalPlacings } from "@/lib/prize-payout";
+
+describe("getFinalPlacings", () => {
+  it("counts an unmarked pending bye in a later Swiss round as played", () => {
+    const bracket: TournamentBracket = {
+      rounds: [
+        {
+          id: "sw-r1",
+          roundNumber: 1,
+          matches: [
+            {
+              id: "sw-r1-m1",
+              player1Id: "p1",
+              player2Id: "p2",
+              status: "completed",
+              winnerId: "p1",
+            },
+            { id: "sw-r1-m2", player1Id: "p3", status: "pending" },
+          ],
+        },
+        {
+          id: "sw-r2",
+          roundNumber: 2,
+          matches: [
+            {
+              id: "sw-r2-m1",
+              player1Id: "p1",
+              player2Id: "p3",
+              status: "completed",
+              winnerId: "p1",
+            },
+            { id: "sw-r2-m2", player1Id: "p2", status: "pending" },
+          ],
+        },
+      ],
+    };
+
+    const { placings, issue } = getFinalPlacings(
+      { bracketType: "SWISS" },
+      bracket,
+      ["p1", "p2", "p3"]
+    );
+
+    expect(issue).toBeUndefined();
+    expect(placings[0]).toEqual({ position: 1, playerIds: ["p1"] });
+  });
+});
@@ -0,0 +1,245 @@
+import type { AdminTournament } from "@/types/admin";
+import type {
+  BracketMatch,
+  PrizePayout,
+  TournamentBracket,
+  TournamentParticipant,
+} from "@/services/TournamentService";
+import {
+  computeStandings,
+  getBracketSections,
+  getMatchPlayers,
+  isBye,
+  isTableBye,
+} from "@/lib/bracket";
+
+// Prize payouts on tournament completion
+//
+// Final placings come from the bracket: the final (or grand final) decides
+// first and second, the losing semi-finalists share third in single
+// elimination and the losers-bracket finalist takes it in double
+// elimination. Round robin and Swiss use the points table. Players tied on
+// a placing split the prizes for every place they cover, and each payout
+// carries a key that is stable per tournament and player so a retry can't
+// pay anyone twice.
+
+export interface Placing {
+  position: number; // Tied players share the position
+  playerIds: string[];
+}
+
+export interface PayoutLine {
+  userId: string;
+  username: string;
+  position: number;
+  tiedWith: number; // Other players sharing the position
+  amount: number;
+  idempotencyKey: string;
+  paid?: PrizePayout;
+}
+
+export interface PayoutPlan {
+  lines: PayoutLine[];
+  total: number;
+  outstanding: number; // Still to be paid
+  unawarded: number; // Prizes for places nobody finished in
+  issue?: string; // Why no payout can be made yet
+}
+
+const PRIZE_PLACES = 3;
+
+// Matches TournamentForm's defaults for tournaments saved without one
+export const DEFAULT_PRIZE_BREAKDOWN = { first: 50, second: 30, third: 20 };
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export const prizeIdempotencyKey = (tournamentId: string, userId: string) =>
+  `prize:${tournamentId}:${userId}`;
+
+// Winner first, or both players tied when the match was drawn
+function matchPlacings(match: BracketMatch, position: number): Placing[] {
+  const players = getMatchPlayers(match);
+  if (!match.winnerId) return [{ position, playerIds: players }];
+  return [
+    { position, playerIds: [match.winnerId] },
+    {
+      position: position + 1,
+      playerIds: players.filter((id) => id !== match.winnerId),
+    },
+  ];
+}
+
+function eliminationPlacings(
+  bracket: TournamentBracket,
+  doubleElimination: boolean
+): { placings: Placing[]; issue?: string } {
+  const sections = getBracketSections(bracket);
+  const decider = doubleElimination
+    ? // A bracket reset adds a second grand final; the last one played counts
+      [...sections.finals]
+        .reverse()
+        .flatMap((round) => round.matches)
+        .find((match) => match.status === "completed")
+    : sections.winners[sections.winners.length - 1]?.matches[0];
+
+  if (!decider || decider.status !== "completed" || isBye(decider)) {
+    return { placings: [], issue: "The final hasn't been played" };
+  }
+
+  const placings = matchPlacings(decider, 1);
+  const placed = placings.reduce((sum, p) => sum + p.playerIds.length, 0);
+
+  const thirdRound = doubleElimination
+    ? sections.losers[sections.losers.length - 1]
+    : sections.winners[sections.winners.length - 2];
+  const third = (thirdRound?.matches || [])
+    .filter(
+      (match) =>
+        match.status === "completed" && match.winnerId && !isBye(match)
+    )
+    .flatMap((match) =>
+      getMatchPlayers(match).filter((id) => id !== match.winnerId)
+    );
+  if (third.length > 0) {
+    placings.push({ position: placed + 1, playerIds: third });
+  }
+
+  return { placings };
+}
+
+function tablePlacings(
+  bracket: TournamentBracket,
+  playerIds: string[]
+): { placings: Placing[]; issue?: string } {
+  const unplayed = bracket.rounds.flatMap((round) =>
+    round.matches.filter(
+      (match) => !isTableBye(match) && match.status !== "completed"
+    )
+  ).length;
+  if (unplayed > 0) {
+    const matches = unplayed === 1 ? "1 match is" : `${unplayed} matches are`;
+    return { placings: [], issue: `${matches} still to be played` };
+  }
+
+  const placings: Placing[] = [];
+  let position = 1;
+  computeStandings(bracket, playerIds).forEach((row, index, rows) => {
+    const previous = rows[index - 1];
+    const tied =
+      previous &&
+      previous.points === row.points &&
+      previous.buchholz === row.buchholz &&
+      previous.wins === row.wins;
+    if (tied) {
+      placings[placings.length - 1].playerIds.push(row.playerId);
+    } else {
+      position = index + 1;
+      placings.push({ position, playerIds: [row.playerId] });
+    }
+  });
+  return { placings };
+}
+
+/**
+ * Final placings down to the last prize place, or why they aren't known yet
+ */
+export function getFinalPlacings(
+  tournament: Pick<AdminTournament, "bracketType">,
+  bracket: TournamentBracket,
+  playerIds: string[]
+): { placings: Placing[]; issue?: string } {
+  const type = tournament.bracketType || "SINGLE_ELIMINATION";
+  const result =
+    type === "ROUND_ROBIN" || type === "SWISS"
+      ? tablePlacings(bracket, playerIds)
+      : eliminationPlacings(bracket, type === "DOUBLE_ELIMINATION");
+  return {
+    ...result,
+    placings: result.placings.filter((p) => p.position <= PRIZE_PLACES),
+  };
+}
+
+/**
+ * Prize for each place in cents. Rounding is settled on first place so
+ * the places always add up to the pool.
+ */
+export function getPlacePrizes(
+  tournament: Pick<AdminTournament, "prizePool" | "prizeBreakdown">
+): number[] {
+  const breakdown = tournament.prizeBreakdown || DEFAULT_PRIZE_BREAKDOWN;
+  const pool = toCents(tournament.prizePool);
+  const shares = [breakdown.first, breakdown.second, breakdown.third];
+  const prizes = shares.map((share) => Math.floor((pool * share) / 100));
+  const allocated = shares.reduce((sum, share) => sum + share, 0);
+  if (allocated === 100) {
+    prizes[0] += pool - prizes.reduce((sum, prize) => sum + prize, 0);
+  }
+  return prizes;
+}
+
+/**
+ * Who gets paid what, with anything already paid matched up by key
+ */
+export function buildPayoutPlan(
+  tournament: Pick<
+    AdminTournament,
+    "id" | "prizePool" | "prizeBreakdown" | "bracketType"
+  >,
+  bracket: TournamentBracket,
+  participants: TournamentParticipant[],
+  paid: PrizePayout[]
+): PayoutPlan {
+  const active = participants.filter((p) => p.status !== "withdrawn");
+  const usernames = new Map(active.map((p) => [p.userId, p.username]));
+  const paidByKey = new Map(paid.map((p) => [p.idempotencyKey, p]));
+  const prizes = getPlacePrizes(tournament);
+
+  const { placings, issue } = getFinalPlacings(
+    tournament,
+    bracket,
+    active.map((p) => p.userId)
+  );
+
+  const lines: PayoutLine[] = [];
+  let awarded = 0;
+  placings.forEach(({ position, playerIds }) => {
+    // Tied players pool the prizes for every place they cover
+    const pot = prizes
+      .slice(position - 1, position - 1 + playerIds.length)
+      .reduce((sum, prize) => sum + prize, 0);
+    awarded += pot;
+    const share = Math.floor(pot / playerIds.length);
+    const remainder = pot - share * playerIds.length;
+
+    playerIds.forEach((userId, index) => {
+      const idempotencyKey = prizeIdempotencyKey(tournament.id, userId);
+      const amount = share + (index < remainder ? 1 : 0);
+      if (amount === 0) return;
+      lines.push({
+        userId,
+        username: usernames.get(userId) || userId,
+        position,
+        tiedWith: playerIds.length - 1,
+        amount: amount / 100,
+        idempotencyKey,
+        paid: paidByKey.get(idempotencyKey),
+      });
+    });
+  });
+
+  const sum = (items: PayoutLine[]) =>
+    items.reduce((total, line) => total + toCents(line.amount), 0) / 100;
+
+  return {
+    lines,
+    total: sum(lines),
+    outstanding: sum(lines.filter((line) => !line.paid)),
+    unawarded: issue
+      ? 0
+      : (prizes.reduce((total, prize) => total + prize, 0) - awarded) / 100,
+    issue,
+  };
+}
+
+export const ordinal = (position: number) =>
+  `${position}${["th", "st", "nd", "rd"][position] || "th"}`;
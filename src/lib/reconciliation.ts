@@ -0,0 +1,397 @@
+import { AdminPayment } from "@/types/admin";
+import {
+  CsvValue,
+  toCsv,
+  parseCsvRecords,
+  normaliseHeader,
+} from "@/lib/csv";
+
+// Pesepay settlement reconciliation
+//
+// Settlement rows are matched to our payments by Pesepay reference (falling
+// back to the Pesepay transaction ID). Anything that doesn't line up is
+// reported as a discrepancy with a suggested fix.
+
+export type PaymentStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "refunded";
+
+export interface SettlementRecord {
+  row: number;
+  reference: string;
+  transactionId?: string;
+  amount: number;
+  currency?: string;
+  status: string;
+  date?: string;
+}
+
+export type DiscrepancyType =
+  | "missing_in_records"
+  | "missing_in_settlement"
+  | "duplicate"
+  | "amount_mismatch"
+  | "status_mismatch"
+  | "invalid_amount";
+
+export interface Discrepancy {
+  id: string;
+  type: DiscrepancyType;
+  reference: string;
+  payment?: AdminPayment;
+  settlement?: SettlementRecord;
+  detail: string;
+  expectedStatus?: PaymentStatus; // status the gateway says the payment has
+}
+
+export interface ReconciliationReport {
+  fileName: string;
+  generatedAt: string;
+  settlementCount: number;
+  paymentCount: number;
+  matchedCount: number;
+  settlementTotal: number;
+  matchedTotal: number;
+  discrepancies: Discrepancy[];
+}
+
+export const DISCREPANCY_LABELS: Record<DiscrepancyType, string> = {
+  missing_in_records: "Not in our records",
+  missing_in_settlement: "Not in settlement",
+  duplicate: "Duplicate",
+  amount_mismatch: "Amount mismatch",
+  status_mismatch: "Status mismatch",
+  invalid_amount: "Unreadable amount",
+};
+
+const FIELD_ALIASES = {
+  reference: [
+    "reference",
+    "reference_number",
+    "merchant_reference",
+    "pesepay_reference",
+    "transaction_reference",
+  ],
+  transactionId: ["transaction_id", "pesepay_transaction_id", "txn_id", "id"],
+  amount: ["amount", "transaction_amount", "amount_paid", "gross_amount"],
+  currency: ["currency", "currency_code"],
+  status: ["status", "transaction_status", "payment_status"],
+  date: ["date", "transaction_date", "date_of_transaction", "created_at"],
+};
+
+// Pesepay transaction statuses mapped onto our payment statuses
+const GATEWAY_STATUS_MAP: Record<string, PaymentStatus> = {
+  success: "completed",
+  successful: "completed",
+  completed: "completed",
+  paid: "completed",
+  failed: "failed",
+  declined: "failed",
+  error: "failed",
+  pending: "pending",
+  initiated: "pending",
+  processing: "processing",
+  cancelled: "cancelled",
+  canceled: "cancelled",
+  reversed: "refunded",
+  refunded: "refunded",
+};
+
+function pick(record: Record<string, string>, aliases: string[]) {
+  const key = aliases.find((alias) => record[alias]);
+  return key ? record[key] : undefined;
+}
+
+// NaN for a missing or unreadable amount, so the row can't be compared
+function parseAmount(value: string | undefined): number {
+  const cleaned = (value || "").replace(/[^0-9.-]/g, "");
+  return cleaned ? Number(cleaned) : NaN;
+}
+
+export function normaliseGatewayStatus(status: string): PaymentStatus | null {
+  return GATEWAY_STATUS_MAP[status.trim().toLowerCase()] || null;
+}
+
+/**
+ * Parse a Pesepay settlement export. Accepts CSV with a header row, a JSON
+ * array of transactions, or a JSON object wrapping one (transactions/data).
+ */
+export function parseSettlementFile(
+  text: string,
+  fileName: string
+): SettlementRecord[] {
+  let records: Record<string, string>[];
+
+  if (fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text)) {
+    const parsed = JSON.parse(text) as unknown;
+    const list = Array.isArray(parsed)
+      ? parsed
+      : ((parsed as Record<string, unknown>).transactions ??
+        (parsed as Record<string, unknown>).data ??
+        []);
+    if (!Array.isArray(list)) {
+      throw new Error("JSON export must contain a list of transactions");
+    }
+    records = list.map((item: Record<string, unknown>) =>
+      Object.fromEntries(
+        Object.entries(item).map(([key, value]) => [
+          normaliseHeader(key),
+          value === null || value === undefined ? "" : String(value),
+        ])
+      )
+    );
+  } else {
+    records = parseCsvRecords(text);
+  }
+
+  return records
+    .map((record, index) => ({
+      row: index + 1,
+      reference: pick(record, FIELD_ALIASES.reference) || "",
+      transactionId: pick(record, FIELD_ALIASES.transactionId),
+      amount: parseAmount(pick(record, FIELD_ALIASES.amount)),
+      currency: pick(record, FIELD_ALIASES.currency)?.toUpperCase(),
+      status: pick(record, FIELD_ALIASES.status) || "",
+      date: pick(record, FIELD_ALIASES.date),
+    }))
+    .filter((record) => record.reference || record.transactionId);
+}
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Date range covered by the settlement. Pad it when fetching payments so
+ * ones initiated just before midnight are still matched.
+ */
+export function getSettlementDateRange(
+  records: SettlementRecord[],
+  paddingMs: number = 0
+): DateRange | null {
+  const times = records
+    .map((record) => (record.date ? new Date(record.date).getTime() : NaN))
+    .filter((time) => !isNaN(time));
+  if (times.length === 0) return null;
+
+  return {
+    start: new Date(Math.min(...times) - paddingMs).toISOString(),
+    end: new Date(Math.max(...times) + paddingMs).toISOString(),
+  };
+}
+
+/**
+ * Match settlement records to payments and collect discrepancies. Payments
+ * are only reported as missing from the settlement if they fall inside its
+ * period. Rows without a readable amount are reported rather than compared.
+ */
+export function reconcile(
+  records: SettlementRecord[],
+  payments: AdminPayment[],
+  fileName: string,
+  period: DateRange | null = null,
+  now: Date = new Date()
+): ReconciliationReport {
+  const discrepancies: Discrepancy[] = [];
+  const add = (discrepancy: Omit<Discrepancy, "id">) =>
+    discrepancies.push({
+      ...discrepancy,
+      id: `${discrepancy.type}:${discrepancy.reference}:${discrepancy.settlement?.row ?? discrepancy.payment?.id}`,
+    });
+
+  const byReference = new Map<string, AdminPayment[]>();
+  const byTransactionId = new Map<string, AdminPayment>();
+  payments.forEach((payment) => {
+    if (payment.pesePayReference) {
+      const list = byReference.get(payment.pesePayReference) || [];
+      byReference.set(payment.pesePayReference, [...list, payment]);
+    }
+    if (payment.pesePayTransactionId) {
+      byTransactionId.set(payment.pesePayTransactionId, payment);
+    }
+  });
+
+  const seenReferences = new Map<string, SettlementRecord>();
+  const matchedPaymentIds = new Set<string>();
+  let matchedCount = 0;
+  let matchedTotal = 0;
+
+  records.forEach((record) => {
+    const reference = record.reference || record.transactionId!;
+
+    if (seenReferences.has(reference)) {
+      add({
+        type: "duplicate",
+        reference,
+        settlement: record,
+        payment: byReference.get(reference)?.[0],
+        detail: `Reference appears again in settlement (first at row ${seenReferences.get(reference)!.row})`,
+      });
+      return;
+    }
+    seenReferences.set(reference, record);
+
+    const candidates =
+      (record.reference && byReference.get(record.reference)) ||
+      (record.transactionId && byTransactionId.has(record.transactionId)
+        ? [byTransactionId.get(record.transactionId)!]
+        : []);
+
+    if (isNaN(record.amount)) {
+      if (candidates.length > 0) matchedPaymentIds.add(candidates[0].id);
+      add({
+        type: "invalid_amount",
+        reference,
+        settlement: record,
+        payment: candidates[0],
+        detail: "Amount is missing or unreadable; check this row by hand",
+      });
+      return;
+    }
+
+    if (candidates.length === 0) {
+      add({
+        type: "missing_in_records",
+        reference,
+        settlement: record,
+        detail: `Settled ${record.amount.toFixed(2)} ${record.currency ?? ""} with no matching payment`.trim(),
+      });
+      return;
+    }
+
+    if (candidates.length > 1) {
+      add({
+        type: "duplicate",
+        reference,
+        settlement: record,
+        payment: candidates[1],
+        detail: `${candidates.length} payments share this reference`,
+      });
+    }
+
+    const payment = candidates[0];
+    matchedPaymentIds.add(payment.id);
+    let clean = true;
+
+    const currencyMismatch =
+      record.currency && record.currency !== payment.currency.toUpperCase();
+    if (currencyMismatch || Math.abs(record.amount - payment.amount) >= 0.01) {
+      clean = false;
+      add({
+        type: "amount_mismatch",
+        reference,
+        settlement: record,
+        payment,
+        detail: `Settled ${record.amount.toFixed(2)} ${record.currency ?? payment.currency}, recorded ${payment.amount.toFixed(2)} ${payment.currency}`,
+      });
+    }
+
+    const expected = normaliseGatewayStatus(record.status);
+    const actual = payment.status.toLowerCase();
+    if (expected && expected !== actual) {
+      clean = false;
+      add({
+        type: "status_mismatch",
+        reference,
+        settlement: record,
+        payment,
+        expectedStatus: expected,
+        detail: `Gateway reports ${record.status}, recorded as ${actual}`,
+      });
+    }
+
+    if (clean) {
+      matchedCount++;
+      matchedTotal += payment.amount;
+    }
+  });
+
+  // Completed Pesepay payments the gateway never settled
+  const inPeriod = (payment: AdminPayment) => {
+    if (!period) return true;
+    const time = new Date(
+      payment.paymentConfirmedAt || payment.createdAt
+    ).getTime();
+    return (
+      time >= new Date(period.start).getTime() &&
+      time <= new Date(period.end).getTime()
+    );
+  };
+
+  payments.forEach((payment) => {
+    if (
+      payment.pesePayReference &&
+      inPeriod(payment) &&
+      payment.status.toLowerCase() === "completed" &&
+      !matchedPaymentIds.has(payment.id)
+    ) {
+      add({
+        type: "missing_in_settlement",
+        reference: payment.pesePayReference,
+        payment,
+        detail: `Recorded as completed (${payment.amount.toFixed(2)} ${payment.currency}) but not in settlement`,
+      });
+    }
+  });
+
+  return {
+    fileName,
+    generatedAt: now.toISOString(),
+    settlementCount: records.length,
+    paymentCount: payments.length,
+    matchedCount,
+    settlementTotal: records.reduce(
+      (sum, record) => (isNaN(record.amount) ? sum : sum + record.amount),
+      0
+    ),
+    matchedTotal,
+    discrepancies,
+  };
+}
+
+export function reportToCsv(
+  report: ReconciliationReport,
+  resolutions: Record<string, string> = {}
+): string {
+  const rows: CsvValue[][] = [
+    ["Settlement file", report.fileName],
+    ["Generated", report.generatedAt],
+    ["Settlement rows", report.settlementCount],
+    ["Matched", report.matchedCount],
+    ["Discrepancies", report.discrepancies.length],
+    ["Settlement total", report.settlementTotal.toFixed(2)],
+    [],
+    [
+      "Type",
+      "Reference",
+      "Payment ID",
+      "User",
+      "Recorded Amount",
+      "Settled Amount",
+      "Recorded Status",
+      "Gateway Status",
+      "Detail",
+      "Resolution",
+    ],
+    ...report.discrepancies.map((d) => [
+      DISCREPANCY_LABELS[d.type],
+      d.reference,
+      d.payment?.id,
+      d.payment?.user?.username,
+      d.payment?.amount.toFixed(2),
+      d.settlement && !isNaN(d.settlement.amount)
+        ? d.settlement.amount.toFixed(2)
+        : undefined,
+      d.payment?.status,
+      d.settlement?.status,
+      d.detail,
+      resolutions[d.id],
+    ]),
+  ];
+  return toCsv(rows);
+}
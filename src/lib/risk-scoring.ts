@@ -0,0 +1,296 @@
+import type {
+  UserDevice,
+  UserGameHistory,
+  UserPaymentHistory,
+} from "@/services/UserService";
+import type { WithdrawalRequest } from "@/services/PaymentService";
+import type {
+  RiskLevel,
+  RiskSignal,
+  RiskSignalType,
+  RiskSubject,
+} from "@/services/RiskService";
+import type { PlatformUser } from "@/types/admin";
+
+// Player fraud and multi-account risk
+//
+// A score out of 100 built from independent signals: devices, phone numbers
+// and mobile money destinations shared with other accounts, deposits that
+// are withdrawn without being played, and opponents who keep meeting in
+// tournaments. Each signal explains itself so a reviewer can check it.
+
+export interface LinkedAccount {
+  user: PlatformUser;
+  devices: UserDevice[];
+}
+
+export interface RiskInput {
+  user: RiskSubject;
+  devices: UserDevice[];
+  linkedAccounts: LinkedAccount[];
+  withdrawals: WithdrawalRequest[];
+  // Withdrawals by anyone to the destinations this user withdraws to
+  destinationWithdrawals: WithdrawalRequest[];
+  payments: UserPaymentHistory[];
+  games: UserGameHistory[];
+}
+
+export const RISK_THRESHOLDS = { medium: 30, high: 60 };
+
+// Accounts the backend reports as similar that are checked in detail
+export const LINKED_ACCOUNT_LIMIT = 10;
+
+// A withdrawal this soon after a deposit, of most of it, with little of it
+// spent on entry fees in between, looks like the wallet is a pass-through
+export const DEPOSIT_WITHDRAW_WINDOW_HOURS = 24;
+const DEPOSIT_WITHDRAW_SHARE = 0.8;
+const DEPOSIT_PLAYED_SHARE = 0.2;
+
+// Meeting the same opponent in this many different tournaments is unusual
+export const REPEAT_OPPONENT_TOURNAMENTS = 3;
+
+export const RISK_SIGNAL_LABELS: Record<RiskSignalType, string> = {
+  shared_device: "Shared device",
+  shared_phone: "Shared phone number",
+  shared_destination: "Shared withdrawal number",
+  deposit_withdraw: "Deposit then withdraw",
+  repeat_opponent: "Repeat opponent",
+};
+
+export const RISK_LEVEL_COLORS: Record<RiskLevel, string> = {
+  low: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-800",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Compare local and international forms of the same number
+export const normalisePhone = (phone?: string) =>
+  (phone || "").replace(/\D/g, "").slice(-9);
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+
+const time = (value: string) => new Date(value).getTime();
+
+function sharedDeviceSignal(input: RiskInput): RiskSignal | null {
+  // Device names are too generic to match on; the address is what's shared
+  const ownIps = new Set(input.devices.map((d) => d.ipAddress));
+
+  const matches = input.linkedAccounts
+    .map(({ user, devices }) => ({
+      user,
+      shared: devices.filter((d) => ownIps.has(d.ipAddress)),
+    }))
+    .filter((match) => match.shared.length > 0);
+  if (matches.length === 0) return null;
+
+  return {
+    type: "shared_device",
+    points: Math.min(25 + 5 * (matches.length - 1), 35),
+    summary: `Signs in from the same address as ${count(
+      matches.length,
+      "other account"
+    )}`,
+    details: matches.map(
+      ({ user, shared }) =>
+        `@${user.username}: ${shared
+          .map((d) => `${d.deviceName} (${d.ipAddress})`)
+          .join(", ")}`
+    ),
+    relatedUserIds: matches.map(({ user }) => user.id),
+  };
+}
+
+function sharedPhoneSignal(input: RiskInput): RiskSignal | null {
+  const phone = normalisePhone(input.user.phoneNumber);
+  if (!phone) return null;
+
+  const matches = input.linkedAccounts.filter(
+    ({ user }) => normalisePhone(user.phoneNumber) === phone
+  );
+  if (matches.length === 0) return null;
+
+  return {
+    type: "shared_phone",
+    points: 30,
+    summary: `Phone number also registered to ${count(
+      matches.length,
+      "other account"
+    )}`,
+    details: matches.map(({ user }) => `@${user.username}`),
+    relatedUserIds: matches.map(({ user }) => user.id),
+  };
+}
+
+function sharedDestinationSignal(input: RiskInput): RiskSignal | null {
+  const destinations = new Set(
+    input.withdrawals
+      .map((w) => normalisePhone(w.destinationNumber))
+      .filter(Boolean)
+  );
+  if (destinations.size === 0) return null;
+
+  const related = new Map<string, string>(); // userId -> explanation
+  input.destinationWithdrawals
+    .filter(
+      (w) =>
+        w.userId !== input.user.id &&
+        destinations.has(normalisePhone(w.destinationNumber))
+    )
+    .forEach((w) => {
+      related.set(
+        w.userId,
+        `@${w.user?.username ?? w.userId} withdrew to ${w.destinationNumber}`
+      );
+    });
+  input.linkedAccounts
+    .filter(({ user }) => destinations.has(normalisePhone(user.phoneNumber)))
+    .forEach(({ user }) => {
+      if (!related.has(user.id)) {
+        related.set(
+          user.id,
+          `Withdraws to @${user.username}'s phone ${user.phoneNumber}`
+        );
+      }
+    });
+  if (related.size === 0) return null;
+
+  return {
+    type: "shared_destination",
+    points: 30,
+    summary: `Withdrawal number shared with ${count(
+      related.size,
+      "other account"
+    )}`,
+    details: Array.from(related.values()),
+    relatedUserIds: Array.from(related.keys()),
+  };
+}
+
+function depositWithdrawSignal(input: RiskInput): RiskSignal | null {
+  const deposits = input.payments.filter(
+    (p) => p.type === "wallet_deposit" && p.status === "completed"
+  );
+  const entryFees = input.payments.filter(
+    (p) => p.type === "tournament_entry" && p.status === "completed"
+  );
+  const windowMs = DEPOSIT_WITHDRAW_WINDOW_HOURS * HOUR_MS;
+
+  const details: string[] = [];
+  input.withdrawals
+    .filter((w) => w.status !== "failed" && w.status !== "cancelled")
+    .forEach((withdrawal) => {
+      const at = time(withdrawal.requestedAt);
+      const deposit = deposits.find((d) => {
+        const gap = at - time(d.createdAt);
+        return (
+          gap >= 0 &&
+          gap <= windowMs &&
+          withdrawal.amount >= d.amount * DEPOSIT_WITHDRAW_SHARE
+        );
+      });
+      if (!deposit) return;
+
+      const played = entryFees
+        .filter((fee) => {
+          const feeAt = time(fee.createdAt);
+          return feeAt >= time(deposit.createdAt) && feeAt <= at;
+        })
+        .reduce((sum, fee) => sum + Math.abs(fee.amount), 0);
+      if (played >= deposit.amount * DEPOSIT_PLAYED_SHARE) return;
+
+      const hours = Math.max(
+        1,
+        Math.round((at - time(deposit.createdAt)) / HOUR_MS)
+      );
+      details.push(
+        `Deposited ${money(deposit.amount)}, withdrew ` +
+          `${money(withdrawal.amount)} ${hours}h later after ` +
+          `${money(played)} of entry fees`
+      );
+    });
+  if (details.length === 0) return null;
+
+  return {
+    type: "deposit_withdraw",
+    points: Math.min(15 * details.length, 30),
+    summary:
+      `${count(details.length, "deposit")} withdrawn within ` +
+      `${DEPOSIT_WITHDRAW_WINDOW_HOURS}h without being played`,
+    details,
+    relatedUserIds: [],
+  };
+}
+
+function repeatOpponentSignal(input: RiskInput): RiskSignal | null {
+  const linkedIds = new Set(input.linkedAccounts.map(({ user }) => user.id));
+  const byOpponent = new Map<string, UserGameHistory[]>();
+  input.games
+    .filter((game) => game.tournamentId)
+    .forEach((game) => {
+      const games = byOpponent.get(game.opponentId) || [];
+      games.push(game);
+      byOpponent.set(game.opponentId, games);
+    });
+
+  const repeats = Array.from(byOpponent.entries())
+    .map(([opponentId, games]) => ({
+      opponentId,
+      games,
+      tournaments: new Set(games.map((game) => game.tournamentId)).size,
+    }))
+    .filter((repeat) => repeat.tournaments >= REPEAT_OPPONENT_TOURNAMENTS);
+  if (repeats.length === 0) return null;
+
+  const linkedRepeats = repeats.filter((r) => linkedIds.has(r.opponentId));
+  return {
+    type: "repeat_opponent",
+    points: Math.min(10 * repeats.length + 10 * linkedRepeats.length, 30),
+    summary:
+      `Met ${count(repeats.length, "opponent")} in ` +
+      `${REPEAT_OPPONENT_TOURNAMENTS}+ different tournaments`,
+    details: repeats.map(({ opponentId, games, tournaments }) => {
+      const wins = games.filter((game) => game.result === "win").length;
+      return (
+        `@${games[0].opponentUsername}: ${tournaments} tournaments, won ` +
+        `${wins} of ${games.length} games` +
+        (linkedIds.has(opponentId) ? " (linked account)" : "")
+      );
+    }),
+    relatedUserIds: repeats.map(({ opponentId }) => opponentId),
+  };
+}
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= RISK_THRESHOLDS.high) return "high";
+  if (score >= RISK_THRESHOLDS.medium) return "medium";
+  return "low";
+}
+
+/**
+ * Run every signal and total the score, strongest signal first
+ */
+export function scoreRisk(input: RiskInput): {
+  score: number;
+  level: RiskLevel;
+  signals: RiskSignal[];
+} {
+  const signals = [
+    sharedDeviceSignal(input),
+    sharedPhoneSignal(input),
+    sharedDestinationSignal(input),
+    depositWithdrawSignal(input),
+    repeatOpponentSignal(input),
+  ]
+    .filter((signal): signal is RiskSignal => signal !== null)
+    .sort((a, b) => b.points - a.points);
+
+  const score = Math.min(
+    signals.reduce((sum, signal) => sum + signal.points, 0),
+    100
+  );
+  return { score, level: getRiskLevel(score), signals };
+}
@@ -0,0 +1,306 @@
+import { CreateTournamentData } from "@/services/TournamentService";
+import { UserGameHistory } from "@/services/UserService";
+import { BracketFormat, buildBracket } from "@/lib/bracket-engine";
+import { getBracketSections } from "@/lib/bracket";
+
+// Advanced seeding simulation
+//
+// A preview of weighted seeding so admins can see the effect of a weighting
+// before saving it; the saved options are what the server seeds with. Each
+// factor is scored 0-1 across the field and combined using the enabled
+// weights. Players count as neighbours when they share a province or city,
+// or their provinces' centres lie within the regional radius.
+
+export type SeedingOptions = NonNullable<
+  NonNullable<CreateTournamentData["bracketConfig"]>["seedingOptions"]
+>;
+
+export type SeedingFactor =
+  | "rating"
+  | "performance"
+  | "history"
+  | "regional"
+  | "consistency";
+
+export const SEEDING_FACTOR_LABELS: Record<SeedingFactor, string> = {
+  rating: "Rating",
+  performance: "Performance",
+  history: "History",
+  regional: "Regional",
+  consistency: "Consistency",
+};
+
+export const DEFAULT_SEEDING_OPTIONS: SeedingOptions = {
+  includePerformance: true,
+  includeHistory: true,
+  includeRegional: false,
+  includeConsistency: true,
+  performanceWeight: 0.4,
+  historyWeight: 0.3,
+  regionalWeight: 0.1,
+  consistencyWeight: 0.2,
+  ratingWeight: 0.5,
+  recentTournaments: 10,
+  regionalRadius: 100,
+};
+
+// Number of most recent games used for the performance and consistency
+// factors
+const RECENT_GAMES = 20;
+
+export interface SeedingProfile {
+  userId: string;
+  username: string;
+  rating: number;
+  games: UserGameHistory[]; // newest first
+  province?: string;
+  city?: string;
+  institution?: string;
+}
+
+export interface SeedResult {
+  userId: string;
+  username: string;
+  seed: number;
+  ratingSeed: number; // seed under pure rating seeding
+  score: number;
+  contributions: Record<SeedingFactor, number>;
+}
+
+export interface PairingConflict {
+  playerA: string;
+  playerB: string;
+  kind: "region" | "nearby" | "institution";
+  value: string;
+}
+
+const gameScore = (game: UserGameHistory) =>
+  game.result === "win" ? 1 : game.result === "draw" ? 0.5 : 0;
+
+const average = (values: number[]) =>
+  values.length === 0
+    ? 0
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Scale raw values to 0-1 across the field; a flat field scores 0.5
+function normalise(values: number[]): number[] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map((value) =>
+    max === min ? 0.5 : (value - min) / (max - min)
+  );
+}
+
+const regionOf = (profile: SeedingProfile) =>
+  (profile.province || profile.city)?.trim().toLowerCase() || undefined;
+
+// Approximate centre (latitude, longitude) of each province
+const PROVINCE_CENTRES: Record<string, [number, number]> = {
+  bulawayo: [-20.15, 28.58],
+  harare: [-17.83, 31.05],
+  manicaland: [-19.0, 32.4],
+  "mashonaland central": [-16.8, 31.3],
+  "mashonaland east": [-18.1, 31.8],
+  "mashonaland west": [-17.4, 29.9],
+  masvingo: [-20.6, 31.0],
+  "matabeleland north": [-18.6, 27.6],
+  "matabeleland south": [-21.0, 29.0],
+  midlands: [-19.2, 29.8],
+};
+
+// Great-circle distance in km
+function distanceKm(
+  [lat1, lng1]: [number, number],
+  [lat2, lng2]: [number, number]
+) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const a =
+    Math.sin(toRad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRad(lat1)) *
+      Math.cos(toRad(lat2)) *
+      Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
+
+// Neighbouring regions; unknown places only neighbour themselves
+function areNeighbours(a: string, b: string, radiusKm: number): boolean {
+  if (a === b) return true;
+  const [centreA, centreB] = [PROVINCE_CENTRES[a], PROVINCE_CENTRES[b]];
+  return !!centreA && !!centreB && distanceKm(centreA, centreB) <= radiusKm;
+}
+
+function getRawFactors(
+  profile: SeedingProfile,
+  options: SeedingOptions,
+  neighbourShare: Map<string, number>
+): Record<SeedingFactor, number> {
+  const recent = profile.games.slice(0, RECENT_GAMES);
+
+  // Games from the player's last N tournaments
+  const tournamentIds: string[] = [];
+  profile.games.forEach((game) => {
+    if (game.tournamentId && !tournamentIds.includes(game.tournamentId)) {
+      tournamentIds.push(game.tournamentId);
+    }
+  });
+  const historyIds = new Set(tournamentIds.slice(0, options.recentTournaments));
+  const historyGames = profile.games.filter(
+    (game) => game.tournamentId && historyIds.has(game.tournamentId)
+  );
+
+  const eloChanges = recent.map((game) => game.eloChange);
+  const mean = average(eloChanges);
+  const spread = Math.sqrt(
+    average(eloChanges.map((change) => (change - mean) ** 2))
+  );
+
+  const region = regionOf(profile);
+
+  return {
+    rating: profile.rating,
+    performance: average(recent.map(gameScore)),
+    history: average(historyGames.map(gameScore)),
+    // Players with fewer entrants nearby rank higher, which spreads large
+    // regional groups through the seed list
+    regional: region ? 1 - (neighbourShare.get(region) || 0) : 1,
+    // Lower variance in rating change means a steadier player
+    consistency: -spread,
+  };
+}
+
+function getWeights(options: SeedingOptions): Record<SeedingFactor, number> {
+  return {
+    rating: options.ratingWeight,
+    performance: options.includePerformance ? options.performanceWeight : 0,
+    history: options.includeHistory ? options.historyWeight : 0,
+    regional: options.includeRegional ? options.regionalWeight : 0,
+    consistency: options.includeConsistency ? options.consistencyWeight : 0,
+  };
+}
+
+/**
+ * Seed the field with the given options. Contributions are the weighted
+ * factor scores (normalised so they add up to the player's score).
+ */
+export function simulateSeeding(
+  profiles: SeedingProfile[],
+  options: SeedingOptions
+): SeedResult[] {
+  if (profiles.length === 0) return [];
+
+  const regionCounts = new Map<string, number>();
+  profiles.forEach((profile) => {
+    const region = regionOf(profile);
+    if (region) regionCounts.set(region, (regionCounts.get(region) || 0) + 1);
+  });
+  // Share of the field in or near each region
+  const neighbourShare = new Map(
+    Array.from(regionCounts.keys(), (region) => [
+      region,
+      Array.from(regionCounts).reduce(
+        (sum, [other, count]) =>
+          areNeighbours(region, other, options.regionalRadius)
+            ? sum + count
+            : sum,
+        0
+      ) / profiles.length,
+    ])
+  );
+
+  const factors = Object.keys(SEEDING_FACTOR_LABELS) as SeedingFactor[];
+  const raw = profiles.map((profile) =>
+    getRawFactors(profile, options, neighbourShare)
+  );
+  const scaled = Object.fromEntries(
+    factors.map((factor) => [factor, normalise(raw.map((r) => r[factor]))])
+  ) as Record<SeedingFactor, number[]>;
+
+  const weights = getWeights(options);
+  const totalWeight =
+    factors.reduce((sum, factor) => sum + weights[factor], 0) || 1;
+
+  const ratingOrder = profiles
+    .map((profile, index) => ({ index, rating: profile.rating }))
+    .sort((a, b) => b.rating - a.rating)
+    .map((entry) => entry.index);
+
+  return profiles
+    .map((profile, index) => {
+      const contributions = Object.fromEntries(
+        factors.map((factor) => [
+          factor,
+          (weights[factor] / totalWeight) * scaled[factor][index],
+        ])
+      ) as Record<SeedingFactor, number>;
+
+      return {
+        userId: profile.userId,
+        username: profile.username,
+        seed: 0,
+        ratingSeed: ratingOrder.indexOf(index) + 1,
+        score: factors.reduce((sum, factor) => sum + contributions[factor], 0),
+        contributions,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.ratingSeed - b.ratingSeed)
+    .map((result, index) => ({ ...result, seed: index + 1 }));
+}
+
+/**
+ * Opening-round pairings the bracket engine would produce for a seed order
+ */
+export function getOpeningPairings(
+  format: BracketFormat,
+  seededIds: string[]
+): [string, string][] {
+  if (seededIds.length < 2) return [];
+  const opening = getBracketSections(buildBracket(format, seededIds))
+    .winners[0];
+  return (opening?.matches || [])
+    .filter((match) => match.player1Id && match.player2Id)
+    .map((match) => [match.player1Id, match.player2Id!]);
+}
+
+/**
+ * Opening-round pairings between players from the same institution, or the
+ * same or neighbouring regions
+ */
+export function findPairingConflicts(
+  pairings: [string, string][],
+  profiles: SeedingProfile[],
+  regionalRadius: number
+): PairingConflict[] {
+  const byId = new Map(profiles.map((profile) => [profile.userId, profile]));
+  const conflicts: PairingConflict[] = [];
+
+  pairings.forEach(([a, b]) => {
+    const [profileA, profileB] = [byId.get(a), byId.get(b)];
+    if (!profileA || !profileB) return;
+
+    const [regionA, regionB] = [regionOf(profileA), regionOf(profileB)];
+    if (regionA && regionB && areNeighbours(regionA, regionB, regionalRadius)) {
+      const nameA = profileA.province || profileA.city || "";
+      const nameB = profileB.province || profileB.city || "";
+      conflicts.push({
+        playerA: a,
+        playerB: b,
+        kind: regionA === regionB ? "region" : "nearby",
+        value: regionA === regionB ? nameA : `${nameA} and ${nameB}`,
+      });
+    }
+    const institution = profileA.institution?.trim().toLowerCase();
+    if (
+      institution &&
+      institution === profileB.institution?.trim().toLowerCase()
+    ) {
+      conflicts.push({
+        playerA: a,
+        playerB: b,
+        kind: "institution",
+        value: profileA.institution!,
+      });
+    }
+  });
+
+  return conflicts;
+}
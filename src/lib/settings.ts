@@ -0,0 +1,133 @@
+import {
+  PlatformConfig,
+  SettingsChange,
+  SettingsSection,
+  SettingValue,
+  platformConfigSchema,
+} from "@/services/SettingsService";
+
+// Platform settings versioning helpers
+
+export const DEFAULT_SETTINGS: PlatformConfig = {
+  platform: {
+    name: "Nhandare Gaming Platform",
+    description: "Zimbabwe's premier gaming platform",
+    version: "1.0.0",
+    maintenanceMode: false,
+    registrationEnabled: true,
+    maxUsersPerTournament: 64,
+    defaultTournamentDuration: 7,
+  },
+  security: {
+    sessionTimeout: 24,
+    maxLoginAttempts: 5,
+    requireEmailVerification: true,
+    requirePhoneVerification: false,
+    twoFactorEnabled: false,
+    passwordMinLength: 8,
+  },
+  payments: {
+    currency: "USD",
+    paymentMethods: ["pesepay", "ecocash", "onemoney"],
+    transactionFee: 2.5,
+    minimumWithdrawal: 10,
+    maximumWithdrawal: 1000,
+    autoApproveWithdrawals: false,
+  },
+  features: {
+    tournaments: true,
+    leaderboards: true,
+    chat: true,
+    notifications: true,
+    analytics: true,
+    moderation: true,
+  },
+  integrations: {
+    pesepayEnabled: true,
+    ecocashEnabled: true,
+    onemoneyEnabled: true,
+    emailService: "sendgrid",
+    smsService: "twilio",
+  },
+};
+
+export const SETTINGS_SECTION_LABELS: Record<SettingsSection, string> = {
+  platform: "Platform",
+  security: "Security",
+  payments: "Payments",
+  features: "Features",
+  integrations: "Integrations",
+};
+
+const sections = Object.keys(SETTINGS_SECTION_LABELS) as SettingsSection[];
+
+/**
+ * Every setting that differs between two snapshots, in section order
+ */
+export function diffSettings(
+  before: PlatformConfig,
+  after: PlatformConfig
+): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+
+  sections.forEach((section) => {
+    const a = (before[section] || {}) as Record<string, SettingValue>;
+    const b = (after[section] || {}) as Record<string, SettingValue>;
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+
+    keys.forEach((key) => {
+      if (JSON.stringify(a[key]) !== JSON.stringify(b[key])) {
+        changes.push({ section, key, before: a[key], after: b[key] });
+      }
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Apply a list of changes on top of a snapshot, e.g. to carry unsaved edits
+ * over to a version someone else saved in the meantime
+ */
+export function applySettingsChanges(
+  settings: PlatformConfig,
+  changes: SettingsChange[]
+): PlatformConfig {
+  return changes.reduce<PlatformConfig>(
+    (next, change) => ({
+      ...next,
+      [change.section]: { ...next[change.section], [change.key]: change.after },
+    }),
+    settings
+  );
+}
+
+/**
+ * Validation messages keyed by "section.key"
+ */
+export function getSettingsErrors(
+  settings: PlatformConfig
+): Record<string, string> {
+  const result = platformConfigSchema.safeParse(settings);
+  if (result.success) return {};
+
+  const errors: Record<string, string> = {};
+  result.error.issues.forEach((issue) => {
+    const path = issue.path.join(".");
+    if (!errors[path]) errors[path] = issue.message;
+  });
+  return errors;
+}
+
+// "maxLoginAttempts" -> "Max login attempts"
+export function formatSettingKey(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatSettingValue(value: SettingValue | undefined): string {
+  if (value === undefined) return "—";
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (Array.isArray(value)) return value.join(", ") || "None";
+  return String(value);
+}
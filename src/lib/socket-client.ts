@@ -0,0 +1,278 @@
+// Admin real-time socket client
+//
+// Thin wrapper over the browser WebSocket that authenticates with the admin
+// token, reconnects with exponential backoff and fans out typed events to
+// subscribers. Like apiClient, the auth service is injected (by
+// RealtimeProvider) to keep this module free of service imports.
+
+export type SocketStatus =
+  | "idle"
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "closed";
+
+export interface RealtimeEventMap {
+  "payment.created": {
+    paymentId: string;
+    userId: string;
+    username?: string;
+    amount: number;
+    currency: string;
+    type: string;
+    status: string;
+  };
+  "withdrawal.requested": {
+    withdrawalId: string;
+    userId: string;
+    username?: string;
+    amount: number;
+    currency: string;
+    mobileMoneyProviderCode?: string;
+  };
+  "chat.flagged": {
+    messageId: string;
+    tournamentId?: string;
+    userId: string;
+    username?: string;
+    message: string;
+    reason: string;
+    severity: "low" | "medium" | "high";
+    // Set when an auto-moderation rule raised the flag
+    ruleId?: string;
+    action?: "flag" | "hide" | "mute";
+  };
+  "tournament.status_changed": {
+    tournamentId: string;
+    title?: string;
+    previousStatus: string;
+    status: string;
+  };
+  "players.online": {
+    online: number;
+    activeSessions: number;
+    byGame?: Record<string, number>;
+  };
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap;
+
+export interface RealtimeMessage<T extends RealtimeEventType = RealtimeEventType> {
+  type: T;
+  payload: RealtimeEventMap[T];
+  timestamp?: string;
+}
+
+type EventHandler<T extends RealtimeEventType> = (
+  payload: RealtimeEventMap[T],
+  message: RealtimeMessage<T>
+) => void;
+
+type StatusListener = (status: SocketStatus) => void;
+
+export interface SocketClientOptions {
+  url?: string;
+  initialDelay?: number;
+  maxDelay?: number;
+  // Overridable so the client can be pointed at a mock server or fake socket
+  createSocket?: (url: string) => WebSocket;
+}
+
+// Close codes the backend uses for rejected credentials
+const AUTH_CLOSE_CODES = [4001, 4003];
+const NORMAL_CLOSE_CODE = 1000;
+
+function defaultSocketUrl(): string {
+  if (process.env.NEXT_PUBLIC_WEBSOCKET_URL) {
+    return process.env.NEXT_PUBLIC_WEBSOCKET_URL;
+  }
+  const apiUrl =
+    process.env.NEXT_PUBLIC_API_URL || "https://51.20.12.21.nip.io";
+  return apiUrl.replace(/^http/, "ws");
+}
+
+export class SocketClient {
+  private socket: WebSocket | null = null;
+  private status: SocketStatus = "idle";
+  private attempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private shouldReconnect = false;
+  private handlers = new Map<RealtimeEventType, Set<EventHandler<never>>>();
+  private statusListeners = new Set<StatusListener>();
+  private authService: {
+    getToken(): string | null;
+    refreshToken(): Promise<unknown>;
+  } | null = null;
+
+  private readonly url: string;
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+  private readonly createSocket: (url: string) => WebSocket;
+
+  constructor(options: SocketClientOptions = {}) {
+    this.url = options.url ?? defaultSocketUrl();
+    this.initialDelay = options.initialDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.createSocket =
+      options.createSocket ?? ((url: string) => new WebSocket(url));
+  }
+
+  // Inject auth service to avoid circular dependency
+  setAuthService(authService: {
+    getToken(): string | null;
+    refreshToken(): Promise<unknown>;
+  }) {
+    this.authService = authService;
+  }
+
+  getStatus(): SocketStatus {
+    return this.status;
+  }
+
+  connect(): void {
+    if (this.socket && this.status !== "closed") return;
+
+    const token = this.authService?.getToken();
+    if (!token) {
+      this.setStatus("closed");
+      return;
+    }
+
+    this.shouldReconnect = true;
+    this.setStatus(this.attempts > 0 ? "reconnecting" : "connecting");
+
+    // Browsers cannot set headers on a WebSocket handshake, so the token
+    // travels as a query parameter
+    const separator = this.url.includes("?") ? "&" : "?";
+    const socket = this.createSocket(
+      `${this.url}/ws/admin${separator}token=${encodeURIComponent(token)}`
+    );
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.setStatus("open");
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onclose = (event: CloseEvent) => {
+      // Ignore late close events from a socket we already replaced
+      if (socket !== this.socket) return;
+      this.socket = null;
+
+      if (!this.shouldReconnect || event.code === NORMAL_CLOSE_CODE) {
+        this.setStatus("closed");
+        return;
+      }
+
+      if (AUTH_CLOSE_CODES.includes(event.code) && this.authService) {
+        // Token was rejected - refresh once before backing off
+        this.authService
+          .refreshToken()
+          .then(() => this.scheduleReconnect())
+          .catch(() => {
+            this.shouldReconnect = false;
+            this.setStatus("closed");
+          });
+        return;
+      }
+
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      // onclose always follows onerror; reconnect is handled there
+      console.warn("Admin socket error");
+    };
+  }
+
+  disconnect(): void {
+    this.shouldReconnect = false;
+    this.attempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.socket) {
+      this.socket.close(NORMAL_CLOSE_CODE, "Client disconnect");
+      this.socket = null;
+    }
+    this.setStatus("closed");
+  }
+
+  subscribe<T extends RealtimeEventType>(
+    type: T,
+    handler: EventHandler<T>
+  ): () => void {
+    const handlers = this.handlers.get(type) ?? new Set();
+    handlers.add(handler as EventHandler<never>);
+    this.handlers.set(type, handlers);
+
+    return () => {
+      handlers.delete(handler as EventHandler<never>);
+    };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private handleMessage(data: unknown) {
+    if (typeof data !== "string") return;
+
+    let message: RealtimeMessage;
+    try {
+      message = JSON.parse(data) as RealtimeMessage;
+    } catch {
+      console.warn("Ignoring malformed socket message:", data);
+      return;
+    }
+
+    const handlers = this.handlers.get(message.type);
+    if (!handlers) return;
+
+    handlers.forEach((handler) => {
+      try {
+        (handler as EventHandler<typeof message.type>)(
+          message.payload,
+          message
+        );
+      } catch (error) {
+        console.error(`Socket handler for ${message.type} failed:`, error);
+      }
+    });
+  }
+
+  private scheduleReconnect() {
+    if (!this.shouldReconnect) return;
+
+    // Exponential backoff with jitter, capped at maxDelay
+    const delay = Math.min(
+      this.maxDelay,
+      this.initialDelay * 2 ** this.attempts
+    );
+    const jitter = delay * 0.2 * Math.random();
+    this.attempts += 1;
+    this.setStatus("reconnecting");
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, delay + jitter);
+  }
+
+  private setStatus(status: SocketStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
+
+// Create singleton instance
+export const socketClient = new SocketClient();
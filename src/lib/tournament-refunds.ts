@@ -0,0 +1,89 @@
+import type { AdminPayment, AdminTournament } from "@/types/admin";
+import type { TournamentParticipant } from "@/services/TournamentService";
+
+// Entry fee refunds when a tournament is cancelled
+//
+// Every completed entry fee payment is refunded in full. The admin payments
+// endpoints call these ENTRY_FEE, while user payment history calls them
+// tournament_entry, so both are matched, as are statuses in either case.
+// Payments already marked refunded are listed but skipped, so reopening the
+// plan after a partly failed run only retries what is still owed. Every
+// participant is told about the cancellation, whether or not they paid.
+
+export interface RefundLine {
+  paymentId: string;
+  userId: string;
+  username: string;
+  amount: number;
+  currency: string;
+  refunded: boolean;
+}
+
+export interface RefundPlan {
+  lines: RefundLine[];
+  total: number; // Still to be refunded
+  refundedTotal: number;
+  recipients: { userId: string; username: string }[]; // Who to notify
+}
+
+const ENTRY_FEE_TYPES = ["entry_fee", "tournament_entry"];
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export function buildRefundPlan(
+  payments: AdminPayment[],
+  participants: TournamentParticipant[]
+): RefundPlan {
+  const lines = payments
+    .filter(
+      (payment) =>
+        ENTRY_FEE_TYPES.includes(payment.type.toLowerCase()) &&
+        ["completed", "refunded"].includes(payment.status.toLowerCase())
+    )
+    .map((payment) => ({
+      paymentId: payment.id,
+      userId: payment.userId,
+      username: payment.user?.username || payment.userId,
+      amount: payment.amount,
+      currency: payment.currency,
+      refunded: payment.status.toLowerCase() === "refunded",
+    }));
+
+  const sum = (items: RefundLine[]) =>
+    items.reduce((total, line) => total + toCents(line.amount), 0) / 100;
+
+  // Payers who have since withdrawn still get told
+  const recipients = new Map<string, string>();
+  participants
+    .filter((participant) => participant.status !== "withdrawn")
+    .forEach((participant) =>
+      recipients.set(participant.userId, participant.username)
+    );
+  lines.forEach((line) => recipients.set(line.userId, line.username));
+
+  return {
+    lines,
+    total: sum(lines.filter((line) => !line.refunded)),
+    refundedTotal: sum(lines.filter((line) => line.refunded)),
+    recipients: Array.from(recipients.entries()).map(
+      ([userId, username]) => ({ userId, username })
+    ),
+  };
+}
+
+export function buildCancellationMessage(
+  tournament: Pick<AdminTournament, "title">,
+  username: string,
+  reason: string,
+  refund?: number
+): { subject: string; message: string } {
+  const because = reason.trim().replace(/[.!]+$/, "");
+  return {
+    subject: `${tournament.title} has been cancelled`,
+    message:
+      `Hi ${username}, ${tournament.title} has been cancelled: ${because}. ` +
+      (refund
+        ? `Your entry fee of $${refund.toFixed(2)} has been refunded.`
+        : "We're sorry for the inconvenience."),
+  };
+}
@@ -0,0 +1,277 @@
+import { format } from "date-fns";
+import type { CreateTournamentData } from "@/services/TournamentService";
+import type {
+  OccurrenceOverride,
+  RecurrenceRule,
+  ScheduleTimezone,
+  TemplateOccurrence,
+  TournamentTemplate,
+  TournamentTemplateInput,
+} from "@/services/TournamentTemplateService";
+
+// Recurring tournament templates
+//
+// A template's recurrence rule is expanded into dated instances in the
+// rule's own timezone. Only occurrences that were skipped, changed or
+// turned into a tournament are stored; everything else comes from the
+// rule. Tournaments are created createAheadDays before they start by
+// whichever admin session is open, after claiming the occurrence so two
+// sessions can't both create it.
+
+export const TIMEZONE_OFFSETS: Record<ScheduleTimezone, number> = {
+  CAT: 120, // Minutes ahead of UTC
+  EAT: 180,
+  WAT: 60,
+  UTC: 0,
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Furthest ahead a template may create tournaments
+export const MAX_CREATE_AHEAD_DAYS = 60;
+
+// A claim not completed within this time is assumed abandoned
+const CLAIM_TIMEOUT = 10 * 60 * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface ScheduledInstance {
+  template: TournamentTemplate;
+  date: string; // "yyyy-MM-dd" in the rule's timezone
+  time: string; // "HH:mm" in the rule's timezone
+  startsAt: string;
+  endsAt: string;
+  title: string;
+  entryFee: number;
+  maxPlayers: number;
+  skipped: boolean;
+  override: OccurrenceOverride;
+  overridden: boolean;
+  tournamentId?: string;
+  claimed: boolean; // Another session is creating the tournament
+}
+
+const parseKey = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+export const addDays = (date: string, days: number) =>
+  new Date(parseKey(date) + days * DAY).toISOString().slice(0, 10);
+
+const weekdayOf = (date: string) => new Date(parseKey(date)).getUTCDay();
+
+/**
+ * The calendar date in a schedule timezone at a given moment
+ */
+export function localDateKey(
+  instant: number,
+  timezone: ScheduleTimezone
+): string {
+  return new Date(instant + TIMEZONE_OFFSETS[timezone] * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function startInstant(date: string, time: string, timezone: ScheduleTimezone) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (
+    parseKey(date) +
+    (hours * 60 + minutes - TIMEZONE_OFFSETS[timezone]) * 60 * 1000
+  );
+}
+
+export function matchesRule(rule: RecurrenceRule, date: string): boolean {
+  if (date < rule.startsOn || (rule.endsOn && date > rule.endsOn)) {
+    return false;
+  }
+  return rule.frequency === "daily" || rule.weekdays.includes(weekdayOf(date));
+}
+
+const occurrenceKey = (templateId: string, date: string) =>
+  `${templateId}|${date}`;
+
+/**
+ * A template's instances between two dates, inclusive, with any skips
+ * and changes applied. Dates that already have a tournament are kept even
+ * if the rule has since changed.
+ */
+export function expandTemplate(
+  template: TournamentTemplate,
+  from: string,
+  to: string,
+  occurrences: TemplateOccurrence[],
+  now = Date.now()
+): ScheduledInstance[] {
+  const rule = template.recurrence;
+  if (!rule) return [];
+
+  const recorded = new Map(
+    occurrences
+      .filter((occurrence) => occurrence.templateId === template.id)
+      .map((occurrence) => [
+        occurrenceKey(occurrence.templateId, occurrence.date),
+        occurrence,
+      ])
+  );
+
+  const dates = new Set<string>();
+  if (template.active) {
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      if (matchesRule(rule, date)) dates.add(date);
+    }
+  }
+  recorded.forEach((occurrence) => {
+    if (
+      occurrence.tournamentId &&
+      occurrence.date >= from &&
+      occurrence.date <= to
+    ) {
+      dates.add(occurrence.date);
+    }
+  });
+
+  return Array.from(dates)
+    .sort()
+    .map((date) => {
+      const occurrence = recorded.get(occurrenceKey(template.id, date));
+      const override = occurrence?.override || {};
+      const time = override.time || rule.time;
+      const start = startInstant(date, time, rule.timezone);
+      const end = start + rule.durationMinutes * 60 * 1000;
+      const day = format(new Date(`${date}T00:00:00`), "d MMM");
+      return {
+        template,
+        date,
+        time,
+        startsAt: new Date(start).toISOString(),
+        endsAt: new Date(end).toISOString(),
+        title: override.title || `${template.title} · ${day}`,
+        entryFee: override.entryFee ?? template.entryFee,
+        maxPlayers: override.maxPlayers ?? template.maxPlayers,
+        skipped: !!occurrence?.skipped,
+        override,
+        overridden: Object.keys(override).length > 0,
+        tournamentId: occurrence?.tournamentId,
+        claimed:
+          !occurrence?.tournamentId &&
+          !!occurrence?.claimedAt &&
+          now - new Date(occurrence.claimedAt).getTime() < CLAIM_TIMEOUT,
+      };
+    });
+}
+
+/**
+ * Instances that should have a tournament created now: inside their
+ * template's create-ahead window, not skipped, not started and not yet
+ * created or being created
+ */
+export function getDueInstances(
+  templates: TournamentTemplate[],
+  occurrences: TemplateOccurrence[],
+  now = Date.now()
+): ScheduledInstance[] {
+  return templates
+    .filter((template) => template.active && template.recurrence)
+    .flatMap((template) => {
+      const today = localDateKey(now, template.recurrence!.timezone);
+      return expandTemplate(
+        template,
+        today,
+        addDays(today, template.createAheadDays),
+        occurrences,
+        now
+      );
+    })
+    .filter(
+      (instance) =>
+        !instance.skipped &&
+        !instance.tournamentId &&
+        !instance.claimed &&
+        new Date(instance.startsAt).getTime() > now
+    );
+}
+
+export function buildTournamentData(
+  instance: ScheduledInstance
+): CreateTournamentData {
+  const { template } = instance;
+  return {
+    title: instance.title,
+    description: template.description,
+    gameType: template.gameType,
+    maxPlayers: instance.maxPlayers,
+    entryFee: instance.entryFee,
+    startDate: instance.startsAt,
+    endDate: instance.endsAt,
+    prizeBreakdown: template.prizeBreakdown,
+    bracketType: template.bracketType,
+    bracketConfig: template.bracketConfig,
+  };
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const at = `at ${rule.time} ${rule.timezone}`;
+  if (rule.frequency === "daily" || rule.weekdays.length === 7) {
+    return `Daily ${at}`;
+  }
+  const days = [...rule.weekdays].sort((a, b) => a - b);
+  if (days.length === 1) return `Every ${WEEKDAY_NAMES[days[0]]} ${at}`;
+  const labels = days.map((day) => WEEKDAY_LABELS[day]);
+  return (
+    `Every ${labels.slice(0, -1).join(", ")} and ` +
+    `${labels[labels.length - 1]} ${at}`
+  );
+}
+
+/**
+ * Check a rule before saving; returns an error message or null
+ */
+export function validateRecurrence(rule: RecurrenceRule): string | null {
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(rule.time)) {
+    return "Enter the start time as HH:mm";
+  }
+  if (rule.frequency === "weekly" && rule.weekdays.length === 0) {
+    return "Pick at least one day of the week";
+  }
+  if (!(rule.durationMinutes > 0)) {
+    return "Duration must be more than zero";
+  }
+  if (!rule.startsOn) return "Choose the first date";
+  if (rule.endsOn && rule.endsOn < rule.startsOn) {
+    return "The series can't end before it starts";
+  }
+  return null;
+}
+
+/**
+ * Check a template before saving; returns an error message or null
+ */
+export function validateTemplate(
+  template: TournamentTemplateInput
+): string | null {
+  const { first, second, third } = template.prizeBreakdown;
+  if (!template.name) return "Name is required";
+  if (!template.title) return "Tournament title is required";
+  if (template.maxPlayers < 2) return "At least 2 players are needed";
+  if (template.entryFee < 0) return "Entry fee can't be negative";
+  if (first + second + third !== 100) {
+    return `Prize breakdown adds up to ${first + second + third}%, not 100%`;
+  }
+  if (
+    template.createAheadDays < 1 ||
+    template.createAheadDays > MAX_CREATE_AHEAD_DAYS
+  ) {
+    return `Create between 1 and ${MAX_CREATE_AHEAD_DAYS} days ahead`;
+  }
+  return template.recurrence ? validateRecurrence(template.recurrence) : null;
+}
@@ -0,0 +1,135 @@
+import type {
+  LedgerCorrection,
+  LedgerEntry,
+  LedgerEntryType,
+} from "@/services/WalletService";
+import type { CompletionDecision } from "@/lib/withdrawal-policy";
+
+// Wallet ledger
+//
+// Every credit and debit on a user's wallet is a ledger entry, so the wallet
+// balance should always equal the sum of the ledger. When it doesn't, an
+// admin requests a correcting entry and a different admin signs it off
+// before it is posted. Corrections only touch the ledger; moving money is
+// still done with a wallet adjustment.
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  deposit: "Deposit",
+  entry_fee: "Entry fee",
+  prize_payout: "Prize payout",
+  refund: "Refund",
+  withdrawal: "Withdrawal",
+  adjustment: "Manual adjustment",
+  correction: "Correction",
+};
+
+export const LEDGER_ENTRY_COLORS: Record<LedgerEntryType, string> = {
+  deposit: "bg-green-100 text-green-800",
+  entry_fee: "bg-blue-100 text-blue-800",
+  prize_payout: "bg-purple-100 text-purple-800",
+  refund: "bg-teal-100 text-teal-800",
+  withdrawal: "bg-orange-100 text-orange-800",
+  adjustment: "bg-yellow-100 text-yellow-800",
+  correction: "bg-gray-100 text-gray-800",
+};
+
+export interface LedgerRow {
+  entry: LedgerEntry;
+  balance: number; // Running balance after this entry
+}
+
+export interface LedgerReconciliation {
+  ledgerTotal: number;
+  walletBalance: number;
+  difference: number; // walletBalance - ledgerTotal
+  pendingTotal: number; // Corrections awaiting sign-off
+  balanced: boolean;
+}
+
+// Amounts are kept in cents while summing so floats don't drift
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Ledger entries in the order they were posted, each with the balance it
+ * left the wallet at
+ */
+export function buildLedger(entries: LedgerEntry[]): LedgerRow[] {
+  const sorted = [...entries].sort(
+    (a, b) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() ||
+      a.id.localeCompare(b.id)
+  );
+
+  let cents = 0;
+  return sorted.map((entry) => {
+    cents += toCents(entry.amount);
+    return { entry, balance: fromCents(cents) };
+  });
+}
+
+/**
+ * Compare the ledger with the wallet balance the platform reports
+ */
+export function reconcileLedger(
+  entries: LedgerEntry[],
+  walletBalance: number,
+  corrections: LedgerCorrection[] = []
+): LedgerReconciliation {
+  const ledgerCents = entries.reduce((sum, e) => sum + toCents(e.amount), 0);
+  const pendingCents = corrections
+    .filter((c) => c.status === "pending")
+    .reduce((sum, c) => sum + toCents(c.amount), 0);
+  const differenceCents = toCents(walletBalance) - ledgerCents;
+
+  return {
+    ledgerTotal: fromCents(ledgerCents),
+    walletBalance,
+    difference: fromCents(differenceCents),
+    pendingTotal: fromCents(pendingCents),
+    balanced: differenceCents === 0,
+  };
+}
+
+/**
+ * Whether a correcting entry is ready to request
+ */
+export function validateCorrection(amount: number, reason: string): string[] {
+  const errors: string[] = [];
+  if (!Number.isFinite(amount) || toCents(amount) === 0) {
+    errors.push("Enter a non-zero amount");
+  } else if (Math.abs(amount * 100 - toCents(amount)) > 1e-6) {
+    errors.push("Amounts can't have more than two decimal places");
+  }
+  if (reason.trim().length < 10) {
+    errors.push("Explain the correction in at least 10 characters");
+  }
+  return errors;
+}
+
+/**
+ * Whether the given admin may approve or reject a requested correction
+ */
+export function canReviewCorrection(
+  correction: LedgerCorrection,
+  adminId: string | undefined
+): CompletionDecision {
+  if (correction.status !== "pending") {
+    return {
+      allowed: false,
+      reason: `Already ${correction.status} by ${correction.reviewedBy?.name ?? "another admin"}`,
+    };
+  }
+  if (correction.requestedBy.id === adminId) {
+    return {
+      allowed: false,
+      reason: "You requested this correction; a different admin must sign it off",
+    };
+  }
+  return { allowed: true };
+}
+
+export function formatSignedAmount(amount: number): string {
+  const sign = amount > 0 ? "+" : amount < 0 ? "-" : "";
+  return `${sign}$${Math.abs(amount).toFixed(2)}`;
+}
@@ -0,0 +1,162 @@
+import {
+  WithdrawalRequest,
+  WithdrawalApproval,
+  WithdrawalPolicy,
+} from "@/services/PaymentService";
+
+// Withdrawal maker-checker rules
+//
+// A withdrawal above the approval threshold, or one that breaches a per-user
+// limit, needs a recorded approval from one admin (the maker) before a
+// different admin (the checker) can mark it completed.
+
+export const DEFAULT_WITHDRAWAL_POLICY: WithdrawalPolicy = {
+  approvalThreshold: 100,
+  dailyLimitPerUser: 500,
+  maxWithdrawalsPerDay: 5,
+  velocityWindowMinutes: 60,
+  maxWithdrawalsPerWindow: 3,
+};
+
+export interface WithdrawalCheck {
+  id: "threshold" | "daily_limit" | "daily_count" | "velocity";
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface WithdrawalRiskSummary {
+  checks: WithdrawalCheck[];
+  dailyTotal: number;
+  dailyCount: number;
+  windowCount: number;
+  requiresSecondApproval: boolean;
+}
+
+export interface CompletionDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Failed and cancelled withdrawals never paid out, so they don't count
+const COUNTED_STATUSES: WithdrawalRequest["status"][] = [
+  "pending",
+  "processing",
+  "completed",
+];
+
+/**
+ * Run threshold, daily limit and velocity checks for a withdrawal against
+ * the user's history. The withdrawal itself is always included in the totals.
+ */
+export function evaluateWithdrawal(
+  withdrawal: WithdrawalRequest,
+  history: WithdrawalRequest[],
+  policy: WithdrawalPolicy
+): WithdrawalRiskSummary {
+  const requestedAt = new Date(withdrawal.requestedAt).getTime();
+  const windowMs = policy.velocityWindowMinutes * 60 * 1000;
+
+  const counted = [
+    withdrawal,
+    ...history.filter(
+      (item) =>
+        item.id !== withdrawal.id &&
+        item.userId === withdrawal.userId &&
+        COUNTED_STATUSES.includes(item.status)
+    ),
+  ];
+
+  const before = (ms: number) =>
+    counted.filter((item) => {
+      const age = requestedAt - new Date(item.requestedAt).getTime();
+      return age >= 0 && age < ms;
+    });
+
+  const daily = before(DAY_MS);
+  const dailyTotal = daily.reduce((sum, item) => sum + item.amount, 0);
+  const dailyCount = daily.length;
+  const windowCount = before(windowMs).length;
+
+  const checks: WithdrawalCheck[] = [
+    {
+      id: "threshold",
+      label: "Approval threshold",
+      passed: withdrawal.amount <= policy.approvalThreshold,
+      detail: `$${withdrawal.amount.toFixed(2)} of $${policy.approvalThreshold.toFixed(2)} single-approval limit`,
+    },
+    {
+      id: "daily_limit",
+      label: "Daily amount limit",
+      passed: dailyTotal <= policy.dailyLimitPerUser,
+      detail: `$${dailyTotal.toFixed(2)} of $${policy.dailyLimitPerUser.toFixed(2)} in the last 24 hours`,
+    },
+    {
+      id: "daily_count",
+      label: "Daily withdrawal count",
+      passed: dailyCount <= policy.maxWithdrawalsPerDay,
+      detail: `${dailyCount} of ${policy.maxWithdrawalsPerDay} requests in the last 24 hours`,
+    },
+    {
+      id: "velocity",
+      label: "Velocity",
+      passed: windowCount <= policy.maxWithdrawalsPerWindow,
+      detail: `${windowCount} of ${policy.maxWithdrawalsPerWindow} requests within ${policy.velocityWindowMinutes} minutes`,
+    },
+  ];
+
+  return {
+    checks,
+    dailyTotal,
+    dailyCount,
+    windowCount,
+    requiresSecondApproval: checks.some((check) => !check.passed),
+  };
+}
+
+/**
+ * Latest approval decision, or undefined if nobody has reviewed it yet
+ */
+export function getLatestApproval(
+  approvals: WithdrawalApproval[]
+): WithdrawalApproval | undefined {
+  return [...approvals].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  )[0];
+}
+
+/**
+ * Whether the given admin may mark the withdrawal completed
+ */
+export function canCompleteWithdrawal(
+  summary: WithdrawalRiskSummary,
+  approvals: WithdrawalApproval[],
+  adminId: string | undefined
+): CompletionDecision {
+  if (!summary.requiresSecondApproval) {
+    return { allowed: true };
+  }
+
+  const latest = getLatestApproval(approvals);
+  if (!latest) {
+    return {
+      allowed: false,
+      reason: "This withdrawal needs a first approval before it can be paid out",
+    };
+  }
+  if (latest.decision === "REJECTED") {
+    return {
+      allowed: false,
+      reason: `Rejected by ${latest.adminName} during review`,
+    };
+  }
+  if (latest.adminId === adminId) {
+    return {
+      allowed: false,
+      reason: "You approved this withdrawal; a different admin must complete it",
+    };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,199 @@
+import { toast } from "react-hot-toast";
+import { apiClient, AuditRecorder } from "@/lib/api-client";
+import { PaginationInfo } from "@/types/admin";
+import {
+  describeMutation,
+  redact,
+  unwrapResponse,
+  AuditEntityType,
+  PendingAudit,
+} from "@/lib/audit";
+
+export type AuditOutcome = "succeeded" | "failed";
+
+export interface AuditActor {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  actor: AuditActor;
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string;
+  outcome: AuditOutcome;
+  before?: unknown;
+  after?: unknown;
+  request?: unknown; // Redacted request body
+  error?: string;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+// Body of a write to the audit log
+interface AuditWrite {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string;
+  outcome: AuditOutcome;
+  before?: unknown;
+  after?: unknown;
+  request?: unknown;
+  error?: string;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+const SNAPSHOT_TIMEOUT = 2000; // ms; the entry is written without a diff
+const WRITE_ATTEMPTS = 3;
+const RETRY_DELAY = 1000; // ms, doubled after each failed attempt
+
+export class AuditService implements AuditRecorder {
+  private baseUrl = "/api/admin/audit";
+  private unsent: AuditWrite[] = []; // Retried after the next successful write
+
+  /**
+   * Get audit entries, newest first
+   */
+  async getEntries(
+    filters: AuditFilters = {},
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ entries: AuditEntry[]; pagination: PaginationInfo }> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const response = await apiClient.get<{
+      data: { entries: AuditEntry[]; pagination: PaginationInfo };
+    }>(`${this.baseUrl}?${params.toString()}`);
+    return response.data;
+  }
+
+  /**
+   * Get every admin who appears in the log, for filtering
+   */
+  async getActors(): Promise<AuditActor[]> {
+    const response = await apiClient.get<{ data: AuditActor[] }>(
+      `${this.baseUrl}/actors`
+    );
+    return response.data;
+  }
+
+  /**
+   * Get every entry matching the filters, for export
+   */
+  async getAllEntries(filters: AuditFilters = {}): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.getEntries(filters, page, EXPORT_PAGE_SIZE);
+      entries.push(...response.entries);
+      if (!response.pagination.hasNextPage) return entries;
+    }
+  }
+
+  /**
+   * Describe a mutation before it is sent and start reading the entity as
+   * it stands. The mutation doesn't wait for the read, which is only made
+   * for routes with a snapshot URL and cut short after SNAPSHOT_TIMEOUT; a
+   * failed, slow or late read only costs the diff.
+   */
+  prepare(method: string, url: string, data: unknown): PendingAudit | null {
+    const mutation = describeMutation(method, url);
+    if (!mutation) return null;
+    return {
+      mutation,
+      request: redact(data),
+      before: this.readSnapshot(mutation.snapshotUrl),
+    };
+  }
+
+  /**
+   * Log a mutation once it has succeeded or failed. The actor is taken
+   * from the session on the server. Failed writes are retried, and the
+   * admin is told if the entry still couldn't be saved.
+   */
+  record(pending: PendingAudit, error?: unknown): void {
+    this.buildEntry(pending, error)
+      .then((entry) => this.writeEntry(entry))
+      .catch((err) => console.error("Error writing audit entry:", err));
+  }
+
+  private async buildEntry(
+    pending: PendingAudit,
+    error?: unknown
+  ): Promise<AuditWrite> {
+    const { mutation, request } = pending;
+    const before = await pending.before;
+    return {
+      action: mutation.action,
+      entityType: mutation.entityType,
+      entityId: mutation.entityId,
+      outcome: error ? "failed" : "succeeded",
+      before,
+      after: error ? before : await this.readSnapshot(mutation.snapshotUrl),
+      request,
+      error: error instanceof Error ? error.message : undefined,
+    };
+  }
+
+  private async writeEntry(entry: AuditWrite) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await apiClient.post(this.baseUrl, entry, { skipErrorToast: true });
+        break;
+      } catch (error) {
+        if (attempt < WRITE_ATTEMPTS) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, RETRY_DELAY * 2 ** (attempt - 1))
+          );
+          continue;
+        }
+        this.unsent.push(entry);
+        toast.error(
+          `"${entry.action}" could not be saved to the audit log. ` +
+            "It will be retried with the next change."
+        );
+        throw error;
+      }
+    }
+
+    const unsent = this.unsent.splice(0);
+    for (const [index, queued] of unsent.entries()) {
+      try {
+        await apiClient.post(this.baseUrl, queued, { skipErrorToast: true });
+      } catch (error) {
+        this.unsent.push(...unsent.slice(index));
+        throw error;
+      }
+    }
+  }
+
+  private async readSnapshot(url?: string): Promise<unknown> {
+    if (!url) return undefined;
+    try {
+      return unwrapResponse(
+        await apiClient.get(url, {
+          skipErrorToast: true,
+          timeout: SNAPSHOT_TIMEOUT,
+        })
+      );
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export const auditService = new AuditService();
@@ -1,4 +1,5 @@
 import { apiClient } from "@/lib/api-client";
+import { Permission, PERMISSION_MIN_ROLE } from "@/lib/permissions";
 
 export interface LoginCredentials {
   email: string;
@@ -14,7 +15,7 @@ export interface LoginResponse {
     username: string;
     firstName: string;
     lastName: string;
-    role: "user" | "admin" | "moderator" | "super_admin";
+    role: "user" | "support" | "moderator" | "admin" | "super_admin";
     permissions: string[];
     isActive: boolean;
     isVerified: boolean;
@@ -129,9 +130,10 @@ class AuthService {
     if (!user) return false;
 
     const roleHierarchy = {
-      super_admin: 4,
-      admin: 3,
-      moderator: 2,
+      super_admin: 5,
+      admin: 4,
+      moderator: 3,
+      support: 2,
       user: 1,
     };
 
@@ -148,6 +150,14 @@ class AuthService {
     return user?.permissions?.includes(permission) || false;
   }
 
+  // Explicit grants win; otherwise fall back to the permission's minimum role
+  can(permission: Permission): boolean {
+    if (this.hasPermission(permission)) return true;
+
+    const minimumRole = PERMISSION_MIN_ROLE[permission];
+    return minimumRole ? this.hasRole(minimumRole) : false;
+  }
+
   // Authentication API calls
   async login(credentials: LoginCredentials): Promise<LoginResponse> {
     try {
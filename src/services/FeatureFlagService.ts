@@ -0,0 +1,145 @@
+import { apiClient } from "@/lib/api-client";
+import { LoginResponse } from "@/services/AuthService";
+
+export type UserRole = LoginResponse["user"]["role"];
+
+export interface FeatureFlagTargeting {
+  roles: UserRole[];
+  provinces: string[];
+  cities: string[];
+}
+
+export interface FeatureFlag {
+  id: string;
+  key: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  killed: boolean; // Kill switch, overrides every other rule
+  rolloutPercentage: number; // 0-100
+  targeting: FeatureFlagTargeting;
+  allowlist: string[]; // User IDs that always get the flag
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type FeatureFlagInput = Pick<
+  FeatureFlag,
+  | "key"
+  | "name"
+  | "description"
+  | "enabled"
+  | "rolloutPercentage"
+  | "targeting"
+  | "allowlist"
+>;
+
+export interface FeatureFlagAuditEntry {
+  id: string;
+  flagId: string;
+  action: "created" | "updated" | "killed" | "restored" | "deleted";
+  changes?: {
+    field: string;
+    before: unknown;
+    after: unknown;
+  }[];
+  reason?: string;
+  actor: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+// How the API resolved a flag for one user
+export interface FlagUserEvaluation {
+  flagId: string;
+  active: boolean;
+  reason: string;
+}
+
+export class FeatureFlagService {
+  private baseUrl = "/api/admin/feature-flags";
+
+  /**
+   * Get all feature flags
+   */
+  async getFlags(): Promise<FeatureFlag[]> {
+    const response = await apiClient.get<{ data: FeatureFlag[] }>(
+      this.baseUrl
+    );
+    return response.data;
+  }
+
+  /**
+   * Create a feature flag
+   */
+  async createFlag(flag: FeatureFlagInput): Promise<FeatureFlag> {
+    const response = await apiClient.post<{ data: FeatureFlag }>(
+      this.baseUrl,
+      flag
+    );
+    return response.data;
+  }
+
+  /**
+   * Update a flag's rollout, targeting or allowlist
+   */
+  async updateFlag(
+    id: string,
+    flag: Partial<FeatureFlagInput>,
+    reason?: string
+  ): Promise<FeatureFlag> {
+    const response = await apiClient.put<{ data: FeatureFlag }>(
+      `${this.baseUrl}/${id}`,
+      { ...flag, reason }
+    );
+    return response.data;
+  }
+
+  /**
+   * Turn a flag off for everyone, or lift the kill switch again
+   */
+  async setKillSwitch(
+    id: string,
+    killed: boolean,
+    reason?: string
+  ): Promise<FeatureFlag> {
+    const response = await apiClient.put<{ data: FeatureFlag }>(
+      `${this.baseUrl}/${id}/kill-switch`,
+      { killed, reason }
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete a feature flag
+   */
+  async deleteFlag(id: string): Promise<void> {
+    await apiClient.delete(`${this.baseUrl}/${id}`);
+  }
+
+  /**
+   * Get a flag's audit history, newest first
+   */
+  async getFlagHistory(id: string): Promise<FeatureFlagAuditEntry[]> {
+    const response = await apiClient.get<{ data: FeatureFlagAuditEntry[] }>(
+      `${this.baseUrl}/${id}/history`
+    );
+    return response.data;
+  }
+
+  /**
+   * Get every flag as the API resolves it for a user, which is what the
+   * player actually gets
+   */
+  async getUserEvaluations(userId: string): Promise<FlagUserEvaluation[]> {
+    const response = await apiClient.get<{ data: FlagUserEvaluation[] }>(
+      `${this.baseUrl}/evaluate/${userId}`,
+      { skipErrorToast: true }
+    );
+    return response.data;
+  }
+}
+
+export const featureFlagService = new FeatureFlagService();
@@ -0,0 +1,142 @@
+import { apiClient } from "@/lib/api-client";
+
+export interface MaintenanceWindow {
+  id: string;
+  title: string;
+  message: string; // Shown to players from announceAt until the window ends
+  announceAt: string;
+  startsAt: string;
+  endsAt: string;
+  status: "scheduled" | "active" | "completed" | "cancelled";
+  pauseTournaments: boolean;
+  blockWithdrawals: boolean;
+  bypassAdminIds: string[]; // Admins who can still process withdrawals
+  pausedTournamentIds: string[]; // Tournaments this window paused
+  createdBy?: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MaintenanceWindowInput = Pick<
+  MaintenanceWindow,
+  | "title"
+  | "message"
+  | "announceAt"
+  | "startsAt"
+  | "endsAt"
+  | "pauseTournaments"
+  | "blockWithdrawals"
+  | "bypassAdminIds"
+>;
+
+export class MaintenanceService {
+  private baseUrl = "/api/admin/maintenance";
+
+  /**
+   * Get maintenance windows that have not finished or been cancelled
+   */
+  async getWindows(): Promise<MaintenanceWindow[]> {
+    const response = await apiClient.get<{ data: MaintenanceWindow[] }>(
+      `${this.baseUrl}?status=scheduled,active`
+    );
+    return response.data;
+  }
+
+  /**
+   * Schedule a maintenance window
+   */
+  async createWindow(
+    window: MaintenanceWindowInput
+  ): Promise<MaintenanceWindow> {
+    const response = await apiClient.post<{ data: MaintenanceWindow }>(
+      this.baseUrl,
+      window
+    );
+    return response.data;
+  }
+
+  /**
+   * Change a scheduled window's times, message or restrictions
+   */
+  async updateWindow(
+    id: string,
+    window: Partial<MaintenanceWindowInput>
+  ): Promise<MaintenanceWindow> {
+    const response = await apiClient.put<{ data: MaintenanceWindow }>(
+      `${this.baseUrl}/${id}`,
+      window
+    );
+    return response.data;
+  }
+
+  /**
+   * Cancel a window before it starts
+   */
+  async cancelWindow(id: string): Promise<MaintenanceWindow> {
+    const response = await apiClient.post<{ data: MaintenanceWindow }>(
+      `${this.baseUrl}/${id}/cancel`
+    );
+    return response.data;
+  }
+
+  /**
+   * Reserve a window's start or finish for this session. Fails if the window
+   * has already moved on or another session holds the claim, so two open
+   * admin sessions can't both run it. Returns the window as stored.
+   */
+  async claimTransition(
+    id: string,
+    transition: "start" | "complete"
+  ): Promise<MaintenanceWindow> {
+    const response = await apiClient.post<{ data: MaintenanceWindow }>(
+      `${this.baseUrl}/${id}/claim`,
+      { transition },
+      { skipErrorToast: true }
+    );
+    return response.data;
+  }
+
+  /**
+   * Give up a claim taken with claimTransition, so the transition can be
+   * tried again on the next check instead of waiting for the claim to expire
+   */
+  async releaseClaim(
+    id: string,
+    transition: "start" | "complete"
+  ): Promise<void> {
+    await apiClient.delete(`${this.baseUrl}/${id}/claim`, {
+      data: { transition },
+      skipErrorToast: true,
+    });
+  }
+
+  /**
+   * Mark a window as started, recording the tournaments it paused. The
+   * server adds them to any already recorded rather than replacing them.
+   */
+  async startWindow(
+    id: string,
+    pausedTournamentIds: string[]
+  ): Promise<MaintenanceWindow> {
+    const response = await apiClient.post<{ data: MaintenanceWindow }>(
+      `${this.baseUrl}/${id}/start`,
+      { pausedTournamentIds }
+    );
+    return response.data;
+  }
+
+  /**
+   * Mark a window as finished
+   */
+  async completeWindow(id: string): Promise<MaintenanceWindow> {
+    const response = await apiClient.post<{ data: MaintenanceWindow }>(
+      `${this.baseUrl}/${id}/complete`
+    );
+    return response.data;
+  }
+}
+
+export const maintenanceService = new MaintenanceService();
@@ -0,0 +1,673 @@
+import { apiClient } from "@/lib/api-client";
+import { PaginationInfo, PlatformUser } from "@/types/admin";
+import { userService } from "@/services/UserService";
+import { buildReinstatementMessage } from "@/lib/ban-expiry";
+
+export type FlaggedContentStatus = "pending" | "approved" | "rejected";
+export type FlaggedContentSeverity = "low" | "medium" | "high";
+
+export interface FlaggedContent {
+  id: string;
+  userId: string;
+  username: string;
+  message: string;
+  tournamentId?: string; // Set when the message was posted in tournament chat
+  reason: string;
+  severity: FlaggedContentSeverity;
+  status: FlaggedContentStatus;
+  reviewedBy?: {
+    id: string;
+    name: string;
+  };
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+export interface FlaggedContentParams {
+  page?: number;
+  limit?: number;
+  status?: FlaggedContentStatus;
+  severity?: FlaggedContentSeverity;
+}
+
+export interface SanctionedUser {
+  id: string;
+  username: string;
+  email: string;
+  status: "banned" | "suspended";
+  reason: string;
+  sanctionedAt: string;
+  expiresAt: string | null; // null for permanent bans
+}
+
+export type ReinstatementTrigger = "expired" | "manual";
+
+export interface Reinstatement {
+  id: string;
+  userId: string;
+  username: string;
+  sanction: SanctionedUser["status"];
+  sanctionReason: string;
+  trigger: ReinstatementTrigger;
+  note: string;
+  notified: boolean; // Whether the user was sent a message
+  reinstatedBy: {
+    id: string;
+    name: string;
+  };
+  reinstatedAt: string;
+}
+
+export interface ModerationStats {
+  totalFlagged: number;
+  pendingReview: number;
+  reviewedToday: number;
+  bannedUsers: number;
+  suspendedUsers: number;
+  autoFiltered: number;
+}
+
+export type ModerationRuleAction = "flag" | "hide" | "mute";
+export type ProfanityLanguage = "en" | "sn" | "nd";
+
+interface ModerationRuleBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: FlaggedContentSeverity;
+  action: ModerationRuleAction;
+  muteMinutes?: number; // Used when action is "mute"
+}
+
+export interface WordListRule extends ModerationRuleBase {
+  type: "words";
+  language: ProfanityLanguage;
+  words: string[];
+}
+
+export interface PatternRule extends ModerationRuleBase {
+  type: "pattern";
+  patterns: string[]; // Regex sources, matched case-insensitively
+}
+
+export interface RepeatRule extends ModerationRuleBase {
+  type: "repeat";
+  maxRepeats: number; // Identical messages allowed per window
+  windowSeconds: number;
+}
+
+export interface LinkFloodRule extends ModerationRuleBase {
+  type: "links";
+  maxLinks: number; // Links allowed per window
+  windowSeconds: number;
+}
+
+export interface RateLimitRule extends ModerationRuleBase {
+  type: "rate";
+  maxMessages: number; // Messages allowed per window
+  windowSeconds: number;
+}
+
+export type ModerationRule =
+  | WordListRule
+  | PatternRule
+  | RepeatRule
+  | LinkFloodRule
+  | RateLimitRule;
+
+export type ModerationRuleType = ModerationRule["type"];
+
+export interface ModerationRuleSet {
+  enabled: boolean;
+  rules: ModerationRule[];
+  updatedBy?: {
+    id: string;
+    name: string;
+  };
+  updatedAt?: string;
+}
+
+export type PenaltyAction = "warn" | "suspend" | "ban";
+
+export interface PenaltyStep {
+  action: PenaltyAction;
+  durationHours?: number; // Suspensions only
+}
+
+export type CaseStatus = "open" | "closed" | "overturned";
+export type CaseEntryType = "flag" | "warning" | "suspension" | "ban" | "note";
+
+export interface CaseEntry {
+  id: string;
+  type: CaseEntryType;
+  text: string; // Flagged message, penalty reason or moderator note
+  flaggedContentId?: string;
+  actionId?: string; // The user moderation action a penalty created
+  durationHours?: number;
+  author: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+export interface CaseEvidence {
+  id: string;
+  fileName: string;
+  url: string;
+  contentType: string;
+  size: number;
+  uploadedBy: {
+    id: string;
+    name: string;
+  };
+  uploadedAt: string;
+}
+
+export type AppealStatus = "pending" | "upheld" | "overturned";
+
+export interface CaseAppeal {
+  id: string;
+  message: string; // The user's statement
+  status: AppealStatus;
+  submittedAt: string;
+  reviewedBy?: {
+    id: string;
+    name: string;
+  };
+  reviewNote?: string;
+  reviewedAt?: string;
+}
+
+export interface ModerationCase {
+  id: string;
+  userId: string;
+  username: string;
+  status: CaseStatus;
+  summary: string;
+  entries: CaseEntry[];
+  evidence: CaseEvidence[];
+  appeals: CaseAppeal[];
+  openedBy: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewCaseEntry = Pick<
+  CaseEntry,
+  "type" | "text" | "flaggedContentId" | "actionId" | "durationHours"
+>;
+
+export class ModerationService {
+  private baseUrl = "/api/admin/moderation";
+
+  /**
+   * Get a page of flagged content, newest first
+   */
+  async getFlaggedContent(
+    params: FlaggedContentParams = {}
+  ): Promise<{ flaggedContent: FlaggedContent[]; pagination: PaginationInfo }> {
+    const { page = 1, limit = 20, status, severity } = params;
+    const query = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    if (status) query.append("status", status);
+    if (severity) query.append("severity", severity);
+
+    const response = await apiClient.get<{
+      data: { flaggedContent: FlaggedContent[]; pagination: PaginationInfo };
+    }>(`${this.baseUrl}/flagged?${query.toString()}`);
+    return response.data;
+  }
+
+  /**
+   * Clear a flag and leave the content visible
+   */
+  async approveContent(id: string, note?: string): Promise<FlaggedContent> {
+    const response = await apiClient.post<{ data: FlaggedContent }>(
+      `${this.baseUrl}/flagged/${id}/approve`,
+      { note }
+    );
+    return response.data;
+  }
+
+  /**
+   * Uphold a flag and hide the content from players
+   */
+  async rejectContent(id: string, note?: string): Promise<FlaggedContent> {
+    const response = await apiClient.post<{ data: FlaggedContent }>(
+      `${this.baseUrl}/flagged/${id}/reject`,
+      { note }
+    );
+    return response.data;
+  }
+
+  /**
+   * Remove flagged content permanently
+   */
+  async deleteContent(id: string): Promise<void> {
+    return apiClient.delete(`${this.baseUrl}/flagged/${id}`);
+  }
+
+  /**
+   * Get a page of banned and suspended users
+   */
+  async getSanctionedUsers(
+    page = 1,
+    limit = 20
+  ): Promise<{ users: SanctionedUser[]; pagination: PaginationInfo }> {
+    const response = await apiClient.get<{
+      data: { users: SanctionedUser[]; pagination: PaginationInfo };
+    }>(`${this.baseUrl}/sanctions?page=${page}&limit=${limit}`);
+    return response.data;
+  }
+
+  /**
+   * Get bans and suspensions that expire before a date, soonest first
+   */
+  async getExpiringSanctions(before: string): Promise<SanctionedUser[]> {
+    const response = await apiClient.get<{ data: SanctionedUser[] }>(
+      `${this.baseUrl}/sanctions/expiring?before=${encodeURIComponent(before)}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Move a sanction's expiry, or make it permanent with null
+   */
+  async updateSanctionExpiry(
+    userId: string,
+    expiresAt: string | null,
+    reason: string
+  ): Promise<SanctionedUser> {
+    const response = await apiClient.patch<{ data: SanctionedUser }>(
+      `${this.baseUrl}/sanctions/${userId}`,
+      { expiresAt, reason }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get the reinstatement audit trail, newest first
+   */
+  async getReinstatements(
+    page: number,
+    limit: number
+  ): Promise<{ reinstatements: Reinstatement[]; pagination: PaginationInfo }> {
+    const response = await apiClient.get<{
+      data: { reinstatements: Reinstatement[]; pagination: PaginationInfo };
+    }>(`${this.baseUrl}/reinstatements?page=${page}&limit=${limit}`);
+    return response.data;
+  }
+
+  /**
+   * Reserve a sanction for reinstatement. The server only grants it while
+   * the sanction still has the status and expiry this session loaded and no
+   * other session holds it, so a ban that was just extended or made
+   * permanent is never lifted from a stale list. Claims lapse after a few
+   * minutes, so a reinstatement that fails part way can be tried again.
+   * Resolves to false if the claim was refused.
+   */
+  async claimReinstatement(sanction: SanctionedUser): Promise<boolean> {
+    try {
+      await apiClient.post(
+        `${this.baseUrl}/sanctions/${sanction.id}/reinstatement-claim`,
+        { status: sanction.status, expiresAt: sanction.expiresAt ?? null },
+        { skipErrorToast: true }
+      );
+      return true;
+    } catch (error) {
+      const status = (error as { response?: { status?: number } }).response
+        ?.status;
+      if (status === 409) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve an auto-mute raised by a rule, so only one admin session applies
+   * it. Claims lapse after a few minutes, so a mute that fails can be picked
+   * up again. Resolves to false if another session holds the claim or the
+   * mute has already been applied.
+   */
+  async claimAutoMute(messageId: string): Promise<boolean> {
+    try {
+      await apiClient.post(
+        `${this.baseUrl}/auto-mutes/${messageId}/claim`,
+        undefined,
+        { skipErrorToast: true }
+      );
+      return true;
+    } catch (error) {
+      const status = (error as { response?: { status?: number } }).response
+        ?.status;
+      if (status === 409) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Lift a ban or suspension, tell the user and record who did it and why.
+   * A failed message doesn't undo the reinstatement; the audit note says
+   * whether the user was told. Resolves to null, without changing anything,
+   * if the sanction has changed or another session is already lifting it.
+   */
+  async reinstateUser(
+    sanction: SanctionedUser,
+    trigger: ReinstatementTrigger,
+    note: string
+  ): Promise<Reinstatement | null> {
+    if (!(await this.claimReinstatement(sanction))) return null;
+
+    if (sanction.status === "banned") {
+      await userService.unbanUser(sanction.id);
+    } else {
+      await userService.activateUser(sanction.id);
+    }
+
+    const { subject, message } = buildReinstatementMessage(sanction, trigger);
+    let notified = true;
+    try {
+      await userService.sendMessageToUser(sanction.id, subject, message);
+    } catch (error) {
+      console.error("Error notifying reinstated user:", error);
+      notified = false;
+    }
+
+    const response = await apiClient.post<{ data: Reinstatement }>(
+      `${this.baseUrl}/reinstatements`,
+      {
+        userId: sanction.id,
+        sanction: sanction.status,
+        sanctionReason: sanction.reason,
+        trigger,
+        note,
+        notified,
+      }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get moderation queue and sanction totals
+   */
+  async getStats(): Promise<ModerationStats> {
+    const response = await apiClient.get<{ data: ModerationStats }>(
+      `${this.baseUrl}/stats`
+    );
+    return response.data;
+  }
+
+  /**
+   * Get the auto-moderation rules applied to tournament chat
+   */
+  async getRules(): Promise<ModerationRuleSet> {
+    const response = await apiClient.get<{ data: ModerationRuleSet }>(
+      `${this.baseUrl}/rules`
+    );
+    return response.data;
+  }
+
+  /**
+   * Replace the auto-moderation rules
+   */
+  async updateRules(
+    ruleSet: Pick<ModerationRuleSet, "enabled" | "rules">
+  ): Promise<ModerationRuleSet> {
+    const response = await apiClient.put<{ data: ModerationRuleSet }>(
+      `${this.baseUrl}/rules`,
+      ruleSet
+    );
+    return response.data;
+  }
+
+  /**
+   * Get the penalties applied for each successive offence
+   */
+  async getPenaltyLadder(): Promise<PenaltyStep[]> {
+    const response = await apiClient.get<{ data: PenaltyStep[] }>(
+      `${this.baseUrl}/penalty-ladder`
+    );
+    return response.data;
+  }
+
+  /**
+   * Replace the penalty ladder
+   */
+  async updatePenaltyLadder(steps: PenaltyStep[]): Promise<PenaltyStep[]> {
+    const response = await apiClient.put<{ data: PenaltyStep[] }>(
+      `${this.baseUrl}/penalty-ladder`,
+      { steps }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get every case file for a user, newest first
+   */
+  async getUserCases(userId: string): Promise<ModerationCase[]> {
+    const response = await apiClient.get<{ data: ModerationCase[] }>(
+      `${this.baseUrl}/cases?userId=${userId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Open a case file for a user
+   */
+  async openCase(
+    userId: string,
+    summary: string,
+    entries: NewCaseEntry[] = []
+  ): Promise<ModerationCase> {
+    const response = await apiClient.post<{ data: ModerationCase }>(
+      `${this.baseUrl}/cases`,
+      { userId, summary, entries }
+    );
+    return response.data;
+  }
+
+  /**
+   * Add a flag, penalty or note to a case
+   */
+  async addCaseEntry(
+    caseId: string,
+    entry: NewCaseEntry
+  ): Promise<ModerationCase> {
+    const response = await apiClient.post<{ data: ModerationCase }>(
+      `${this.baseUrl}/cases/${caseId}/entries`,
+      entry
+    );
+    return response.data;
+  }
+
+  /**
+   * Add flagged content to the user's open case, opening one if needed
+   */
+  async fileFlaggedContent(content: FlaggedContent): Promise<ModerationCase> {
+    const entry: NewCaseEntry = {
+      type: "flag",
+      text: content.message,
+      flaggedContentId: content.id,
+    };
+    const cases = await this.getUserCases(content.userId);
+    const openCase = cases.find((c) => c.status === "open");
+    return openCase
+      ? this.addCaseEntry(openCase.id, entry)
+      : this.openCase(
+          content.userId,
+          content.reason.replace(/_/g, " "),
+          [entry]
+        );
+  }
+
+  /**
+   * Attach a screenshot or other file to a case
+   */
+  async attachEvidence(caseId: string, file: File): Promise<ModerationCase> {
+    const formData = new FormData();
+    formData.append("file", file);
+    const response = await apiClient.post<{ data: ModerationCase }>(
+      `${this.baseUrl}/cases/${caseId}/evidence`,
+      formData,
+      { headers: { "Content-Type": "multipart/form-data" } }
+    );
+    return response.data;
+  }
+
+  /**
+   * Remove an attachment from a case
+   */
+  async removeEvidence(
+    caseId: string,
+    evidenceId: string
+  ): Promise<ModerationCase> {
+    const response = await apiClient.delete<{ data: ModerationCase }>(
+      `${this.baseUrl}/cases/${caseId}/evidence/${evidenceId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Close a case once no further action is needed
+   */
+  async closeCase(caseId: string, note?: string): Promise<ModerationCase> {
+    const response = await apiClient.post<{ data: ModerationCase }>(
+      `${this.baseUrl}/cases/${caseId}/close`,
+      { note }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get appeals across all cases, oldest first
+   */
+  async getAppeals(
+    status: AppealStatus = "pending"
+  ): Promise<{ appeal: CaseAppeal; case: ModerationCase }[]> {
+    const response = await apiClient.get<{
+      data: { appeal: CaseAppeal; case: ModerationCase }[];
+    }>(`${this.baseUrl}/appeals?status=${status}`);
+    return response.data;
+  }
+
+  /**
+   * Record an appeal the user sent outside the app
+   */
+  async submitAppeal(
+    caseId: string,
+    message: string
+  ): Promise<ModerationCase> {
+    const response = await apiClient.post<{ data: ModerationCase }>(
+      `${this.baseUrl}/cases/${caseId}/appeals`,
+      { message }
+    );
+    return response.data;
+  }
+
+  /**
+   * Decide an appeal. Overturning marks the case overturned but leaves
+   * lifting the penalties to the caller.
+   */
+  async reviewAppeal(
+    caseId: string,
+    appealId: string,
+    decision: Exclude<AppealStatus, "pending">,
+    note: string
+  ): Promise<ModerationCase> {
+    const response = await apiClient.post<{ data: ModerationCase }>(
+      `${this.baseUrl}/cases/${caseId}/appeals/${appealId}/review`,
+      { decision, note }
+    );
+    return response.data;
+  }
+
+  /**
+   * Record a penalty against the user and log it on the case
+   */
+  async applyPenalty(
+    moderationCase: ModerationCase,
+    step: PenaltyStep,
+    reason: string
+  ): Promise<ModerationCase> {
+    const action = await userService.addModerationAction(
+      moderationCase.userId,
+      step.action,
+      reason,
+      step.action === "suspend" ? step.durationHours : undefined
+    );
+    return this.addCaseEntry(moderationCase.id, {
+      type:
+        step.action === "warn"
+          ? "warning"
+          : step.action === "suspend"
+            ? "suspension"
+            : "ban",
+      text: reason,
+      actionId: action.id,
+      durationHours: action.duration,
+    });
+  }
+
+  /**
+   * Lift every penalty a case applied, for overturned appeals. Penalties
+   * that are already gone count as lifted, so this can be run again after
+   * a partial failure.
+   */
+  async liftCasePenalties(moderationCase: ModerationCase): Promise<number> {
+    const actionIds = moderationCase.entries
+      .map((entry) => entry.actionId)
+      .filter((id): id is string => !!id);
+    const results = await Promise.allSettled(
+      actionIds.map((id) =>
+        userService
+          .removeModerationAction(moderationCase.userId, id)
+          .catch((error) => {
+            const status = (error as { response?: { status?: number } })
+              .response?.status;
+            if (status !== 404) throw error;
+          })
+      )
+    );
+    const failed = results.filter((r) => r.status === "rejected").length;
+    if (failed > 0) {
+      throw new Error(`${failed} penalty(ies) could not be lifted`);
+    }
+    return actionIds.length;
+  }
+
+  /**
+   * Ban a user, permanently when no duration (in days) is given
+   */
+  async banUser(
+    userId: string,
+    reason: string,
+    duration?: number
+  ): Promise<PlatformUser> {
+    return userService.banUser(userId, reason, duration);
+  }
+
+  /**
+   * Suspend a user for a number of days
+   */
+  async suspendUser(
+    userId: string,
+    reason: string,
+    duration: number
+  ): Promise<PlatformUser> {
+    return userService.suspendUser(userId, reason, duration);
+  }
+
+  /**
+   * Lift a ban or suspension
+   */
+  async unbanUser(userId: string): Promise<PlatformUser> {
+    return userService.unbanUser(userId);
+  }
+}
+
+export const moderationService = new ModerationService();
@@ -1,4 +1,5 @@
 import { apiClient } from "@/lib/api-client";
+import { PayoutBatch } from "@/lib/payout-batch";
 import {
   AdminPayment,
   PaginationInfo,
@@ -70,10 +71,64 @@ export interface PaymentAuditEntry {
   createdAt: string;
 }
 
+export interface PaymentDispute {
+  id: string;
+  paymentId: string;
+  userId: string;
+  reason: string;
+  status: "open" | "investigating" | "resolved" | "closed";
+  priority: "low" | "medium" | "high" | "urgent";
+  description?: string;
+  assignedTo?: {
+    id: string;
+    name: string;
+  };
+  user?: {
+    id: string;
+    username: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DisputeNote {
+  id: string;
+  disputeId: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface DisputeStatusChange {
+  id: string;
+  disputeId: string;
+  fromStatus: PaymentDispute["status"];
+  toStatus: PaymentDispute["status"];
+  changedBy: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface DisputeDetails extends PaymentDispute {
+  notes: DisputeNote[];
+  statusHistory: DisputeStatusChange[];
+}
+
+export interface CreateDisputeData {
+  paymentId: string;
+  reason: string;
+  priority: PaymentDispute["priority"];
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
 export interface CreateRefundData {
   paymentId: string;
   amount?: number; // Partial refund if specified
   reason: string;
+  // A repeated key returns the earlier refund instead of refunding again
+  idempotencyKey?: string;
 }
 
 export interface UpdatePaymentStatusData {
@@ -155,6 +210,7 @@ export interface WithdrawalRequest {
   requestedAt: string;
   processedAt?: string;
   failureReason?: string;
+  payoutBatchId?: string; // Set while the withdrawal is claimed by a batch
   metadata?: Record<string, unknown>;
   user?: {
     id: string;
@@ -172,6 +228,25 @@ export interface ProcessWithdrawalData {
   failureReason?: string;
   transactionReference?: string;
   adminNotes?: string;
+  payoutBatchId?: string; // Only apply while the withdrawal is in this batch
+}
+
+export interface WithdrawalApproval {
+  id: string;
+  withdrawalId: string;
+  adminId: string;
+  adminName: string;
+  decision: "APPROVED" | "REJECTED";
+  notes?: string;
+  createdAt: string;
+}
+
+export interface WithdrawalPolicy {
+  approvalThreshold: number; // amounts above this need a second admin
+  dailyLimitPerUser: number;
+  maxWithdrawalsPerDay: number;
+  velocityWindowMinutes: number;
+  maxWithdrawalsPerWindow: number;
 }
 
 export interface WithdrawalStats {
@@ -300,6 +375,7 @@ export class PaymentService {
       {
         amount: data.amount,
         reason: data.reason,
+        idempotencyKey: data.idempotencyKey,
       }
     );
     return (response as { data: PaymentRefund }).data;
@@ -414,6 +490,24 @@ export class PaymentService {
     return response.data;
   }
 
+  /**
+   * Get every payment made for a tournament, across all pages
+   */
+  async getAllTournamentPayments(
+    tournamentId: string
+  ): Promise<AdminPayment[]> {
+    const payments: AdminPayment[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.getTournamentPayments(
+        tournamentId,
+        page,
+        100
+      );
+      payments.push(...response.payments);
+      if (!response.pagination.hasNextPage) return payments;
+    }
+  }
+
   /**
    * Get pending withdrawal requests
    */
@@ -448,6 +542,20 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Get every withdrawal request with a status, across all pages
+   */
+  async getAllWithdrawalRequests(
+    status: WithdrawalRequest["status"]
+  ): Promise<WithdrawalRequest[]> {
+    const withdrawals: WithdrawalRequest[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.getWithdrawalRequests(status, page, 100);
+      withdrawals.push(...response.withdrawals);
+      if (!response.pagination.hasNextPage) return withdrawals;
+    }
+  }
+
   /**
    * Process withdrawal request (approve/reject)
    */
@@ -459,10 +567,158 @@ export class PaymentService {
         failureReason: data.failureReason,
         transactionReference: data.transactionReference,
         adminNotes: data.adminNotes,
+        payoutBatchId: data.payoutBatchId,
       }
     );
   }
 
+  /**
+   * Get a user's withdrawal history for limit and velocity checks
+   */
+  async getUserWithdrawals(
+    userId: string,
+    since?: string,
+    limit: number = 100
+  ): Promise<WithdrawalRequest[]> {
+    const params = new URLSearchParams({
+      userId,
+      limit: limit.toString(),
+    });
+    if (since) {
+      params.append("startDate", since);
+    }
+
+    const response = await apiClient.get<{
+      data: {
+        withdrawals: WithdrawalRequest[];
+        pagination: PaginationInfo;
+      };
+    }>(`/api/payments/admin/withdrawals?${params}`);
+    return response.data.withdrawals;
+  }
+
+  /**
+   * Get withdrawals paid out to a mobile money number, from any user
+   */
+  async getWithdrawalsToDestination(
+    destinationNumber: string,
+    limit: number = 100
+  ): Promise<WithdrawalRequest[]> {
+    const params = new URLSearchParams({
+      destinationNumber,
+      limit: limit.toString(),
+    });
+
+    const response = await apiClient.get<{
+      data: {
+        withdrawals: WithdrawalRequest[];
+        pagination: PaginationInfo;
+      };
+    }>(`/api/payments/admin/withdrawals?${params}`);
+    return response.data.withdrawals;
+  }
+
+  /**
+   * Store a payout batch and claim its withdrawals. The server moves each
+   * one to processing with the batch ID, and rejects the whole batch if any
+   * is already in another batch or no longer pending, or the ID is taken.
+   */
+  async createPayoutBatch(batch: PayoutBatch): Promise<PayoutBatch> {
+    const response = await apiClient.post<{ data: PayoutBatch }>(
+      "/api/payments/admin/payout-batches",
+      batch
+    );
+    return response.data;
+  }
+
+  /**
+   * Get payout batches, optionally only those with a given status
+   */
+  async getPayoutBatches(
+    status?: PayoutBatch["status"]
+  ): Promise<PayoutBatch[]> {
+    const params = new URLSearchParams();
+    if (status) {
+      params.append("status", status);
+    }
+
+    const response = await apiClient.get<{ data: PayoutBatch[] }>(
+      `/api/payments/admin/payout-batches?${params}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Mark a batch reconciled once every item has a result
+   */
+  async markPayoutBatchReconciled(batchId: string): Promise<void> {
+    await apiClient.put(`/api/payments/admin/payout-batches/${batchId}`, {
+      status: "reconciled",
+    });
+  }
+
+  /**
+   * Get the current state of the withdrawals claimed by a batch
+   */
+  async getPayoutBatchWithdrawals(
+    batchId: string
+  ): Promise<WithdrawalRequest[]> {
+    const response = await apiClient.get<{ data: WithdrawalRequest[] }>(
+      `/api/payments/admin/payout-batches/${batchId}/withdrawals`
+    );
+    return response.data;
+  }
+
+  /**
+   * Get the approval log for a withdrawal
+   */
+  async getWithdrawalApprovals(
+    withdrawalId: string
+  ): Promise<WithdrawalApproval[]> {
+    const response = await apiClient.get<{ data: WithdrawalApproval[] }>(
+      `/api/payments/admin/withdrawals/${withdrawalId}/approvals`
+    );
+    return response.data;
+  }
+
+  /**
+   * Record a first-level approval or rejection (maker step)
+   */
+  async approveWithdrawal(
+    withdrawalId: string,
+    decision: WithdrawalApproval["decision"],
+    notes?: string
+  ): Promise<WithdrawalApproval> {
+    const response = await apiClient.post<{ data: WithdrawalApproval }>(
+      `/api/payments/admin/withdrawals/${withdrawalId}/approvals`,
+      { decision, notes }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get withdrawal approval thresholds and limits
+   */
+  async getWithdrawalPolicy(): Promise<WithdrawalPolicy> {
+    const response = await apiClient.get<{ data: WithdrawalPolicy }>(
+      "/api/payments/admin/withdrawals/policy"
+    );
+    return response.data;
+  }
+
+  /**
+   * Update withdrawal approval thresholds and limits
+   */
+  async updateWithdrawalPolicy(
+    policy: Partial<WithdrawalPolicy>
+  ): Promise<WithdrawalPolicy> {
+    const response = await apiClient.put<{ data: WithdrawalPolicy }>(
+      "/api/payments/admin/withdrawals/policy",
+      policy
+    );
+    return response.data;
+  }
+
   /**
    * Get withdrawal statistics
    */
@@ -647,16 +903,7 @@ export class PaymentService {
     page: number = 1,
     limit: number = 20
   ): Promise<{
-    disputes: Array<{
-      id: string;
-      paymentId: string;
-      userId: string;
-      reason: string;
-      status: "open" | "investigating" | "resolved" | "closed";
-      priority: "low" | "medium" | "high" | "urgent";
-      createdAt: string;
-      updatedAt: string;
-    }>;
+    disputes: PaymentDispute[];
     pagination: PaginationInfo;
   }> {
     const params = new URLSearchParams({
@@ -669,21 +916,87 @@ export class PaymentService {
 
     const response = await apiClient.get<{
       data: {
-        disputes: Array<{
-          id: string;
-          paymentId: string;
-          userId: string;
-          reason: string;
-          status: "open" | "investigating" | "resolved" | "closed";
-          priority: "low" | "medium" | "high" | "urgent";
-          createdAt: string;
-          updatedAt: string;
-        }>;
+        disputes: PaymentDispute[];
         pagination: PaginationInfo;
       };
     }>(`/api/payments/admin/disputes?${params}`);
     return response.data;
   }
+
+  /**
+   * Get every dispute with a status, across all pages
+   */
+  async getAllDisputes(
+    status: PaymentDispute["status"]
+  ): Promise<PaymentDispute[]> {
+    const disputes: PaymentDispute[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.getDisputes(status, page, 100);
+      disputes.push(...response.disputes);
+      if (!response.pagination.hasNextPage) return disputes;
+    }
+  }
+
+  /**
+   * Get a dispute with its notes and status history
+   */
+  async getDisputeDetails(disputeId: string): Promise<DisputeDetails> {
+    const response = await apiClient.get<{ data: DisputeDetails }>(
+      `/api/payments/admin/disputes/${disputeId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Move a dispute to a new status
+   */
+  async updateDisputeStatus(
+    disputeId: string,
+    status: PaymentDispute["status"],
+    reason?: string
+  ): Promise<PaymentDispute> {
+    const response = await apiClient.put<{ data: PaymentDispute }>(
+      `/api/payments/admin/disputes/${disputeId}/status`,
+      { status, reason }
+    );
+    return response.data;
+  }
+
+  /**
+   * Assign a dispute to an admin (null to unassign)
+   */
+  async assignDispute(
+    disputeId: string,
+    adminId: string | null
+  ): Promise<PaymentDispute> {
+    const response = await apiClient.put<{ data: PaymentDispute }>(
+      `/api/payments/admin/disputes/${disputeId}/assign`,
+      { adminId }
+    );
+    return response.data;
+  }
+
+  /**
+   * Add an internal note to a dispute
+   */
+  async addDisputeNote(disputeId: string, body: string): Promise<DisputeNote> {
+    const response = await apiClient.post<{ data: DisputeNote }>(
+      `/api/payments/admin/disputes/${disputeId}/notes`,
+      { body }
+    );
+    return response.data;
+  }
+
+  /**
+   * Open a dispute against a payment
+   */
+  async createDispute(data: CreateDisputeData): Promise<PaymentDispute> {
+    const response = await apiClient.post<{ data: PaymentDispute }>(
+      "/api/payments/admin/disputes",
+      data
+    );
+    return response.data;
+  }
 }
 
 export const paymentService = new PaymentService();
@@ -0,0 +1,244 @@
+import { apiClient } from "@/lib/api-client";
+import { PaginationInfo } from "@/types/admin";
+import { userService, UserGameHistory } from "@/services/UserService";
+import { paymentService } from "@/services/PaymentService";
+import { scoreRisk, LINKED_ACCOUNT_LIMIT } from "@/lib/risk-scoring";
+
+export type RiskSignalType =
+  | "shared_device"
+  | "shared_phone"
+  | "shared_destination"
+  | "deposit_withdraw"
+  | "repeat_opponent";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface RiskSignal {
+  type: RiskSignalType;
+  points: number;
+  summary: string;
+  details: string[];
+  relatedUserIds: string[];
+}
+
+export interface RiskAssessment {
+  userId: string;
+  username: string;
+  score: number; // 0-100
+  level: RiskLevel;
+  signals: RiskSignal[];
+  assessedAt: string;
+}
+
+export type RiskReviewStatus = "open" | "cleared" | "actioned";
+
+export interface RiskReview extends RiskAssessment {
+  id: string;
+  status: RiskReviewStatus;
+  reviewedBy?: { id: string; name: string };
+  reviewNote?: string;
+  reviewedAt?: string;
+}
+
+export type CollusionFindingType =
+  | "win_asymmetry"
+  | "short_games"
+  | "rating_pumping";
+
+export interface FlaggedGame {
+  id: string;
+  gameType: UserGameHistory["gameType"];
+  result: UserGameHistory["result"]; // From the first player's side
+  duration: number; // in seconds
+  eloChange: number; // From the first player's side
+  tournamentId?: string;
+  tournamentName?: string;
+  createdAt: string;
+}
+
+export interface CollusionFinding {
+  type: CollusionFindingType;
+  playerIds: [string, string];
+  usernames: [string, string];
+  summary: string;
+  details: string[];
+  games: FlaggedGame[];
+  tournaments: { id: string; name: string }[];
+}
+
+export interface CollusionCase extends CollusionFinding {
+  id: string;
+  status: RiskReviewStatus;
+  detectedAt: string;
+  reviewedBy?: { id: string; name: string };
+  reviewNote?: string;
+  reviewedAt?: string;
+}
+
+export interface RiskSubject {
+  id: string;
+  username: string;
+  phoneNumber?: string;
+}
+
+const HISTORY_DAYS = 90;
+
+export class RiskService {
+  private baseUrl = "/api/admin/risk";
+
+  /**
+   * Score a user from their devices, linked accounts, withdrawals, payments
+   * and games
+   */
+  async assessUser(user: RiskSubject): Promise<RiskAssessment> {
+    const since = new Date(
+      Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+
+    const [devices, similar, withdrawals, payments, games] = await Promise.all(
+      [
+        userService.getUserDevices(user.id),
+        userService.getSimilarUsers(user.id),
+        paymentService.getUserWithdrawals(user.id, since),
+        userService.getUserPaymentHistory(user.id, 1, 200),
+        userService.getUserGameHistory(user.id, 1, 200),
+      ]
+    );
+
+    const linked = similar
+      .filter((account) => account.id !== user.id)
+      .slice(0, LINKED_ACCOUNT_LIMIT);
+    const linkedAccounts = await Promise.all(
+      linked.map(async (account) => ({
+        user: account,
+        devices: await userService.getUserDevices(account.id),
+      }))
+    );
+
+    const destinations = Array.from(
+      new Set(
+        withdrawals
+          .map((withdrawal) => withdrawal.destinationNumber)
+          .filter((number): number is string => !!number)
+      )
+    );
+    const destinationWithdrawals = (
+      await Promise.all(
+        destinations.map((number) =>
+          paymentService.getWithdrawalsToDestination(number)
+        )
+      )
+    ).flat();
+
+    return {
+      userId: user.id,
+      username: user.username,
+      assessedAt: new Date().toISOString(),
+      ...scoreRisk({
+        user,
+        devices,
+        linkedAccounts,
+        withdrawals,
+        destinationWithdrawals,
+        payments: payments.payments,
+        games: games.games,
+      }),
+    };
+  }
+
+  /**
+   * Get flagged accounts, highest score first
+   */
+  async getReviews(
+    status: RiskReviewStatus = "open",
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ reviews: RiskReview[]; pagination: PaginationInfo }> {
+    const params = new URLSearchParams({
+      status,
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    const response = await apiClient.get<{
+      data: { reviews: RiskReview[]; pagination: PaginationInfo };
+    }>(`${this.baseUrl}/reviews?${params.toString()}`);
+    return response.data;
+  }
+
+  /**
+   * Put an assessment in the review queue. An open review for the same
+   * user is updated rather than duplicated.
+   */
+  async flagForReview(assessment: RiskAssessment): Promise<RiskReview> {
+    const response = await apiClient.post<{ data: RiskReview }>(
+      `${this.baseUrl}/reviews`,
+      assessment
+    );
+    return response.data;
+  }
+
+  /**
+   * Close a review, either clearing the account or recording that action
+   * was taken
+   */
+  async resolveReview(
+    reviewId: string,
+    status: Exclude<RiskReviewStatus, "open">,
+    note: string
+  ): Promise<RiskReview> {
+    const response = await apiClient.patch<{ data: RiskReview }>(
+      `${this.baseUrl}/reviews/${reviewId}`,
+      { status, note }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get collusion cases, newest first
+   */
+  async getCollusionCases(
+    status: RiskReviewStatus = "open",
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ cases: CollusionCase[]; pagination: PaginationInfo }> {
+    const params = new URLSearchParams({
+      status,
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    const response = await apiClient.get<{
+      data: { cases: CollusionCase[]; pagination: PaginationInfo };
+    }>(`${this.baseUrl}/collusion?${params.toString()}`);
+    return response.data;
+  }
+
+  /**
+   * Open cases for new findings. A finding matching an open case for the
+   * same pair and type adds its games to that case instead.
+   */
+  async reportCollusion(
+    findings: CollusionFinding[]
+  ): Promise<{ opened: number; updated: number }> {
+    const response = await apiClient.post<{
+      data: { opened: number; updated: number };
+    }>(`${this.baseUrl}/collusion`, { findings });
+    return response.data;
+  }
+
+  /**
+   * Close a collusion case as cleared or actioned
+   */
+  async resolveCollusionCase(
+    caseId: string,
+    status: Exclude<RiskReviewStatus, "open">,
+    note: string
+  ): Promise<CollusionCase> {
+    const response = await apiClient.patch<{ data: CollusionCase }>(
+      `${this.baseUrl}/collusion/${caseId}`,
+      { status, note }
+    );
+    return response.data;
+  }
+}
+
+export const riskService = new RiskService();
@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { apiClient } from "@/lib/api-client";
+import { PaginationInfo } from "@/types/admin";
+
+export const platformSettingsSchema = z.object({
+  name: z.string().trim().min(1, "Platform name is required").max(100),
+  description: z.string().max(500),
+  version: z.string().min(1, "Version is required"),
+  maintenanceMode: z.boolean(),
+  registrationEnabled: z.boolean(),
+  maxUsersPerTournament: z
+    .number()
+    .int()
+    .min(2, "Tournaments need at least 2 players")
+    .max(1024, "Maximum 1024 players per tournament"),
+  defaultTournamentDuration: z
+    .number()
+    .int()
+    .min(1, "Duration must be at least 1 day")
+    .max(90, "Duration cannot exceed 90 days"),
+});
+
+export const securitySettingsSchema = z.object({
+  sessionTimeout: z
+    .number()
+    .min(1, "Session timeout must be at least 1 hour")
+    .max(720, "Session timeout cannot exceed 30 days"),
+  maxLoginAttempts: z.number().int().min(1).max(20),
+  requireEmailVerification: z.boolean(),
+  requirePhoneVerification: z.boolean(),
+  twoFactorEnabled: z.boolean(),
+  passwordMinLength: z
+    .number()
+    .int()
+    .min(6, "Passwords must be at least 6 characters")
+    .max(64),
+});
+
+export const paymentSettingsSchema = z
+  .object({
+    currency: z.string().length(3, "Use a 3 letter currency code"),
+    paymentMethods: z
+      .array(z.string())
+      .min(1, "Enable at least one payment method"),
+    transactionFee: z
+      .number()
+      .min(0, "Transaction fee cannot be negative")
+      .max(100, "Transaction fee cannot exceed 100%"),
+    minimumWithdrawal: z.number().min(0, "Minimum cannot be negative"),
+    maximumWithdrawal: z.number().min(0, "Maximum cannot be negative"),
+    autoApproveWithdrawals: z.boolean(),
+  })
+  .refine((data) => data.maximumWithdrawal >= data.minimumWithdrawal, {
+    message: "Maximum withdrawal must be at least the minimum",
+    path: ["maximumWithdrawal"],
+  });
+
+export const featureSettingsSchema = z.object({
+  tournaments: z.boolean(),
+  leaderboards: z.boolean(),
+  chat: z.boolean(),
+  notifications: z.boolean(),
+  analytics: z.boolean(),
+  moderation: z.boolean(),
+});
+
+export const integrationSettingsSchema = z.object({
+  pesepayEnabled: z.boolean(),
+  ecocashEnabled: z.boolean(),
+  onemoneyEnabled: z.boolean(),
+  emailService: z.enum(["sendgrid", "mailgun", "ses"]),
+  smsService: z.enum(["twilio", "africastalking", "nexmo"]),
+});
+
+export const platformConfigSchema = z.object({
+  platform: platformSettingsSchema,
+  security: securitySettingsSchema,
+  payments: paymentSettingsSchema,
+  features: featureSettingsSchema,
+  integrations: integrationSettingsSchema,
+});
+
+export type PlatformConfig = z.infer<typeof platformConfigSchema>;
+export type SettingsSection = keyof PlatformConfig;
+export type SettingValue = string | number | boolean | string[];
+
+export interface SettingsChange {
+  section: SettingsSection;
+  key: string;
+  before: SettingValue | undefined;
+  after: SettingValue | undefined;
+}
+
+export interface SettingsVersion {
+  id: string;
+  version: number;
+  settings: PlatformConfig;
+  changes: SettingsChange[];
+  author: {
+    id: string;
+    name: string;
+  };
+  comment?: string;
+  restoredFrom?: number; // Version this snapshot rolled back to
+  createdAt: string;
+}
+
+export class SettingsService {
+  private baseUrl = "/api/admin/settings";
+
+  /**
+   * Get the current settings and the version they were saved as
+   */
+  async getSettings(): Promise<{ settings: PlatformConfig; version: number }> {
+    const response = await apiClient.get<{
+      data: { settings: unknown; version: number };
+    }>(this.baseUrl);
+    return {
+      settings: platformConfigSchema.parse(response.data.settings),
+      version: response.data.version,
+    };
+  }
+
+  /**
+   * Validate and save settings. The API stores the result as a new
+   * version recording the author and the changes. baseVersion is the
+   * version the changes were made against; the API refuses the save with a
+   * 409 if another version has been saved since, so one admin never
+   * silently overwrites another. Resolves to null in that case.
+   */
+  async updateSettings(
+    settings: PlatformConfig,
+    changes: SettingsChange[],
+    baseVersion: number,
+    comment?: string
+  ): Promise<SettingsVersion | null> {
+    try {
+      const response = await apiClient.put<{ data: SettingsVersion }>(
+        this.baseUrl,
+        {
+          settings: platformConfigSchema.parse(settings),
+          changes,
+          baseVersion,
+          comment,
+        },
+        { skipErrorToast: true }
+      );
+      return response.data;
+    } catch (error) {
+      const status = (error as { response?: { status?: number } }).response
+        ?.status;
+      if (status === 409) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Get saved versions, newest first
+   */
+  async getSettingsHistory(
+    page = 1,
+    limit = 20
+  ): Promise<{ versions: SettingsVersion[]; pagination: PaginationInfo }> {
+    const response = await apiClient.get<{
+      data: { versions: SettingsVersion[]; pagination: PaginationInfo };
+    }>(`${this.baseUrl}/versions?page=${page}&limit=${limit}`);
+    return response.data;
+  }
+
+  /**
+   * Get a single saved version
+   */
+  async getSettingsVersion(version: number): Promise<SettingsVersion> {
+    const response = await apiClient.get<{ data: SettingsVersion }>(
+      `${this.baseUrl}/versions/${version}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Restore an earlier version. The restore is saved as a new version so
+   * history is never rewritten.
+   */
+  async rollbackSettings(
+    version: number,
+    comment?: string
+  ): Promise<SettingsVersion> {
+    const response = await apiClient.post<{ data: SettingsVersion }>(
+      `${this.baseUrl}/versions/${version}/rollback`,
+      { comment }
+    );
+    return response.data;
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -83,22 +83,56 @@ export interface TournamentParticipant {
   seed: number;
   registrationDate: string;
   status: "registered" | "confirmed" | "withdrawn";
+  // Player profile fields used when previewing advanced seeding
+  rating?: number;
+  province?: string;
+  city?: string;
+  institution?: string;
+}
+
+export interface BracketMatch {
+  id: string;
+  player1Id: string;
+  player2Id?: string; // Missing for a bye or an undecided feeder match
+  isBye?: boolean; // Brackets generated before byes were marked omit it
+  winnerId?: string; // Missing on a completed match means a draw
+  status: "pending" | "active" | "completed";
+  scheduledTime?: string;
+  completedTime?: string;
+}
+
+export interface BracketRound {
+  id: string;
+  roundNumber: number;
+  // Double elimination only; single elimination rounds omit it
+  bracket?: "winners" | "losers" | "grand_final";
+  matches: BracketMatch[];
 }
 
 export interface TournamentBracket {
-  rounds: {
-    id: string;
-    roundNumber: number;
-    matches: {
-      id: string;
-      player1Id: string;
-      player2Id?: string;
-      winnerId?: string;
-      status: "pending" | "active" | "completed";
-      scheduledTime?: string;
-      completedTime?: string;
-    }[];
-  }[];
+  rounds: BracketRound[];
+}
+
+// One winner's share of the prize pool, credited to their wallet
+export interface PrizePayout {
+  id: string;
+  tournamentId: string;
+  userId: string;
+  username: string;
+  position: number;
+  amount: number;
+  paymentId: string; // The prize_payout payment record
+  idempotencyKey: string;
+  paidBy?: { id: string; name: string };
+  paidAt: string;
+}
+
+export interface PrizePayoutRequest {
+  userId: string;
+  position: number;
+  amount: number;
+  // Resending a key returns the original payout instead of paying again
+  idempotencyKey: string;
 }
 
 export interface TournamentAnalytics {
@@ -114,6 +148,32 @@ export interface TournamentAnalytics {
   }[];
 }
 
+export interface TournamentChatMessage {
+  id: string;
+  tournamentId: string;
+  userId: string;
+  username: string;
+  message: string;
+  isDeleted?: boolean;
+  createdAt: string;
+}
+
+export interface TournamentChatResponse {
+  messages: TournamentChatMessage[];
+  pagination: PaginationInfo;
+}
+
+export interface TournamentChatMute {
+  userId: string;
+  username: string;
+  mutedBy?: {
+    id: string;
+    name: string;
+  };
+  mutedAt: string;
+  expiresAt: string;
+}
+
 class TournamentService {
   private baseUrl = "/api/tournaments";
 
@@ -534,9 +594,29 @@ class TournamentService {
     return apiClient.post<AdminTournament>(`${this.baseUrl}/${id}/resume`);
   }
 
+  // Prize Payouts
+  async getPrizePayouts(id: string): Promise<PrizePayout[]> {
+    return apiClient.get<PrizePayout[]>(`${this.baseUrl}/${id}/payouts`);
+  }
+
+  // Credits the winner's wallet and records a prize_payout payment
+  async payPrize(
+    tournamentId: string,
+    payout: PrizePayoutRequest
+  ): Promise<PrizePayout> {
+    return apiClient.post<PrizePayout>(
+      `${this.baseUrl}/${tournamentId}/payouts`,
+      payout
+    );
+  }
+
   // Chat Moderation
-  async getTournamentChat(id: string, page = 1, limit = 50) {
-    return apiClient.get(
+  async getTournamentChat(
+    id: string,
+    page = 1,
+    limit = 50
+  ): Promise<TournamentChatResponse> {
+    return apiClient.get<TournamentChatResponse>(
       `${this.baseUrl}/${id}/chat?page=${page}&limit=${limit}`
     );
   }
@@ -547,6 +627,17 @@ class TournamentService {
     );
   }
 
+  // Removes every message the user posted in this tournament's chat
+  async deleteUserMessages(
+    tournamentId: string,
+    userId: string
+  ): Promise<{ deleted: number }> {
+    return apiClient.delete<{ deleted: number }>(
+      `${this.baseUrl}/${tournamentId}/chat/users/${userId}/messages`
+    );
+  }
+
+  // Duration is in minutes
   async muteUser(
     tournamentId: string,
     userId: string,
@@ -558,6 +649,18 @@ class TournamentService {
     });
   }
 
+  async unmuteUser(tournamentId: string, userId: string): Promise<void> {
+    return apiClient.delete(
+      `${this.baseUrl}/${tournamentId}/chat/mute/${userId}`
+    );
+  }
+
+  async getMutedUsers(tournamentId: string): Promise<TournamentChatMute[]> {
+    return apiClient.get<TournamentChatMute[]>(
+      `${this.baseUrl}/${tournamentId}/chat/mutes`
+    );
+  }
+
   // Bulk Operations
   async bulkUpdateTournaments(
     tournamentIds: string[],
@@ -0,0 +1,181 @@
+import { apiClient } from "@/lib/api-client";
+import { CreateTournamentData } from "@/services/TournamentService";
+
+export type RecurrenceFrequency = "daily" | "weekly";
+
+// Fixed-offset zones only, so occurrences never shift with daylight saving
+export type ScheduleTimezone = "CAT" | "EAT" | "WAT" | "UTC";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  weekdays: number[]; // 0 = Sunday; weekly rules only
+  time: string; // "HH:mm" in the rule's timezone
+  timezone: ScheduleTimezone;
+  durationMinutes: number;
+  startsOn: string; // "yyyy-MM-dd", first date the rule applies
+  endsOn?: string;
+}
+
+export type TemplateSettings = Pick<
+  CreateTournamentData,
+  | "gameType"
+  | "bracketType"
+  | "bracketConfig"
+  | "entryFee"
+  | "maxPlayers"
+  | "prizeBreakdown"
+>;
+
+export interface TournamentTemplate extends TemplateSettings {
+  id: string;
+  name: string;
+  title: string; // Each instance is titled with this and its date
+  description: string;
+  recurrence?: RecurrenceRule; // Templates without one are used by hand
+  createAheadDays: number;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TournamentTemplateInput = Omit<
+  TournamentTemplate,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+// Changes to a single occurrence
+export interface OccurrenceOverride {
+  title?: string;
+  time?: string; // "HH:mm", in the rule's timezone
+  entryFee?: number;
+  maxPlayers?: number;
+}
+
+// Stored only for occurrences that were skipped, changed or created
+export interface TemplateOccurrence {
+  templateId: string;
+  date: string; // "yyyy-MM-dd" in the rule's timezone
+  skipped: boolean;
+  override?: OccurrenceOverride;
+  tournamentId?: string;
+  claimedAt?: string; // Set while a session is creating the tournament
+}
+
+export class TournamentTemplateService {
+  private baseUrl = "/api/admin/tournament-templates";
+
+  /**
+   * Get all templates, active or not
+   */
+  async getTemplates(): Promise<TournamentTemplate[]> {
+    const response = await apiClient.get<{ data: TournamentTemplate[] }>(
+      this.baseUrl
+    );
+    return response.data;
+  }
+
+  /**
+   * Save a new template
+   */
+  async createTemplate(
+    template: TournamentTemplateInput
+  ): Promise<TournamentTemplate> {
+    const response = await apiClient.post<{ data: TournamentTemplate }>(
+      this.baseUrl,
+      template
+    );
+    return response.data;
+  }
+
+  /**
+   * Change a template. Tournaments already created from it are unaffected.
+   */
+  async updateTemplate(
+    id: string,
+    template: Partial<TournamentTemplateInput>
+  ): Promise<TournamentTemplate> {
+    const response = await apiClient.put<{ data: TournamentTemplate }>(
+      `${this.baseUrl}/${id}`,
+      template
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete a template along with its skipped and changed occurrences
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    await apiClient.delete(`${this.baseUrl}/${id}`);
+  }
+
+  /**
+   * Get recorded occurrences across all templates between two dates
+   */
+  async getOccurrences(
+    from: string,
+    to: string
+  ): Promise<TemplateOccurrence[]> {
+    const params = new URLSearchParams({ from, to });
+    const response = await apiClient.get<{ data: TemplateOccurrence[] }>(
+      `${this.baseUrl}/occurrences?${params.toString()}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Skip or change one occurrence without touching the rest of the series
+   */
+  async updateOccurrence(
+    templateId: string,
+    date: string,
+    changes: Pick<TemplateOccurrence, "skipped" | "override">
+  ): Promise<TemplateOccurrence> {
+    const response = await apiClient.put<{ data: TemplateOccurrence }>(
+      `${this.baseUrl}/${templateId}/occurrences/${date}`,
+      changes
+    );
+    return response.data;
+  }
+
+  /**
+   * Put an occurrence back to the template's defaults
+   */
+  async resetOccurrence(templateId: string, date: string): Promise<void> {
+    await apiClient.delete(`${this.baseUrl}/${templateId}/occurrences/${date}`);
+  }
+
+  /**
+   * Reserve an occurrence before creating its tournament. Fails if another
+   * session already holds it or it has a tournament, so two open admin
+   * sessions can't both create one.
+   */
+  async claimOccurrence(
+    templateId: string,
+    date: string
+  ): Promise<TemplateOccurrence> {
+    const response = await apiClient.post<{ data: TemplateOccurrence }>(
+      `${this.baseUrl}/${templateId}/occurrences/${date}/claim`,
+      undefined,
+      { skipErrorToast: true }
+    );
+    return response.data;
+  }
+
+  /**
+   * Record the tournament created for a claimed occurrence, or give the
+   * claim up if creating it failed
+   */
+  async completeClaim(
+    templateId: string,
+    date: string,
+    tournamentId: string | null
+  ): Promise<TemplateOccurrence> {
+    const response = await apiClient.put<{ data: TemplateOccurrence }>(
+      `${this.baseUrl}/${templateId}/occurrences/${date}/claim`,
+      { tournamentId }
+    );
+    return response.data;
+  }
+}
+
+export const tournamentTemplateService = new TournamentTemplateService();
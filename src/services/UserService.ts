@@ -97,6 +97,15 @@ export interface UserPaymentHistory {
   createdAt: string;
 }
 
+export interface UserDevice {
+  id: string;
+  deviceType: string;
+  deviceName: string;
+  lastUsed: string;
+  ipAddress: string;
+  isActive: boolean;
+}
+
 export interface UserAnalytics {
   totalUsers: number;
   activeUsers: number;
@@ -428,7 +437,8 @@ class UserService {
   async adjustUserWalletBalance(
     id: string,
     amount: number,
-    reason: string
+    reason: string,
+    idempotencyKey?: string // A repeated key returns the earlier adjustment
   ): Promise<{
     newBalance: number;
     transactionId: string;
@@ -436,6 +446,7 @@ class UserService {
     return apiClient.patch(`${this.baseUrl}/${id}/wallet/adjust`, {
       amount,
       reason,
+      idempotencyKey,
     });
   }
 
@@ -572,16 +583,7 @@ class UserService {
   }
 
   // Device Management
-  async getUserDevices(id: string): Promise<
-    {
-      id: string;
-      deviceType: string;
-      deviceName: string;
-      lastUsed: string;
-      ipAddress: string;
-      isActive: boolean;
-    }[]
-  > {
+  async getUserDevices(id: string): Promise<UserDevice[]> {
     return apiClient.get(`${this.baseUrl}/${id}/devices`);
   }
 
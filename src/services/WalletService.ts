@@ -0,0 +1,121 @@
+import { apiClient } from "@/lib/api-client";
+import { PaginationInfo } from "@/types/admin";
+
+export type LedgerEntryType =
+  | "deposit"
+  | "entry_fee"
+  | "prize_payout"
+  | "refund"
+  | "withdrawal"
+  | "adjustment"
+  | "correction";
+
+export interface LedgerEntry {
+  id: string;
+  userId: string;
+  type: LedgerEntryType;
+  amount: number; // Credits are positive, debits negative
+  currency: string;
+  description: string;
+  paymentId?: string;
+  tournamentId?: string;
+  tournamentName?: string;
+  createdBy?: { id: string; name: string }; // Adjustments and corrections
+  createdAt: string;
+}
+
+export type CorrectionStatus = "pending" | "approved" | "rejected";
+
+export interface LedgerCorrection {
+  id: string;
+  userId: string;
+  amount: number;
+  reason: string;
+  status: CorrectionStatus;
+  requestedBy: { id: string; name: string };
+  requestedAt: string;
+  reviewedBy?: { id: string; name: string };
+  reviewNote?: string;
+  reviewedAt?: string;
+  entryId?: string; // Ledger entry posted on approval
+}
+
+const LEDGER_PAGE_SIZE = 500;
+
+export class WalletService {
+  private baseUrl = "/api/users";
+
+  /**
+   * Get one page of a user's ledger, oldest first
+   */
+  async getLedgerPage(
+    userId: string,
+    page: number = 1,
+    limit: number = LEDGER_PAGE_SIZE
+  ): Promise<{ entries: LedgerEntry[]; pagination: PaginationInfo }> {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+    });
+    const response = await apiClient.get<{
+      data: { entries: LedgerEntry[]; pagination: PaginationInfo };
+    }>(`${this.baseUrl}/${userId}/wallet/ledger?${params.toString()}`);
+    return response.data;
+  }
+
+  /**
+   * Get a user's whole ledger. Running balances need every entry.
+   */
+  async getLedger(userId: string): Promise<LedgerEntry[]> {
+    const entries: LedgerEntry[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.getLedgerPage(userId, page);
+      entries.push(...response.entries);
+      if (!response.pagination.hasNextPage) return entries;
+    }
+  }
+
+  /**
+   * Get correcting entries requested for a user, newest first
+   */
+  async getCorrections(userId: string): Promise<LedgerCorrection[]> {
+    const response = await apiClient.get<{ data: LedgerCorrection[] }>(
+      `${this.baseUrl}/${userId}/wallet/corrections`
+    );
+    return response.data;
+  }
+
+  /**
+   * Request a correcting entry. Nothing is posted to the ledger until a
+   * second admin approves it.
+   */
+  async requestCorrection(
+    userId: string,
+    amount: number,
+    reason: string
+  ): Promise<LedgerCorrection> {
+    const response = await apiClient.post<{ data: LedgerCorrection }>(
+      `${this.baseUrl}/${userId}/wallet/corrections`,
+      { amount, reason }
+    );
+    return response.data;
+  }
+
+  /**
+   * Approve or reject a requested correction. Approval posts the entry.
+   */
+  async reviewCorrection(
+    userId: string,
+    correctionId: string,
+    decision: "approved" | "rejected",
+    note: string
+  ): Promise<LedgerCorrection> {
+    const response = await apiClient.post<{ data: LedgerCorrection }>(
+      `${this.baseUrl}/${userId}/wallet/corrections/${correctionId}/review`,
+      { decision, note }
+    );
+    return response.data;
+  }
+}
+
+export const walletService = new WalletService();
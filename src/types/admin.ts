@@ -118,6 +118,8 @@ export interface PlatformUser {
   lastName: string;
   status: "active" | "inactive" | "banned" | "pending";
   role: "user" | "admin" | "moderator";
+  province?: string;
+  city?: string;
   walletBalance: number;
   totalGamesPlayed: number;
   totalWins: number;